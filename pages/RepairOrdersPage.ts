@@ -6,6 +6,7 @@
  * Responsibilities:
  * - Search and filter repair orders
  * - View repair order details
+ * - Attach documents (photos, signed authorizations) in the details panel
  * - Create new repair orders
  * - Update existing repair orders
  * - Table/grid interaction
@@ -18,6 +19,7 @@
 
 import { Page, Locator } from "@playwright/test";
 import { BasePage } from "./BasePage";
+import { AttachmentFile } from "../utils/models";
 
 export class RepairOrdersPage extends BasePage {
   protected readonly path = "/repair-orders";
@@ -99,6 +101,10 @@ export class RepairOrdersPage extends BasePage {
   private readonly detailsDescription: Locator;
   private readonly closeDetailsButton: Locator;
 
+  // Attachments section of the details panel
+  private readonly attachmentInput: Locator;
+  private readonly attachmentItems: Locator;
+
   constructor(page: Page) {
     super(page);
 
@@ -157,6 +163,8 @@ export class RepairOrdersPage extends BasePage {
     this.detailsStatus = this.detailsPanel.locator('.status, [data-field="status"]');
     this.detailsDescription = this.detailsPanel.locator('.description, [data-field="description"]');
     this.closeDetailsButton = this.detailsPanel.locator('button:has-text("Close"), .close-button');
+    this.attachmentInput = this.detailsPanel.locator('input[type="file"]');
+    this.attachmentItems = this.detailsPanel.locator('.attachment-list li, [data-field="attachment"]');
   }
 
   // ====================
@@ -467,4 +475,39 @@ export class RepairOrdersPage extends BasePage {
     await this.click(this.closeDetailsButton);
     await this.waitForElementToDisappear(this.detailsPanel);
   }
+
+  // ====================
+  // Attachment Methods
+  // ====================
+
+  /**
+   * Attach a file to the order open in the details panel
+   * Waits until the file is listed in the panel
+   *
+   * @param file - Path on disk, or an in-memory file
+   *               (e.g., attachmentTestData.inspectionPhoto)
+   */
+  async attachFile(file: string | AttachmentFile): Promise<void> {
+    await this.attachmentInput.setInputFiles(file);
+    const fileName = typeof file === "string" ? file.split(/[\\/]/).pop()! : file.name;
+    await this.waitForElement(this.attachmentItems.filter({ hasText: fileName }).first());
+  }
+
+  /**
+   * Get the file names listed in the details panel
+   * @returns Attachment file names
+   */
+  async getAttachmentNames(): Promise<string[]> {
+    const names = await this.attachmentItems.allTextContents();
+    return names.map((name) => name.trim());
+  }
+
+  /**
+   * Check if a file is listed in the details panel
+   * @param fileName - File name to look for
+   * @returns true if the attachment is visible
+   */
+  async hasAttachment(fileName: string): Promise<boolean> {
+    return await this.isVisible(this.attachmentItems.filter({ hasText: fileName }).first());
+  }
 }
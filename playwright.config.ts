@@ -3,6 +3,14 @@ import { loadEnv } from "./utils/env";
 
 loadEnv();
 
+// Local DMS API stub (API_STUB=true) - see stub/dmsStubServer.ts
+// Points the API suites at the stub, so they run without network access
+const useApiStub = process.env.API_STUB === "true";
+const apiStubPort = Number(process.env.API_STUB_PORT) || 4010;
+if (useApiStub) {
+  process.env.API_BASE_URL = `http://127.0.0.1:${apiStubPort}`;
+}
+
 export default defineConfig({
   testDir: "./tests",
   timeout: 60_000,
@@ -17,5 +25,14 @@ export default defineConfig({
     video: "retain-on-failure"
   },
 
-  projects: [{ name: "chromium", use: { browserName: "chromium" } }]
+  projects: [{ name: "chromium", use: { browserName: "chromium" } }],
+
+  webServer: useApiStub
+    ? {
+        command: "npx tsx stub/start.ts",
+        url: `http://127.0.0.1:${apiStubPort}/health`,
+        reuseExistingServer: !process.env.CI,
+        timeout: 30_000
+      }
+    : undefined
 });
@@ -0,0 +1,1642 @@
+/**
+ * DMS API Stub Server
+ *
+ * In-memory stand-in for the DMS API, so the API suites can run without
+ * network access (on a plane, in a sandbox, in a PR build).
+ *
+ * Why a stub?
+ * 1. api.spec.ts otherwise needs a real API at API_BASE_URL
+ * 2. Deterministic seed data (matches utils/testData.ts)
+ * 3. Responses follow openapi/dms-api.json, so conformance checks stay on
+ *
+ * Implements:
+ * - POST /auth/login, POST /auth/refresh, GET /auth/validate
+ * - /repair-orders CRUD with query filters, sorting and pagination
+ * - /appointments CRUD with query filters, sorting and pagination
+ *   (repeated keys match any of the values, see utils/searchQuery.ts)
+ * - POST /repair-orders/batch and /appointments/batch (create, update or
+ *   delete up to 100 items per request)
+ * - /repair-orders/{id}/attachments multipart upload, listing, download
+ *   and delete (type and size limits from attachmentTestData)
+ * - /webhooks registration, with signed deliveries of repair order and
+ *   appointment events (see utils/webhooks.ts)
+ * - ETags on repair orders and appointments; a PATCH with a stale If-Match
+ *   gets 412 (optimistic concurrency, see utils/concurrency.ts)
+ * - 400/401/403/404 responses in the standard error envelope
+ * - Optional rate limit: X-RateLimit-* headers and 429 with Retry-After
+ * - Payload validation against payloadSchemas (utils/schemas.ts)
+ * - Dealership scoping (utils/tenants.ts) by X-Dealer-Id header or
+ *   /dealers/{dealerId} path prefix
+ * - Role permissions for the role users of utils/roles.ts
+ *
+ * Usage (in-process):
+ * const stub = new DmsStubServer();
+ * const baseURL = await stub.start();
+ * ...
+ * await stub.stop();
+ *
+ * Usage (standalone / Playwright webServer): see stub/start.ts
+ */
+
+import * as http from "http";
+import * as https from "https";
+import { createHash, randomUUID } from "crypto";
+import { AddressInfo } from "net";
+import {
+  ApiError,
+  Appointment,
+  Attachment,
+  AuthToken,
+  RepairOrder,
+  TokenValidation,
+  WebhookEvent,
+  WebhookEventType,
+  WebhookSubscription,
+} from "../utils/models";
+import { payloadSchemas } from "../utils/schemas";
+import { JsonSchema, formats, validateSchema } from "../utils/schemaValidator";
+import {
+  APPOINTMENT_SORT_FIELDS,
+  REPAIR_ORDER_SORT_FIELDS,
+} from "../utils/searchQuery";
+import {
+  apiTestData,
+  appointments,
+  attachmentTestData,
+  errorMessages,
+  repairOrders,
+  roleUsers,
+  tenantConfig,
+  users,
+  webhookConfig,
+} from "../utils/testData";
+import { signPayload } from "../utils/webhooks";
+
+// ====================
+// Types
+// ====================
+
+/**
+ * Records the stub starts with (and returns to on reset())
+ */
+export interface StubSeed {
+  repairOrders: RepairOrder[];
+  appointments: Appointment[];
+}
+
+/**
+ * Stub server configuration
+ */
+export interface DmsStubServerOptions {
+  // Port to listen on (0 = pick a free port)
+  port?: number;
+
+  // Interface to bind (defaults to 127.0.0.1)
+  host?: string;
+
+  // Initial data (defaults to defaultSeed())
+  seed?: StubSeed;
+
+  // Static bearer token accepted besides login-issued ones (defaults to API_TOKEN)
+  staticToken?: string;
+
+  // Lifetime of login-issued tokens in seconds
+  tokenTtlSeconds?: number;
+
+  // Serve the /batch endpoints (false = answer 404, like an API without them)
+  batchEndpoints?: boolean;
+
+  // Requests allowed per window (unset = no rate limit)
+  rateLimit?: StubRateLimit | null;
+}
+
+/**
+ * Fixed-window rate limit shared by all callers
+ */
+export interface StubRateLimit {
+  limit: number;
+  windowMs: number;
+}
+
+/**
+ * A handled response
+ */
+interface StubResponse {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+
+  // Binary content sent as is instead of a JSON body (downloads)
+  raw?: Buffer;
+}
+
+/**
+ * Parsed request passed to route handlers
+ */
+interface StubRequest {
+  method: string;
+  segments: string[];
+  query: URLSearchParams;
+  body: Record<string, unknown>;
+
+  // File parts of a multipart/form-data request, by field name
+  files: Record<string, StubFile>;
+  token: string | null;
+
+  // Requested dealership (header or path prefix), null when unscoped
+  dealerId: string | null;
+
+  // If-Match header, null when absent
+  ifMatch: string | null;
+}
+
+/**
+ * Uploaded file part
+ */
+interface StubFile {
+  fileName: string;
+  contentType: string;
+  content: Buffer;
+}
+
+/**
+ * Attachment with its content
+ */
+interface StoredAttachment extends Attachment {
+  content: Buffer;
+}
+
+/**
+ * Webhook registration with its secret
+ */
+interface StoredWebhook extends WebhookSubscription {
+  secret: string;
+}
+
+interface IssuedToken {
+  username: string;
+  expiresAt: number;
+  refreshToken: string;
+
+  // Dealership of a tenant user - the token is only valid there
+  dealerId?: string;
+
+  // Role of a role user (other users may do everything)
+  role?: StubRole;
+}
+
+type StubRole = keyof typeof roleUsers;
+
+/**
+ * Any record the stub stores
+ */
+type StoredRecord = RepairOrder | Appointment | StoredWebhook;
+
+// ====================
+// Seed Data
+// ====================
+
+/**
+ * Seed data derived from utils/testData.ts
+ *
+ * Contains the records the API suites refer to by ID (RO-2024-001,
+ * APT-2024-001) plus enough extra records to span several pages.
+ */
+export function defaultSeed(): StubSeed {
+  const createdAt = (day: number) =>
+    new Date(Date.UTC(2024, 0, day, 9, 0, 0)).toISOString();
+
+  const existing = repairOrders.existingOrder;
+  const seededOrders: RepairOrder[] = [
+    {
+      id: existing.orderNumber,
+      orderNumber: existing.orderNumber,
+      customerName: existing.customerName,
+      vehicleVin: existing.vehicleVin,
+      status: "In Progress",
+      serviceType: "Brake Service",
+      priority: "Normal",
+      estimatedCost: "450.00",
+      createdAt: createdAt(2),
+      updatedAt: createdAt(2),
+    },
+  ];
+
+  const customers = ["Mary Smith", "Carlos Diaz", "Priya Patel", "Tom Lee"];
+  for (let index = 2; index <= 12; index++) {
+    const orderNumber = `RO-2024-${String(index).padStart(3, "0")}`;
+    seededOrders.push({
+      id: orderNumber,
+      orderNumber,
+      customerName: customers[index % customers.length],
+      vehicleVin: `1HGCM82633A${String(100000 + index)}`,
+      status: repairOrders.statuses[index % repairOrders.statuses.length],
+      serviceType: appointments.serviceTypes[index % appointments.serviceTypes.length],
+      priority: index % 3 === 0 ? "High" : "Normal",
+      estimatedCost: `${100 + index * 25}.00`,
+      createdAt: createdAt(index * 3),
+      updatedAt: createdAt(index * 3),
+    });
+  }
+
+  const existingAppointment = appointments.existingAppointment;
+  const seededAppointments: Appointment[] = [
+    {
+      id: existingAppointment.appointmentId,
+      appointmentId: existingAppointment.appointmentId,
+      customerName: existingAppointment.customerName,
+      phoneNumber: "(555) 222-3344",
+      email: "bob.williams@example.com",
+      serviceType: "Oil Change",
+      vehicleVin: "2T1BURHE0JC123456",
+      scheduledDate: existingAppointment.scheduledDate,
+      scheduledTime: existingAppointment.scheduledTime,
+      status: "Scheduled",
+      createdAt: createdAt(5),
+      updatedAt: createdAt(5),
+    },
+  ];
+  for (let index = 2; index <= 8; index++) {
+    const appointmentId = `APT-2024-${String(index).padStart(3, "0")}`;
+    seededAppointments.push({
+      id: appointmentId,
+      appointmentId,
+      customerName: customers[index % customers.length],
+      phoneNumber: `(555) 100-${String(1000 + index)}`,
+      email: `customer${index}@example.com`,
+      serviceType: appointments.serviceTypes[index % appointments.serviceTypes.length],
+      vehicleVin: `1G1ZD5ST8JF${String(200000 + index)}`,
+      scheduledDate: `2024-07-${String(index).padStart(2, "0")}`,
+      scheduledTime: index % 2 === 0 ? "9:00 AM" : "1:30 PM",
+      status: "Scheduled",
+      createdAt: createdAt(10 + index),
+      updatedAt: createdAt(10 + index),
+    });
+  }
+
+  return { repairOrders: seededOrders, appointments: seededAppointments };
+}
+
+// ====================
+// Stub Server Class
+// ====================
+
+/**
+ * In-memory DMS API
+ *
+ * State lives in the instance: every start() serves the seed data,
+ * reset() restores it between suites.
+ */
+export class DmsStubServer {
+  private server: http.Server | null = null;
+  private options: Required<Omit<DmsStubServerOptions, "seed">>;
+  private seed: StubSeed;
+
+  private orders: RepairOrder[] = [];
+  private appointmentList: Appointment[] = [];
+  private tokens = new Map<string, IssuedToken>();
+
+  // Attachments by repair order ID
+  private attachments = new Map<string, StoredAttachment[]>();
+  private webhooks: StoredWebhook[] = [];
+
+  // Dealership owning each record (records created unscoped have none)
+  private owners = new WeakMap<StoredRecord, string>();
+
+  // Updates applied to each record (its ETag), 0 when never updated
+  private versions = new WeakMap<StoredRecord, number>();
+  private nextNumber = 1;
+
+  // Current rate limit window
+  private window = { startedAt: 0, count: 0 };
+
+  constructor(options: DmsStubServerOptions = {}) {
+    this.options = {
+      port: options.port ?? 0,
+      host: options.host || "127.0.0.1",
+      staticToken: options.staticToken || apiTestData.auth.token,
+      tokenTtlSeconds: options.tokenTtlSeconds ?? 3600,
+      batchEndpoints: options.batchEndpoints ?? true,
+      rateLimit: options.rateLimit ?? null,
+    };
+    this.seed = options.seed || defaultSeed();
+    this.reset();
+  }
+
+  /**
+   * Start listening
+   *
+   * @returns Base URL of the stub (e.g., http://127.0.0.1:4010)
+   */
+  async start(): Promise<string> {
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error: Error) => {
+        respond(res, { status: 500, body: apiError(error.message, "INTERNAL") });
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once("error", reject);
+      this.server!.listen(this.options.port, this.options.host, resolve);
+    });
+    return this.url;
+  }
+
+  /**
+   * Stop listening
+   */
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    const server = this.server;
+    this.server = null;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  /**
+   * Base URL of the running stub
+   */
+  get url(): string {
+    if (!this.server) {
+      throw new Error("Stub server not started. Call start() first.");
+    }
+    const { port } = this.server.address() as AddressInfo;
+    return `http://${this.options.host}:${port}`;
+  }
+
+  /**
+   * Restore the seed data and forget issued tokens
+   * Seed records belong to the default tenant's dealership
+   */
+  reset(): void {
+    this.orders = this.seed.repairOrders.map((order) => ({ ...order }));
+    this.appointmentList = this.seed.appointments.map((item) => ({ ...item }));
+    this.owners = new WeakMap();
+    this.versions = new WeakMap();
+    const seedDealer = tenantConfig.dealerships[tenantConfig.defaultTenant]?.dealerId;
+    if (seedDealer) {
+      for (const record of [...this.orders, ...this.appointmentList]) {
+        this.owners.set(record, seedDealer);
+      }
+    }
+    this.tokens.clear();
+    this.attachments.clear();
+    this.webhooks = [];
+    this.nextNumber = 1;
+    this.window = { startedAt: 0, count: 0 };
+  }
+
+  // ====================
+  // Routing
+  // ====================
+
+  private async handle(
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> {
+    const url = new URL(req.url || "/", "http://stub");
+    const rawBody = await readBody(req);
+
+    // The health check stays outside the rate limit (webServer readiness)
+    const limited = url.pathname === "/health" ? null : this.countRequest();
+    if (limited?.throttled) return respond(res, limited.throttled);
+    const contentType = req.headers["content-type"] || "";
+
+    let body: Record<string, unknown> = {};
+    let files: Record<string, StubFile> = {};
+    if (contentType.startsWith("multipart/form-data")) {
+      const form = parseMultipart(rawBody, contentType);
+      if (!form) {
+        return respond(res, {
+          status: 400,
+          body: apiError("Request body is not valid multipart/form-data", "INVALID_MULTIPART"),
+        });
+      }
+      ({ fields: body, files } = form);
+    } else if (rawBody.length > 0) {
+      try {
+        body = JSON.parse(rawBody.toString());
+      } catch {
+        return respond(res, {
+          status: 400,
+          body: apiError("Request body is not valid JSON", "INVALID_JSON"),
+        });
+      }
+      if (typeof body !== "object" || body === null || Array.isArray(body)) {
+        return respond(res, {
+          status: 400,
+          body: apiError("Request body must be a JSON object", "INVALID_JSON"),
+        });
+      }
+    }
+
+    // /dealers/{dealerId}/repair-orders or X-Dealer-Id: {dealerId}
+    let segments = url.pathname.split("/").filter(Boolean);
+    let dealerId = req.headers[tenantConfig.header.toLowerCase()];
+    if (`/${segments[0]}` === tenantConfig.pathPrefix && segments.length > 1) {
+      dealerId = decodeURIComponent(segments[1]);
+      segments = segments.slice(2);
+    }
+
+    const authorization = req.headers.authorization || "";
+    const request: StubRequest = {
+      method: req.method || "GET",
+      segments,
+      query: url.searchParams,
+      body,
+      files,
+      token: authorization.startsWith("Bearer ")
+        ? authorization.slice("Bearer ".length)
+        : null,
+      dealerId: typeof dealerId === "string" && dealerId ? dealerId : null,
+      ifMatch: req.headers["if-match"] || null,
+    };
+
+    const response = this.route(request);
+    respond(res, {
+      ...response,
+      headers: { ...limited?.headers, ...response.headers },
+    });
+  }
+
+  private route(request: StubRequest): StubResponse {
+    const [resource, id, nested] = request.segments;
+    const attachments =
+      resource === "repair-orders" && nested === "attachments" && request.segments.length <= 4;
+
+    if (nested && !attachments) return notFound();
+    if (resource === "health") return { status: 200, body: { status: "ok" } };
+    if (resource === "auth") return this.routeAuth(request);
+
+    if (
+      resource !== "repair-orders" &&
+      resource !== "appointments" &&
+      resource !== "webhooks"
+    ) {
+      return notFound();
+    }
+    if (!this.isAuthorized(request.token)) {
+      return { status: 401, body: apiError("Unauthorized", "UNAUTHORIZED") };
+    }
+
+    const access = this.resolveDealer(request);
+    if ("denied" in access) return access.denied;
+    const { dealer } = access;
+
+    // A batch needs the permission of the operation it carries
+    const batch =
+      this.options.batchEndpoints &&
+      resource !== "webhooks" &&
+      request.method === "POST" &&
+      id === "batch";
+    const method = batch
+      ? BATCH_METHODS.get(String(request.body.operation)) || request.method
+      : request.method;
+
+    const role = this.tokens.get(request.token!)?.role;
+    if (role && !ROLE_PERMISSIONS[role][resource].includes(method)) {
+      return {
+        status: 403,
+        body: apiError(`Role ${role} may not ${method} /${resource}`, "FORBIDDEN"),
+      };
+    }
+
+    if (resource === "webhooks") return this.routeWebhooks(request, dealer);
+    if (attachments) return this.routeAttachments(request, dealer);
+    if (batch) return this.batch(resource, request.body, dealer);
+
+    const orders = resource === "repair-orders";
+    switch (request.method) {
+      case "GET":
+        if (id) {
+          return orders ? this.getOrder(id, dealer) : this.getAppointment(id, dealer);
+        }
+        return orders
+          ? this.listOrders(request.query, dealer)
+          : this.listAppointments(request.query, dealer);
+      case "POST":
+        if (id) return notFound();
+        return orders
+          ? this.createOrder(request.body, dealer)
+          : this.createAppointment(request.body, dealer);
+      case "PATCH":
+        if (!id) return notFound();
+        return orders
+          ? this.updateOrder(id, request.body, dealer, request.ifMatch)
+          : this.updateAppointment(id, request.body, dealer, request.ifMatch);
+      case "DELETE":
+        if (!id) return notFound();
+        return orders
+          ? this.deleteOrder(id, dealer)
+          : this.deleteAppointment(id, dealer);
+      default:
+        return notFound();
+    }
+  }
+
+  // ====================
+  // Rate Limit
+  // ====================
+
+  /**
+   * Count a request against the current window (options.rateLimit)
+   * Returns null without a rate limit; otherwise the X-RateLimit-* headers,
+   * plus a 429 once the window's requests are used up
+   */
+  private countRequest(): {
+    headers: Record<string, string>;
+    throttled: StubResponse | null;
+  } | null {
+    if (!this.options.rateLimit) return null;
+    const { limit, windowMs } = this.options.rateLimit;
+
+    const now = Date.now();
+    if (now - this.window.startedAt >= windowMs) {
+      this.window = { startedAt: now, count: 0 };
+    }
+    this.window.count++;
+
+    const resetSeconds = Math.max(
+      1,
+      Math.ceil((this.window.startedAt + windowMs - now) / 1000)
+    );
+    const headers = {
+      "X-RateLimit-Limit": String(limit),
+      "X-RateLimit-Remaining": String(Math.max(0, limit - this.window.count)),
+      "X-RateLimit-Reset": String(resetSeconds),
+    };
+    if (this.window.count <= limit) return { headers, throttled: null };
+
+    return {
+      headers,
+      throttled: {
+        status: 429,
+        headers: { ...headers, "Retry-After": String(resetSeconds) },
+        body: apiError(
+          `Rate limit of ${limit} requests per ${windowMs}ms exceeded`,
+          "RATE_LIMITED"
+        ),
+      },
+    };
+  }
+
+  // ====================
+  // Dealerships
+  // ====================
+
+  /**
+   * Dealership a request acts for (null = every dealership)
+   * Tenant users act for their own dealership when no scope is given and
+   * are denied (403) any other one
+   */
+  private resolveDealer(
+    request: StubRequest
+  ): { dealer: string | null } | { denied: StubResponse } {
+    const issued = request.token ? this.tokens.get(request.token) : undefined;
+    const dealerId = request.dealerId ?? issued?.dealerId ?? null;
+    if (dealerId === null) return { dealer: null };
+
+    const known = Object.values(tenantConfig.dealerships).some(
+      (dealership) => dealership.dealerId === dealerId
+    );
+    if (!known) {
+      return {
+        denied: {
+          status: 404,
+          body: apiError(`Unknown dealership ${dealerId}`, "NOT_FOUND"),
+        },
+      };
+    }
+    if (issued?.dealerId && issued.dealerId !== dealerId) {
+      return {
+        denied: {
+          status: 403,
+          body: apiError(`Not authorized for dealership ${dealerId}`, "FORBIDDEN"),
+        },
+      };
+    }
+    return { dealer: dealerId };
+  }
+
+  /**
+   * Records a dealership can see (all of them for unscoped requests)
+   */
+  private visible<T extends StoredRecord>(records: T[], dealer: string | null): T[] {
+    return dealer === null
+      ? records
+      : records.filter((record) => this.owners.get(record) === dealer);
+  }
+
+  private assignOwner(record: StoredRecord, dealer: string | null): void {
+    if (dealer !== null) {
+      this.owners.set(record, dealer);
+    }
+  }
+
+  // ====================
+  // Entity Tags
+  // ====================
+
+  /**
+   * Strong ETag of a record's current version
+   */
+  private entityTag(record: RepairOrder | Appointment): string {
+    return `"${record.id}.${this.versions.get(record) || 0}"`;
+  }
+
+  /**
+   * If-Match check: no header, "*" or the current ETag lets the update through
+   */
+  private matchesEntityTag(
+    record: RepairOrder | Appointment,
+    ifMatch: string | null
+  ): boolean {
+    if (ifMatch === null) return true;
+    const current = this.entityTag(record);
+    return ifMatch
+      .split(",")
+      .map((tag) => tag.trim())
+      .some((tag) => tag === "*" || tag === current);
+  }
+
+  private bumpVersion(record: RepairOrder | Appointment): void {
+    this.versions.set(record, (this.versions.get(record) || 0) + 1);
+  }
+
+  private tagged(status: number, record: RepairOrder | Appointment): StubResponse {
+    return { status, body: record, headers: { ETag: this.entityTag(record) } };
+  }
+
+  // ====================
+  // Authentication
+  // ====================
+
+  private routeAuth({ method, segments, body, token }: StubRequest): StubResponse {
+    const action = `${method} ${segments[1] || ""}`;
+
+    if (action === "POST login") {
+      const { username, password } = body;
+      if (!username || !password) {
+        return badRequest(
+          !username
+            ? errorMessages.login.emptyUsername
+            : errorMessages.login.emptyPassword
+        );
+      }
+      const tenantUser = Object.values(tenantConfig.dealerships).find(
+        (dealership) =>
+          dealership.username === username && dealership.password === password
+      );
+      const role = (Object.keys(roleUsers) as StubRole[]).find(
+        (name) =>
+          roleUsers[name].username === username &&
+          roleUsers[name].password === password
+      );
+      const validUser =
+        username === users.validUser.username &&
+        password === users.validUser.password;
+      if (!validUser && !tenantUser && !role) {
+        return {
+          status: 401,
+          body: apiError(errorMessages.login.invalidCredentials, "UNAUTHORIZED"),
+        };
+      }
+      return {
+        status: 200,
+        body: this.issueToken(String(username), { dealerId: tenantUser?.dealerId, role }),
+      };
+    }
+
+    if (action === "POST refresh") {
+      const issued = [...this.tokens.entries()].find(
+        ([, entry]) => entry.refreshToken === body.refreshToken
+      );
+      if (!issued) {
+        return { status: 401, body: apiError("Invalid refresh token", "UNAUTHORIZED") };
+      }
+      this.tokens.delete(issued[0]);
+      const { username: owner, dealerId, role } = issued[1];
+      return { status: 200, body: this.issueToken(owner, { dealerId, role }) };
+    }
+
+    if (action === "GET validate") {
+      if (!this.isAuthorized(token)) {
+        return { status: 401, body: apiError("Unauthorized", "UNAUTHORIZED") };
+      }
+      const issued = this.tokens.get(token!);
+      const validation: TokenValidation = issued
+        ? {
+            valid: true,
+            username: issued.username,
+            expiresAt: new Date(issued.expiresAt).toISOString(),
+          }
+        : { valid: true };
+      return { status: 200, body: validation };
+    }
+
+    return notFound();
+  }
+
+  private issueToken(
+    username: string,
+    scope: { dealerId?: string; role?: StubRole } = {}
+  ): AuthToken {
+    const token = `stub-${randomUUID()}`;
+    const refreshToken = `stub-refresh-${randomUUID()}`;
+    this.tokens.set(token, {
+      username,
+      refreshToken,
+      expiresAt: Date.now() + this.options.tokenTtlSeconds * 1000,
+      ...scope,
+    });
+    return {
+      token,
+      tokenType: "Bearer",
+      expiresIn: this.options.tokenTtlSeconds,
+      refreshToken,
+    };
+  }
+
+  private isAuthorized(token: string | null): boolean {
+    if (!token) return false;
+    if (token === this.options.staticToken) return true;
+    const issued = this.tokens.get(token);
+    return !!issued && issued.expiresAt > Date.now();
+  }
+
+  // ====================
+  // Repair Orders
+  // ====================
+
+  private listOrders(query: URLSearchParams, dealer: string | null): StubResponse {
+    const unknown = query
+      .getAll("status")
+      .find((status) => !(repairOrders.statuses as readonly string[]).includes(status));
+    if (unknown !== undefined) {
+      return badRequest(`Unknown status: ${unknown}`);
+    }
+    const invalid =
+      dateRangeError(query) || sortError(query, REPAIR_ORDER_SORT_FIELDS);
+    if (invalid) return invalid;
+
+    const customerName = query.get("customerName")?.toLowerCase();
+    const startDate = query.get("startDate");
+    const endDate = query.get("endDate");
+    const matches = this.visible(this.orders, dealer).filter((order) => {
+      const day = (order.createdAt || "").slice(0, 10);
+      return (
+        (!customerName ||
+          order.customerName.toLowerCase().includes(customerName)) &&
+        matchesExactly(order, query, ["status", "vehicleVin", "orderNumber"]) &&
+        (!startDate || day >= startDate) &&
+        (!endDate || day <= endDate)
+      );
+    });
+
+    return paginate(sorted(matches, query), query, "/repair-orders");
+  }
+
+  private getOrder(id: string, dealer: string | null): StubResponse {
+    const order = this.visible(this.orders, dealer).find((item) => item.id === id);
+    return order ? this.tagged(200, order) : orderNotFound();
+  }
+
+  private createOrder(
+    body: Record<string, unknown>,
+    dealer: string | null
+  ): StubResponse {
+    const details = withSchemaViolations(body, payloadSchemas.createRepairOrder, [
+      ...requireFields(body, ["customerName", "vehicleVin", "serviceType"]),
+      ...validateOrderFields(body),
+    ]);
+    if (details.length > 0) return validationFailed(details);
+
+    const orderNumber =
+      typeof body.orderNumber === "string"
+        ? body.orderNumber
+        : `RO-STUB-${String(this.nextNumber++).padStart(5, "0")}`;
+    if (this.orders.some((item) => item.id === orderNumber)) {
+      return badRequest(`Order number ${orderNumber} already exists`);
+    }
+
+    const now = new Date().toISOString();
+    const order = {
+      ...pick<RepairOrder>(body, CREATE_ORDER_FIELDS),
+      id: orderNumber,
+      orderNumber,
+      status: "Pending",
+      createdAt: now,
+      updatedAt: now,
+    } as RepairOrder;
+
+    this.orders.push(order);
+    this.assignOwner(order, dealer);
+    this.emit("repair_order.created", { order }, order);
+    return this.tagged(201, order);
+  }
+
+  private updateOrder(
+    id: string,
+    body: Record<string, unknown>,
+    dealer: string | null,
+    ifMatch: string | null = null
+  ): StubResponse {
+    const order = this.visible(this.orders, dealer).find((item) => item.id === id);
+    if (!order) return orderNotFound();
+    if (!this.matchesEntityTag(order, ifMatch)) {
+      return preconditionFailed(`Repair order ${order.id}`);
+    }
+
+    const details = withSchemaViolations(
+      body,
+      payloadSchemas.updateRepairOrder,
+      validateOrderFields(body)
+    );
+    if (details.length > 0) return validationFailed(details);
+
+    const previousStatus = order.status;
+    Object.assign(order, pick<RepairOrder>(body, UPDATE_ORDER_FIELDS), {
+      updatedAt: new Date().toISOString(),
+    });
+    this.bumpVersion(order);
+    if (order.status !== previousStatus) {
+      this.emit(
+        "repair_order.status_changed",
+        { orderId: order.id, previousStatus, status: order.status, order },
+        order
+      );
+    }
+    return this.tagged(200, order);
+  }
+
+  private deleteOrder(id: string, dealer: string | null): StubResponse {
+    const order = this.visible(this.orders, dealer).find((item) => item.id === id);
+    if (!order) return orderNotFound();
+    this.orders.splice(this.orders.indexOf(order), 1);
+    this.attachments.delete(order.id);
+    this.emit("repair_order.deleted", { order }, order);
+    return { status: 204 };
+  }
+
+  // ====================
+  // Attachments
+  // ====================
+
+  /**
+   * /repair-orders/{orderId}/attachments[/{attachmentId}]
+   */
+  private routeAttachments(
+    { method, segments, files }: StubRequest,
+    dealer: string | null
+  ): StubResponse {
+    const [, orderId, , attachmentId] = segments;
+    const order = this.visible(this.orders, dealer).find((item) => item.id === orderId);
+    if (!order) return orderNotFound();
+
+    const stored = this.attachments.get(order.id) || [];
+    if (!attachmentId) {
+      if (method === "GET") {
+        return { status: 200, body: stored.map(attachmentMetadata) };
+      }
+      return method === "POST" ? this.uploadAttachment(order, files.file) : notFound();
+    }
+
+    const attachment = stored.find((item) => item.id === attachmentId);
+    if (!attachment) {
+      return { status: 404, body: apiError("Attachment not found", "NOT_FOUND") };
+    }
+    switch (method) {
+      case "GET":
+        return {
+          status: 200,
+          raw: attachment.content,
+          headers: {
+            "Content-Type": attachment.contentType,
+            "Content-Disposition": `attachment; filename="${attachment.fileName}"`,
+          },
+        };
+      case "DELETE":
+        stored.splice(stored.indexOf(attachment), 1);
+        return { status: 204 };
+      default:
+        return notFound();
+    }
+  }
+
+  private uploadAttachment(order: RepairOrder, file: StubFile | undefined): StubResponse {
+    if (!file || file.content.length === 0) {
+      return badRequest("A non-empty file is required in the \"file\" field");
+    }
+    if (!attachmentTestData.allowedContentTypes.includes(file.contentType)) {
+      return {
+        status: 415,
+        body: apiError(
+          `Content type ${file.contentType} is not accepted`,
+          "UNSUPPORTED_MEDIA_TYPE"
+        ),
+      };
+    }
+    if (file.content.length > attachmentTestData.maxSizeBytes) {
+      return {
+        status: 413,
+        body: apiError(
+          `File exceeds ${attachmentTestData.maxSizeBytes} bytes`,
+          "PAYLOAD_TOO_LARGE"
+        ),
+      };
+    }
+
+    const attachment: StoredAttachment = {
+      id: `ATT-${randomUUID()}`,
+      fileName: file.fileName,
+      contentType: file.contentType,
+      size: file.content.length,
+      checksum: createHash("sha256").update(file.content).digest("hex"),
+      uploadedAt: new Date().toISOString(),
+      content: file.content,
+    };
+    this.attachments.set(order.id, [
+      ...(this.attachments.get(order.id) || []),
+      attachment,
+    ]);
+    return { status: 201, body: attachmentMetadata(attachment) };
+  }
+
+  // ====================
+  // Appointments
+  // ====================
+
+  private listAppointments(
+    query: URLSearchParams,
+    dealer: string | null
+  ): StubResponse {
+    const invalid =
+      dateRangeError(query) || sortError(query, APPOINTMENT_SORT_FIELDS);
+    if (invalid) return invalid;
+
+    // startDate/endDate bound the scheduled date
+    const customerName = query.get("customerName")?.toLowerCase();
+    const startDate = query.get("startDate");
+    const endDate = query.get("endDate");
+    const matches = this.visible(this.appointmentList, dealer).filter(
+      (item) =>
+        (!customerName ||
+          item.customerName.toLowerCase().includes(customerName)) &&
+        matchesExactly(item, query, ["serviceType", "status", "scheduledDate"]) &&
+        (!startDate || item.scheduledDate >= startDate) &&
+        (!endDate || item.scheduledDate <= endDate)
+    );
+    return paginate(sorted(matches, query), query, "/appointments");
+  }
+
+  private getAppointment(id: string, dealer: string | null): StubResponse {
+    const item = this.visible(this.appointmentList, dealer).find(
+      (entry) => entry.id === id
+    );
+    return item ? this.tagged(200, item) : appointmentNotFound();
+  }
+
+  private createAppointment(
+    body: Record<string, unknown>,
+    dealer: string | null
+  ): StubResponse {
+    const details = withSchemaViolations(body, payloadSchemas.createAppointment, [
+      ...requireFields(body, REQUIRED_APPOINTMENT_FIELDS),
+      ...validateAppointmentFields(body),
+    ]);
+    if (details.length > 0) return validationFailed(details);
+
+    const now = new Date().toISOString();
+    const appointmentId = `APT-STUB-${String(this.nextNumber++).padStart(5, "0")}`;
+    const item = {
+      ...pick<Appointment>(body, CREATE_APPOINTMENT_FIELDS),
+      id: appointmentId,
+      appointmentId,
+      status: "Scheduled",
+      createdAt: now,
+      updatedAt: now,
+    } as Appointment;
+
+    this.appointmentList.push(item);
+    this.assignOwner(item, dealer);
+    this.emit("appointment.booked", { appointment: item }, item);
+    return this.tagged(201, item);
+  }
+
+  private updateAppointment(
+    id: string,
+    body: Record<string, unknown>,
+    dealer: string | null,
+    ifMatch: string | null = null
+  ): StubResponse {
+    const item = this.visible(this.appointmentList, dealer).find(
+      (entry) => entry.id === id
+    );
+    if (!item) return appointmentNotFound();
+    if (!this.matchesEntityTag(item, ifMatch)) {
+      return preconditionFailed(`Appointment ${item.id}`);
+    }
+
+    const details = withSchemaViolations(
+      body,
+      payloadSchemas.updateAppointment,
+      validateAppointmentFields(body)
+    );
+    if (details.length > 0) return validationFailed(details);
+
+    Object.assign(item, pick<Appointment>(body, CREATE_APPOINTMENT_FIELDS), {
+      updatedAt: new Date().toISOString(),
+    });
+    this.bumpVersion(item);
+    return this.tagged(200, item);
+  }
+
+  private deleteAppointment(id: string, dealer: string | null): StubResponse {
+    const item = this.visible(this.appointmentList, dealer).find(
+      (entry) => entry.id === id
+    );
+    if (!item) return appointmentNotFound();
+    this.appointmentList.splice(this.appointmentList.indexOf(item), 1);
+    this.emit("appointment.cancelled", { appointment: item }, item);
+    return { status: 204 };
+  }
+
+  // ====================
+  // Webhooks
+  // ====================
+
+  /**
+   * /webhooks[/{webhookId}]
+   */
+  private routeWebhooks(
+    { method, segments, body }: StubRequest,
+    dealer: string | null
+  ): StubResponse {
+    const [, id] = segments;
+    const visible = this.visible(this.webhooks, dealer);
+    if (!id) {
+      if (method === "GET") {
+        return { status: 200, body: visible.map(webhookMetadata) };
+      }
+      return method === "POST" ? this.registerWebhook(body, dealer) : notFound();
+    }
+
+    const webhook = visible.find((item) => item.id === id);
+    if (!webhook) return webhookNotFound();
+    switch (method) {
+      case "GET":
+        return { status: 200, body: webhookMetadata(webhook) };
+      case "DELETE":
+        this.webhooks.splice(this.webhooks.indexOf(webhook), 1);
+        return { status: 204 };
+      default:
+        return notFound();
+    }
+  }
+
+  private registerWebhook(
+    body: Record<string, unknown>,
+    dealer: string | null
+  ): StubResponse {
+    const details = withSchemaViolations(
+      body,
+      payloadSchemas.registerWebhook,
+      requireFields(body, ["url", "secret"])
+    );
+    if (details.length > 0) return validationFailed(details);
+
+    const webhook: StoredWebhook = {
+      id: `WH-${randomUUID()}`,
+      url: String(body.url),
+      events: [...new Set(body.events as WebhookEventType[])],
+      createdAt: new Date().toISOString(),
+      secret: String(body.secret),
+    };
+    this.webhooks.push(webhook);
+    this.assignOwner(webhook, dealer);
+    return { status: 201, body: webhookMetadata(webhook) };
+  }
+
+  /**
+   * Send an event to every subscription that wants it
+   * Unscoped subscriptions get every dealership's events, scoped ones only
+   * their own. Deliveries are fire-and-forget, like the real DMS: the
+   * response that caused the event doesn't wait for them
+   *
+   * @param type - Event type
+   * @param data - Event payload
+   * @param record - Record the event is about (decides the dealership)
+   */
+  private emit(type: WebhookEventType, data: object, record: StoredRecord): void {
+    const owner = this.owners.get(record);
+    const subscribers = this.webhooks.filter((webhook) => {
+      const dealer = this.owners.get(webhook);
+      return webhook.events.includes(type) && (!dealer || dealer === owner);
+    });
+    if (subscribers.length === 0) return;
+
+    const event: WebhookEvent = {
+      id: `EVT-${randomUUID()}`,
+      type,
+      createdAt: new Date().toISOString(),
+      data: JSON.parse(JSON.stringify(data)) as Record<string, unknown>,
+    };
+    const body = JSON.stringify(event);
+    for (const webhook of subscribers) {
+      deliver(webhook, event, body);
+    }
+  }
+
+  // ====================
+  // Batches
+  // ====================
+
+  /**
+   * POST /{collection}/batch - one operation over many items
+   * Each item is handled like its single call; results keep item order
+   *
+   * Items: create = payload, update = { id, changes }, delete = { id }
+   */
+  private batch(
+    resource: "repair-orders" | "appointments",
+    body: Record<string, unknown>,
+    dealer: string | null
+  ): StubResponse {
+    const { operation, items } = body;
+    if (!BATCH_METHODS.has(String(operation)) || !Array.isArray(items)) {
+      return badRequest(
+        "A batch needs an operation (create, update or delete) and an items array"
+      );
+    }
+    if (items.length > MAX_BATCH_ITEMS) {
+      return badRequest(`A batch holds at most ${MAX_BATCH_ITEMS} items, got ${items.length}`);
+    }
+
+    const orders = resource === "repair-orders";
+    const results = items.map((item: unknown) => {
+      if (typeof item !== "object" || item === null || Array.isArray(item)) {
+        return toBatchResult(badRequest("Batch items must be objects"));
+      }
+      const fields = item as Record<string, unknown>;
+      if (operation === "create") {
+        return toBatchResult(
+          orders ? this.createOrder(fields, dealer) : this.createAppointment(fields, dealer)
+        );
+      }
+
+      const { id, changes = {} } = fields;
+      if (typeof id !== "string") {
+        return toBatchResult(badRequest(`Batch ${operation} items need an id`));
+      }
+      if (operation === "delete") {
+        return toBatchResult(
+          orders ? this.deleteOrder(id, dealer) : this.deleteAppointment(id, dealer)
+        );
+      }
+      if (typeof changes !== "object" || changes === null || Array.isArray(changes)) {
+        return toBatchResult(badRequest("Batch update changes must be an object"));
+      }
+      const update = changes as Record<string, unknown>;
+      return toBatchResult(
+        orders
+          ? this.updateOrder(id, update, dealer)
+          : this.updateAppointment(id, update, dealer)
+      );
+    });
+
+    return { status: 200, body: { results } };
+  }
+}
+
+// ====================
+// Role Permissions
+// ====================
+
+// Methods each role may call per collection (the DMS role model)
+// Webhooks are integration settings - admins only
+const ROLE_PERMISSIONS: Record<
+  StubRole,
+  Record<"repair-orders" | "appointments" | "webhooks", string[]>
+> = {
+  admin: {
+    "repair-orders": ["GET", "POST", "PATCH", "DELETE"],
+    appointments: ["GET", "POST", "PATCH", "DELETE"],
+    webhooks: ["GET", "POST", "DELETE"],
+  },
+  serviceAdvisor: {
+    "repair-orders": ["GET", "POST", "PATCH"],
+    appointments: ["GET", "POST", "PATCH", "DELETE"],
+    webhooks: [],
+  },
+  technician: {
+    "repair-orders": ["GET", "PATCH"],
+    appointments: ["GET"],
+    webhooks: [],
+  },
+  readOnly: {
+    "repair-orders": ["GET"],
+    appointments: ["GET"],
+    webhooks: [],
+  },
+};
+
+// ====================
+// Batches
+// ====================
+
+// Largest batch the API accepts
+const MAX_BATCH_ITEMS = 100;
+
+// Method whose permission a batch operation needs
+const BATCH_METHODS = new Map([
+  ["create", "POST"],
+  ["update", "PATCH"],
+  ["delete", "DELETE"],
+]);
+
+/**
+ * One item's outcome in a batch response: the status of the equivalent
+ * single call, with its body or error envelope
+ */
+function toBatchResult(response: StubResponse): Record<string, unknown> {
+  if (response.status >= 400) {
+    return { status: response.status, error: response.body };
+  }
+  return response.body === undefined
+    ? { status: response.status }
+    : { status: response.status, body: response.body };
+}
+
+// ====================
+// Validation
+// ====================
+
+// Fields accepted on create/update (anything else is ignored)
+const CREATE_ORDER_FIELDS = [
+  "customerName",
+  "vehicleVin",
+  "serviceType",
+  "priority",
+  "vehicleMake",
+  "vehicleModel",
+  "vehicleYear",
+  "description",
+  "notes",
+  "estimatedCost",
+];
+const UPDATE_ORDER_FIELDS = [
+  "status",
+  "customerName",
+  "vehicleVin",
+  "serviceType",
+  "priority",
+  "description",
+  "notes",
+  "completionNotes",
+  "estimatedCost",
+  "actualCost",
+];
+const REQUIRED_APPOINTMENT_FIELDS = [
+  "customerName",
+  "phoneNumber",
+  "email",
+  "serviceType",
+  "vehicleVin",
+  "scheduledDate",
+  "scheduledTime",
+];
+const CREATE_APPOINTMENT_FIELDS = [...REQUIRED_APPOINTMENT_FIELDS, "notes"];
+
+type FieldError = { field: string; message: string };
+
+function requireFields(
+  body: Record<string, unknown>,
+  fields: string[]
+): FieldError[] {
+  return fields
+    .filter((field) => typeof body[field] !== "string" || body[field] === "")
+    .map((field) => ({ field, message: errorMessages.repairOrder.requiredField }));
+}
+
+function validateOrderFields(body: Record<string, unknown>): FieldError[] {
+  const details: FieldError[] = [];
+  if (body.vehicleVin !== undefined && !formats.vin(body.vehicleVin)) {
+    details.push({ field: "vehicleVin", message: errorMessages.repairOrder.invalidVin });
+  }
+  if (
+    body.status !== undefined &&
+    !(repairOrders.statuses as readonly unknown[]).includes(body.status)
+  ) {
+    details.push({ field: "status", message: `Unknown status: ${body.status}` });
+  }
+  for (const field of ["estimatedCost", "actualCost"]) {
+    if (body[field] !== undefined && !formats.money(body[field])) {
+      details.push({ field, message: "Invalid amount" });
+    }
+  }
+  return details;
+}
+
+function validateAppointmentFields(body: Record<string, unknown>): FieldError[] {
+  const details: FieldError[] = [];
+  if (body.email !== undefined && !formats.email(body.email)) {
+    details.push({ field: "email", message: errorMessages.appointment.invalidEmail });
+  }
+  if (body.phoneNumber !== undefined && !formats.phone(body.phoneNumber)) {
+    details.push({
+      field: "phoneNumber",
+      message: errorMessages.appointment.invalidPhone,
+    });
+  }
+  if (body.vehicleVin !== undefined && !formats.vin(body.vehicleVin)) {
+    details.push({ field: "vehicleVin", message: errorMessages.repairOrder.invalidVin });
+  }
+  if (body.scheduledDate !== undefined && !formats.date(body.scheduledDate)) {
+    details.push({ field: "scheduledDate", message: "Invalid date (YYYY-MM-DD)" });
+  }
+  return details;
+}
+
+/**
+ * Field errors plus the payload schema violations of fields not reported yet
+ * (the hand-written checks above keep their user-facing messages)
+ */
+function withSchemaViolations(
+  body: Record<string, unknown>,
+  schema: JsonSchema,
+  details: FieldError[]
+): FieldError[] {
+  const reported = new Set(details.map((detail) => detail.field));
+  const violations = validateSchema(body, schema)
+    .map(({ path, message }) => ({ field: path.replace(/^\$\.?/, ""), message }))
+    .filter((detail) => !reported.has(detail.field));
+  return [...details, ...violations];
+}
+
+// ====================
+// Internal Helpers
+// ====================
+
+/**
+ * Page/offset/cursor pagination over a filtered list
+ * Without a limit the whole list is returned (plain GET /repair-orders)
+ */
+function paginate<T>(
+  items: T[],
+  query: URLSearchParams,
+  path: string
+): StubResponse {
+  const headers: Record<string, string> = {
+    "X-Total-Count": String(items.length),
+  };
+  const limit = Number(query.get("limit"));
+  if (!limit || limit < 1) {
+    return { status: 200, body: items, headers };
+  }
+
+  const next = new URLSearchParams(query);
+  let start: number;
+  if (query.has("page")) {
+    const page = Math.max(Number(query.get("page")) || 1, 1);
+    start = (page - 1) * limit;
+    next.set("page", String(page + 1));
+  } else if (query.has("offset")) {
+    start = Number(query.get("offset")) || 0;
+    next.set("offset", String(start + limit));
+  } else {
+    // Cursor is the opaque (here: numeric) position of the next item
+    start = Number(query.get("cursor")) || 0;
+    next.set("cursor", String(start + limit));
+  }
+
+  if (start + limit < items.length) {
+    headers.Link = `<${path}?${next.toString()}>; rel="next"`;
+  }
+  return { status: 200, body: items.slice(start, start + limit), headers };
+}
+
+/**
+ * Exact match of each field present in the query (a repeated key matches
+ * any of its values: ?status=Pending&status=Completed)
+ */
+function matchesExactly(
+  record: object,
+  query: URLSearchParams,
+  fields: string[]
+): boolean {
+  const values = record as Record<string, unknown>;
+  return fields.every(
+    (field) =>
+      !query.has(field) || query.getAll(field).includes(values[field] as string)
+  );
+}
+
+/**
+ * 400 for a startDate/endDate that isn't a date or a range ending before it starts
+ */
+function dateRangeError(query: URLSearchParams): StubResponse | null {
+  for (const param of ["startDate", "endDate"]) {
+    const value = query.get(param);
+    if (value && !formats.date(value)) {
+      return badRequest(`${param} must be a date (YYYY-MM-DD)`);
+    }
+  }
+  const startDate = query.get("startDate");
+  const endDate = query.get("endDate");
+  if (startDate && endDate && startDate > endDate) {
+    return badRequest("startDate must not be after endDate");
+  }
+  return null;
+}
+
+/**
+ * 400 for a sort field or order the listing doesn't support
+ */
+function sortError(
+  query: URLSearchParams,
+  fields: readonly string[]
+): StubResponse | null {
+  const sort = query.get("sort");
+  if (sort !== null && !fields.includes(sort)) {
+    return badRequest(`Cannot sort by ${sort}`);
+  }
+  const order = query.get("order");
+  if (order !== null && order !== "asc" && order !== "desc") {
+    return badRequest("order must be asc or desc");
+  }
+  return null;
+}
+
+/**
+ * Items ordered by ?sort=<field>&order=asc|desc (unsorted without sort)
+ * Missing values sort last; ties keep their stored order
+ */
+function sorted<T>(items: T[], query: URLSearchParams): T[] {
+  const field = query.get("sort");
+  if (!field) return items;
+  const direction = query.get("order") === "desc" ? -1 : 1;
+
+  return [...items].sort((a, b) => {
+    const left = (a as Record<string, unknown>)[field];
+    const right = (b as Record<string, unknown>)[field];
+    if (left === right) return 0;
+    if (left === undefined || left === null) return 1;
+    if (right === undefined || right === null) return -1;
+    return String(left).localeCompare(String(right)) * direction;
+  });
+}
+
+function pick<T>(body: Record<string, unknown>, fields: string[]): Partial<T> {
+  return Object.fromEntries(
+    fields
+      .filter((field) => body[field] !== undefined)
+      .map((field) => [field, body[field]])
+  ) as Partial<T>;
+}
+
+function apiError(error: string, code: string, details?: unknown): ApiError {
+  return details === undefined ? { error, code } : { error, code, details };
+}
+
+function badRequest(message: string): StubResponse {
+  return { status: 400, body: apiError(message, "BAD_REQUEST") };
+}
+
+function validationFailed(details: FieldError[]): StubResponse {
+  return {
+    status: 400,
+    body: apiError(details[0].message, "VALIDATION_ERROR", details),
+  };
+}
+
+function notFound(): StubResponse {
+  return { status: 404, body: apiError("Not found", "NOT_FOUND") };
+}
+
+function orderNotFound(): StubResponse {
+  return {
+    status: 404,
+    body: apiError(errorMessages.repairOrder.orderNotFound, "NOT_FOUND"),
+  };
+}
+
+function preconditionFailed(record: string): StubResponse {
+  return {
+    status: 412,
+    body: apiError(
+      `${record} was changed by someone else - reload it and retry`,
+      "PRECONDITION_FAILED"
+    ),
+  };
+}
+
+function webhookNotFound(): StubResponse {
+  return { status: 404, body: apiError("Webhook not found", "NOT_FOUND") };
+}
+
+function appointmentNotFound(): StubResponse {
+  return { status: 404, body: apiError("Appointment not found", "NOT_FOUND") };
+}
+
+function attachmentMetadata({ content: _content, ...metadata }: StoredAttachment): Attachment {
+  return metadata;
+}
+
+function webhookMetadata({ secret: _secret, ...metadata }: StoredWebhook): WebhookSubscription {
+  return metadata;
+}
+
+/**
+ * POST one signed event to a subscription (failures are ignored)
+ */
+function deliver(webhook: StoredWebhook, event: WebhookEvent, body: string): void {
+  const url = new URL(webhook.url);
+  const { headers } = webhookConfig;
+  const request = (url.protocol === "https:" ? https : http).request(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Content-Length": Buffer.byteLength(body),
+      [headers.event]: event.type,
+      [headers.delivery]: event.id,
+      [headers.signature]: signPayload(body, webhook.secret),
+    },
+  });
+  request.on("response", (response) => response.resume());
+  request.on("error", () => undefined);
+  request.end(body);
+}
+
+/**
+ * Split a multipart/form-data body into text fields and files
+ * Returns null for a body that doesn't follow the boundary format
+ */
+function parseMultipart(
+  body: Buffer,
+  contentType: string
+): { fields: Record<string, unknown>; files: Record<string, StubFile> } | null {
+  const boundary = /boundary=(?:"([^"]+)"|([^;]+))/.exec(contentType);
+  if (!boundary) return null;
+  const delimiter = Buffer.from(`--${boundary[1] || boundary[2]}`);
+
+  const fields: Record<string, unknown> = {};
+  const files: Record<string, StubFile> = {};
+  let start = body.indexOf(delimiter);
+  if (start === -1) return null;
+
+  while (true) {
+    start += delimiter.length;
+    if (body.subarray(start, start + 2).toString() === "--") break;
+    const end = body.indexOf(delimiter, start);
+    if (end === -1) return null;
+
+    // Part = CRLF headers CRLF CRLF content CRLF
+    const part = body.subarray(start + 2, end - 2);
+    const split = part.indexOf("\r\n\r\n");
+    if (split === -1) return null;
+    const headers = part.subarray(0, split).toString();
+    const content = part.subarray(split + 4);
+
+    const name = /name="([^"]*)"/.exec(headers)?.[1];
+    const fileName = /filename="([^"]*)"/.exec(headers)?.[1];
+    if (name === undefined) return null;
+    if (fileName === undefined) {
+      fields[name] = content.toString();
+    } else {
+      files[name] = {
+        fileName,
+        contentType:
+          /content-type:\s*([^\r\n]+)/i.exec(headers)?.[1].trim() ||
+          "application/octet-stream",
+        content: Buffer.from(content),
+      };
+    }
+    start = end;
+  }
+  return { fields, files };
+}
+
+function readBody(req: http.IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+}
+
+function respond(res: http.ServerResponse, response: StubResponse): void {
+  if (response.raw) {
+    res.writeHead(response.status, {
+      "Content-Length": String(response.raw.length),
+      ...response.headers,
+    });
+    res.end(response.raw);
+    return;
+  }
+
+  const hasBody = response.body !== undefined;
+  res.writeHead(response.status, {
+    ...(hasBody ? { "Content-Type": "application/json" } : {}),
+    ...response.headers,
+  });
+  res.end(hasBody ? JSON.stringify(response.body) : undefined);
+}
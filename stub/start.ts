@@ -0,0 +1,38 @@
+/**
+ * DMS API Stub - Standalone Entry Point
+ *
+ * Starts the in-memory DMS API stub and keeps it running until stopped.
+ * Playwright starts it through the webServer config when API_STUB=true.
+ *
+ * Usage:
+ * npm run stub:api                       # http://127.0.0.1:4010
+ * API_STUB_PORT=5000 npm run stub:api
+ * API_STUB_RATE_LIMIT=20 npm run stub:api # 429 after 20 requests per second
+ */
+
+import { loadEnv } from "../utils/env";
+
+async function main(): Promise<void> {
+  // Load .env first - testData reads users and API_TOKEN at import time
+  loadEnv();
+  const { DmsStubServer } = await import("./dmsStubServer");
+
+  const rateLimit = Number(process.env.API_STUB_RATE_LIMIT) || 0;
+  const stub = new DmsStubServer({
+    port: Number(process.env.API_STUB_PORT) || 4010,
+    rateLimit: rateLimit > 0 ? { limit: rateLimit, windowMs: 1000 } : null,
+  });
+  const url = await stub.start();
+  console.log(`DMS API stub listening on ${url}`);
+
+  for (const signal of ["SIGINT", "SIGTERM"] as const) {
+    process.on(signal, () => {
+      stub.stop().then(() => process.exit(0));
+    });
+  }
+}
+
+main().catch((error: Error) => {
+  console.error(`DMS API stub failed to start: ${error.message}`);
+  process.exit(1);
+});
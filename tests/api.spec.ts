@@ -18,14 +18,19 @@
  * - Performance testing (response times)
  */
 
-import { test, expect } from "@playwright/test";
+import { test, expect } from "../utils/fixtures";
 import {
   DmsApiClient,
   assertStatus,
   assertResponseContains,
   assertResponseTime,
+  expectError,
 } from "../utils/apiClient";
 import { apiTestData, users, generateOrderNumber } from "../utils/testData";
+import {
+  CreateRepairOrderPayload,
+  UpdateRepairOrderPayload,
+} from "../utils/models";
 
 /**
  * Test Suite: DMS API - Authentication
@@ -65,7 +70,7 @@ test.describe("API - Authentication", () => {
     assertStatus(response, 200);
 
     // Assert - Response should contain token
-    const body = await response.json();
+    const body = response.body;
     expect(body).toHaveProperty("token");
     expect(body.token).toBeTruthy();
     expect(typeof body.token).toBe("string");
@@ -84,8 +89,8 @@ test.describe("API - Authentication", () => {
       users.invalidUser.password
     );
 
-    // Assert - Response status should be 401 Unauthorized
-    assertStatus(response, 401);
+    // Assert - Response status should be 401 Unauthorized with an error envelope
+    expectError(response, { status: 401, code: "UNAUTHORIZED" });
   });
 
   /**
@@ -100,7 +105,7 @@ test.describe("API - Authentication", () => {
 
     // Assert - Response should indicate token validity
     // Status 200 = valid, 401 = invalid
-    expect([200, 401]).toContain(response.status());
+    expect([200, 401]).toContain(response.status);
   });
 });
 
@@ -147,7 +152,7 @@ test.describe("API - Repair Orders", () => {
     assertStatus(response, 200);
 
     // Assert - Response should be an array
-    const body = await response.json();
+    const body = response.body;
     expect(Array.isArray(body)).toBe(true);
 
     // Assert - Response time should be reasonable
@@ -168,11 +173,11 @@ test.describe("API - Repair Orders", () => {
     const response = await apiClient.getRepairOrderById(orderId);
 
     // Assert - Response status should be 200 OK (or 404 if doesn't exist)
-    expect([200, 404]).toContain(response.status());
+    expect([200, 404]).toContain(response.status);
 
-    if (response.status() === 200) {
+    if (response.status === 200) {
       // Assert - Response should contain order details
-      const body = await response.json();
+      const body = response.body;
       expect(body).toHaveProperty("orderNumber");
       expect(body.orderNumber).toBe(orderId);
     }
@@ -189,7 +194,11 @@ test.describe("API - Repair Orders", () => {
     const response = await apiClient.getRepairOrderById("RO-9999-999");
 
     // Assert - Should return 404 Not Found
-    assertStatus(response, 404);
+    expectError(response, {
+      status: 404,
+      code: "NOT_FOUND",
+      messageMatches: /not found/i,
+    });
   });
 
   // ====================
@@ -202,7 +211,7 @@ test.describe("API - Repair Orders", () => {
    * API Requirement:
    * POST /repair-orders should create order and return created object
    */
-  test("should create new repair order", async () => {
+  test("should create new repair order", async ({ resources }) => {
     // Arrange - Prepare order data
     const orderData = {
       ...apiTestData.createRepairOrderPayload,
@@ -216,13 +225,15 @@ test.describe("API - Repair Orders", () => {
     assertStatus(response, 201);
 
     // Assert - Response should contain created order
-    const body = await response.json();
+    const body = response.body;
     expect(body).toHaveProperty("id");
     expect(body.customerName).toBe(orderData.customerName);
     expect(body.vehicleVin).toBe(orderData.vehicleVin);
 
-    // Store order ID for potential cleanup or further testing
+    // Store order ID for the update tests below
+    // (deleted when the worker finishes instead of after this test)
     createdOrderId = body.id;
+    resources.defer("repairOrder", createdOrderId);
   });
 
   /**
@@ -236,17 +247,13 @@ test.describe("API - Repair Orders", () => {
     const incompleteData = {
       customerName: "Incomplete Test",
       // Missing: vehicleVin, serviceType, etc.
-    };
+    } as CreateRepairOrderPayload;
 
     // Act - Attempt to create order
     const response = await apiClient.createRepairOrder(incompleteData);
 
-    // Assert - Should return 400 Bad Request
-    assertStatus(response, 400);
-
-    // Assert - Error message should indicate validation failure
-    const body = await response.json();
-    expect(body).toHaveProperty("error");
+    // Assert - Should return 400 Bad Request with a validation error
+    expectError(response, { status: 400, code: "VALIDATION_ERROR" });
   });
 
   // ====================
@@ -270,11 +277,11 @@ test.describe("API - Repair Orders", () => {
     const response = await apiClient.updateRepairOrder(orderId, updateData);
 
     // Assert - Response status should be 200 OK (or 404 if doesn't exist)
-    expect([200, 404]).toContain(response.status());
+    expect([200, 404]).toContain(response.status);
 
-    if (response.status() === 200) {
+    if (response.status === 200) {
       // Assert - Response should contain updated data
-      const body = await response.json();
+      const body = response.body;
       assertResponseContains(body, { status: updateData.status });
     }
   });
@@ -288,7 +295,7 @@ test.describe("API - Repair Orders", () => {
   test("should perform partial update on repair order", async () => {
     // Arrange - Update only status field
     const orderId = createdOrderId || "RO-2024-001";
-    const partialUpdate = {
+    const partialUpdate: UpdateRepairOrderPayload = {
       status: "In Progress",
     };
 
@@ -296,7 +303,7 @@ test.describe("API - Repair Orders", () => {
     const response = await apiClient.updateRepairOrder(orderId, partialUpdate);
 
     // Assert - Should succeed (200 or 404 if test order doesn't exist)
-    expect([200, 404]).toContain(response.status());
+    expect([200, 404]).toContain(response.status);
   });
 
   // ====================
@@ -319,14 +326,14 @@ test.describe("API - Repair Orders", () => {
       orderNumber: generateOrderNumber(),
     };
     const createResponse = await apiClient.createRepairOrder(orderData);
-    const createdOrder = await createResponse.json();
+    const createdOrder = createResponse.body;
     const orderIdToDelete = createdOrder.id;
 
     // Act - Delete the order
     const deleteResponse = await apiClient.deleteRepairOrder(orderIdToDelete);
 
     // Assert - Should return 204 No Content or 200 OK
-    expect([200, 204]).toContain(deleteResponse.status());
+    expect([200, 204]).toContain(deleteResponse.status);
 
     // Assert - Verify order is gone (GET should return 404)
     const getResponse = await apiClient.getRepairOrderById(orderIdToDelete);
@@ -351,7 +358,7 @@ test.describe("API - Repair Orders", () => {
     assertStatus(response, 200);
 
     // Assert - Results should be an array
-    const body = await response.json();
+    const body = response.body;
     expect(Array.isArray(body)).toBe(true);
 
     // Assert - All results should have "Completed" status
@@ -379,7 +386,7 @@ test.describe("API - Repair Orders", () => {
     // Assert - Response should be filtered results
     assertStatus(response, 200);
 
-    const body = await response.json();
+    const body = response.body;
     expect(Array.isArray(body)).toBe(true);
   });
 });
@@ -413,7 +420,7 @@ test.describe("API - Appointments", () => {
     assertStatus(response, 200);
 
     // Assert - Response should be an array
-    const body = await response.json();
+    const body = response.body;
     expect(Array.isArray(body)).toBe(true);
   });
 
@@ -431,10 +438,10 @@ test.describe("API - Appointments", () => {
     const response = await apiClient.getAppointmentById(appointmentId);
 
     // Assert - Response should be 200 OK or 404 Not Found
-    expect([200, 404]).toContain(response.status());
+    expect([200, 404]).toContain(response.status);
 
-    if (response.status() === 200) {
-      const body = await response.json();
+    if (response.status === 200) {
+      const body = response.body;
       expect(body).toHaveProperty("appointmentId");
     }
   });
@@ -464,7 +471,7 @@ test.describe("API - Appointments", () => {
     assertStatus(response, 201);
 
     // Assert - Response should contain created appointment
-    const body = await response.json();
+    const body = response.body;
     expect(body).toHaveProperty("id");
     expect(body.customerName).toBe(appointmentData.customerName);
   });
@@ -490,7 +497,7 @@ test.describe("API - Appointments", () => {
     );
 
     // Assert - Should succeed (200 or 404)
-    expect([200, 404]).toContain(response.status());
+    expect([200, 404]).toContain(response.status);
   });
 
   /**
@@ -507,7 +514,7 @@ test.describe("API - Appointments", () => {
     const response = await apiClient.cancelAppointment(appointmentId);
 
     // Assert - Should return success
-    expect([200, 204]).toContain(response.status());
+    expect([200, 204]).toContain(response.status);
   });
 });
 
@@ -533,13 +540,11 @@ test.describe("API - Performance & Contract", () => {
    * API should respond within acceptable time limits
    */
   test("should respond within acceptable time for GET requests", async () => {
-    const startTime = Date.now();
-
     // Act - Make API request
-    await apiClient.getRepairOrders();
+    const response = await apiClient.getRepairOrders();
 
     // Assert - Response time should be under 2 seconds
-    assertResponseTime(startTime, 2000);
+    expect(response).toRespondWithin(2000);
   });
 
   /**
@@ -549,26 +554,24 @@ test.describe("API - Performance & Contract", () => {
    * API responses should match expected schema
    */
   test("should return repair orders with correct schema", async () => {
-    // Act - Fetch repair orders
-    const response = await apiClient.getRepairOrders();
-    const body = await response.json();
+    // Act - Fetch every repair order across all pages
+    const orders = await apiClient.collectAllRepairOrders();
 
-    // Assert - Each order should have required fields
-    if (body.length > 0) {
-      const firstOrder = body[0];
-
-      // Verify schema structure
-      expect(firstOrder).toHaveProperty("id");
-      expect(firstOrder).toHaveProperty("orderNumber");
-      expect(firstOrder).toHaveProperty("customerName");
-      expect(firstOrder).toHaveProperty("status");
-      expect(firstOrder).toHaveProperty("vehicleVin");
-
-      // Verify data types
-      expect(typeof firstOrder.id).toBe("string");
-      expect(typeof firstOrder.orderNumber).toBe("string");
-      expect(typeof firstOrder.customerName).toBe("string");
-    }
+    // Assert - Every order should match the registered schema
+    // (required fields, types, status enum, VIN/date/money formats)
+    expect(orders).toMatchApiSchema("getRepairOrders");
+  });
+
+  /**
+   * Test: Appointment contract validation
+   *
+   * Contract Testing:
+   * Every appointment should match the registered schema
+   */
+  test("should return appointments with correct schema", async () => {
+    const appointmentList = await apiClient.collectAllAppointments();
+
+    expect(appointmentList).toMatchApiSchema("getAppointments");
   });
 
   /**
@@ -581,13 +584,96 @@ test.describe("API - Performance & Contract", () => {
     // Act - Request non-existent resource
     const response = await apiClient.getRepairOrderById("INVALID-ID");
 
-    // Assert - Should be 404
-    assertStatus(response, 404);
+    // Assert - Should be 404 with the standard error format
+    // (soft - report both if the status and the envelope are wrong)
+    expect.soft(response).toHaveStatus(404);
+    expect(response).toHaveErrorEnvelope("NOT_FOUND");
+  });
+});
+
+/**
+ * Test Suite: API Pagination
+ *
+ * Invariants that must hold for any paginated listing,
+ * regardless of how many records the environment has.
+ */
+test.describe("API - Pagination", () => {
+  let apiClient: DmsApiClient;
+
+  test.beforeAll(async () => {
+    // Small pages so even a modest dataset spans several of them
+    apiClient = new DmsApiClient({
+      pagination: {
+        repairOrders: { pageSize: 5 },
+        appointments: { pageSize: 5 },
+      },
+    });
+    await apiClient.init();
+  });
+
+  test.afterAll(async () => {
+    await apiClient.dispose();
+  });
+
+  /**
+   * Test: No record appears on more than one page
+   */
+  test("should not return duplicate repair orders across pages", async () => {
+    const orders = await apiClient.collectAllRepairOrders();
+
+    const ids = orders.map((order) => order.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  /**
+   * Test: Ordering is stable between two full passes
+   */
+  test("should keep a stable ordering across passes", async () => {
+    const firstPass = await apiClient.collectAllRepairOrders();
+    const secondPass = await apiClient.collectAllRepairOrders();
+
+    expect(secondPass.map((order) => order.id)).toEqual(
+      firstPass.map((order) => order.id)
+    );
+  });
+
+  /**
+   * Test: Reported total matches the sum of page sizes
+   */
+  test("should report a total matching the sum of pages", async () => {
+    let itemCount = 0;
+    let reportedTotal: number | undefined;
+
+    for await (const page of apiClient.iterateRepairOrderPages()) {
+      // Only the last page may be shorter than the page size
+      expect(page.items.length).toBeLessThanOrEqual(5);
+      itemCount += page.items.length;
+      reportedTotal = page.total ?? reportedTotal;
+    }
+
+    test.skip(reportedTotal === undefined, "API does not report totals");
+    expect(itemCount).toBe(reportedTotal);
+  });
+
+  /**
+   * Test: Filters apply to every page, not just the first
+   */
+  test("should apply filters on every page", async () => {
+    for await (const order of apiClient.iterateRepairOrders({
+      status: "Completed",
+    })) {
+      expect(order.status).toBe("Completed");
+    }
+  });
+
+  /**
+   * Test: Appointments have no duplicates across pages
+   */
+  test("should not return duplicate appointments across pages", async () => {
+    const appointmentList = await apiClient.collectAllAppointments();
 
-    // Assert - Error response should have standard format
-    const body = await response.json();
-    expect(body).toHaveProperty("error");
-    expect(typeof body.error).toBe("string");
+    const ids = appointmentList.map((appointment) => appointment.id);
+    expect(new Set(ids).size).toBe(ids.length);
   });
 });
 
@@ -0,0 +1,211 @@
+/**
+ * Attachments API Test Suite
+ *
+ * Uploads documents to a repair order (inspection photos, signed
+ * authorizations), downloads them again and compares checksums, so a file
+ * that is stored or served corrupted fails even when every status is right.
+ * Runs against API_BASE_URL; API_STUB=true runs it against the local stub.
+ *
+ * Tests covered:
+ * - Upload/download round trip per file type (SHA-256 compared)
+ * - Listing and deleting attachments
+ * - Rejected uploads (missing file, unsupported type, over the size limit)
+ * - Attachments of an unknown repair order
+ * - Round-trip verification (no network)
+ */
+
+import { test, expect } from "../utils/fixtures";
+import { DmsApiClient } from "../utils/apiClient";
+import { checksum, verifyRoundTrip } from "../utils/attachments";
+import { Attachment, RepairOrder } from "../utils/models";
+import {
+  apiTestData,
+  attachmentTestData,
+  generateOrderNumber,
+} from "../utils/testData";
+
+/**
+ * Test Suite: Attachments
+ */
+test.describe("API - Attachments", () => {
+  let apiClient: DmsApiClient;
+  let order: RepairOrder;
+
+  test.beforeAll(async () => {
+    apiClient = new DmsApiClient();
+    await apiClient.init();
+  });
+
+  test.afterAll(async () => {
+    await apiClient.dispose();
+  });
+
+  /**
+   * Every test attaches to a fresh repair order
+   * (deleted with its attachments by the resources fixture)
+   */
+  test.beforeEach(async () => {
+    const created = await apiClient.createRepairOrder({
+      ...apiTestData.createRepairOrderPayload,
+      orderNumber: generateOrderNumber(),
+    });
+    expect(created).toHaveStatus(201);
+    order = created.body;
+  });
+
+  for (const file of [
+    attachmentTestData.inspectionPhoto,
+    attachmentTestData.signedAuthorization,
+  ]) {
+    test(`should download ${file.mimeType} attachments byte for byte`, async () => {
+      // Act
+      const uploaded = await apiClient.uploadAttachment(order.id, file);
+      const downloaded = await apiClient.downloadAttachment(order.id, uploaded.body.id);
+
+      // Assert
+      expect(uploaded).toHaveStatus(201);
+      expect(uploaded).toMatchApiSchema("uploadAttachment");
+      expect(uploaded.body.checksum).toBe(checksum(file.buffer));
+      expect(downloaded).toHaveStatus(200);
+      expect(downloaded.headers["content-type"]).toContain(file.mimeType);
+      expect(verifyRoundTrip(file, uploaded.body, downloaded.body)).toEqual([]);
+    });
+  }
+
+  test("should list attachments with their metadata", async () => {
+    // Arrange
+    const photo = await apiClient.uploadAttachment(
+      order.id,
+      attachmentTestData.inspectionPhoto
+    );
+    const authorization = await apiClient.uploadAttachment(
+      order.id,
+      attachmentTestData.signedAuthorization
+    );
+
+    // Act
+    const listed = await apiClient.listAttachments(order.id);
+
+    // Assert
+    expect(listed).toHaveStatus(200);
+    expect(listed).toMatchApiSchema("listAttachments");
+    expect(listed.body).toEqual(
+      expect.arrayContaining([photo.body, authorization.body])
+    );
+  });
+
+  test("should delete an attachment", async () => {
+    // Arrange
+    const uploaded = await apiClient.uploadAttachment(
+      order.id,
+      attachmentTestData.inspectionPhoto
+    );
+
+    // Act
+    const deleted = await apiClient.deleteAttachment(order.id, uploaded.body.id);
+    const downloaded = await apiClient.downloadAttachment(order.id, uploaded.body.id);
+    const listed = await apiClient.listAttachments(order.id);
+
+    // Assert
+    expect(deleted).toHaveStatus(204);
+    expect(downloaded).toHaveStatus(404);
+    expect(downloaded).toHaveErrorEnvelope("NOT_FOUND");
+    expect(listed.body.map((attachment) => attachment.id)).not.toContain(
+      uploaded.body.id
+    );
+  });
+
+  test("should reject an upload without a file", async () => {
+    // Act - A JSON body instead of multipart/form-data
+    const result = await apiClient.post(`/repair-orders/${order.id}/attachments`, {
+      fileName: "inspection.png",
+    });
+
+    // Assert
+    expect(result).toHaveStatus(400);
+    expect(result).toHaveErrorEnvelope();
+  });
+
+  test("should reject unsupported content types", async () => {
+    // Act
+    const result = await apiClient.uploadAttachment(order.id, {
+      name: "invoice.exe",
+      mimeType: "application/x-msdownload",
+      buffer: Buffer.from("MZ\x90\x00", "latin1"),
+    });
+
+    // Assert
+    expect(result).toHaveStatus(415);
+    expect(result).toHaveErrorEnvelope("UNSUPPORTED_MEDIA_TYPE");
+  });
+
+  test("should reject files over the size limit", async () => {
+    // Act
+    const result = await apiClient.uploadAttachment(order.id, {
+      name: "walkaround-video-still.png",
+      mimeType: "image/png",
+      buffer: Buffer.alloc(attachmentTestData.maxSizeBytes + 1),
+    });
+    const listed = await apiClient.listAttachments(order.id);
+
+    // Assert
+    expect(result).toHaveStatus(413);
+    expect(result).toHaveErrorEnvelope("PAYLOAD_TOO_LARGE");
+    expect(listed.body).toEqual([]);
+  });
+
+  test("should return 404 for attachments of an unknown repair order", async () => {
+    // Act
+    const listed = await apiClient.listAttachments("RO-0000-00000");
+    const uploaded = await apiClient.uploadAttachment(
+      "RO-0000-00000",
+      attachmentTestData.inspectionPhoto
+    );
+
+    // Assert
+    expect(listed).toHaveStatus(404);
+    expect(uploaded).toHaveStatus(404);
+    expect(uploaded).toHaveErrorEnvelope("NOT_FOUND");
+  });
+});
+
+/**
+ * Test Suite: Round-Trip Verification (no network)
+ */
+test.describe("API - Attachments - Round-Trip Verification", () => {
+  const file = attachmentTestData.signedAuthorization;
+  const stored: Attachment = {
+    id: "ATT-1",
+    fileName: file.name,
+    contentType: file.mimeType,
+    size: file.buffer.length,
+    checksum: checksum(file.buffer),
+    uploadedAt: "2024-01-01T00:00:00.000Z",
+  };
+
+  test("should pass an identical download", async () => {
+    // Act & Assert
+    expect(verifyRoundTrip(file, stored, Buffer.from(file.buffer))).toEqual([]);
+  });
+
+  test("should tell a corrupted download from a corrupted upload", async () => {
+    // Arrange - Bytes over 0x7F decoded as UTF-8 and re-encoded
+    const mangled = Buffer.from(file.buffer.toString("utf-8"));
+
+    // Act
+    const badDownload = verifyRoundTrip(file, stored, mangled);
+    const badUpload = verifyRoundTrip(
+      file,
+      { ...stored, size: mangled.length, checksum: checksum(mangled) },
+      mangled
+    );
+
+    // Assert
+    expect(badDownload).toEqual([expect.stringContaining("(download corrupted)")]);
+    expect(badUpload).toEqual([
+      expect.stringContaining("size is"),
+      expect.stringContaining("(upload corrupted)"),
+      expect.not.stringContaining("(download corrupted)"),
+    ]);
+  });
+});
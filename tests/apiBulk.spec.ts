@@ -0,0 +1,281 @@
+/**
+ * Bulk Operations Test Suite
+ *
+ * Seeds, updates and deletes records in bulk through the /batch endpoints,
+ * and through bounded parallel single calls when an API has none.
+ * Runs against API_BASE_URL; API_STUB=true runs it against the local stub.
+ *
+ * Tests covered:
+ * - Batch create split into requests of batchSize items
+ * - Partial failures reported by item index
+ * - Bulk update and delete round trips
+ * - Fallback to single calls without a batch endpoint (in-process stub)
+ * - Concurrency limit of the single-call fallback
+ * - Report formatting (no network)
+ */
+
+import { test, expect } from "../utils/fixtures";
+import { DmsApiClient } from "../utils/apiClient";
+import { StaticTokenStrategy } from "../utils/auth";
+import {
+  BulkProgress,
+  BulkReport,
+  assertBulkSucceeded,
+  bulkCreate,
+  bulkDelete,
+  bulkUpdate,
+  formatBulkReport,
+} from "../utils/bulk";
+import { CreateRepairOrderPayload } from "../utils/models";
+import { DmsStubServer } from "../stub/dmsStubServer";
+import { apiTestData } from "../utils/testData";
+
+/**
+ * Repair order payloads with distinct customer names
+ */
+function orderPayloads(count: number): CreateRepairOrderPayload[] {
+  return Array.from({ length: count }, (_, index) => ({
+    ...apiTestData.createRepairOrderPayload,
+    customerName: `Bulk Customer ${index}`,
+  }));
+}
+
+/**
+ * Test Suite: Batch Endpoints
+ */
+test.describe("API - Bulk Operations", () => {
+  let apiClient: DmsApiClient;
+
+  test.beforeAll(async () => {
+    apiClient = new DmsApiClient();
+    await apiClient.init();
+  });
+
+  test.afterAll(async () => {
+    await apiClient.dispose();
+  });
+
+  test("should create records in batches of batchSize", async () => {
+    // Arrange
+    const progress: BulkProgress[] = [];
+
+    // Act
+    const report = await bulkCreate(apiClient, "repairOrder", orderPayloads(120), {
+      batchSize: 50,
+      onProgress: (update) => progress.push(update),
+    });
+
+    // Assert
+    assertBulkSucceeded(report);
+    expect(report.mode).toBe("batch");
+    expect(report.requests).toBe(3);
+    expect(report.succeeded.map((item) => item.index)).toEqual(
+      Array.from({ length: 120 }, (_, index) => index)
+    );
+    expect(report.succeeded[7].record?.customerName).toBe("Bulk Customer 7");
+    expect(progress.map((update) => update.done)).toEqual([50, 100, 120]);
+
+    const fetched = await apiClient.getRepairOrderById(report.succeeded[119].id);
+    expect(fetched).toHaveStatus(200);
+  });
+
+  test("should report partial failures by item index", async () => {
+    // Arrange - Items 1 and 3 miss required fields
+    const payloads = orderPayloads(4);
+    const { customerName: _first, ...noCustomer } = payloads[1];
+    const { vehicleVin: _second, ...noVin } = payloads[3];
+
+    // Act
+    const report = await bulkCreate(apiClient, "repairOrder", [
+      payloads[0],
+      noCustomer as CreateRepairOrderPayload,
+      payloads[2],
+      noVin as CreateRepairOrderPayload,
+    ]);
+
+    // Assert
+    expect(report.succeeded.map((item) => item.index)).toEqual([0, 2]);
+    expect(report.failed).toEqual([
+      expect.objectContaining({ index: 1, status: 400 }),
+      expect.objectContaining({ index: 3, status: 400 }),
+    ]);
+    expect(() => assertBulkSucceeded(report)).toThrow(/2\/4 succeeded, 2 failed/);
+  });
+
+  test("should update and delete records in bulk", async () => {
+    // Arrange
+    const created = await bulkCreate(apiClient, "repairOrder", orderPayloads(5));
+    assertBulkSucceeded(created);
+    const ids = created.succeeded.map((item) => item.id);
+
+    // Act
+    const updated = await bulkUpdate(
+      apiClient,
+      "repairOrder",
+      ids.map((id) => ({ id, changes: { priority: "High" } }))
+    );
+    const deleted = await bulkDelete(apiClient, "repairOrder", [...ids, "RO-0000-00000"]);
+
+    // Assert
+    assertBulkSucceeded(updated);
+    expect(updated.succeeded.every((item) => item.record?.priority === "High")).toBe(true);
+    expect(deleted.succeeded.map((item) => item.id)).toEqual(ids);
+    expect(deleted.failed).toEqual([
+      expect.objectContaining({ index: 5, id: "RO-0000-00000", status: 404 }),
+    ]);
+
+    const fetched = await apiClient.getRepairOrderById(ids[0]);
+    expect(fetched).toHaveStatus(404);
+  });
+
+  test("should create appointments in bulk", async () => {
+    // Act
+    const report = await bulkCreate(apiClient, "appointment", [
+      apiTestData.createAppointmentPayload,
+      { ...apiTestData.createAppointmentPayload, scheduledTime: "11:00 AM" },
+    ]);
+
+    // Assert
+    assertBulkSucceeded(report);
+    expect(report.succeeded.map((item) => item.record?.scheduledTime)).toEqual([
+      apiTestData.createAppointmentPayload.scheduledTime,
+      "11:00 AM",
+    ]);
+  });
+});
+
+/**
+ * Test Suite: Single-Call Fallback
+ * An in-process stub without batch endpoints stands in for an older API
+ */
+test.describe("API - Bulk Operations - Single-Call Fallback", () => {
+  const stub = new DmsStubServer({ batchEndpoints: false });
+  let apiClient: DmsApiClient;
+  let inFlight = 0;
+  let maxInFlight = 0;
+
+  test.beforeAll(async () => {
+    const baseURL = await stub.start();
+    apiClient = new DmsApiClient({
+      baseURL,
+      auth: new StaticTokenStrategy(apiTestData.auth.token),
+      interceptors: [
+        {
+          name: "in-flight counter",
+          beforeRequest: () => {
+            inFlight++;
+            maxInFlight = Math.max(maxInFlight, inFlight);
+          },
+          afterResponse: () => {
+            inFlight--;
+          },
+        },
+      ],
+    });
+    await apiClient.init();
+  });
+
+  test.afterAll(async () => {
+    await apiClient.dispose();
+    await stub.stop();
+  });
+
+  test("should fall back to parallel single calls", async () => {
+    // Arrange
+    maxInFlight = 0;
+
+    // Act
+    const created = await bulkCreate(apiClient, "repairOrder", orderPayloads(12), {
+      concurrency: 3,
+    });
+    const deleted = await bulkDelete(
+      apiClient,
+      "repairOrder",
+      created.succeeded.map((item) => item.id),
+      { concurrency: 3 }
+    );
+
+    // Assert - The failed batch probe isn't counted; later calls skip it
+    assertBulkSucceeded(created);
+    assertBulkSucceeded(deleted);
+    expect(created.mode).toBe("single");
+    expect(created.requests).toBe(12);
+    expect(deleted.mode).toBe("single");
+    expect(deleted.requests).toBe(12);
+    expect(maxInFlight).toBe(3);
+  });
+
+  test("should fail every item when batches are forced", async () => {
+    // Act
+    const report = await bulkCreate(apiClient, "repairOrder", orderPayloads(2), {
+      batch: "always",
+    });
+
+    // Assert
+    expect(report.mode).toBe("batch");
+    expect(report.succeeded).toEqual([]);
+    expect(report.failed.map((item) => item.index)).toEqual([0, 1]);
+    expect(report.failed[0].status).not.toBeLessThan(400);
+  });
+
+  test("should keep the whole reason of a failed call", async () => {
+    // Arrange - A client whose calls fail with a multi-line error
+    const refusing = new DmsApiClient({
+      baseURL: stub.url,
+      auth: new StaticTokenStrategy(apiTestData.auth.token),
+      interceptors: [
+        {
+          name: "refuse",
+          beforeRequest: () => {
+            throw new Error("Refused:\n  [first] reason one\n  [second] reason two");
+          },
+        },
+      ],
+    });
+    await refusing.init();
+
+    try {
+      // Act
+      const report = await bulkCreate(refusing, "repairOrder", orderPayloads(1), {
+        batch: "never",
+      });
+
+      // Assert
+      expect(report.failed[0].error).toBe("Refused: [first] reason one [second] reason two");
+    } finally {
+      await refusing.dispose();
+    }
+  });
+});
+
+/**
+ * Test Suite: Report Formatting (no network)
+ */
+test.describe("API - Bulk Operations - Report Formatting", () => {
+  test("should summarize the report and list failures", async () => {
+    // Arrange
+    const report: BulkReport<never> = {
+      operation: "delete",
+      kind: "appointment",
+      mode: "batch",
+      total: 3,
+      succeeded: [{ index: 0, id: "APT-1" }],
+      failed: [
+        { index: 1, id: "APT-2", status: 404, error: "Appointment not found" },
+        { index: 2, id: "APT-3", status: null, error: "socket hang up" },
+      ],
+      requests: 1,
+      durationMs: 1420,
+    };
+
+    // Act
+    const formatted = formatBulkReport(report);
+
+    // Assert
+    expect(formatted.split("\n")).toEqual([
+      "Bulk delete appointment: 1/3 succeeded, 2 failed (batch, 1 request(s), 1.4s)",
+      "  FAILED #1 (APT-2): 404 Appointment not found",
+      "  FAILED #2 (APT-3): error socket hang up",
+    ]);
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * Optimistic Concurrency Test Suite
+ *
+ * Two service advisors editing the same repair order must not silently undo
+ * each other's changes. Checks the API's ETag / If-Match handling: stale
+ * updates get 409 or 412, simultaneous conflicting updates have exactly one
+ * winner, and the stored record is the winner's.
+ * Runs against API_BASE_URL; API_STUB=true runs it against the local stub.
+ *
+ * Tests covered:
+ * - ETag returned by reads and changed by every update
+ * - Stale update refused, newer change kept
+ * - Simultaneous conflicting updates: one winner, consistent final state
+ * - Retry after reading again
+ * - Lost update without If-Match
+ * - Appointments
+ * - Entity tag bookkeeping and declared conflict statuses (no network)
+ */
+
+import { test, expect } from "../utils/fixtures";
+import { DmsApiClient } from "../utils/apiClient";
+import { EntityTagStore, entityTagOf, isConflict } from "../utils/concurrency";
+import { DEFAULT_OPENAPI_SPEC, OpenApiConformance } from "../utils/openapi";
+import { RepairOrder } from "../utils/models";
+import {
+  apiTestData,
+  concurrencyConfig,
+  generateOrderNumber,
+  repairOrders,
+} from "../utils/testData";
+
+/**
+ * Test Suite: ETag / If-Match
+ * Every advisor is a separate client with If-Match on
+ */
+test.describe("API - Optimistic Concurrency", () => {
+  let advisors: DmsApiClient[];
+
+  test.beforeAll(async () => {
+    advisors = Array.from(
+      { length: Math.max(2, concurrencyConfig.contenders) },
+      () => new DmsApiClient({ ifMatch: true })
+    );
+    await Promise.all(advisors.map((advisor) => advisor.init()));
+  });
+
+  test.afterAll(async () => {
+    await Promise.all(advisors.map((advisor) => advisor.dispose()));
+  });
+
+  /**
+   * Create a repair order and let every advisor read it
+   */
+  async function sharedOrder(readers: DmsApiClient[] = advisors): Promise<RepairOrder> {
+    const created = await advisors[0].createRepairOrder({
+      ...apiTestData.createRepairOrderPayload,
+      orderNumber: generateOrderNumber(),
+    });
+    expect(created).toHaveStatus(201);
+    for (const reader of readers) {
+      expect(await reader.getRepairOrderById(created.body.id)).toHaveStatus(200);
+    }
+    return created.body;
+  }
+
+  test("should return a new ETag after every update", async () => {
+    // Arrange
+    const [advisor] = advisors;
+    const order = await sharedOrder([advisor]);
+    const path = `/repair-orders/${order.id}`;
+    const before = advisor.entityTag(path);
+
+    // Act
+    const updated = await advisor.updateRepairOrder(order.id, { notes: "First update" });
+    const reread = await advisor.getRepairOrderById(order.id);
+
+    // Assert
+    expect(before, "GET /repair-orders/{id} returned no ETag").toBeTruthy();
+    expect(updated).toHaveStatus(200);
+    expect(entityTagOf(updated)).not.toBe(before);
+    expect(entityTagOf(reread)).toBe(entityTagOf(updated));
+    expect(advisor.entityTag(path)).toBe(entityTagOf(updated));
+  });
+
+  test("should refuse an update based on a stale read", async () => {
+    // Arrange - Both advisors open the order
+    const [first, second] = advisors;
+    const order = await sharedOrder([first, second]);
+
+    // Act - The first saves, then the second saves over their stale copy
+    const saved = await first.updateRepairOrder(order.id, { notes: "Customer approved brakes" });
+    const stale = await second.updateRepairOrder(order.id, { notes: "Customer declined" });
+
+    // Assert - The first change survives
+    expect(saved).toHaveStatus(200);
+    expect(isConflict(stale), `stale update answered ${stale.status}`).toBe(true);
+    expect(stale).toHaveErrorEnvelope();
+    const current = await first.getRepairOrderById(order.id);
+    expect(current.body.notes).toBe("Customer approved brakes");
+  });
+
+  test("should let exactly one of simultaneous conflicting updates win", async () => {
+    // Arrange - Every advisor holds the same version
+    const order = await sharedOrder();
+    const updates = advisors.map((_, index) => ({
+      status: repairOrders.statuses[index % repairOrders.statuses.length],
+      notes: `Update from advisor ${index + 1}`,
+    }));
+
+    // Act - All save at once
+    const results = await Promise.all(
+      advisors.map((advisor, index) => advisor.updateRepairOrder(order.id, updates[index]))
+    );
+
+    // Assert - One winner, every other update refused as a conflict
+    const statuses = results.map((result) => result.status);
+    const winners = results.filter((result) => result.ok);
+    expect(winners, `statuses: ${statuses.join(", ")}`).toHaveLength(1);
+    expect(
+      results.filter((result) => !result.ok).every(isConflict),
+      `statuses: ${statuses.join(", ")}`
+    ).toBe(true);
+
+    // Assert - The stored order is exactly the winner's version
+    const winner = updates[results.indexOf(winners[0])];
+    const current = await advisors[0].getRepairOrderById(order.id);
+    expect(current).toHaveStatus(200);
+    expect(current.body).toMatchObject(winner);
+    expect(entityTagOf(current)).toBe(entityTagOf(winners[0]));
+  });
+
+  test("should apply the update after reading again", async () => {
+    // Arrange - The second advisor's update was refused
+    const [first, second] = advisors;
+    const order = await sharedOrder([first, second]);
+    await first.updateRepairOrder(order.id, { priority: "High" });
+    const refused = await second.updateRepairOrder(order.id, { notes: "Loaner car" });
+    expect(isConflict(refused)).toBe(true);
+
+    // Act - Read again and reapply
+    await second.getRepairOrderById(order.id);
+    const retried = await second.updateRepairOrder(order.id, { notes: "Loaner car" });
+
+    // Assert - Both changes are kept
+    expect(retried).toHaveStatus(200);
+    expect(retried.body).toMatchObject({ priority: "High", notes: "Loaner car" });
+  });
+
+  test("should lose an update without If-Match", async () => {
+    // Arrange
+    const [first, second] = advisors;
+    const order = await sharedOrder([first, second]);
+    await first.updateRepairOrder(order.id, { notes: "Customer approved brakes" });
+
+    // Act - A blind update, as clients without If-Match send them
+    const blind = await second.updateRepairOrder(
+      order.id,
+      { notes: "Customer declined" },
+      { ifMatch: false }
+    );
+
+    // Assert - Accepted: last write wins and the first change is gone
+    expect(blind).toHaveStatus(200);
+    expect(blind.body.notes).toBe("Customer declined");
+  });
+
+  test("should refuse a stale appointment update", async () => {
+    // Arrange
+    const [first, second] = advisors;
+    const created = await first.createAppointment(apiTestData.createAppointmentPayload);
+    expect(created).toHaveStatus(201);
+    const appointmentId = created.body.id;
+    await second.getAppointmentById(appointmentId);
+
+    // Act - The first advisor's tag comes from the create response
+    const saved = await first.updateAppointment(appointmentId, { scheduledTime: "9:00 AM" });
+    const stale = await second.updateAppointment(appointmentId, { scheduledTime: "3:00 PM" });
+
+    // Assert
+    expect(saved).toHaveStatus(200);
+    expect(isConflict(stale), `stale update answered ${stale.status}`).toBe(true);
+    const current = await first.getAppointmentById(appointmentId);
+    expect(current.body.scheduledTime).toBe("9:00 AM");
+  });
+});
+
+/**
+ * Test Suite: Entity Tag Bookkeeping (no network)
+ */
+test.describe("API - Optimistic Concurrency - Entity Tags", () => {
+  const ok = (body: unknown, headers: Record<string, string> = {}) => ({
+    ok: true,
+    headers,
+    body,
+  });
+
+  test("should read the ETag header or the version field", async () => {
+    // Act & Assert
+    expect(entityTagOf(ok({ id: "RO-1", version: 4 }, { etag: '"abc"' }))).toBe('"abc"');
+    expect(entityTagOf(ok({ id: "RO-1", version: 4 }))).toBe('"4"');
+    expect(entityTagOf(ok({ id: "RO-1", rowVersion: "x1" }), "rowVersion")).toBe('"x1"');
+    expect(entityTagOf(ok({ id: "RO-1" }))).toBeNull();
+    expect(entityTagOf(ok(undefined))).toBeNull();
+  });
+
+  test("should track tags per record through create, update and delete", async () => {
+    // Arrange
+    const store = new EntityTagStore();
+
+    // Act & Assert - POST is stored under the new record's path
+    store.observe("POST", "/repair-orders", ok({ id: "RO-1" }, { etag: '"v0"' }));
+    expect(store.get("/repair-orders/RO-1")).toBe('"v0"');
+
+    store.observe("PATCH", "/repair-orders/RO-1", ok({ id: "RO-1" }, { etag: '"v1"' }));
+    store.observe("GET", "/repair-orders?page=1", ok([{ id: "RO-1" }], { etag: '"list"' }));
+    store.observe("PATCH", "/repair-orders/RO-1", { ok: false, headers: {}, body: {} });
+    expect(store.get("/repair-orders/RO-1/")).toBe('"v1"');
+
+    store.observe("DELETE", "/repair-orders/RO-1", ok(undefined));
+    expect(store.get("/repair-orders/RO-1")).toBeUndefined();
+  });
+
+  test("should pick the If-Match value from the option and the default", async () => {
+    // Arrange
+    const store = new EntityTagStore();
+    store.observe("GET", "/appointments/APT-1", ok({ id: "APT-1" }, { etag: '"v2"' }));
+
+    // Act & Assert
+    expect(store.ifMatchFor("/appointments/APT-1", undefined, false)).toBeNull();
+    expect(store.ifMatchFor("/appointments/APT-1", undefined, true)).toBe('"v2"');
+    expect(store.ifMatchFor("/appointments/APT-1", true, false)).toBe('"v2"');
+    expect(store.ifMatchFor("/appointments/APT-1", false, true)).toBeNull();
+    expect(store.ifMatchFor("/appointments/APT-1", '"v1"', false)).toBe('"v1"');
+    expect(store.ifMatchFor("/appointments/APT-9", undefined, true)).toBeNull();
+    expect(() => store.ifMatchFor("/appointments/APT-9", true, false)).toThrow(
+      "No ETag seen for /appointments/APT-9"
+    );
+  });
+
+  test("should declare every conflict status in the OpenAPI spec", async () => {
+    // Arrange
+    const checker = OpenApiConformance.fromFile(DEFAULT_OPENAPI_SPEC);
+    const body = { error: "Record changed", code: "CONFLICT" };
+
+    // Act & Assert - A conflict reaches isConflict() instead of failing conformance
+    for (const status of concurrencyConfig.conflictStatuses) {
+      expect(checker.check("PATCH", "/repair-orders/RO-1", status, body)).toEqual([]);
+      expect(checker.check("PATCH", "/appointments/APT-1", status, body)).toEqual([]);
+    }
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * API Error Reporting Test Suite
+ *
+ * Tests DmsApiError and the assertion helpers that throw it (assertStatus,
+ * assertResponseContains, expectError) against a local HTTP server.
+ * Runs without a browser or external network.
+ *
+ * Tests covered:
+ * - Request, request ID, envelope and diff in status failures
+ * - Every mismatching key reported by assertResponseContains
+ * - expectError on status, code and message
+ */
+
+import { test, expect } from "../utils/fixtures";
+import * as http from "http";
+import { AddressInfo } from "net";
+import {
+  DmsApiClient,
+  assertResponseContains,
+  assertStatus,
+  expectError,
+} from "../utils/apiClient";
+import { StaticTokenStrategy } from "../utils/auth";
+import { DmsApiError } from "../utils/errors";
+
+/**
+ * Test Suite: API Error Reporting
+ */
+test.describe("API Error Reporting", () => {
+  let server: http.Server;
+  let apiClient: DmsApiClient;
+
+  test.beforeAll(async () => {
+    // /missing answers with the error envelope, everything else with an order
+    server = http.createServer((req, res) => {
+      if (req.url === "/missing") {
+        res.writeHead(404, {
+          "Content-Type": "application/json",
+          "X-Request-Id": "req-7f3c9a",
+        });
+        res.end(
+          JSON.stringify({
+            error: "Repair order not found",
+            code: "NOT_FOUND",
+            details: { id: "RO-404" },
+          })
+        );
+        return;
+      }
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ id: "RO-1", status: "Pending", priority: "Normal" }));
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+
+    apiClient = new DmsApiClient({
+      baseURL: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+      auth: new StaticTokenStrategy("static-token"),
+      conformance: null,
+    });
+    await apiClient.init();
+  });
+
+  test.afterAll(async () => {
+    await apiClient.dispose();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  /**
+   * Run a throwing assertion and return what it threw
+   */
+  function caught(assertion: () => void): DmsApiError {
+    try {
+      assertion();
+    } catch (error) {
+      expect(error).toBeInstanceOf(DmsApiError);
+      return error as DmsApiError;
+    }
+    throw new Error("Expected the assertion to throw");
+  }
+
+  test("should report request, request ID and envelope on status failures", async () => {
+    const response = await apiClient.get("/missing");
+
+    const error = caught(() => assertStatus(response, 200));
+
+    expect(error).toMatchObject({
+      name: "DmsApiError",
+      method: "GET",
+      status: 404,
+      code: "NOT_FOUND",
+      details: { id: "RO-404" },
+      requestId: "req-7f3c9a",
+      error: { error: "Repair order not found" },
+    });
+    expect(error.url).toMatch(/\/missing$/);
+    expect(error.message).toMatch(
+      /^Expected status 200, but got 404\n {2}Request: GET http:\/\/127\.0\.0\.1:\d+\/missing\n {2}Request ID: req-7f3c9a\n {2}Response body: {"error":"Repair order not found",/
+    );
+    expect(error.message).toContain(
+      "Diff (- expected, + actual):\n    - status: 200\n    + status: 404"
+    );
+  });
+
+  test("should report every mismatching key", async () => {
+    const response = await apiClient.get<Record<string, string>>("/orders/RO-1");
+
+    // Body only - no request context
+    const bodyError = caught(() =>
+      assertResponseContains(response.body, { status: "Completed", priority: "Normal" })
+    );
+    expect(bodyError.message).toBe(
+      "Response body does not contain the expected values (1 mismatch)\n" +
+        "  Diff (- expected, + actual):\n" +
+        '    - status: "Completed"\n' +
+        '    + status: "Pending"'
+    );
+
+    // Typed result - request included, all mismatches listed
+    const resultError = caught(() =>
+      assertResponseContains(response, { status: "Completed", notes: "Rush" })
+    );
+    expect(resultError.message).toContain("(2 mismatches)\n  Request: GET ");
+    expect(resultError.diff).toEqual([
+      { path: "status", expected: "Completed", actual: "Pending" },
+      { path: "notes", expected: "Rush", actual: undefined },
+    ]);
+    expect(resultError.message).toContain("+ notes: (missing)");
+  });
+
+  test("should check status, code and message of error responses", async () => {
+    const response = await apiClient.get("/missing");
+
+    // Matching expectations return the envelope
+    const envelope = expectError(response, {
+      status: 404,
+      code: "NOT_FOUND",
+      messageMatches: /not found/i,
+    });
+    expect(envelope.details).toEqual({ id: "RO-404" });
+    expectError(response, { messageMatches: "order not found" });
+
+    // Every mismatch is listed
+    const error = caught(() =>
+      expectError(response, {
+        status: 401,
+        code: "UNAUTHORIZED",
+        messageMatches: /token/,
+      })
+    );
+    expect(error.message).toMatch(
+      /^Expected an error response with status 401, but status, code, error did not match/
+    );
+    expect(error.diff).toEqual([
+      { path: "status", expected: 401, actual: 404 },
+      { path: "code", expected: "UNAUTHORIZED", actual: "NOT_FOUND" },
+      { path: "error", expected: /token/, actual: "Repair order not found" },
+    ]);
+  });
+
+  test("should reject successful responses in expectError", async () => {
+    const response = await apiClient.get("/orders/RO-1");
+
+    const error = caught(() => expectError(response));
+
+    expect(error.status).toBe(200);
+    expect(error.message).toContain('- status: "4xx/5xx"\n    + status: 200');
+  });
+});
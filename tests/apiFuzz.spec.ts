@@ -0,0 +1,87 @@
+/**
+ * API Fuzzing Test Suite
+ *
+ * Sends malformed variants of the create/update payloads (utils/fuzz.ts)
+ * and expects a 4xx in the standard error envelope for every one - never a
+ * 5xx, never a 2xx. Runs against API_BASE_URL; API_STUB=true runs it
+ * against the local stub.
+ *
+ * Failing inputs are minimized and, with FUZZ_SAVE_REGRESSIONS=true, saved
+ * to fuzzConfig.regressionsDir (fuzz-regressions/ by default). Commit them:
+ * the "Saved regressions" tests replay each one until the API rejects it.
+ *
+ * Tests covered (per endpoint, one test per kind of bad input):
+ * - Wrong types, nulls and missing required fields
+ * - Oversized strings and malformed unicode
+ * - Negative costs and invalid VINs
+ * - Injection strings in formatted fields, operator objects everywhere
+ */
+
+import { test, expect } from "../utils/fixtures";
+import { DmsApiClient } from "../utils/apiClient";
+import {
+  FUZZ_CATEGORY_LABELS,
+  FuzzCategory,
+  formatFindings,
+  fuzzTarget,
+  fuzzTargets,
+  generateVariants,
+  loadRegressions,
+  replayRegression,
+} from "../utils/fuzz";
+import { fuzzConfig } from "../utils/testData";
+
+/**
+ * Test Suite: API Fuzzing
+ */
+test.describe("API - Fuzzing", () => {
+  let apiClient: DmsApiClient;
+
+  /**
+   * The fuzzer judges every response itself - a 5xx is a finding,
+   * not an OpenAPI conformance failure
+   */
+  test.beforeAll(async () => {
+    apiClient = new DmsApiClient({ conformance: null });
+    await apiClient.init();
+  });
+
+  test.afterAll(async () => {
+    await apiClient.dispose();
+  });
+
+  for (const target of fuzzTargets) {
+    test.describe(target.name, () => {
+      const variants = generateVariants(target);
+      const categories = Object.keys(FUZZ_CATEGORY_LABELS) as FuzzCategory[];
+
+      for (const category of categories) {
+        const batch = variants.filter((variant) => variant.category === category);
+        if (batch.length === 0) continue;
+
+        test(`should reject ${FUZZ_CATEGORY_LABELS[category]} (${batch.length} variants)`, async () => {
+          // Act
+          const findings = await fuzzTarget(apiClient, target, batch);
+
+          // Assert
+          expect(findings, formatFindings(findings)).toHaveLength(0);
+        });
+      }
+    });
+  }
+
+  test.describe("Saved regressions", () => {
+    for (const regression of loadRegressions(fuzzConfig.regressionsDir)) {
+      test(`${regression.target} ${regression.id}: ${regression.description}`, async () => {
+        // Act
+        const problem = await replayRegression(apiClient, regression);
+
+        // Assert
+        expect(
+          problem?.message,
+          `Saved input still not rejected: ${JSON.stringify(regression.body)}`
+        ).toBeUndefined();
+      });
+    }
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * API Load Test Suite
+ *
+ * Runs the repair order mix against API_BASE_URL with the load profile and
+ * thresholds declared in loadTestConfig (utils/testData.ts). Skipped unless
+ * LOAD_TEST=true - it puts real load on the target.
+ *
+ * Usage:
+ * npm run test:load                          # against API_BASE_URL
+ * API_STUB=true npm run test:load            # against the local stub
+ * LOAD_VUS=20 LOAD_DURATION_MS=120000 npm run test:load
+ *
+ * The JSON and HTML summaries are attached to the HTML report.
+ */
+
+import { test } from "../utils/fixtures";
+import {
+  assertLoadThresholds,
+  formatLoadReport,
+  repairOrderMix,
+  runLoad,
+  writeLoadReport,
+} from "../utils/load";
+import { loadTestConfig } from "../utils/testData";
+
+/**
+ * Test Suite: API Load
+ */
+test.describe("API - Load", () => {
+  test.skip(process.env.LOAD_TEST !== "true", "Set LOAD_TEST=true to run");
+
+  test("should meet latency and error thresholds for the repair order mix", async ({}, testInfo) => {
+    // Duration plus ramp-up, cleanup and reporting
+    test.setTimeout(loadTestConfig.durationMs + loadTestConfig.rampUpMs + 60_000);
+
+    // Act
+    const report = await runLoad(repairOrderMix(), {
+      virtualUsers: loadTestConfig.virtualUsers,
+      durationMs: loadTestConfig.durationMs,
+      rampUpMs: loadTestConfig.rampUpMs,
+      thinkTimeMs: loadTestConfig.thinkTimeMs,
+      thresholds: loadTestConfig.thresholds,
+    });
+
+    // Report - attached before asserting so failed runs keep their numbers
+    const { json, html } = writeLoadReport(report, testInfo.outputPath("load"));
+    await testInfo.attach("load-report.json", {
+      path: json,
+      contentType: "application/json",
+    });
+    await testInfo.attach("load-report.html", {
+      path: html,
+      contentType: "text/html",
+    });
+    await testInfo.attach("load-report", {
+      body: formatLoadReport(report),
+      contentType: "text/plain",
+    });
+
+    // Assert
+    assertLoadThresholds(report);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * API Matchers Test Suite
+ *
+ * Tests the custom expect matchers (utils/apiMatchers.ts) against the
+ * in-memory DMS API stub. Runs without a browser or external network.
+ *
+ * Tests covered:
+ * - toHaveStatus, with .not and the request context in failures
+ * - toMatchApiSchema on results and plain bodies
+ * - toRespondWithin
+ * - toHaveErrorEnvelope with and without a code
+ * - toContainRepairOrder on lists and single orders
+ * - expect.poll with the custom matchers
+ */
+
+import { test, expect } from "../utils/fixtures";
+import { DmsApiClient } from "../utils/apiClient";
+import { LoginStrategy, clearTokenCache } from "../utils/auth";
+import { anyVin } from "../utils/matchers";
+import { DmsStubServer } from "../stub/dmsStubServer";
+import {
+  apiTestData,
+  generateOrderNumber,
+  repairOrders,
+} from "../utils/testData";
+
+/**
+ * Test Suite: API Matchers
+ */
+test.describe("API Matchers", () => {
+  const stub = new DmsStubServer();
+  let apiClient: DmsApiClient;
+
+  test.beforeAll(async () => {
+    const baseURL = await stub.start();
+    clearTokenCache();
+    apiClient = new DmsApiClient({ baseURL, auth: new LoginStrategy() });
+    await apiClient.init();
+  });
+
+  test.afterAll(async () => {
+    await apiClient.dispose();
+    await stub.stop();
+  });
+
+  /**
+   * Message of a failing expectation, without terminal colors
+   */
+  function failureOf(assertion: () => void): string {
+    try {
+      assertion();
+    } catch (error) {
+      return (error as Error).message.replace(/\u001b\[\d+m/g, "");
+    }
+    throw new Error("Expected the assertion to fail");
+  }
+
+  test("should check the status code", async () => {
+    const found = await apiClient.getRepairOrders();
+    const missing = await apiClient.getRepairOrderById("RO-9999-999");
+
+    expect(found).toHaveStatus(200);
+    expect(missing).not.toHaveStatus(200);
+
+    // Failures read like any expect failure, plus the request context
+    expect(failureOf(() => expect(missing).toHaveStatus(200))).toMatch(
+      /toHaveStatus[\s\S]*Expected: 200\nReceived: 404\n\nRequest: GET http:\/\/[^\n]+\/repair-orders\/RO-9999-999\nResponse body: {"error":/
+    );
+    expect(failureOf(() => expect(found).not.toHaveStatus(200))).toMatch(
+      /Expected: not 200/
+    );
+  });
+
+  test("should validate bodies against registered schemas", async () => {
+    const result = await apiClient.getRepairOrders();
+    const orders = await apiClient.collectAllRepairOrders();
+
+    expect(result).toMatchApiSchema("getRepairOrders");
+    expect(orders).toMatchApiSchema("getRepairOrders");
+    expect(result).not.toMatchApiSchema("getRepairOrderById");
+
+    const invalid = { ...orders[0], status: "Lost" };
+    expect(
+      failureOf(() => expect(invalid).toMatchApiSchema("getRepairOrderById"))
+    ).toMatch(/Received: 1 violation\(s\)\n {2}\$\.status: /);
+  });
+
+  test("should check the response time", async () => {
+    const result = await apiClient.getRepairOrders();
+
+    expect(result).toRespondWithin(3000);
+    expect(failureOf(() => expect(result).toRespondWithin(-1))).toMatch(
+      /Expected: at most -1ms\nReceived: \d+(\.\d+)?ms/
+    );
+  });
+
+  test("should check the error envelope", async () => {
+    const missing = await apiClient.getRepairOrderById("RO-9999-999");
+    const found = await apiClient.getRepairOrders();
+
+    expect(missing).toHaveErrorEnvelope();
+    expect(missing).toHaveErrorEnvelope("NOT_FOUND");
+    expect(missing).not.toHaveErrorEnvelope("UNAUTHORIZED");
+    expect(found).not.toHaveErrorEnvelope();
+
+    expect(
+      failureOf(() => expect(missing).toHaveErrorEnvelope("UNAUTHORIZED"))
+    ).toMatch(
+      /Expected: error envelope with code "UNAUTHORIZED"\nReceived: code is "NOT_FOUND"/
+    );
+    expect(failureOf(() => expect(found).toHaveErrorEnvelope())).toMatch(
+      /Received: status 200 is not an error status; body is not an error envelope/
+    );
+  });
+
+  test("should find repair orders in lists and single results", async () => {
+    const { existingOrder } = repairOrders;
+    const list = await apiClient.getRepairOrders();
+    const all = await apiClient.collectAllRepairOrders();
+    const single = await apiClient.getRepairOrderById(all[0].id);
+
+    expect(list).toContainRepairOrder({
+      orderNumber: existingOrder.orderNumber,
+      vehicleVin: anyVin(),
+    });
+    expect(all).toContainRepairOrder({ customerName: existingOrder.customerName });
+    expect(single).toContainRepairOrder({ id: all[0].id });
+    expect(list).not.toContainRepairOrder({ orderNumber: "RO-0000-000" });
+
+    // The closest order's diff explains the failure
+    const failure = failureOf(() =>
+      expect(list).toContainRepairOrder({
+        orderNumber: existingOrder.orderNumber,
+        status: "Cancelled",
+      })
+    );
+    expect(failure).toMatch(
+      /Closest order at index \d+:\nDiff \(- expected, \+ actual\):\n {2}- status: "Cancelled"\n {2}\+ status: "In Progress"/
+    );
+  });
+
+  test("should work with expect.poll", async () => {
+    const created = await apiClient.createRepairOrder({
+      ...apiTestData.createRepairOrderPayload,
+      orderNumber: generateOrderNumber(),
+    });
+    expect(created).toHaveStatus(201);
+
+    await expect
+      .poll(() => apiClient.getRepairOrderById(created.body.id), { timeout: 5000 })
+      .toHaveStatus(200);
+    await expect
+      .poll(() => apiClient.collectAllRepairOrders(), { timeout: 5000 })
+      .toContainRepairOrder({ id: created.body.id });
+  });
+});
@@ -0,0 +1,319 @@
+/**
+ * Rate Limiting Test Suite
+ *
+ * Checks that DmsApiClient stays under the API's rate limit and rides out
+ * 429s, against in-process stubs with a small limit. The throttling suite
+ * deliberately exceeds the limit of the API at API_BASE_URL and is skipped
+ * unless RATE_LIMIT_TEST=true - it starves other suites of quota.
+ *
+ * Tests covered:
+ * - 429 retried after Retry-After
+ * - Requests held back when no requests remain in the window
+ * - Token bucket pacing shared by clients
+ * - Raw 429 responses without a rate limiter
+ * - Header parsing (no network)
+ * - Shared state untouched without pacing, left-over locks (no network)
+ * - Throttling and recovery of the real API (RATE_LIMIT_TEST=true)
+ *
+ * Usage:
+ * npm run test:rate-limit                                   # against API_BASE_URL
+ * API_STUB=true API_STUB_RATE_LIMIT=20 npm run test:rate-limit
+ */
+
+import * as fs from "fs";
+import { TestInfo } from "@playwright/test";
+import { test, expect } from "../utils/fixtures";
+import { DmsApiClient, DmsApiClientOptions } from "../utils/apiClient";
+import { StaticTokenStrategy } from "../utils/auth";
+import { withFileLock } from "../utils/fileLock";
+import {
+  RateLimiter,
+  parseRateLimitHeaders,
+  parseRetryAfter,
+} from "../utils/rateLimit";
+import { DmsStubServer } from "../stub/dmsStubServer";
+import { apiTestData, rateLimitConfig } from "../utils/testData";
+
+/**
+ * Retries recorded on the running test (utils/retry.ts)
+ */
+function retriesOf(testInfo: TestInfo): number {
+  return testInfo.attachments.filter((item) => item.name.startsWith("api-retry:")).length;
+}
+
+/**
+ * Test Suite: Client Behavior
+ * The stub allows 3 requests per second
+ */
+test.describe("API - Rate Limiting", () => {
+  const stub = new DmsStubServer({ rateLimit: { limit: 3, windowMs: 1000 } });
+  const pacingStub = new DmsStubServer();
+  const clients: DmsApiClient[] = [];
+
+  async function createClient(
+    baseURL: string,
+    options: DmsApiClientOptions
+  ): Promise<DmsApiClient> {
+    const client = new DmsApiClient({
+      baseURL,
+      auth: new StaticTokenStrategy(apiTestData.auth.token),
+      ...options,
+    });
+    await client.init();
+    clients.push(client);
+    return client;
+  }
+
+  test.beforeAll(async () => {
+    await stub.start();
+    await pacingStub.start();
+  });
+
+  test.afterAll(async () => {
+    await Promise.all(clients.map((client) => client.dispose()));
+    await stub.stop();
+    await pacingStub.stop();
+  });
+
+  /**
+   * Fresh window on the stub and an empty shared bucket
+   */
+  test.beforeEach(async () => {
+    stub.reset();
+    new RateLimiter(stub.url).reset();
+    new RateLimiter(pacingStub.url).reset();
+  });
+
+  test("should retry a 429 after Retry-After", async ({}, testInfo) => {
+    // Arrange
+    const apiClient = await createClient(stub.url, {});
+
+    // Act - 5 requests at once against a limit of 3
+    const results = await Promise.all(
+      Array.from({ length: 5 }, () => apiClient.getRepairOrders())
+    );
+
+    // Assert
+    for (const result of results) {
+      expect(result).toHaveStatus(200);
+    }
+    expect(retriesOf(testInfo)).toBe(2);
+  });
+
+  test("should hold back requests when none remain", async ({}, testInfo) => {
+    // Arrange
+    const apiClient = await createClient(stub.url, {});
+    const statuses: number[] = [];
+    const startedAt = Date.now();
+
+    // Act - The third response says 0 remaining
+    for (let request = 0; request < 4; request++) {
+      statuses.push((await apiClient.getRepairOrders()).status);
+    }
+
+    // Assert - The fourth waited for the reset instead of getting a 429
+    expect(statuses).toEqual([200, 200, 200, 200]);
+    expect(retriesOf(testInfo)).toBe(0);
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(500);
+  });
+
+  test("should pace clients with one shared token bucket", async () => {
+    // Arrange - Two clients stand in for two workers
+    const policy = { rateLimit: { requestsPerSecond: 10, burst: 2 } };
+    const first = await createClient(pacingStub.url, policy);
+    const second = await createClient(pacingStub.url, policy);
+    const startedAt = Date.now();
+
+    // Act - 8 requests: 2 from the burst, 6 paced at 100ms
+    const results = await Promise.all(
+      [first, second].flatMap((client) =>
+        Array.from({ length: 4 }, () => client.getRepairOrders())
+      )
+    );
+
+    // Assert
+    for (const result of results) {
+      expect(result).toHaveStatus(200);
+    }
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(500);
+  });
+
+  test("should return raw 429s without a rate limiter", async () => {
+    // Arrange
+    const apiClient = await createClient(stub.url, { rateLimit: null });
+
+    // Act
+    const results = await Promise.all(
+      Array.from({ length: 5 }, () => apiClient.getRepairOrders())
+    );
+
+    // Assert
+    const throttled = results.filter((result) => result.status === 429);
+    expect(throttled).toHaveLength(2);
+    for (const result of throttled) {
+      expect(result).toHaveErrorEnvelope("RATE_LIMITED");
+      expect(result.headers["retry-after"]).toBe("1");
+      expect(result.headers["x-ratelimit-remaining"]).toBe("0");
+    }
+  });
+});
+
+/**
+ * Test Suite: Header Parsing (no network)
+ */
+test.describe("API - Rate Limiting - Header Parsing", () => {
+  const now = Date.parse("2026-01-01T00:00:00Z");
+
+  test("should read Retry-After as seconds or an HTTP date", async () => {
+    // Act & Assert
+    expect(parseRetryAfter("2", now)).toBe(2000);
+    expect(parseRetryAfter("Thu, 01 Jan 2026 00:00:05 GMT", now)).toBe(5000);
+    expect(parseRetryAfter("Wed, 31 Dec 2025 23:59:00 GMT", now)).toBe(0);
+    expect(parseRetryAfter("soon", now)).toBeNull();
+    expect(parseRetryAfter(undefined, now)).toBeNull();
+  });
+
+  test("should read reset delays and epoch timestamps", async () => {
+    // Act
+    const delay = parseRateLimitHeaders(
+      { "X-RateLimit-Limit": "100", "X-RateLimit-Remaining": "0", "X-RateLimit-Reset": "30" },
+      now
+    );
+    const epoch = parseRateLimitHeaders(
+      { "ratelimit-remaining": "7", "ratelimit-reset": String(now / 1000 + 12) },
+      now
+    );
+
+    // Assert
+    expect(delay).toEqual({ limit: 100, remaining: 0, resetMs: 30_000 });
+    expect(epoch).toEqual({ remaining: 7, resetMs: 12_000 });
+    expect(parseRateLimitHeaders({ "content-type": "application/json" }, now)).toEqual({});
+  });
+});
+
+/**
+ * Test Suite: Shared State (no network)
+ */
+test.describe("API - Rate Limiting - Shared State", () => {
+  test("should not write the shared state without pacing or a 429", async ({}, testInfo) => {
+    // Arrange
+    const stateDir = testInfo.outputPath("rate-limit");
+    fs.mkdirSync(stateDir, { recursive: true });
+    const limiter = new RateLimiter(
+      "http://unpaced.invalid",
+      { requestsPerSecond: 0, burst: 1, maxRetries: 0, maxWaitMs: 200 },
+      stateDir
+    );
+
+    // Act & Assert - Nothing to pace, nothing written
+    expect(await limiter.acquire()).toBeLessThan(50);
+    expect(fs.readdirSync(stateDir)).toEqual([]);
+
+    // Act & Assert - A 429 still holds back the next request
+    expect(limiter.observe(429, { "Retry-After": "0.1" })).toBe(100);
+    expect(fs.readdirSync(stateDir)).toHaveLength(1);
+    expect(await limiter.acquire()).toBeGreaterThanOrEqual(50);
+  });
+
+  test("should take over only a lock older than the timeout", async ({}, testInfo) => {
+    // Arrange - A lock left behind by a crashed worker a minute ago
+    fs.mkdirSync(testInfo.outputPath(), { recursive: true });
+    const lockFile = testInfo.outputPath("state.json.lock");
+    fs.writeFileSync(lockFile, "");
+    const minuteAgo = new Date(Date.now() - 60_000);
+    fs.utimesSync(lockFile, minuteAgo, minuteAgo);
+
+    // Act
+    let ran = false;
+    withFileLock(lockFile, () => {
+      ran = true;
+    }, 10_000);
+
+    // Assert
+    expect(ran).toBe(true);
+    expect(fs.existsSync(lockFile)).toBe(false);
+  });
+
+  test("should wait for a lock younger than the timeout", async ({}, testInfo) => {
+    // Arrange - A lock taken 700ms ago; with a 1s timeout it is fresh ~300ms more
+    fs.mkdirSync(testInfo.outputPath(), { recursive: true });
+    const lockFile = testInfo.outputPath("state.json.lock");
+    fs.writeFileSync(lockFile, "");
+    const takenAt = new Date(Date.now() - 700);
+    fs.utimesSync(lockFile, takenAt, takenAt);
+    const startedAt = Date.now();
+
+    // Act
+    let waitedMs = 0;
+    withFileLock(lockFile, () => {
+      waitedMs = Date.now() - startedAt;
+    }, 1_000);
+
+    // Assert - Taken over once older than the timeout, not a full timeout later
+    expect(waitedMs).toBeGreaterThanOrEqual(250);
+    expect(waitedMs).toBeLessThan(900);
+  });
+});
+
+/**
+ * Test Suite: Throttling (RATE_LIMIT_TEST=true)
+ * Exceeds the limit of the API at API_BASE_URL on purpose
+ */
+test.describe("API - Rate Limiting - Throttling", () => {
+  test.skip(process.env.RATE_LIMIT_TEST !== "true", "Set RATE_LIMIT_TEST=true to run");
+
+  let rawClient: DmsApiClient;
+  let apiClient: DmsApiClient;
+
+  test.beforeAll(async () => {
+    rawClient = new DmsApiClient({ rateLimit: null });
+    apiClient = new DmsApiClient();
+    await rawClient.init();
+    await apiClient.init();
+  });
+
+  test.afterAll(async () => {
+    await rawClient.dispose();
+    await apiClient.dispose();
+  });
+
+  test("should throttle a burst with 429 and recover after Retry-After", async () => {
+    // Act
+    const burst = await Promise.all(
+      Array.from({ length: rateLimitConfig.testBurst }, () => rawClient.getRepairOrders())
+    );
+    const throttled = burst.filter((result) => result.status === 429);
+    const retryAfterMs = Math.max(
+      ...throttled.map((result) => parseRetryAfter(result.headers["retry-after"]) ?? 0)
+    );
+
+    // Assert - Throttled, not failed
+    expect(
+      throttled.length,
+      `${rateLimitConfig.testBurst} requests at once were never throttled`
+    ).toBeGreaterThan(0);
+    for (const result of burst) {
+      expect([200, 429]).toContain(result.status);
+    }
+    for (const result of throttled) {
+      expect(result).toHaveErrorEnvelope();
+      expect(parseRetryAfter(result.headers["retry-after"])).not.toBeNull();
+    }
+
+    // Assert - Accepted again once Retry-After has passed
+    await new Promise((resolve) => setTimeout(resolve, retryAfterMs));
+    expect(await rawClient.getRepairOrders()).toHaveStatus(200);
+  });
+
+  test("should complete a burst through the rate limiter", async () => {
+    // Act
+    const burst = await Promise.all(
+      Array.from({ length: rateLimitConfig.testBurst }, () => apiClient.getRepairOrders())
+    );
+
+    // Assert
+    for (const result of burst) {
+      expect(result).toHaveStatus(200);
+    }
+  });
+});
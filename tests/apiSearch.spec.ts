@@ -0,0 +1,276 @@
+/**
+ * Search Query Test Suite
+ *
+ * Checks repair order and appointment searches built with the typed query
+ * builder (utils/searchQuery.ts): several statuses, date ranges, sorting,
+ * and the API refusing filters it can't apply instead of ignoring them.
+ * Runs against API_BASE_URL; API_STUB=true runs it against the local stub.
+ *
+ * Tests covered:
+ * - Several statuses (repeated keys), on one page and across pages
+ * - limit() and page() as page size and start page of the pagination helpers
+ * - Created date range
+ * - Sorting
+ * - Appointments by service type and scheduled date range
+ * - 400 for a reversed date range or an unknown sort field
+ * - Serialization and validation of the builder (no network)
+ */
+
+import { test, expect } from "../utils/fixtures";
+import { DmsApiClient } from "../utils/apiClient";
+import { defaultPagination } from "../utils/pagination";
+import {
+  AppointmentQuery,
+  RepairOrderFilters,
+  RepairOrderQuery,
+  RepairOrderSortField,
+  appointmentQuery,
+  repairOrderQuery,
+} from "../utils/searchQuery";
+
+/**
+ * Test Suite: Searches
+ */
+test.describe("API - Search", () => {
+  let apiClient: DmsApiClient;
+
+  test.beforeAll(async () => {
+    apiClient = new DmsApiClient();
+    await apiClient.init();
+  });
+
+  test.afterAll(async () => {
+    await apiClient.dispose();
+  });
+
+  test("should return orders in any of several statuses", async () => {
+    // Arrange
+    const pending = await apiClient.searchRepairOrders({ status: "Pending" });
+    const completed = await apiClient.searchRepairOrders({ status: "Completed" });
+
+    // Act
+    const query = repairOrderQuery().status("Pending", "Completed");
+    const response = await apiClient.searchRepairOrders(query);
+    const paged = await apiClient.collectAllRepairOrders(query);
+
+    // Assert - The union of the single-status searches, on every page
+    expect(response).toHaveStatus(200);
+    const expected = [...pending.body, ...completed.body].map((order) => order.id);
+    expect(response.body.map((order) => order.id).sort()).toEqual(expected.sort());
+    expect(paged.map((order) => order.id).sort()).toEqual(expected.sort());
+  });
+
+  test("should page through a query from its page and limit", async () => {
+    test.skip(
+      defaultPagination.repairOrders.style !== "page",
+      "page() needs page pagination"
+    );
+
+    // Arrange
+    const all = await apiClient.searchRepairOrders(repairOrderQuery().sortBy("orderNumber"));
+    expect(all.body.length).toBeGreaterThan(4);
+
+    // Act
+    const pages = [];
+    for await (const page of apiClient.iterateRepairOrderPages(
+      repairOrderQuery().sortBy("orderNumber").page(2).limit(2)
+    )) {
+      pages.push(page);
+    }
+
+    // Assert - Pages of 2, starting after the first 2 orders
+    expect(pages[0].items.map((order) => order.id)).toEqual(
+      all.body.slice(2, 4).map((order) => order.id)
+    );
+    expect(pages.flatMap((page) => page.items).map((order) => order.id)).toEqual(
+      all.body.slice(2).map((order) => order.id)
+    );
+  });
+
+  test("should return orders created within a date range", async () => {
+    // Act
+    const response = await apiClient.searchRepairOrders(
+      repairOrderQuery().createdBetween("2024-01-01", "2024-01-31")
+    );
+
+    // Assert
+    expect(response).toHaveStatus(200);
+    expect(response.body.length).toBeGreaterThan(0);
+    for (const order of response.body) {
+      const day = (order.createdAt || "").slice(0, 10);
+      expect(day >= "2024-01-01" && day <= "2024-01-31", `${order.id} ${day}`).toBe(true);
+    }
+  });
+
+  test("should sort orders by creation date, newest first", async () => {
+    // Act
+    const response = await apiClient.searchRepairOrders(
+      repairOrderQuery().sortBy("createdAt", "desc").limit(10)
+    );
+
+    // Assert
+    expect(response).toHaveStatus(200);
+    const createdAt = response.body.map((order) => order.createdAt || "");
+    expect(createdAt).toEqual([...createdAt].sort().reverse());
+  });
+
+  test("should return appointments by service type and scheduled date range", async () => {
+    // Act
+    const response = await apiClient.searchAppointments(
+      appointmentQuery()
+        .serviceType("Oil Change", "Brake Service", "Diagnostics")
+        .scheduledBetween("2024-07-01", "2024-07-31")
+        .sortBy("scheduledDate")
+    );
+
+    // Assert
+    expect(response).toHaveStatus(200);
+    expect(response.body.length).toBeGreaterThan(0);
+    for (const appointment of response.body) {
+      expect(["Oil Change", "Brake Service", "Diagnostics"]).toContain(
+        appointment.serviceType
+      );
+      expect(appointment.scheduledDate >= "2024-07-01").toBe(true);
+      expect(appointment.scheduledDate <= "2024-07-31").toBe(true);
+    }
+    const dates = response.body.map((appointment) => appointment.scheduledDate);
+    expect(dates).toEqual([...dates].sort());
+  });
+
+  test("should refuse filters it cannot apply", async () => {
+    // Act - Raw requests: the builder refuses these before sending
+    const reversed = await apiClient.get(
+      "/repair-orders?startDate=2024-03-01&endDate=2024-01-01"
+    );
+    const unsortable = await apiClient.get("/appointments?sort=vehicleColor");
+
+    // Assert - 400 instead of an unfiltered list
+    expect(reversed).toHaveStatus(400);
+    expect(reversed).toHaveErrorEnvelope();
+    expect(unsortable).toHaveStatus(400);
+    expect(unsortable).toHaveErrorEnvelope();
+  });
+});
+
+/**
+ * Test Suite: Query Builder (no network)
+ */
+test.describe("API - Search - Query Builder", () => {
+  test("should serialize repair order filters into the query conventions", async () => {
+    // Act
+    const query = repairOrderQuery()
+      .status("Pending", "In Progress")
+      .customer("Smith")
+      .vin("1HGCM82633A004352")
+      .createdBetween("2024-01-01", new Date(Date.UTC(2024, 2, 31)))
+      .sortBy("createdAt", "desc")
+      .page(2)
+      .limit(25);
+
+    // Assert
+    expect(query.toString()).toBe(
+      "status=Pending&status=In+Progress&customerName=Smith" +
+        "&vehicleVin=1HGCM82633A004352&startDate=2024-01-01&endDate=2024-03-31" +
+        "&sort=createdAt&order=desc&page=2&limit=25"
+    );
+    expect(query.toFilters()).toMatchObject({ status: ["Pending", "In Progress"] });
+    expect(repairOrderQuery().toEndpoint("/repair-orders")).toBe("/repair-orders");
+  });
+
+  test("should serialize appointment filters into the query conventions", async () => {
+    // Act
+    const query = appointmentQuery()
+      .serviceType("Oil Change", "Tire Rotation")
+      .scheduledBetween("2024-06-01", "2024-06-30")
+      .sortBy("scheduledDate");
+
+    // Assert
+    expect(query.toEndpoint("/appointments")).toBe(
+      "/appointments?serviceType=Oil+Change&serviceType=Tire+Rotation" +
+        "&startDate=2024-06-01&endDate=2024-06-30&sort=scheduledDate&order=asc"
+    );
+  });
+
+  test("should build the same query from typed filters", async () => {
+    // Act
+    const fromFilters = RepairOrderQuery.from({
+      status: ["Pending", "Completed"],
+      customerName: "Smith",
+      sort: "orderNumber",
+      order: "desc",
+    });
+    const built = repairOrderQuery()
+      .status("Pending", "Completed")
+      .customer("Smith")
+      .sortBy("orderNumber", "desc");
+
+    // Assert
+    expect(fromFilters.toString()).toBe(built.toString());
+    expect(RepairOrderQuery.from(built)).toBe(built);
+    expect(AppointmentQuery.from({ scheduledDate: "2024-06-15" }).toString()).toBe(
+      "scheduledDate=2024-06-15"
+    );
+  });
+
+  test("should use page and limit as the start page and page size", async () => {
+    // Arrange
+    const query = repairOrderQuery().status("Pending").page(3).limit(20);
+    const pageStyle = { ...defaultPagination.repairOrders, style: "page" as const };
+    const offsetStyle = { ...pageStyle, style: "offset" as const };
+
+    // Act
+    const paged = query.toPagination(pageStyle);
+
+    // Assert - Paging moves into the config, the filters keep the rest
+    expect(paged.filters).toEqual({ status: "Pending" });
+    expect(paged.config).toMatchObject({ pageSize: 20, firstPage: pageStyle.firstPage + 2 });
+    expect(repairOrderQuery().limit(5).toPagination(offsetStyle).config.pageSize).toBe(5);
+    expect(() => query.toPagination(offsetStyle)).toThrow(
+      "Cannot start repair order pagination at page 3 with offset pagination"
+    );
+  });
+
+  test("should reject unknown filters and invalid values", async () => {
+    // Arrange - Values the types refuse, as untyped callers could send them
+    const typo = { stauts: "Completed" } as unknown as RepairOrderFilters;
+    const unsortable = "vehicleColor" as RepairOrderSortField;
+
+    // Act & Assert
+    expect(() => RepairOrderQuery.from(typo)).toThrow(
+      'Unknown repair order filter "stauts"'
+    );
+    expect(() => RepairOrderQuery.from({ status: "Done" as "Pending" })).toThrow(
+      'Unknown status "Done"'
+    );
+    expect(() => repairOrderQuery().createdFrom("01/15/2024")).toThrow(
+      'startDate must be a date (YYYY-MM-DD), got "01/15/2024"'
+    );
+    expect(() => repairOrderQuery().createdBetween("2024-03-01", "2024-01-01")).toThrow(
+      "startDate 2024-03-01 is after endDate 2024-01-01"
+    );
+    expect(() =>
+      appointmentQuery().scheduledTo("2024-01-01").scheduledFrom("2024-02-01")
+    ).toThrow("Invalid appointment date range");
+    expect(() => repairOrderQuery().sortBy(unsortable)).toThrow(
+      'Cannot sort repair order by "vehicleColor"'
+    );
+    expect(() => repairOrderQuery().status()).toThrow("needs at least one value");
+    expect(() => repairOrderQuery().customer(" ")).toThrow("must not be empty");
+    expect(() => repairOrderQuery().page(0)).toThrow("page must be a positive integer");
+    expect(() => appointmentQuery().limit(2.5)).toThrow("limit must be a positive integer");
+  });
+
+  test("should leave the query unchanged when a date range is refused", async () => {
+    // Arrange
+    const query = repairOrderQuery().createdBetween("2024-01-01", "2024-01-31");
+
+    // Act
+    expect(() => query.createdFrom("2024-02-01")).toThrow("Invalid repair order date range");
+    expect(() => query.createdBetween("2024-03-01", "2024-02-01")).toThrow(
+      "Invalid repair order date range"
+    );
+
+    // Assert - Still the last valid range
+    expect(query.toString()).toBe("startDate=2024-01-01&endDate=2024-01-31");
+  });
+});
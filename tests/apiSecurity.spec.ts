@@ -0,0 +1,140 @@
+/**
+ * API Security Test Suite
+ *
+ * Scans every secured operation of the OpenAPI document (utils/securityScan.ts):
+ * no credentials, malformed and expired tokens must get 401, another
+ * dealership's user must get 403/404 for the owner's record IDs, and error
+ * bodies must not leak internals. Runs against API_BASE_URL with the
+ * dealerships from securityConfig (utils/testData.ts); API_STUB=true runs
+ * it against the local stub.
+ *
+ * Each test attaches its findings report ("security-findings").
+ *
+ * Tests covered:
+ * - Authentication and object level authorization per operation
+ * - The same status for a probe on every endpoint
+ * - Leak detection (stack traces, SQL errors, paths, echoed tokens)
+ */
+
+import { test, expect } from "../utils/fixtures";
+import {
+  ProbeResult,
+  findInconsistencies,
+  findLeaks,
+  formatSecurityReport,
+  scanOperation,
+  securedOperations,
+} from "../utils/securityScan";
+import { securityConfig } from "../utils/testData";
+
+/**
+ * Test Suite: Security Scan
+ */
+test.describe("API - Security Scan", () => {
+  test.use({ tenantName: securityConfig.owner });
+
+  const operations = securedOperations();
+
+  for (const operation of operations) {
+    test(`should secure ${operation.method} ${operation.path}`, async ({
+      tenantApi,
+      tenantClient,
+    }, testInfo) => {
+      // Arrange
+      const intruder = await tenantClient(securityConfig.intruder);
+
+      // Act
+      const results = await scanOperation(operation, { owner: tenantApi, intruder });
+
+      // Assert
+      const report = formatSecurityReport(results);
+      await testInfo.attach("security-findings", {
+        body: report,
+        contentType: "text/plain",
+      });
+      const findings = results.filter((result) => result.problems.length > 0);
+      expect(findings, report).toHaveLength(0);
+    });
+  }
+
+  test("should answer each probe the same way on every endpoint", async ({
+    tenantApi,
+    tenantClient,
+  }, testInfo) => {
+    // Arrange
+    const intruder = await tenantClient(securityConfig.intruder);
+    const results: ProbeResult[] = [];
+
+    // Act
+    for (const operation of operations) {
+      results.push(...(await scanOperation(operation, { owner: tenantApi, intruder })));
+    }
+
+    // Assert
+    const report = formatSecurityReport(results);
+    await testInfo.attach("security-findings", {
+      body: report,
+      contentType: "text/plain",
+    });
+    expect(findInconsistencies(results), report).toEqual([]);
+  });
+});
+
+/**
+ * Test Suite: Leak Detection (no network)
+ */
+test.describe("API - Security Scan - Leak Detection", () => {
+  test("should flag stack traces, SQL errors and server paths", async () => {
+    // Arrange
+    const nodeTrace = JSON.stringify({
+      error: "Cannot read properties of undefined",
+      stack: "TypeError: x\n    at createOrder (/usr/src/app/dist/orders.js:42:17)",
+    });
+    const sqlError = '{"error":"SQLSTATE[42000]: syntax error at or near \\"\'\\""}';
+    const javaTrace = "java.lang.NullPointerException\n\tat com.dms.Orders.create(Orders.java:88)";
+
+    // Act & Assert
+    expect(findLeaks(nodeTrace)).toEqual(
+      expect.arrayContaining([
+        expect.stringContaining("a stack trace"),
+        expect.stringContaining("a server path"),
+      ])
+    );
+    expect(findLeaks(sqlError)).toEqual([expect.stringContaining("a SQL error")]);
+    expect(findLeaks(javaTrace)).toEqual(
+      expect.arrayContaining([expect.stringContaining("an exception class")])
+    );
+  });
+
+  test("should flag echoed credentials but not a clean envelope", async () => {
+    // Act & Assert
+    expect(findLeaks('{"error":"Invalid token secret-token-123"}', ["secret-token-123"])).toEqual([
+      expect.stringContaining("echoes the credentials"),
+    ]);
+    expect(findLeaks('{"error":"Unauthorized","code":"UNAUTHORIZED"}', ["secret-token-123"])).toEqual(
+      []
+    );
+  });
+
+  test("should report probes answered differently across endpoints", async () => {
+    // Arrange
+    const probe = (method: string, status: number): ProbeResult => ({
+      operation: { method, path: "/repair-orders/{orderId}", secured: true },
+      probe: "foreignId",
+      label: "dealerB with the owner's ID",
+      status,
+      problems: [],
+    });
+
+    // Act
+    const consistent = findInconsistencies([probe("GET", 404), probe("DELETE", 404)]);
+    const mixed = findInconsistencies([probe("GET", 404), probe("DELETE", 403)]);
+
+    // Assert
+    expect(consistent).toEqual([]);
+    expect(mixed).toEqual([
+      "foreignId answered inconsistently: 404 on GET /repair-orders/{orderId}; " +
+        "403 on DELETE /repair-orders/{orderId}",
+    ]);
+  });
+});
@@ -15,7 +15,7 @@
  * - Confirmation dialogs
  */
 
-import { test, expect } from "@playwright/test";
+import { test, expect } from "../utils/fixtures";
 import { AppointmentsPage } from "../pages/AppointmentsPage";
 import { LoginPage } from "../pages/LoginPage";
 import { users, appointments } from "../utils/testData";
@@ -79,7 +79,10 @@ test.describe("Appointment Management", () => {
    * 3. Save
    * 4. Verify appointment created
    */
-  test("should schedule new appointment successfully", async ({ page }) => {
+  test("should schedule new appointment successfully", async ({
+    page,
+    resources,
+  }) => {
     const appointmentsPage = new AppointmentsPage(page);
 
     // Arrange - Generate unique customer name to avoid conflicts
@@ -89,6 +92,9 @@ test.describe("Appointment Management", () => {
       customerName: uniqueCustomerName,
     };
 
+    // Arrange - Delete the appointment via API after the test
+    resources.trackByLookup("appointment", { customerName: uniqueCustomerName });
+
     // Act - Schedule appointment
     await appointmentsPage.scheduleAppointment(appointmentData);
 
@@ -565,15 +571,17 @@ test.describe("Appointment Management", () => {
    */
   test("should complete schedule-view-reschedule workflow", async ({
     page,
+    resources,
   }) => {
     const appointmentsPage = new AppointmentsPage(page);
 
-    // Step 1: Schedule new appointment
+    // Step 1: Schedule new appointment (deleted via API after the test)
     const uniqueCustomerName = `Workflow Test ${Date.now()}`;
     const appointmentData = {
       ...appointments.newAppointment,
       customerName: uniqueCustomerName,
     };
+    resources.trackByLookup("appointment", { customerName: uniqueCustomerName });
 
     await appointmentsPage.scheduleAppointment(appointmentData);
 
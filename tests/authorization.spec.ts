@@ -0,0 +1,24 @@
+/**
+ * Authorization Matrix Test Suite
+ *
+ * One test per role x operation of permissionMatrix (utils/permissions.ts):
+ * every role calls every repair order and appointment operation and must
+ * get the success status when allowed, 403 when denied and 401 when
+ * anonymous. Runs against API_BASE_URL with the role credentials from
+ * roleUsers (utils/testData.ts); API_STUB=true runs it against the local stub.
+ *
+ * Why it matters:
+ * - Role checks are easy to forget on one endpoint and invisible to
+ *   suites that always run as a privileged user
+ * - A failing test names the role and operation, e.g.
+ *   "DELETE /repair-orders/{orderId} › technician is denied (403)"
+ *
+ * To change the expected permissions, edit permissionMatrix - not this file.
+ */
+
+import { generatePermissionTests, permissionMatrix } from "../utils/permissions";
+
+/**
+ * Test Suite: Authorization Matrix
+ */
+generatePermissionTests(permissionMatrix);
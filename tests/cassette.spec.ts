@@ -0,0 +1,192 @@
+/**
+ * API Cassette Test Suite
+ *
+ * Tests record-and-replay for DmsApiClient against a local HTTP server.
+ * Runs without a browser or external network.
+ *
+ * Tests covered:
+ * - Recording with masked dynamic values and redacted secrets
+ * - Deterministic replay without network calls
+ * - Clear failures on replay misses
+ * - Configurable matching
+ * - Uploads matched by file checksum, binary downloads replayed byte for byte
+ */
+
+import { test, expect } from "../utils/fixtures";
+import * as fs from "fs";
+import * as http from "http";
+import { AddressInfo } from "net";
+import { DmsApiClient } from "../utils/apiClient";
+import { StaticTokenStrategy } from "../utils/auth";
+import { CassetteOptions, takeCassette } from "../utils/cassette";
+import { DmsStubServer } from "../stub/dmsStubServer";
+import {
+  apiTestData,
+  attachmentTestData,
+  generateOrderNumber,
+  repairOrders,
+} from "../utils/testData";
+
+/**
+ * Test Suite: API Cassettes
+ */
+test.describe("API Cassettes", () => {
+  let server: http.Server;
+  let baseURL: string;
+
+  // Requests that reached the server
+  let hits = 0;
+
+  test.beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      hits++;
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        res.writeHead(req.method === "POST" ? 201 : 200, {
+          "Content-Type": "application/json",
+          "X-Total-Count": "1",
+        });
+        res.end(
+          JSON.stringify({
+            ...(body ? JSON.parse(body) : {}),
+            id: `hit-${hits}`,
+            token: "secret-session-token",
+            createdAt: new Date().toISOString(),
+          })
+        );
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  test.afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  /**
+   * Client with a cassette mode, writing under this test's output directory
+   */
+  async function createClient(options: Partial<CassetteOptions>, url = baseURL) {
+    const client = new DmsApiClient({
+      baseURL: url,
+      auth: new StaticTokenStrategy(apiTestData.auth.token),
+      conformance: null,
+      cassette: { dir: test.info().outputPath("cassettes"), ...options },
+    });
+    await client.init();
+    return client;
+  }
+
+  /**
+   * Record a create + get, save the cassette and start a replay client
+   */
+  async function recordThenReplay(options: Partial<CassetteOptions> = {}) {
+    const recorder = await createClient({ mode: "record" });
+    await recorder.createRepairOrder({
+      ...apiTestData.createRepairOrderPayload,
+      orderNumber: generateOrderNumber(),
+    });
+    await recorder.get("/repair-orders?status=Completed");
+    await recorder.dispose();
+
+    const cassette = takeCassette(test.info().testId)!;
+    cassette.save();
+
+    return {
+      file: cassette.file,
+      replayer: await createClient({ mode: "replay", ...options }),
+    };
+  }
+
+  test("should record with masked and redacted values", async () => {
+    const { file, replayer } = await recordThenReplay();
+    await replayer.dispose();
+
+    const saved = fs.readFileSync(file, "utf-8");
+    expect(saved).toContain('"orderNumber": "RO-0000-00000"');
+    expect(saved).toContain('"createdAt": "2000-01-01T00:00:00.000Z"');
+    expect(saved).toContain('"token": "[REDACTED]"');
+    expect(saved).not.toContain("secret-session-token");
+  });
+
+  test("should replay recorded responses without the network", async () => {
+    const { replayer } = await recordThenReplay();
+    const hitsBeforeReplay = hits;
+
+    // A different generated order number still matches (masked)
+    const created = await replayer.createRepairOrder({
+      ...apiTestData.createRepairOrderPayload,
+      orderNumber: generateOrderNumber(),
+    });
+    const listed = await replayer.get("/repair-orders?status=Completed");
+    await replayer.dispose();
+
+    expect(hits).toBe(hitsBeforeReplay);
+    expect(created.status).toBe(201);
+    expect(created.body.customerName).toBe("API Test Customer");
+    expect(listed.headers["x-total-count"]).toBe("1");
+  });
+
+  test("should fail clearly when no recording matches", async () => {
+    const { replayer } = await recordThenReplay();
+
+    await expect(
+      replayer.get("/repair-orders?status=Pending")
+    ).rejects.toThrow(
+      /Cassette miss: no unused recording for GET \/repair-orders\?status=Pending[\s\S]*Recorded requests:\n {4}POST \/repair-orders/
+    );
+    await replayer.dispose();
+  });
+
+  test("should only compare the configured request parts", async () => {
+    const { replayer } = await recordThenReplay({
+      matchOn: ["method", "path"],
+    });
+
+    // Different body and query - still served in recorded order
+    const created = await replayer.createRepairOrder({
+      customerName: "Someone Else",
+      vehicleVin: "1FADP3K29JL234567",
+    });
+    const listed = await replayer.get("/repair-orders?status=Pending");
+    await replayer.dispose();
+
+    expect(created.body.customerName).toBe("API Test Customer");
+    expect(listed.status).toBe(200);
+  });
+
+  test("should replay uploads and binary downloads byte for byte", async () => {
+    // Arrange - Record against the stub, then stop it
+    const orderId = repairOrders.existingOrder.orderNumber;
+    const file = attachmentTestData.inspectionPhoto;
+    const stub = new DmsStubServer();
+    const recorder = await createClient({ mode: "record" }, await stub.start());
+    const uploaded = await recorder.uploadAttachment(orderId, file);
+    await recorder.downloadAttachment(orderId, uploaded.body.id);
+    await recorder.dispose();
+    await stub.stop();
+
+    const cassette = takeCassette(test.info().testId)!;
+    cassette.save();
+    const replayer = await createClient({ mode: "replay" });
+
+    // Act
+    const replayedUpload = await replayer.uploadAttachment(orderId, file);
+    const replayed = await replayer.downloadAttachment(orderId, replayedUpload.body.id);
+    const otherFile = replayer.uploadAttachment(
+      orderId,
+      attachmentTestData.signedAuthorization
+    );
+
+    // Assert
+    expect(replayed.status).toBe(200);
+    expect(replayed.body.equals(file.buffer)).toBe(true);
+    await expect(otherFile).rejects.toThrow(/Cassette miss: no unused recording for POST/);
+    expect(fs.readFileSync(cassette.file, "utf-8")).toContain(
+      `"base64": "${file.buffer.toString("base64")}"`
+    );
+    await replayer.dispose();
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Contract Verification Suite
+ *
+ * Replays the consumer contracts in contracts/ against the provider at
+ * API_BASE_URL - the real API, or the local stub with API_STUB=true.
+ * Every interaction is its own test, so each broken one shows up in the
+ * report with what changed.
+ *
+ * Contracts are generated from the API suite:
+ * npm run contracts:generate   # API_CONTRACTS=write on tests/api.spec.ts
+ * npm run contracts:verify
+ */
+
+import { test, expect } from "../utils/fixtures";
+import { ContractVerifier, loadContracts } from "../utils/contractVerifier";
+
+const contracts = loadContracts();
+
+if (contracts.length === 0) {
+  test("contract verification", async () => {
+    test.skip(true, "No contract files - run npm run contracts:generate first");
+  });
+}
+
+for (const contract of contracts) {
+  /**
+   * Test Suite: one consumer/provider pair
+   */
+  test.describe(`Contract - ${contract.consumer} -> ${contract.provider}`, () => {
+    const verifier = new ContractVerifier();
+
+    test.beforeAll(async () => {
+      await verifier.init();
+    });
+
+    test.afterAll(async () => {
+      await verifier.dispose();
+    });
+
+    for (const interaction of contract.interactions) {
+      test(interaction.description, async () => {
+        const problems = await verifier.verify(interaction);
+
+        expect(
+          problems,
+          `Provider no longer honors this interaction:\n  ${problems.join("\n  ")}`
+        ).toEqual([]);
+      });
+    }
+  });
+}
@@ -0,0 +1,262 @@
+/**
+ * Consumer Contracts Test Suite
+ *
+ * Tests contract recording (utils/contracts.ts) and verification
+ * (utils/contractVerifier.ts) against the in-memory DMS API stub.
+ * Runs without a browser or external network.
+ *
+ * Tests covered:
+ * - Recording requests with placeholders and inferred response shapes
+ * - Provider state for records created during the run
+ * - Merging interactions into one file per consumer/provider pair
+ * - Verifying a contract and reporting broken interactions
+ */
+
+import { test, expect } from "../utils/fixtures";
+import * as fs from "fs";
+import { DmsApiClient } from "../utils/apiClient";
+import { LoginStrategy, clearTokenCache } from "../utils/auth";
+import {
+  ConsumerContract,
+  ContractInteraction,
+  ContractRecorder,
+  contractInterceptor,
+} from "../utils/contracts";
+import {
+  ContractVerifier,
+  formatVerificationReport,
+} from "../utils/contractVerifier";
+import { DmsStubServer, defaultSeed } from "../stub/dmsStubServer";
+import {
+  apiTestData,
+  generateOrderNumber,
+  repairOrders,
+  users,
+} from "../utils/testData";
+
+/**
+ * Test Suite: Consumer Contracts
+ */
+test.describe("Consumer Contracts", () => {
+  const stub = new DmsStubServer();
+
+  // A provider that lost the seeded order and no longer returns VINs
+  const changed = defaultSeed();
+  changed.repairOrders = changed.repairOrders
+    .filter((order) => order.id !== repairOrders.existingOrder.orderNumber)
+    .map((order) => ({ ...order, vehicleVin: null as unknown as string }));
+  const changedStub = new DmsStubServer({ seed: changed });
+
+  test.beforeAll(async () => {
+    await stub.start();
+    await changedStub.start();
+  });
+
+  test.afterAll(async () => {
+    await stub.stop();
+    await changedStub.stop();
+  });
+
+  test.beforeEach(() => {
+    stub.reset();
+    clearTokenCache();
+  });
+
+  /**
+   * Recorder writing under this test's output directory
+   */
+  function createRecorder(provider = "dms-api") {
+    return new ContractRecorder({
+      dir: test.info().outputPath("contracts"),
+      provider,
+      providerURL: stub.url,
+    });
+  }
+
+  /**
+   * Client whose calls are recorded into the given recorder
+   */
+  async function createClient(recorder: ContractRecorder) {
+    const client = new DmsApiClient({
+      baseURL: stub.url,
+      auth: new LoginStrategy(),
+      interceptors: [contractInterceptor(recorder)],
+    });
+    await client.init();
+    return client;
+  }
+
+  /**
+   * Create, update and delete a repair order, then look it up again
+   */
+  async function exerciseRepairOrderLifecycle(client: DmsApiClient) {
+    const created = await client.createRepairOrder({
+      ...apiTestData.createRepairOrderPayload,
+      orderNumber: generateOrderNumber(),
+    });
+    await client.updateRepairOrder(created.body.id, { status: "In Progress" });
+    await client.deleteRepairOrder(created.body.id);
+    await client.getRepairOrderById(created.body.id);
+  }
+
+  function findInteraction(
+    contract: ConsumerContract,
+    requestLine: string
+  ): ContractInteraction {
+    const interaction = contract.interactions.find((candidate) =>
+      candidate.description.includes(requestLine)
+    );
+    expect(interaction, `no interaction for ${requestLine}`).toBeDefined();
+    return interaction!;
+  }
+
+  test("should record requests with placeholders and response shapes", async () => {
+    // Arrange
+    const recorder = createRecorder();
+    const client = await createClient(recorder);
+
+    // Act
+    await client.authenticate(users.validUser.username, users.validUser.password);
+    await client.getRepairOrderById(repairOrders.existingOrder.orderNumber);
+    await client.getRepairOrderById("RO-9999-999");
+    await client.getRepairOrderById("RO-9999-999");
+    await client.dispose();
+
+    // Assert - credentials are placeholders, login is sent without a token
+    const contract = recorder.toContract();
+    const login = findInteraction(contract, "POST /auth/login returns 200");
+    expect(login.request).toEqual({
+      method: "POST",
+      path: "/auth/login",
+      body: { username: "{{username}}", password: "{{password}}" },
+      auth: false,
+    });
+    expect(JSON.stringify(contract)).not.toContain(users.validUser.password);
+
+    // Assert - the expected response is a shape, not the recorded values
+    const found = findInteraction(contract, "GET /repair-orders/RO-2024-001");
+    expect(found.response.status).toBe(200);
+    expect(found.response.body).toMatchObject({
+      type: "object",
+      properties: { customerName: { type: "string" } },
+    });
+    expect(found.response.body!.required).toContain("customerName");
+    expect(JSON.stringify(found.response)).not.toContain(
+      repairOrders.existingOrder.customerName
+    );
+
+    // Assert - repeated requests are recorded once
+    const missing = contract.interactions.filter((interaction) =>
+      interaction.description.includes("RO-9999-999")
+    );
+    expect(missing).toHaveLength(1);
+    expect(missing[0].response.status).toBe(404);
+  });
+
+  test("should keep records created during the run as provider state", async () => {
+    // Arrange
+    const recorder = createRecorder();
+    const client = await createClient(recorder);
+
+    // Act
+    await exerciseRepairOrderLifecycle(client);
+    await client.dispose();
+
+    // Assert - requests on the created record point at its creation
+    const contract = recorder.toContract();
+    const update = findInteraction(contract, "PATCH /repair-orders/{id}");
+    expect(update.given).toMatchObject({
+      create: {
+        method: "POST",
+        path: "/repair-orders",
+        body: { orderNumber: "{{orderNumber}}" },
+      },
+      updates: [],
+      deleted: false,
+    });
+
+    const lookup = findInteraction(contract, "GET /repair-orders/{id} returns 404");
+    expect(lookup.given!.updates).toEqual([update.request]);
+    expect(lookup.given!.deleted).toBe(true);
+  });
+
+  test("should merge interactions into one file per consumer/provider pair", async () => {
+    // Arrange - two recorders for the same pair (two workers), one for another
+    const first = createRecorder();
+    const second = createRecorder();
+    const other = createRecorder("dms-notifications");
+
+    const firstClient = await createClient(first);
+    await firstClient.getRepairOrderById(repairOrders.existingOrder.orderNumber);
+    await firstClient.dispose();
+
+    const secondClient = await createClient(second);
+    await secondClient.searchRepairOrders({ status: "Completed" });
+    await secondClient.dispose();
+
+    const otherClient = await createClient(other);
+    await otherClient.getAppointments();
+    await otherClient.dispose();
+
+    // Act
+    const file = first.write();
+    second.write();
+    const otherFile = other.write();
+
+    // Assert
+    expect(file).toBe(second.file);
+    expect(otherFile).not.toBe(file);
+
+    const merged = JSON.parse(fs.readFileSync(file!, "utf-8")) as ConsumerContract;
+    expect(merged.consumer).toBe("dms-qa-automation");
+    findInteraction(merged, "GET /repair-orders/RO-2024-001");
+    findInteraction(merged, "GET /repair-orders?status=Completed");
+    expect(
+      merged.interactions.some((interaction) =>
+        interaction.description.includes("GET /appointments")
+      )
+    ).toBe(false);
+  });
+
+  test("should verify a contract and report each broken interaction", async () => {
+    // Arrange - record against the stub
+    const recorder = createRecorder();
+    const client = await createClient(recorder);
+    await client.authenticate(users.validUser.username, users.validUser.password);
+    await client.getRepairOrders();
+    await client.getRepairOrderById(repairOrders.existingOrder.orderNumber);
+    await exerciseRepairOrderLifecycle(client);
+    await client.dispose();
+    const contract = recorder.toContract();
+
+    // Act
+    const verifier = new ContractVerifier(stub.url, new LoginStrategy());
+    await verifier.init();
+    const passing = await verifier.verifyContract(contract);
+    await verifier.dispose();
+
+    const changedVerifier = new ContractVerifier(
+      changedStub.url,
+      new LoginStrategy()
+    );
+    await changedVerifier.init();
+    const failing = await changedVerifier.verifyContract(contract);
+    await changedVerifier.dispose();
+
+    // Assert - the unchanged provider honors every interaction
+    const passingReport = formatVerificationReport(passing);
+    expect(passingReport).toContain(
+      `${contract.interactions.length} passed, 0 broken`
+    );
+
+    // Assert - each broken interaction is reported with its problem
+    const report = formatVerificationReport(failing);
+    expect(report).toContain("2 broken");
+    expect(report).toMatch(
+      /BROKEN .*GET \/repair-orders\/RO-2024-001 returns 200\n {4}status: expected 200, got 404/
+    );
+    expect(report).toMatch(
+      /BROKEN .*GET \/repair-orders returns 200\n {4}body \$\[0\]\.vehicleVin: expected string, got null/
+    );
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * DMS API Stub Test Suite
+ *
+ * Tests the in-memory DMS API stub (stub/dmsStubServer.ts) through
+ * DmsApiClient, with OpenAPI conformance checks on. Runs without a browser
+ * or external network.
+ *
+ * Tests covered:
+ * - Login and token validation
+ * - 401 for missing or unknown tokens
+ * - Payload validation (400 error envelope)
+ * - Query filters and pagination
+ * - CRUD round-trip and reset to seed data
+ * - Dealership scoping of records and tenant users
+ */
+
+import { test, expect } from "../utils/fixtures";
+import { DmsApiClient, assertStatus } from "../utils/apiClient";
+import {
+  LoginStrategy,
+  StaticTokenStrategy,
+  clearTokenCache,
+} from "../utils/auth";
+import { assertApiSchema } from "../utils/schemas";
+import { DmsStubServer } from "../stub/dmsStubServer";
+import {
+  apiTestData,
+  appointments,
+  repairOrders,
+  tenantConfig,
+  users,
+} from "../utils/testData";
+
+/**
+ * Test Suite: DMS API Stub
+ */
+test.describe("DMS API Stub", () => {
+  const stub = new DmsStubServer();
+  let apiClient: DmsApiClient;
+
+  test.beforeAll(async () => {
+    const baseURL = await stub.start();
+    clearTokenCache();
+    apiClient = new DmsApiClient({
+      baseURL,
+      auth: new LoginStrategy(),
+      pagination: { repairOrders: { pageSize: 4 } },
+    });
+    await apiClient.init();
+  });
+
+  test.afterAll(async () => {
+    await apiClient.dispose();
+    await stub.stop();
+  });
+
+  test("should issue tokens for valid credentials only", async () => {
+    const valid = await apiClient.authenticate(
+      users.validUser.username,
+      users.validUser.password
+    );
+    const invalid = await apiClient.authenticate(
+      users.invalidUser.username,
+      users.invalidUser.password
+    );
+    const empty = await apiClient.authenticate("", "");
+
+    assertStatus(valid, 200);
+    expect(valid.body.expiresIn).toBe(3600);
+    assertStatus(invalid, 401);
+    assertStatus(empty, 400);
+
+    // The client logged in through the strategy - its token validates
+    const validation = await apiClient.validateToken();
+    expect(validation.body).toMatchObject({
+      valid: true,
+      username: users.validUser.username,
+    });
+  });
+
+  test("should reject requests without a known token", async () => {
+    const anonymous = new DmsApiClient({
+      baseURL: stub.url,
+      auth: new StaticTokenStrategy("not-a-real-token"),
+    });
+    await anonymous.init();
+
+    const response = await anonymous.getRepairOrders();
+    await anonymous.dispose();
+
+    assertStatus(response, 401);
+    assertApiSchema(response.body, "error");
+  });
+
+  test("should validate payloads with the error envelope", async () => {
+    const response = await apiClient.createRepairOrder({
+      ...apiTestData.createRepairOrderPayload,
+      vehicleVin: "NOT-A-VIN",
+    });
+
+    assertStatus(response, 400);
+    expect(response.body).toMatchObject({
+      error: "Invalid VIN format",
+      code: "VALIDATION_ERROR",
+      details: [{ field: "vehicleVin", message: "Invalid VIN format" }],
+    });
+  });
+
+  test("should filter repair orders on every page", async () => {
+    const smiths = await apiClient.collectAllRepairOrders({
+      customerName: repairOrders.searchFilters.customerName,
+    });
+    const pages = [];
+    for await (const page of apiClient.iterateRepairOrderPages()) {
+      pages.push(page);
+    }
+
+    expect(smiths.length).toBeGreaterThan(1);
+    smiths.forEach((order) => expect(order.customerName).toContain("Smith"));
+    expect(pages.length).toBeGreaterThan(1);
+    expect(pages[0].total).toBe(
+      pages.reduce((sum, page) => sum + page.items.length, 0)
+    );
+  });
+
+  test("should create, update and delete an appointment", async () => {
+    const { preferredDate, preferredTime, ...contact } =
+      appointments.newAppointment;
+
+    const created = await apiClient.createAppointment({
+      ...contact,
+      scheduledDate: preferredDate,
+      scheduledTime: preferredTime,
+    });
+    assertStatus(created, 201);
+
+    const id = created.body.id;
+    const updated = await apiClient.updateAppointment(id, {
+      scheduledTime: "3:00 PM",
+    });
+    expect(updated.body.scheduledTime).toBe("3:00 PM");
+
+    assertStatus(await apiClient.cancelAppointment(id), 204);
+    assertStatus(await apiClient.getAppointmentById(id), 404);
+  });
+
+  test("should scope records to dealerships", async () => {
+    const { existingOrder } = repairOrders;
+    const dealerA = new DmsApiClient({ baseURL: stub.url, tenant: "dealerA" });
+    const dealerB = new DmsApiClient({ baseURL: stub.url, tenant: "dealerB" });
+    await dealerA.init();
+    await dealerB.init();
+
+    // Seed data belongs to the default dealership
+    assertStatus(await dealerA.getRepairOrderById(existingOrder.orderNumber), 200);
+    assertStatus(await dealerB.getRepairOrderById(existingOrder.orderNumber), 404);
+
+    // Dealer B's records are invisible to dealer A, visible unscoped
+    const created = await dealerB.createRepairOrder(
+      apiTestData.createRepairOrderPayload
+    );
+    const id = created.body.id;
+    assertStatus(await dealerA.getRepairOrderById(id), 404);
+    assertStatus(await apiClient.getRepairOrderById(id), 200);
+
+    // Dealer B's user cannot act for dealer A
+    const spoofed = await dealerB.updateRepairOrder(
+      id,
+      { notes: "Spoofed" },
+      { headers: { [tenantConfig.header]: dealerA.tenant!.dealerId } }
+    );
+    assertStatus(spoofed, 403);
+    expect(spoofed.body).toMatchObject({ code: "FORBIDDEN" });
+
+    assertStatus(await dealerB.deleteRepairOrder(id), 204);
+    await dealerA.dispose();
+    await dealerB.dispose();
+  });
+
+  test("should restore the seed data on reset", async () => {
+    await apiClient.deleteRepairOrder(repairOrders.existingOrder.orderNumber);
+
+    // reset() also forgets issued tokens - the client logs in again on 401
+    stub.reset();
+
+    const response = await apiClient.getRepairOrderById(
+      repairOrders.existingOrder.orderNumber
+    );
+    assertStatus(response, 200);
+    expect(response.body.customerName).toBe(
+      repairOrders.existingOrder.customerName
+    );
+  });
+});
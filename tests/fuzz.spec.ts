@@ -0,0 +1,131 @@
+/**
+ * Fuzzer Test Suite
+ *
+ * Tests variant generation, response judging, minimization and the
+ * regressions store of utils/fuzz.ts.
+ * Runs without a browser or network - the API side is in apiFuzz.spec.ts.
+ *
+ * Tests covered:
+ * - Every variant violates the payload schema
+ * - Categories per field (VINs, costs, required fields)
+ * - 5xx, 2xx and envelope-less 4xx are findings
+ * - Minimization drops unneeded fields and shortens strings
+ * - Saved regressions are deduplicated and loaded back
+ */
+
+import { test, expect } from "@playwright/test";
+import {
+  FuzzRegression,
+  generateVariants,
+  getFuzzTarget,
+  judgeResponse,
+  loadRegressions,
+  minimizeBody,
+  saveRegression,
+} from "../utils/fuzz";
+import { validateSchema } from "../utils/schemaValidator";
+import { payloadSchemas } from "../utils/schemas";
+
+/**
+ * Test Suite: Fuzzer
+ */
+test.describe("Fuzzer", () => {
+  test("should only generate payloads the schema rejects", async () => {
+    for (const name of ["createRepairOrder", "updateAppointment"] as const) {
+      // Act
+      const variants = generateVariants(getFuzzTarget(name));
+
+      // Assert
+      expect(variants.length).toBeGreaterThan(100);
+      for (const variant of variants) {
+        expect(
+          validateSchema(variant.body, payloadSchemas[name]),
+          variant.description
+        ).not.toHaveLength(0);
+      }
+    }
+  });
+
+  test("should pick categories from the field schemas", async () => {
+    // Act
+    const create = generateVariants(getFuzzTarget("createRepairOrder"));
+    const update = generateVariants(getFuzzTarget("updateRepairOrder"));
+    const fieldsOf = (category: string, variants: typeof create) => [
+      ...new Set(variants.filter((v) => v.category === category).map((v) => v.field)),
+    ];
+
+    // Assert
+    expect(fieldsOf("missingRequired", create)).toEqual([
+      "customerName",
+      "vehicleVin",
+      "serviceType",
+    ]);
+    expect(fieldsOf("missingRequired", update)).toEqual([]);
+    expect(fieldsOf("invalidVin", update)).toEqual(["vehicleVin"]);
+    expect(fieldsOf("negativeCost", update)).toEqual(["estimatedCost", "actualCost"]);
+
+    // Free text takes "<script>" as text - only formatted fields get it
+    const scripts = update.filter((v) => v.body[v.field] === "<script>alert(1)</script>");
+    const fields = scripts.map((v) => v.field);
+    expect(fields).toEqual(expect.arrayContaining(["vehicleVin", "status"]));
+    expect(fields).not.toContain("customerName");
+    expect(fields).not.toContain("notes");
+  });
+
+  test("should judge only clean 4xx rejections as passing", async () => {
+    // Act & Assert
+    expect(judgeResponse(400, { error: "Validation failed" })).toBeUndefined();
+    expect(judgeResponse(500, { error: "boom" })?.kind).toBe("server-error");
+    expect(judgeResponse(201, { id: "RO-1" })?.kind).toBe("accepted");
+    expect(judgeResponse(400, "Bad Request")).toMatchObject({
+      kind: "no-envelope",
+      status: 400,
+    });
+  });
+
+  test("should minimize failing payloads", async () => {
+    // Arrange - A server that crashes on customer names over 100 characters
+    const crashes = async (body: Record<string, unknown>) =>
+      typeof body.customerName === "string" && body.customerName.length > 100;
+    const body = {
+      customerName: "A".repeat(65_536),
+      vehicleVin: "1HGCM82633A123456",
+      serviceType: "Oil Change",
+    };
+
+    // Act
+    const minimized = await minimizeBody(body, "customerName", crashes);
+
+    // Assert - Only the bad field is left, just past the limit
+    expect(Object.keys(minimized)).toEqual(["customerName"]);
+    const length = (minimized.customerName as string).length;
+    expect(length).toBeGreaterThan(100);
+    expect(length).toBeLessThanOrEqual(200);
+  });
+
+  test("should save each regression once and load it back", async ({}, testInfo) => {
+    // Arrange
+    const dir = testInfo.outputPath("fuzz-regressions");
+    const regression: FuzzRegression = {
+      id: "0123456789",
+      target: "updateRepairOrder",
+      category: "wrongType",
+      field: "customerName",
+      description: "customerName = 12345",
+      body: { customerName: 12345 },
+      problem: "accepted",
+      status: 200,
+      foundAt: new Date().toISOString(),
+    };
+
+    // Act
+    const first = saveRegression(dir, regression);
+    const second = saveRegression(dir, regression);
+
+    // Assert
+    expect(first).toBe(true);
+    expect(second).toBe(false);
+    expect(loadRegressions(dir)).toEqual([regression]);
+    expect(loadRegressions(testInfo.outputPath("missing"))).toEqual([]);
+  });
+});
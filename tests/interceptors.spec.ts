@@ -0,0 +1,118 @@
+/**
+ * Interceptors Test Suite
+ *
+ * Tests the DmsApiClient interceptor pipeline against a local HTTP server.
+ * Runs without a browser or external network.
+ *
+ * Tests covered:
+ * - Header injection
+ * - Secret redaction in recorded calls
+ * - Per-test transcript collection
+ * - Request details in assertStatus failures
+ */
+
+import { test, expect } from "../utils/fixtures";
+import * as http from "http";
+import { AddressInfo } from "net";
+import { DmsApiClient, assertStatus } from "../utils/apiClient";
+import { StaticTokenStrategy } from "../utils/auth";
+import {
+  ApiCallRecord,
+  formatTranscript,
+  headerInterceptor,
+  takeTranscript,
+} from "../utils/interceptors";
+import { users } from "../utils/testData";
+
+/**
+ * Test Suite: Interceptors
+ */
+test.describe("Interceptors", () => {
+  let server: http.Server;
+  let apiClient: DmsApiClient;
+
+  // Headers received by the server for the last request
+  let receivedHeaders: http.IncomingHttpHeaders = {};
+
+  // Calls seen by a custom afterResponse interceptor
+  const recorded: ApiCallRecord[] = [];
+
+  test.beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      receivedHeaders = req.headers;
+      const status = req.url === "/auth/login" ? 200 : 500;
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify(
+          status === 200
+            ? { token: "secret-token-value" }
+            : { error: "Internal Server Error" }
+        )
+      );
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+
+    apiClient = new DmsApiClient({
+      baseURL: `http://127.0.0.1:${port}`,
+      auth: new StaticTokenStrategy("static-token-value"),
+      conformance: null,
+      interceptors: [
+        headerInterceptor({ "X-Test-Suite": "interceptors" }),
+        {
+          name: "recorder",
+          afterResponse: ({ record }) => {
+            recorded.push(record);
+          },
+        },
+      ],
+    });
+    await apiClient.init();
+  });
+
+  test.afterAll(async () => {
+    await apiClient.dispose();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  test("should inject headers into every request", async () => {
+    await apiClient.getRepairOrders();
+
+    expect(receivedHeaders["x-test-suite"]).toBe("interceptors");
+    expect(receivedHeaders["authorization"]).toBe("Bearer static-token-value");
+  });
+
+  test("should redact secrets from recorded calls", async () => {
+    await apiClient.authenticate(
+      users.validUser.username,
+      users.validUser.password
+    );
+
+    const record = recorded[recorded.length - 1];
+    const transcript = formatTranscript([record]);
+    expect(transcript).toContain("/auth/login → 200");
+    expect(transcript).not.toContain(users.validUser.password);
+    expect(transcript).not.toContain("secret-token-value");
+    expect(transcript).toContain("[REDACTED]");
+  });
+
+  test("should collect a transcript for the running test", async () => {
+    await apiClient.getRepairOrders();
+    await apiClient.getAppointments();
+
+    // Take it early to inspect it (the fixture would attach it at teardown)
+    const records = takeTranscript(test.info().testId);
+
+    const calls = records.map((record) => `${record.method} ${record.status}`);
+    expect(calls).toEqual(["GET 500", "GET 500"]);
+    expect(records[0].requestHeaders["Authorization"]).toBe("[REDACTED]");
+  });
+
+  test("should include request and body in status failures", async () => {
+    const response = await apiClient.getRepairOrders();
+
+    expect(() => assertStatus(response, 200)).toThrow(
+      /Expected status 200, but got 500\n {2}Request: GET http:\/\/127\.0\.0\.1:\d+\/repair-orders\n {2}Response body: {"error":"Internal Server Error"}/
+    );
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Load Runner Test Suite
+ *
+ * Tests the load runner (utils/load.ts) against the in-memory DMS API stub.
+ * Runs without a browser or external network.
+ *
+ * Tests covered:
+ * - Nearest-rank percentiles
+ * - Per-endpoint statistics for a scenario mix with several virtual users
+ * - Duration-bound runs
+ * - Threshold failures and step errors
+ * - JSON and HTML summaries
+ */
+
+import { test, expect } from "../utils/fixtures";
+import * as fs from "fs";
+import { DmsStubServer } from "../stub/dmsStubServer";
+import {
+  LoadOptions,
+  LoadScenario,
+  assertLoadThresholds,
+  percentile,
+  repairOrderMix,
+  runLoad,
+  summarize,
+  writeLoadReport,
+} from "../utils/load";
+
+/**
+ * Test Suite: Load Runner
+ */
+test.describe("Load Runner", () => {
+  const stub = new DmsStubServer();
+
+  test.beforeAll(async () => {
+    await stub.start();
+  });
+
+  test.afterAll(async () => {
+    await stub.stop();
+  });
+
+  /**
+   * Run against the stub with the stub's static token
+   */
+  function runAgainstStub(scenario: LoadScenario, options: Partial<LoadOptions>) {
+    return runLoad(scenario, { ...options, client: { baseURL: stub.url } });
+  }
+
+  // Lookups of an order that does not exist - a failed request every time
+  const missingOrderScenario: LoadScenario = {
+    name: "missing-order",
+    steps: [
+      { name: "list", run: (api) => api.getRepairOrders() },
+      { name: "missing", run: (api) => api.getRepairOrderById("RO-9999-999") },
+    ],
+  };
+
+  test("should compute nearest-rank percentiles", () => {
+    const values = Array.from({ length: 100 }, (_, index) => index + 1);
+
+    expect(percentile(values, 50)).toBe(50);
+    expect(percentile(values, 95)).toBe(95);
+    expect(percentile(values, 99)).toBe(99);
+    expect(percentile([7], 99)).toBe(7);
+    expect(percentile([], 50)).toBe(0);
+
+    const stats = summarize(
+      [
+        { endpoint: "GET /a", durationMs: 10, ok: true },
+        { endpoint: "GET /a", durationMs: 30, ok: false },
+      ],
+      1000
+    );
+    expect(stats).toMatchObject({
+      count: 2,
+      errors: 1,
+      errorRate: 0.5,
+      throughputPerSec: 2,
+      minMs: 10,
+      meanMs: 20,
+      maxMs: 30,
+    });
+  });
+
+  test("should collect statistics per endpoint for a scenario mix", async () => {
+    // Act - 3 virtual users x 8 iterations of list/search/get/create
+    const report = await runAgainstStub(repairOrderMix(), {
+      virtualUsers: 3,
+      iterations: 8,
+    });
+
+    // Assert - every iteration ran and every request was measured
+    expect(report.iterations).toBe(24);
+    expect(Object.keys(report.endpoints)).toEqual([
+      "GET /repair-orders",
+      "GET /repair-orders/{id}",
+      "POST /repair-orders",
+    ]);
+    const perEndpoint = Object.values(report.endpoints).reduce(
+      (sum, stats) => sum + stats.count,
+      0
+    );
+    expect(report.overall.count).toBe(perEndpoint);
+    expect(report.endpoints["POST /repair-orders"].count).toBe(3);
+
+    // Assert - percentiles are ordered and nothing failed
+    const { p50Ms, p90Ms, p95Ms, p99Ms, maxMs } = report.overall;
+    expect(p50Ms).toBeLessThanOrEqual(p90Ms);
+    expect(p90Ms).toBeLessThanOrEqual(p95Ms);
+    expect(p95Ms).toBeLessThanOrEqual(p99Ms);
+    expect(p99Ms).toBeLessThanOrEqual(maxMs);
+    expect(report.overall.errorRate).toBe(0);
+    expect(report.overall.throughputPerSec).toBeGreaterThan(0);
+    expect(report.passed).toBe(true);
+  });
+
+  test("should stop when the duration is over", async () => {
+    const report = await runAgainstStub(missingOrderScenario, {
+      virtualUsers: 2,
+      durationMs: 300,
+      thinkTimeMs: 20,
+    });
+
+    expect(report.iterations).toBeGreaterThan(2);
+    expect(report.elapsedMs).toBeGreaterThanOrEqual(300);
+    expect(report.elapsedMs).toBeLessThan(2000);
+  });
+
+  test("should fail against thresholds and report step errors", async () => {
+    // Arrange - a step that throws on top of the failing lookups
+    const scenario: LoadScenario = {
+      name: "failing",
+      steps: [
+        ...missingOrderScenario.steps,
+        {
+          name: "broken",
+          run: async () => {
+            throw new Error("Unexpected order list\n  details");
+          },
+        },
+      ],
+    };
+
+    // Act
+    const report = await runAgainstStub(scenario, {
+      virtualUsers: 1,
+      iterations: 6,
+      thresholds: {
+        errorRate: 0.1,
+        perEndpoint: {
+          "GET /repair-orders": { maxMs: 0 },
+          "GET /appointments": { p95Ms: 500 },
+        },
+      },
+    });
+
+    // Assert
+    expect(report.endpoints["GET /repair-orders/{id}"].errorRate).toBe(1);
+    expect(report.endpoints["step broken"].count).toBe(2);
+    expect(report.stepErrors).toEqual([
+      { step: "broken", message: "Unexpected order list", count: 2 },
+    ]);
+    expect(report.passed).toBe(false);
+    expect(report.thresholdFailures).toEqual([
+      "all requests: error rate 66.67% exceeds 10.00%",
+      expect.stringMatching(/^GET \/repair-orders: max [\d.]+ms exceeds 0ms$/),
+      "GET /appointments: no requests recorded",
+    ]);
+    expect(() => assertLoadThresholds(report)).toThrow(
+      /Load thresholds failed for scenario "failing":\n {2}all requests: error rate/
+    );
+  });
+
+  test("should write JSON and HTML summaries", async () => {
+    const report = await runAgainstStub(missingOrderScenario, {
+      virtualUsers: 2,
+      iterations: 2,
+      thresholds: { errorRate: 0 },
+    });
+
+    const { json, html } = writeLoadReport(
+      report,
+      test.info().outputPath("load")
+    );
+
+    expect(JSON.parse(fs.readFileSync(json, "utf-8"))).toEqual(report);
+    const page = fs.readFileSync(html, "utf-8");
+    expect(page).toContain("<td>GET /repair-orders/{id}</td>");
+    expect(page).toContain("FAILED");
+    expect(page).toContain("all requests: error rate 50.00% exceeds 0.00%");
+  });
+});
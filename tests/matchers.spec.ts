@@ -0,0 +1,191 @@
+/**
+ * Matchers Test Suite
+ *
+ * Tests the matching engine behind assertResponseContains.
+ * Runs without a browser or network - pure data comparison.
+ *
+ * Tests covered:
+ * - Nested objects and path keys
+ * - Array containment in any order
+ * - Pattern and type matchers
+ * - Numbers serialized as strings and numeric tolerance
+ * - Ignored fields and strict mode
+ * - Path-annotated diffs in assertion failures
+ */
+
+import { test, expect } from "@playwright/test";
+import { assertResponseContains } from "../utils/apiClient";
+import {
+  anyIsoDate,
+  anyNumber,
+  anyString,
+  anyVin,
+  closeTo,
+  matchDeep,
+} from "../utils/matchers";
+import { repairOrders } from "../utils/testData";
+
+/**
+ * Build a repair order with nested customer and line items
+ */
+function buildOrder(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "RO-1",
+    orderNumber: repairOrders.existingOrder.orderNumber,
+    status: "In Progress",
+    vehicleVin: repairOrders.existingOrder.vehicleVin,
+    actualCost: "125.00",
+    mileage: 42000,
+    createdAt: "2024-06-15T14:00:00Z",
+    updatedAt: "2024-06-16T09:30:00Z",
+    customer: {
+      name: repairOrders.existingOrder.customerName,
+      address: { city: "Springfield", zip: "12345" },
+    },
+    lineItems: [
+      { sku: "OIL-5W30", description: "Synthetic oil", price: "49.99" },
+      { sku: "FLT-100", description: "Oil filter", price: "12.50" },
+      { sku: "LAB-1", description: "Labor", price: "62.51" },
+    ],
+    ...overrides,
+  };
+}
+
+/**
+ * Test Suite: Matchers
+ */
+test.describe("Matchers", () => {
+  test("should compare nested objects and path keys", async () => {
+    const order = buildOrder();
+
+    expect(
+      matchDeep(order, {
+        customer: { address: { city: "Springfield" } },
+        "customer.name": repairOrders.existingOrder.customerName,
+        "lineItems[1].sku": "FLT-100",
+      })
+    ).toEqual([]);
+
+    expect(
+      matchDeep(order, {
+        customer: { address: { city: "Shelbyville" } },
+        "lineItems[1].sku": "FLT-200",
+      })
+    ).toEqual([
+      { path: "customer.address.city", expected: "Shelbyville", actual: "Springfield" },
+      { path: "lineItems[1].sku", expected: "FLT-200", actual: "FLT-100" },
+    ]);
+  });
+
+  test("should find array elements in any order", async () => {
+    const order = buildOrder();
+
+    expect(
+      matchDeep(order, {
+        lineItems: [{ sku: "LAB-1" }, { description: /oil filter/i }],
+      })
+    ).toEqual([]);
+
+    // Each expected element needs its own actual element
+    const diff = matchDeep(order, {
+      lineItems: [{ sku: "LAB-1" }, { sku: "LAB-1" }, { sku: "TIRE-4" }],
+    });
+    expect(diff.map((entry) => entry.path)).toEqual([
+      "lineItems[1] (any order)",
+      "lineItems[2] (any order)",
+    ]);
+    expect(diff[1]).toMatchObject({
+      expected: { sku: "TIRE-4" },
+      actual: "no matching element among 3",
+    });
+  });
+
+  test("should apply pattern and type matchers", async () => {
+    const order = buildOrder();
+
+    expect(
+      matchDeep(order, {
+        id: anyString({ nonEmpty: true }),
+        status: /^(Pending|In Progress)$/,
+        vehicleVin: anyVin(),
+        mileage: anyNumber(),
+        createdAt: anyIsoDate(),
+      })
+    ).toEqual([]);
+
+    const diff = matchDeep(
+      buildOrder({ vehicleVin: "NOT-A-VIN", createdAt: "yesterday", mileage: "42000" }),
+      { vehicleVin: anyVin(), createdAt: anyIsoDate(), mileage: anyNumber() }
+    );
+    expect(diff.map((entry) => entry.path)).toEqual([
+      "vehicleVin",
+      "createdAt",
+      "mileage",
+    ]);
+  });
+
+  test("should compare numbers serialized as strings by value", async () => {
+    const order = buildOrder();
+
+    expect(matchDeep(order, { actualCost: 125, mileage: "42000" })).toEqual([]);
+    expect(matchDeep(order, { actualCost: 125.01 })).toHaveLength(1);
+
+    // Money with a tolerance
+    expect(matchDeep(order, { actualCost: closeTo(125.004) })).toEqual([]);
+    expect(
+      matchDeep(order, { lineItems: [{ price: closeTo(62.5, 0.01) }] })
+    ).toEqual([]);
+    expect(matchDeep(order, { actualCost: closeTo(124.9, 0.05) })).toHaveLength(1);
+  });
+
+  test("should ignore fields and reject extras in strict mode", async () => {
+    const order = {
+      id: "RO-1",
+      status: "Pending",
+      updatedAt: "2024-06-16T09:30:00Z",
+      lineItems: [{ sku: "OIL-5W30", id: "li-1" }],
+    };
+
+    // Strict - extra keys and array order/length count
+    expect(
+      matchDeep(order, { id: "RO-1", lineItems: [{ sku: "OIL-5W30" }] }, { strict: true })
+    ).toEqual([
+      { path: "lineItems[0].id", expected: undefined, actual: "li-1" },
+      { path: "status", expected: undefined, actual: "Pending" },
+      { path: "updatedAt", expected: undefined, actual: "2024-06-16T09:30:00Z" },
+    ]);
+
+    // Ignored paths - a plain key at any depth, [*] for any index
+    expect(
+      matchDeep(
+        order,
+        { id: "RO-1", status: "Completed", lineItems: [{ sku: "OIL-5W30" }] },
+        { strict: true, ignore: ["updatedAt", "status", "lineItems[*].id"] }
+      )
+    ).toEqual([]);
+  });
+
+  test("should report every mismatch as a path-annotated diff", async () => {
+    const order = buildOrder();
+
+    expect(() =>
+      assertResponseContains(order, {
+        status: "Completed",
+        actualCost: closeTo(100),
+        customer: { address: { zip: /^9/ } },
+        lineItems: [{ sku: "TIRE-4" }],
+      })
+    ).toThrow(
+      "Response body does not contain the expected values (4 mismatches)\n" +
+        "  Diff (- expected, + actual):\n" +
+        '    - status: "Completed"\n' +
+        '    + status: "In Progress"\n' +
+        "    - actualCost: <100 ± 0.005>\n" +
+        '    + actualCost: "125.00"\n' +
+        "    - customer.address.zip: /^9/\n" +
+        '    + customer.address.zip: "12345"\n' +
+        '    - lineItems[0] (any order): {"sku":"TIRE-4"}\n' +
+        '    + lineItems[0] (any order): "no matching element among 3"'
+    );
+  });
+});
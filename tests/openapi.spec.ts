@@ -0,0 +1,129 @@
+/**
+ * OpenAPI Conformance Test Suite
+ *
+ * Tests the checker that validates DmsApiClient responses against the
+ * committed OpenAPI document (openapi/dms-api.json).
+ * Runs without a browser or network.
+ *
+ * Tests covered:
+ * - Conforming responses pass
+ * - Undocumented paths, undeclared status codes
+ * - Missing and extra properties
+ * - Configurable severities (OPENAPI_CONFORMANCE checked)
+ */
+
+import { test, expect } from "@playwright/test";
+import {
+  DEFAULT_OPENAPI_SPEC,
+  OpenApiConformance,
+  defaultConformanceOptions,
+  reportConformanceIssues,
+} from "../utils/openapi";
+import { repairOrders } from "../utils/testData";
+
+/**
+ * Build a repair order matching the spec
+ */
+function buildRepairOrder(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "1",
+    ...repairOrders.existingOrder,
+    ...overrides,
+  };
+}
+
+/**
+ * Test Suite: OpenAPI Conformance
+ */
+test.describe("OpenAPI Conformance", () => {
+  let checker: OpenApiConformance;
+
+  test.beforeAll(() => {
+    checker = OpenApiConformance.fromFile(DEFAULT_OPENAPI_SPEC);
+  });
+
+  test("should accept a conforming response", async () => {
+    const issues = checker.check(
+      "GET",
+      "/repair-orders?status=Completed",
+      200,
+      [buildRepairOrder()]
+    );
+
+    expect(issues).toEqual([]);
+  });
+
+  test("should match path templates", async () => {
+    const issues = checker.check(
+      "GET",
+      "/repair-orders/RO-2024-001",
+      404,
+      { error: "Repair order not found" }
+    );
+
+    expect(issues).toEqual([]);
+  });
+
+  test("should flag undocumented paths", async () => {
+    const issues = checker.check("GET", "/invoices", 200, []);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].kind).toBe("undocumentedPath");
+  });
+
+  test("should flag undeclared status codes", async () => {
+    const issues = checker.check("GET", "/repair-orders", 500, {
+      error: "Internal Server Error",
+    });
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].kind).toBe("undeclaredStatus");
+    expect(issues[0].severity).toBe("error");
+  });
+
+  test("should flag missing and extra properties", async () => {
+    const order = buildRepairOrder({ status: undefined, internalNotes: "x" });
+
+    const issues = checker.check("GET", "/repair-orders/1", 200, order);
+
+    expect(issues.map((issue) => issue.message)).toEqual([
+      "GET /repair-orders/1 (200) $.status: required property is missing",
+      "GET /repair-orders/1 (200) $.internalNotes: property is not declared in the schema",
+    ]);
+  });
+
+  test("should respect configured severities", async () => {
+    const options = defaultConformanceOptions();
+    options.severity.schemaMismatch = "warn";
+    options.rejectAdditionalProperties = false;
+    const lenient = OpenApiConformance.fromFile(DEFAULT_OPENAPI_SPEC, options);
+
+    const issues = lenient.check(
+      "GET",
+      "/repair-orders/1",
+      200,
+      buildRepairOrder({ internalNotes: "x", vehicleVin: "BAD" })
+    );
+
+    // Extra property ignored, VIN mismatch downgraded to a warning
+    expect(issues).toHaveLength(1);
+    expect(issues[0].severity).toBe("warn");
+    expect(() => reportConformanceIssues(issues)).not.toThrow();
+  });
+
+  test("should reject an unknown OPENAPI_CONFORMANCE", async () => {
+    const previous = process.env.OPENAPI_CONFORMANCE;
+    try {
+      process.env.OPENAPI_CONFORMANCE = "warning";
+      expect(() => defaultConformanceOptions()).toThrow(
+        'Unknown OPENAPI_CONFORMANCE "warning" (expected error, warn or off)'
+      );
+
+      process.env.OPENAPI_CONFORMANCE = "off";
+      expect(defaultConformanceOptions().severity.schemaMismatch).toBe("off");
+    } finally {
+      if (previous === undefined) delete process.env.OPENAPI_CONFORMANCE;
+      else process.env.OPENAPI_CONFORMANCE = previous;
+    }
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Pagination Test Suite
+ *
+ * Tests DmsApiClient pagination against a local HTTP server that serves
+ * 12 repair orders in page, offset and cursor styles.
+ * Runs without a browser or external network.
+ *
+ * Tests covered:
+ * - page/limit, offset/limit and cursor/next-link pagination
+ * - Filters carried to every page
+ * - Safety cap on runaway pagination
+ */
+
+import { test, expect } from "../utils/fixtures";
+import * as http from "http";
+import { AddressInfo } from "net";
+import { DmsApiClient } from "../utils/apiClient";
+import { StaticTokenStrategy } from "../utils/auth";
+import { PaginationConfig } from "../utils/pagination";
+
+const TOTAL_ORDERS = 12;
+
+/**
+ * Test Suite: Pagination
+ */
+test.describe("Pagination", () => {
+  let server: http.Server;
+  let baseURL: string;
+  let requestedUrls: string[] = [];
+
+  test.beforeAll(async () => {
+    const orders = Array.from({ length: TOTAL_ORDERS }, (_, index) => ({
+      id: String(index + 1),
+    }));
+
+    server = http.createServer((req, res) => {
+      requestedUrls.push(req.url || "");
+      const url = new URL(req.url || "/", "http://localhost");
+      const params = url.searchParams;
+      const limit = Number(params.get("limit"));
+
+      // Cursor style (no page/offset): the cursor is the start index
+      const cursorStyle = !params.has("page") && !params.has("offset");
+      const start = params.has("page")
+        ? (Number(params.get("page")) - 1) * limit
+        : Number(params.get("offset") || params.get("cursor") || 0);
+      const end = Math.min(start + limit, TOTAL_ORDERS);
+
+      const headers: Record<string, string> = {
+        "Content-Type": "application/json",
+        "X-Total-Count": String(TOTAL_ORDERS),
+      };
+      if (cursorStyle && end < TOTAL_ORDERS) {
+        const next = `${baseURL}${url.pathname}?limit=${limit}&cursor=${end}`;
+        headers.Link = `<${next}>; rel="next"`;
+      }
+
+      res.writeHead(200, headers);
+      res.end(JSON.stringify(orders.slice(start, end)));
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  test.afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  test.beforeEach(() => {
+    requestedUrls = [];
+  });
+
+  /**
+   * Create a client using the given repair order pagination
+   */
+  async function createClient(
+    pagination: Partial<PaginationConfig>
+  ): Promise<DmsApiClient> {
+    const apiClient = new DmsApiClient({
+      baseURL,
+      auth: new StaticTokenStrategy(null),
+      conformance: null,
+      pagination: { repairOrders: pagination, appointments: pagination },
+    });
+    await apiClient.init();
+    return apiClient;
+  }
+
+  test("should follow page/limit pagination", async () => {
+    const apiClient = await createClient({ style: "page", pageSize: 5 });
+
+    const orders = await apiClient.collectAllRepairOrders({ status: "Pending" });
+
+    expect(orders.map((order) => order.id)).toEqual(
+      Array.from({ length: TOTAL_ORDERS }, (_, index) => String(index + 1))
+    );
+    expect(requestedUrls).toEqual([
+      "/repair-orders?status=Pending&limit=5&page=1",
+      "/repair-orders?status=Pending&limit=5&page=2",
+      "/repair-orders?status=Pending&limit=5&page=3",
+    ]);
+    await apiClient.dispose();
+  });
+
+  test("should follow offset/limit pagination", async () => {
+    const apiClient = await createClient({ style: "offset", pageSize: 4 });
+
+    const pages = [];
+    for await (const page of apiClient.iterateRepairOrderPages()) {
+      pages.push(page);
+    }
+
+    expect(pages.map((page) => page.items.length)).toEqual([4, 4, 4, 0]);
+    expect(pages[0].total).toBe(TOTAL_ORDERS);
+    expect(requestedUrls[3]).toBe("/repair-orders?limit=4&offset=12");
+    await apiClient.dispose();
+  });
+
+  test("should follow cursor pagination via next links", async () => {
+    const apiClient = await createClient({ style: "cursor", pageSize: 5 });
+
+    const appointmentList = await apiClient.collectAllAppointments();
+
+    expect(appointmentList).toHaveLength(TOTAL_ORDERS);
+    expect(requestedUrls).toEqual([
+      "/appointments?limit=5",
+      "/appointments?limit=5&cursor=5",
+      "/appointments?limit=5&cursor=10",
+    ]);
+    await apiClient.dispose();
+  });
+
+  test("should stop at the safety cap", async () => {
+    const apiClient = await createClient({
+      style: "page",
+      pageSize: 2,
+      maxPages: 3,
+    });
+
+    await expect(apiClient.collectAllRepairOrders()).rejects.toThrow(
+      "Pagination of /repair-orders exceeded 3 pages"
+    );
+    await apiClient.dispose();
+  });
+});
@@ -7,6 +7,7 @@
  * - Data validation
  * - Table/grid interaction
  * - Pagination
+ * - Attachments
  *
  * Demonstrates:
  * - Complex page interactions
@@ -14,10 +15,15 @@
  * - Business workflow testing
  */
 
-import { test, expect } from "@playwright/test";
+import { test, expect } from "../utils/fixtures";
 import { RepairOrdersPage } from "../pages/RepairOrdersPage";
 import { LoginPage } from "../pages/LoginPage";
-import { users, repairOrders, generateOrderNumber } from "../utils/testData";
+import {
+  users,
+  repairOrders,
+  attachmentTestData,
+  generateOrderNumber,
+} from "../utils/testData";
 
 /**
  * Test Suite: Repair Order Management
@@ -195,7 +201,10 @@ test.describe("Repair Order Management", () => {
    * 3. Save
    * 4. Verify order appears in list
    */
-  test("should create new repair order successfully", async ({ page }) => {
+  test("should create new repair order successfully", async ({
+    page,
+    resources,
+  }) => {
     const repairOrdersPage = new RepairOrdersPage(page);
 
     // Arrange - Generate unique order data
@@ -204,6 +213,11 @@ test.describe("Repair Order Management", () => {
       orderNumber: generateOrderNumber(), // Unique order number
     };
 
+    // Arrange - Delete the order via API after the test
+    resources.trackByLookup("repairOrder", {
+      orderNumber: newOrderData.orderNumber,
+    });
+
     // Act - Create repair order
     await repairOrdersPage.createRepairOrder(newOrderData);
 
@@ -350,6 +364,36 @@ test.describe("Repair Order Management", () => {
     expect(status).toContain(repairOrders.existingOrder.status);
   });
 
+  // ====================
+  // Attachment Tests
+  // ====================
+
+  /**
+   * Test: Attach an inspection photo
+   *
+   * Business Requirement:
+   * Technicians attach inspection photos and signed authorizations to
+   * repair orders from the details panel
+   */
+  test("should attach a file to a repair order", async ({ page }) => {
+    const repairOrdersPage = new RepairOrdersPage(page);
+    const photo = attachmentTestData.inspectionPhoto;
+
+    // Arrange - Open details for a known order
+    await repairOrdersPage.clickRepairOrder(
+      repairOrders.existingOrder.orderNumber
+    );
+
+    // Act - Pick the file in the file input
+    await repairOrdersPage.attachFile(photo);
+
+    // Assert - The file is listed in the details panel
+    expect(await repairOrdersPage.hasAttachment(photo.name)).toBe(true);
+    expect(await repairOrdersPage.getAttachmentNames()).toContainEqual(
+      expect.stringContaining(photo.name)
+    );
+  });
+
   // ====================
   // Table Interaction Tests
   // ====================
@@ -458,15 +502,19 @@ test.describe("Repair Order Management", () => {
    * 3. View its details
    * 4. Close details panel
    */
-  test("should complete full create-search-view workflow", async ({ page }) => {
+  test("should complete full create-search-view workflow", async ({
+    page,
+    resources,
+  }) => {
     const repairOrdersPage = new RepairOrdersPage(page);
 
-    // Step 1: Create new repair order
+    // Step 1: Create new repair order (deleted via API after the test)
     const uniqueCustomerName = `Test Customer ${Date.now()}`;
     const newOrderData = {
       ...repairOrders.newOrder,
       customerName: uniqueCustomerName,
     };
+    resources.trackByLookup("repairOrder", { customerName: uniqueCustomerName });
 
     await repairOrdersPage.createRepairOrder(newOrderData);
 
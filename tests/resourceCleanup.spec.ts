@@ -0,0 +1,214 @@
+/**
+ * Resource Cleanup Test Suite
+ *
+ * Tests the resource tracker that deletes records created during tests,
+ * against a local HTTP server. Runs without a browser or external network.
+ *
+ * Tests covered:
+ * - Automatic tracking of API creations
+ * - Reverse-order deletion
+ * - Records deleted by the test itself
+ * - UI creations found through an API lookup
+ * - Failure report for records left behind
+ * - Tenant records deleted through their own tenant
+ */
+
+import { test, expect } from "../utils/fixtures";
+import * as http from "http";
+import { AddressInfo } from "net";
+import { DmsApiClient } from "../utils/apiClient";
+import { StaticTokenStrategy } from "../utils/auth";
+import { CleanupConnector, formatCleanupReport } from "../utils/cleanup";
+import { apiTestData, appointments } from "../utils/testData";
+
+/**
+ * Test Suite: Resource Cleanup
+ */
+test.describe("Resource Cleanup", () => {
+  let server: http.Server;
+  let baseURL: string;
+  let apiClient: DmsApiClient;
+  let connect: CleanupConnector;
+
+  // Records held by the fake API, and the DELETE calls it received
+  const records = new Map<string, Record<string, string>>();
+  const deletions: string[] = [];
+
+  // IDs the fake API refuses to delete
+  const undeletable = new Set<string>();
+
+  let nextId = 1;
+
+  test.beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        const [path] = (req.url || "").split("?");
+        const [, collection, id] = path.split("/");
+        const prefix = collection === "appointments" ? "APT" : "RO";
+        const send = (status: number, payload?: unknown) => {
+          res.writeHead(status, { "Content-Type": "application/json" });
+          res.end(payload === undefined ? "" : JSON.stringify(payload));
+        };
+
+        if (req.method === "POST") {
+          const record = { ...JSON.parse(body), id: `${prefix}-${nextId++}` };
+          records.set(record.id, record);
+          return send(201, record);
+        }
+        if (req.method === "DELETE") {
+          deletions.push(id);
+          if (undeletable.has(id)) {
+            return send(500, { error: "Delete failed" });
+          }
+          return records.delete(id)
+            ? send(204)
+            : send(404, { error: "Not found" });
+        }
+
+        // GET listing - ignores filters on purpose
+        send(
+          200,
+          [...records.values()].filter((record) =>
+            record.id.startsWith(prefix)
+          )
+        );
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    apiClient = new DmsApiClient({
+      baseURL,
+      auth: new StaticTokenStrategy("static-token"),
+      conformance: null,
+    });
+    await apiClient.init();
+    connect = async () => ({ api: apiClient, close: async () => {} });
+  });
+
+  test.beforeEach(() => {
+    deletions.length = 0;
+    undeletable.clear();
+  });
+
+  test.afterAll(async () => {
+    await apiClient.dispose();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  test("should delete created records in reverse order", async ({
+    resources,
+  }) => {
+    // Arrange - Create through the client (tracked by the interceptor)
+    const order = await apiClient.createRepairOrder(
+      apiTestData.createRepairOrderPayload
+    );
+    const { preferredDate, preferredTime, ...contact } =
+      appointments.newAppointment;
+    const appointment = await apiClient.createAppointment({
+      ...contact,
+      scheduledDate: preferredDate,
+      scheduledTime: preferredTime,
+    });
+    expect(resources.size).toBe(2);
+
+    // Act
+    const report = await resources.cleanup(connect);
+
+    // Assert - Newest first, nothing left
+    expect(deletions).toEqual([appointment.body.id, order.body.id]);
+    expect(report.deleted).toHaveLength(2);
+    expect(report.failed).toEqual([]);
+    expect(resources.size).toBe(0);
+  });
+
+  test("should not delete records the test deleted itself", async ({
+    resources,
+  }) => {
+    const order = await apiClient.createRepairOrder(
+      apiTestData.createRepairOrderPayload
+    );
+
+    await apiClient.deleteRepairOrder(order.body.id);
+
+    expect(resources.size).toBe(0);
+  });
+
+  test("should find UI-created records through an API lookup", async ({
+    resources,
+  }) => {
+    // Arrange - Two records created outside the client (as the UI would)
+    records.set("RO-UI-1", { id: "RO-UI-1", customerName: "Workflow Test 1" });
+    records.set("RO-UI-2", { id: "RO-UI-2", customerName: "Someone Else" });
+    resources.trackByLookup(
+      "repairOrder",
+      { customerName: "Workflow Test 1" },
+      baseURL
+    );
+
+    // Act
+    const report = await resources.cleanup(connect);
+
+    // Assert - The API ignored the filter, the tracker did not
+    expect(deletions).toEqual(["RO-UI-1"]);
+    expect(report.deleted[0].label).toBe("Workflow Test 1");
+    expect(records.has("RO-UI-2")).toBe(true);
+  });
+
+  test("should report records that could not be deleted", async ({
+    resources,
+  }) => {
+    // Arrange - One undeletable record, one already gone
+    const stuck = await apiClient.createRepairOrder(
+      apiTestData.createRepairOrderPayload
+    );
+    undeletable.add(stuck.body.id);
+    resources.track("repairOrder", "RO-MISSING", undefined, baseURL);
+
+    // Act
+    const report = await resources.cleanup(connect);
+
+    // Assert
+    expect(report.alreadyGone.map((resource) => resource.id)).toEqual([
+      "RO-MISSING",
+    ]);
+    expect(report.failed).toHaveLength(1);
+    expect(formatCleanupReport(report)).toContain(
+      `FAILED repairOrder ${stuck.body.id} (API Test Customer): 500 Delete failed`
+    );
+  });
+
+  test("should delete tenant records through their own tenant", async ({
+    resources,
+  }) => {
+    // Arrange - A record created by a dealership's client
+    const dealerClient = new DmsApiClient({
+      baseURL,
+      tenant: "dealerB",
+      auth: new StaticTokenStrategy("static-token"),
+      conformance: null,
+    });
+    await dealerClient.init();
+    const order = await dealerClient.createRepairOrder(
+      apiTestData.createRepairOrderPayload
+    );
+    await dealerClient.dispose();
+    records.delete(order.body.id);
+
+    // Act - An unscoped DELETE (404) must not untrack the tenant's record
+    await apiClient.deleteRepairOrder(order.body.id);
+    const tenants: (string | undefined)[] = [];
+    const report = await resources.cleanup(async (url, tenant) => {
+      tenants.push(tenant);
+      return connect(url, tenant);
+    });
+
+    // Assert - Still tracked, and cleanup connected as the dealership
+    expect(report.alreadyGone).toEqual([
+      expect.objectContaining({ id: order.body.id, tenant: "dealerB" }),
+    ]);
+    expect(tenants).toEqual(["dealerB"]);
+  });
+});
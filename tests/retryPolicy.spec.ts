@@ -0,0 +1,137 @@
+/**
+ * Retry Policy Test Suite
+ *
+ * Tests DmsApiClient retries against a scripted local HTTP server.
+ * Runs without a browser or external network.
+ *
+ * Tests covered:
+ * - Exponential backoff with jitter
+ * - GET retried on 503 until success
+ * - POST only retried with an idempotency key
+ * - Retries recorded as test attachments
+ */
+
+import { test, expect } from "@playwright/test";
+import * as http from "http";
+import { AddressInfo } from "net";
+import { DmsApiClient, assertStatus } from "../utils/apiClient";
+import { StaticTokenStrategy } from "../utils/auth";
+import { computeBackoff, resolveRetryPolicy } from "../utils/retry";
+import { apiTestData } from "../utils/testData";
+
+/**
+ * Test Suite: Retry Policy
+ */
+test.describe("Retry Policy", () => {
+  let server: http.Server;
+  let apiClient: DmsApiClient;
+
+  // Status codes the server answers with, in order (then 200)
+  let scriptedStatuses: number[] = [];
+  let requestCount = 0;
+
+  test.beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      requestCount++;
+      const status = scriptedStatuses.shift() || 200;
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(status === 200 ? [] : { error: "Unavailable" }));
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+
+    apiClient = new DmsApiClient({
+      baseURL: `http://127.0.0.1:${port}`,
+      auth: new StaticTokenStrategy("test-token"),
+      conformance: null,
+      retry: { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 5 },
+    });
+    await apiClient.init();
+  });
+
+  test.afterAll(async () => {
+    await apiClient.dispose();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  test.beforeEach(() => {
+    scriptedStatuses = [];
+    requestCount = 0;
+  });
+
+  test("should grow backoff exponentially with jitter", async () => {
+    const policy = resolveRetryPolicy({
+      baseDelayMs: 100,
+      maxDelayMs: 1000,
+      jitter: 0.5,
+    });
+
+    // No jitter (random = 0) - pure exponential, capped at maxDelayMs
+    const delays = [1, 2, 3, 4, 5].map((attempt) =>
+      computeBackoff(attempt, policy, () => 0)
+    );
+    expect(delays).toEqual([100, 200, 400, 800, 1000]);
+
+    // Maximum jitter removes up to half of the delay
+    expect(computeBackoff(3, policy, () => 1)).toBe(200);
+  });
+
+  test("should retry GET on 503 until it succeeds", async () => {
+    scriptedStatuses = [503, 502];
+
+    const response = await apiClient.getRepairOrders();
+
+    assertStatus(response, 200);
+    expect(requestCount).toBe(3);
+
+    // Each retry is attached to the test report
+    const retries = test
+      .info()
+      .attachments.filter((attachment) =>
+        attachment.name.startsWith("api-retry")
+      );
+    expect(retries).toHaveLength(2);
+  });
+
+  test("should give up after max attempts", async () => {
+    scriptedStatuses = [503, 503, 503, 503];
+
+    const response = await apiClient.getRepairOrders();
+
+    assertStatus(response, 503);
+    expect(requestCount).toBe(3);
+  });
+
+  test("should not retry POST without an idempotency key", async () => {
+    scriptedStatuses = [503];
+
+    const response = await apiClient.post("/repair-orders", {
+      ...apiTestData.createRepairOrderPayload,
+    });
+
+    assertStatus(response, 503);
+    expect(requestCount).toBe(1);
+  });
+
+  test("should retry POST with an idempotency key", async () => {
+    scriptedStatuses = [504];
+
+    const response = await apiClient.post(
+      "/repair-orders",
+      { ...apiTestData.createRepairOrderPayload },
+      { idempotencyKey: "retry-policy-test" }
+    );
+
+    assertStatus(response, 200);
+    expect(requestCount).toBe(2);
+  });
+
+  test("should not retry non-transient errors", async () => {
+    scriptedStatuses = [500];
+
+    const response = await apiClient.getRepairOrders();
+
+    assertStatus(response, 500);
+    expect(requestCount).toBe(1);
+  });
+});
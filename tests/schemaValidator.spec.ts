@@ -0,0 +1,103 @@
+/**
+ * Schema Validator Test Suite
+ *
+ * Tests the declarative schema registry and validator used by the API suite.
+ * Runs without a browser or network - pure data validation.
+ *
+ * Tests covered:
+ * - Valid repair orders pass
+ * - Every list element is checked (not just the first)
+ * - All violations are reported with JSON paths
+ * - Enums, formats and nested objects
+ */
+
+import { test, expect } from "@playwright/test";
+import { validateSchema } from "../utils/schemaValidator";
+import { apiSchemas } from "../utils/schemas";
+import { repairOrders } from "../utils/testData";
+
+/**
+ * Build a valid repair order for use as a baseline
+ */
+function buildRepairOrder(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "1",
+    orderNumber: repairOrders.existingOrder.orderNumber,
+    customerName: repairOrders.existingOrder.customerName,
+    vehicleVin: repairOrders.existingOrder.vehicleVin,
+    status: repairOrders.existingOrder.status,
+    estimatedCost: "150.00",
+    createdAt: "2024-06-15T14:00:00Z",
+    ...overrides,
+  };
+}
+
+/**
+ * Test Suite: Schema Validation
+ */
+test.describe("Schema Validation", () => {
+  test("should accept a valid list of repair orders", async () => {
+    const body = [buildRepairOrder(), buildRepairOrder({ id: "2" })];
+
+    const violations = validateSchema(body, apiSchemas.getRepairOrders);
+
+    expect(violations).toEqual([]);
+  });
+
+  test("should check every element of a list", async () => {
+    // Arrange - Only the third element is invalid
+    const body = [
+      buildRepairOrder(),
+      buildRepairOrder({ id: "2" }),
+      buildRepairOrder({ id: "3", status: "Lost" }),
+    ];
+
+    const violations = validateSchema(body, apiSchemas.getRepairOrders);
+
+    expect(violations).toHaveLength(1);
+    expect(violations[0].path).toBe("$[2].status");
+  });
+
+  test("should report all violations with JSON paths", async () => {
+    // Arrange - Missing field, wrong type, bad VIN and bad money value
+    const order = buildRepairOrder({
+      customerName: undefined,
+      id: 42,
+      vehicleVin: "NOT-A-VIN",
+      estimatedCost: "12.345",
+    });
+
+    const violations = validateSchema([order], apiSchemas.getRepairOrders);
+
+    expect(violations.map((violation) => violation.path).sort()).toEqual([
+      "$[0].customerName",
+      "$[0].estimatedCost",
+      "$[0].id",
+      "$[0].vehicleVin",
+    ]);
+  });
+
+  test("should validate nested objects in the error envelope", async () => {
+    const body = {
+      error: "Validation failed",
+      details: [{ field: "vehicleVin" }],
+    };
+
+    const violations = validateSchema(body, apiSchemas.error);
+
+    expect(violations).toEqual([
+      { path: "$.details[0].message", message: "required property is missing" },
+    ]);
+  });
+
+  test("should reject a non-array body for list endpoints", async () => {
+    const violations = validateSchema(
+      { data: [] },
+      apiSchemas.getAppointments
+    );
+
+    expect(violations).toEqual([
+      { path: "$", message: "expected array, got object" },
+    ]);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Tenant Isolation Test Suite
+ *
+ * Creates a repair order as dealership A and checks that dealership B
+ * cannot see or change it. Runs against API_BASE_URL with the dealerships
+ * and credentials from tenantConfig (utils/testData.ts); API_STUB=true runs
+ * it against the local stub.
+ *
+ * Why it matters:
+ * - A multi-rooftop DMS holds competing dealerships' customers side by side
+ * - A leak is rarely a whole listing - usually one endpoint that forgets
+ *   the dealer filter, so every operation is checked on its own
+ *
+ * Tests covered:
+ * - Read by ID, listing and search
+ * - Update and delete
+ * - Acting for another dealership by sending its dealer ID
+ */
+
+import { test, expect } from "../utils/fixtures";
+import { DmsApiClient } from "../utils/apiClient";
+import { RepairOrder } from "../utils/models";
+import { apiTestData, generateOrderNumber, tenantConfig } from "../utils/testData";
+
+/**
+ * Test Suite: Tenant Isolation
+ */
+test.describe("API - Tenant Isolation", () => {
+  test.use({ tenantName: "dealerA" });
+
+  let dealerB: DmsApiClient;
+  let order: RepairOrder;
+
+  /**
+   * Dealership A creates the order every test probes from dealership B
+   * (deleted by the resources fixture through dealership A)
+   */
+  test.beforeEach(async ({ tenantApi, tenantClient }) => {
+    const created = await tenantApi.createRepairOrder({
+      ...apiTestData.createRepairOrderPayload,
+      orderNumber: generateOrderNumber(),
+      customerName: "Tenant Isolation Customer",
+    });
+    expect(created).toHaveStatus(201);
+    order = created.body;
+
+    dealerB = await tenantClient("dealerB");
+  });
+
+  test("should not let dealership B read the order by ID", async ({ tenantApi }) => {
+    // Act
+    const asOwner = await tenantApi.getRepairOrderById(order.id);
+    const asOther = await dealerB.getRepairOrderById(order.id);
+
+    // Assert - Invisible, not forbidden: the ID must not be confirmed
+    expect(asOwner).toHaveStatus(200);
+    expect(asOther).toHaveStatus(404);
+    expect(asOther).toHaveErrorEnvelope("NOT_FOUND");
+  });
+
+  test("should not list or search the order for dealership B", async ({ tenantApi }) => {
+    // Act
+    const ownerOrders = await tenantApi.collectAllRepairOrders();
+    const otherOrders = await dealerB.collectAllRepairOrders();
+    const byOrderNumber = await dealerB.searchRepairOrders({
+      orderNumber: order.orderNumber,
+    });
+    const byCustomer = await dealerB.searchRepairOrders({
+      customerName: order.customerName,
+    });
+
+    // Assert
+    expect(ownerOrders).toContainRepairOrder({ id: order.id });
+    expect(otherOrders).not.toContainRepairOrder({ id: order.id });
+    expect(byOrderNumber).toHaveStatus(200);
+    expect(byOrderNumber).not.toContainRepairOrder({ id: order.id });
+    expect(byCustomer).toHaveStatus(200);
+    expect(byCustomer).not.toContainRepairOrder({ id: order.id });
+  });
+
+  test("should not let dealership B update the order", async ({ tenantApi }) => {
+    // Act
+    const update = await dealerB.updateRepairOrder(order.id, {
+      status: "Cancelled",
+      notes: "Changed by another dealership",
+    });
+
+    // Assert - Rejected, and the order is unchanged
+    expect(update).toHaveStatus(404);
+    const current = await tenantApi.getRepairOrderById(order.id);
+    expect(current).toContainRepairOrder({ status: order.status, notes: order.notes });
+  });
+
+  test("should not let dealership B delete the order", async ({ tenantApi }) => {
+    // Act
+    const deletion = await dealerB.deleteRepairOrder(order.id);
+
+    // Assert - Rejected, and the order still exists
+    expect(deletion).toHaveStatus(404);
+    expect(await tenantApi.getRepairOrderById(order.id)).toHaveStatus(200);
+  });
+
+  test("should not let dealership B act for dealership A by dealer ID", async ({ tenantApi }) => {
+    // Arrange - Dealer A's ID where dealer B's client would send its own
+    const dealerA = tenantApi.tenant!;
+    const update = { notes: "Changed with another dealership's ID" };
+
+    // Act
+    const response =
+      tenantConfig.scoping === "header"
+        ? await dealerB.updateRepairOrder(order.id, update, {
+            headers: { [tenantConfig.header]: dealerA.dealerId },
+          })
+        : await dealerB.patch(
+            `${tenantConfig.pathPrefix}/${dealerA.dealerId}/repair-orders/${order.id}`,
+            update
+          );
+
+    // Assert - Denied (403) or invisible (404), never applied
+    expect([403, 404]).toContain(response.status);
+    const current = await tenantApi.getRepairOrderById(order.id);
+    expect(current.body.notes).toBe(order.notes);
+  });
+});
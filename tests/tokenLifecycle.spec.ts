@@ -0,0 +1,159 @@
+/**
+ * Token Lifecycle Test Suite
+ *
+ * Tests the auth strategies used by DmsApiClient to obtain and renew tokens.
+ * Uses a fake auth API, so it runs without a browser or network.
+ *
+ * Tests covered:
+ * - Static tokens
+ * - Login-derived tokens cached per worker
+ * - Re-login on expiry and after a 401
+ * - Refresh-token renewal with login fallback
+ */
+
+import { test, expect } from "@playwright/test";
+import {
+  AuthApi,
+  LoginStrategy,
+  RefreshTokenStrategy,
+  StaticTokenStrategy,
+  clearTokenCache,
+} from "../utils/auth";
+import { ApiResult, AuthToken } from "../utils/models";
+import { users } from "../utils/testData";
+
+/**
+ * Fake auth API that records calls and answers with scripted tokens
+ */
+function createFakeAuthApi(responses: { status: number; body?: AuthToken }[]) {
+  const calls: { endpoint: string; data: Record<string, unknown> }[] = [];
+
+  const api: AuthApi = {
+    baseURL: "http://fake-dms.local",
+    post: async <T>(endpoint: string, data: Record<string, unknown>) => {
+      calls.push({ endpoint, data });
+      const next = responses.shift() || { status: 500 };
+      const ok = next.status < 300;
+      return {
+        status: next.status,
+        ok,
+        headers: {},
+        body: next.body as T,
+        error: ok ? null : { error: "rejected" },
+        text: JSON.stringify(next.body || {}),
+        request: { method: "POST", url: `${api.baseURL}${endpoint}` },
+        durationMs: 0,
+        response: undefined as never,
+      } satisfies ApiResult<T>;
+    },
+  };
+
+  return { api, calls };
+}
+
+/**
+ * Test Suite: Token Lifecycle
+ */
+test.describe("Token Lifecycle", () => {
+  test.beforeEach(() => {
+    clearTokenCache();
+  });
+
+  test("should always return the static token", async () => {
+    const strategy = new StaticTokenStrategy("static-token");
+
+    expect(await strategy.getToken()).toBe("static-token");
+
+    // Static tokens cannot be renewed - no retry after a 401
+    expect(await strategy.handleUnauthorized()).toBeNull();
+  });
+
+  test("should log in once and reuse the cached token", async () => {
+    const { api, calls } = createFakeAuthApi([
+      { status: 200, body: { token: "token-1", expiresIn: 3600 } },
+    ]);
+    const strategy = new LoginStrategy();
+
+    expect(await strategy.getToken(api)).toBe("token-1");
+    expect(await new LoginStrategy().getToken(api)).toBe("token-1");
+
+    expect(calls).toEqual([
+      {
+        endpoint: "/auth/login",
+        data: {
+          username: users.validUser.username,
+          password: users.validUser.password,
+        },
+      },
+    ]);
+  });
+
+  test("should log in again when the token has expired", async () => {
+    const { api, calls } = createFakeAuthApi([
+      { status: 200, body: { token: "token-1", expiresIn: 0 } },
+      { status: 200, body: { token: "token-2", expiresIn: 3600 } },
+    ]);
+    const strategy = new LoginStrategy();
+
+    expect(await strategy.getToken(api)).toBe("token-1");
+    expect(await strategy.getToken(api)).toBe("token-2");
+    expect(calls).toHaveLength(2);
+  });
+
+  test("should renew once when concurrent requests get a 401", async () => {
+    const { api, calls } = createFakeAuthApi([
+      { status: 200, body: { token: "token-1" } },
+      { status: 200, body: { token: "token-2" } },
+    ]);
+    const strategy = new LoginStrategy();
+    const rejected = await strategy.getToken(api);
+
+    const renewed = await Promise.all([
+      strategy.handleUnauthorized(api, rejected),
+      strategy.handleUnauthorized(api, rejected),
+    ]);
+
+    expect(renewed).toEqual(["token-2", "token-2"]);
+    expect(calls).toHaveLength(2);
+  });
+
+  test("should renew with the refresh token", async () => {
+    const { api, calls } = createFakeAuthApi([
+      { status: 200, body: { token: "token-1", refreshToken: "refresh-1" } },
+      { status: 200, body: { token: "token-2" } },
+    ]);
+    const strategy = new RefreshTokenStrategy();
+    const rejected = await strategy.getToken(api);
+
+    expect(await strategy.handleUnauthorized(api, rejected)).toBe("token-2");
+    expect(calls[1]).toEqual({
+      endpoint: "/auth/refresh",
+      data: { refreshToken: "refresh-1" },
+    });
+  });
+
+  test("should fall back to login when the refresh is rejected", async () => {
+    const { api, calls } = createFakeAuthApi([
+      { status: 200, body: { token: "token-1", refreshToken: "refresh-1" } },
+      { status: 401 },
+      { status: 200, body: { token: "token-2" } },
+    ]);
+    const strategy = new RefreshTokenStrategy();
+    const rejected = await strategy.getToken(api);
+
+    expect(await strategy.handleUnauthorized(api, rejected)).toBe("token-2");
+    expect(calls.map((call) => call.endpoint)).toEqual([
+      "/auth/login",
+      "/auth/refresh",
+      "/auth/login",
+    ]);
+  });
+
+  test("should fail clearly when login is rejected", async () => {
+    const { api } = createFakeAuthApi([{ status: 401 }]);
+
+    await expect(new LoginStrategy().getToken(api)).rejects.toThrow(
+      `Login as ${users.validUser.username} failed: 401`
+    );
+  });
+});
@@ -0,0 +1,297 @@
+/**
+ * Webhooks Test Suite
+ *
+ * Checks the events the DMS sends to registered webhooks, through a local
+ * receiver registered for every event type (the webhooks fixture).
+ * Runs against API_BASE_URL, which must be able to reach the receiver
+ * (see WEBHOOK_PUBLIC_URL); API_STUB=true runs it against the local stub.
+ *
+ * Tests covered:
+ * - repair_order.created and repair_order.status_changed payloads
+ * - appointment.booked and appointment.cancelled payloads
+ * - Signature and delivery headers
+ * - Deliveries with a bad signature rejected and ignored
+ * - Receiver: failing predicates, other methods and paths (no DMS)
+ * - Signing and verification (no network)
+ */
+
+import { test, expect } from "../utils/fixtures";
+import { DmsApiClient } from "../utils/apiClient";
+import { Appointment, RepairOrder } from "../utils/models";
+import { WebhookReceiver, signPayload, verifySignature } from "../utils/webhooks";
+import {
+  apiTestData,
+  generateOrderNumber,
+  repairOrders,
+  webhookConfig,
+} from "../utils/testData";
+
+/**
+ * Data of a repair_order.status_changed event
+ */
+interface StatusChange {
+  orderId: string;
+  previousStatus: string;
+  status: string;
+  order: RepairOrder;
+}
+
+/**
+ * Test Suite: Events
+ */
+test.describe("API - Webhooks", () => {
+  let apiClient: DmsApiClient;
+
+  test.beforeAll(async () => {
+    apiClient = new DmsApiClient();
+    await apiClient.init();
+  });
+
+  test.afterAll(async () => {
+    await apiClient.dispose();
+  });
+
+  test("should send repair_order.status_changed when the status is updated", async ({
+    webhooks,
+  }) => {
+    // Arrange
+    const created = await apiClient.createRepairOrder({
+      ...apiTestData.createRepairOrderPayload,
+      orderNumber: generateOrderNumber(),
+    });
+    expect(created).toHaveStatus(201);
+    const order = created.body;
+    const status = repairOrders.statuses.find((entry) => entry !== order.status)!;
+
+    // Act
+    const updated = await apiClient.updateRepairOrder(order.id, { status });
+
+    // Assert
+    expect(updated).toHaveStatus(200);
+    const event = await webhooks.waitForEvent<StatusChange>(
+      "repair_order.status_changed",
+      (entry) => entry.data.orderId === order.id
+    );
+    expect(event.data).toMatchObject({
+      previousStatus: order.status,
+      status,
+      order: { id: order.id, status },
+    });
+  });
+
+  test("should send repair_order.created with the new order", async ({ webhooks }) => {
+    // Act
+    const created = await apiClient.createRepairOrder({
+      ...apiTestData.createRepairOrderPayload,
+      orderNumber: generateOrderNumber(),
+    });
+
+    // Assert
+    expect(created).toHaveStatus(201);
+    const event = await webhooks.waitForEvent<{ order: RepairOrder }>(
+      "repair_order.created",
+      (entry) => entry.data.order.id === created.body.id
+    );
+    expect(event.data.order).toMatchObject({
+      orderNumber: created.body.orderNumber,
+      customerName: apiTestData.createRepairOrderPayload.customerName,
+    });
+  });
+
+  test("should send appointment.booked and appointment.cancelled", async ({
+    webhooks,
+  }) => {
+    // Arrange
+    const created = await apiClient.createAppointment(apiTestData.createAppointmentPayload);
+    expect(created).toHaveStatus(201);
+    const appointmentId = created.body.id;
+    const isThisAppointment = (entry: { data: { appointment: Appointment } }) =>
+      entry.data.appointment.id === appointmentId;
+
+    // Act
+    const booked = await webhooks.waitForEvent("appointment.booked", isThisAppointment);
+    expect(await apiClient.cancelAppointment(appointmentId)).toHaveStatus(204);
+    const cancelled = await webhooks.waitForEvent(
+      "appointment.cancelled",
+      isThisAppointment
+    );
+
+    // Assert
+    expect(booked.data.appointment).toMatchObject({
+      scheduledDate: apiTestData.createAppointmentPayload.scheduledDate,
+      serviceType: apiTestData.createAppointmentPayload.serviceType,
+    });
+    expect(cancelled.id).not.toBe(booked.id);
+  });
+
+  test("should sign every delivery with the shared secret", async ({ webhooks }) => {
+    // Act
+    const created = await apiClient.createRepairOrder({
+      ...apiTestData.createRepairOrderPayload,
+      orderNumber: generateOrderNumber(),
+    });
+    const event = await webhooks.waitForEvent<{ order: RepairOrder }>(
+      "repair_order.created",
+      (entry) => entry.data.order.id === created.body.id
+    );
+
+    // Assert
+    const delivery = webhooks.received.find((entry) => entry.event.id === event.id)!;
+    const { headers } = webhookConfig;
+    expect(delivery.signatureValid).toBe(true);
+    expect(delivery.headers[headers.event.toLowerCase()]).toBe("repair_order.created");
+    expect(delivery.headers[headers.delivery.toLowerCase()]).toBe(event.id);
+    expect(delivery.headers[headers.signature.toLowerCase()]).toBe(
+      signPayload(delivery.rawBody, webhookConfig.secret)
+    );
+  });
+
+  test("should reject and ignore a delivery with a bad signature", async ({
+    webhooks,
+    request,
+  }) => {
+    // Arrange - A forged status change for the seeded order
+    const body = JSON.stringify({
+      id: "EVT-FORGED",
+      type: "repair_order.status_changed",
+      createdAt: new Date().toISOString(),
+      data: { orderId: repairOrders.existingOrder.orderNumber, status: "Completed" },
+    });
+
+    // Act
+    const response = await request.post(webhooks.url, {
+      data: body,
+      headers: {
+        "Content-Type": "application/json",
+        [webhookConfig.headers.signature]: signPayload(body, "not-the-shared-secret"),
+      },
+    });
+
+    // Assert
+    expect(response.status()).toBe(401);
+    expect(webhooks.received.map((entry) => entry.signatureValid)).toContain(false);
+    await expect(
+      webhooks.waitForEvent(
+        "repair_order.status_changed",
+        (entry) => entry.id === "EVT-FORGED",
+        500
+      )
+    ).rejects.toThrow("bad signature, ignored");
+  });
+});
+
+/**
+ * Test Suite: Receiver (no DMS)
+ * Deliveries are posted straight to a local receiver
+ */
+test.describe("API - Webhooks - Receiver", () => {
+  let receiver: WebhookReceiver;
+
+  test.beforeEach(async () => {
+    receiver = new WebhookReceiver({ publicUrl: "" });
+    await receiver.start();
+  });
+
+  test.afterEach(async () => {
+    await receiver.stop();
+  });
+
+  test("should fail the wait when its predicate throws", async ({ request }) => {
+    // Arrange - The rejection is caught up front, it arrives during the POST
+    const failure = receiver
+      .waitForEvent("repair_order.created", () => {
+        throw new Error("predicate failed");
+      })
+      .catch((error: Error) => error);
+    const body = JSON.stringify({
+      id: "EVT-1",
+      type: "repair_order.created",
+      createdAt: new Date().toISOString(),
+      data: {},
+    });
+
+    // Act
+    const response = await request.post(receiver.url, {
+      data: body,
+      headers: {
+        "Content-Type": "application/json",
+        [webhookConfig.headers.signature]: signPayload(body, receiver.options.secret),
+      },
+    });
+
+    // Assert - The delivery is still accepted
+    expect(response.status()).toBe(204);
+    expect(await failure).toEqual(new Error("predicate failed"));
+  });
+
+  test("should reject when the predicate throws on an event already received", async ({
+    request,
+  }) => {
+    // Arrange - The event arrives before anyone waits for it
+    const body = JSON.stringify({
+      id: "EVT-2",
+      type: "repair_order.created",
+      createdAt: new Date().toISOString(),
+      data: {},
+    });
+    await request.post(receiver.url, {
+      data: body,
+      headers: {
+        "Content-Type": "application/json",
+        [webhookConfig.headers.signature]: signPayload(body, receiver.options.secret),
+      },
+    });
+
+    // Act
+    const waiting = receiver.waitForEvent("repair_order.created", () => {
+      throw new Error("predicate failed");
+    });
+
+    // Assert - A rejected promise, not a synchronous throw
+    await expect(waiting).rejects.toThrow("predicate failed");
+  });
+
+  test("should answer 404 to anything but POST /webhooks", async ({ request }) => {
+    // Act
+    const get = await request.get(receiver.url);
+    const otherPath = await request.post(receiver.url.replace(/\/webhooks$/, "/events"), {
+      data: "{}",
+    });
+
+    // Assert
+    expect(get.status()).toBe(404);
+    expect(otherPath.status()).toBe(404);
+    expect(receiver.received).toHaveLength(0);
+  });
+});
+
+/**
+ * Test Suite: Signatures (no network)
+ */
+test.describe("API - Webhooks - Signatures", () => {
+  const secret = "0123456789abcdef";
+  const body = '{"id":"EVT-1","type":"repair_order.created"}';
+
+  test("should sign with HMAC-SHA256 of the raw body", async () => {
+    // Act
+    const signature = signPayload(body, secret);
+
+    // Assert
+    expect(signature).toMatch(/^sha256=[0-9a-f]{64}$/);
+    expect(signPayload(body, secret)).toBe(signature);
+    expect(signPayload(`${body} `, secret)).not.toBe(signature);
+  });
+
+  test("should only verify the matching secret and body", async () => {
+    // Arrange
+    const signature = signPayload(body, secret);
+
+    // Act & Assert
+    expect(verifySignature(body, signature, secret)).toBe(true);
+    expect(verifySignature(Buffer.from(body), signature, secret)).toBe(true);
+    expect(verifySignature(body, signature, "another-secret-value")).toBe(false);
+    expect(verifySignature(body.replace("EVT-1", "EVT-2"), signature, secret)).toBe(false);
+    expect(verifySignature(body, "sha256=short", secret)).toBe(false);
+    expect(verifySignature(body, undefined, secret)).toBe(false);
+  });
+});
@@ -10,8 +10,156 @@
  * 4. Automatic request/response logging in Playwright reports
  */
 
-import { APIRequestContext, request } from "@playwright/test";
-import { apiTestData } from "./testData";
+import { APIRequestContext, APIResponse, request } from "@playwright/test";
+import { apiTestData, concurrencyConfig } from "./testData";
+import {
+  ApiError,
+  ApiResult,
+  Appointment,
+  Attachment,
+  AttachmentFile,
+  AuthToken,
+  CreateAppointmentPayload,
+  CreateRepairOrderPayload,
+  RepairOrder,
+  TokenValidation,
+  RegisterWebhookPayload,
+  UpdateAppointmentPayload,
+  UpdateRepairOrderPayload,
+  WebhookSubscription,
+} from "./models";
+import { MultipartFields } from "./attachments";
+import { AuthApi, AuthStrategy, createAuthStrategy } from "./auth";
+import {
+  CassetteOptions,
+  cassetteForCurrentTest,
+  resolveCassetteOptions,
+} from "./cassette";
+import {
+  ApiInterceptor,
+  ApiRequest,
+  createCallRecord,
+  defaultInterceptors,
+} from "./interceptors";
+import { EntityTagStore } from "./concurrency";
+import { DiffEntry, DmsApiError } from "./errors";
+import { ExpectedShape, MatchOptions, matchDeep } from "./matchers";
+import {
+  OpenApiConformance,
+  getDefaultConformance,
+  reportConformanceIssues,
+} from "./openapi";
+import {
+  Page,
+  PagedEndpoint,
+  PaginationConfig,
+  QueryParams,
+  collectAll,
+  paginate,
+  paginateItems,
+  resolvePagination,
+} from "./pagination";
+import {
+  AppointmentFilters,
+  AppointmentQuery,
+  RepairOrderFilters,
+  RepairOrderQuery,
+} from "./searchQuery";
+import {
+  RateLimitPolicy,
+  RateLimiter,
+  resolveRateLimitPolicy,
+} from "./rateLimit";
+import {
+  RetryPolicy,
+  computeBackoff,
+  isRetryableRequest,
+  isTransientError,
+  recordRetry,
+  resolveRetryPolicy,
+  sleep,
+} from "./retry";
+import {
+  Tenant,
+  getTenant,
+  scopeEndpoint,
+  tenantAuthStrategy,
+  tenantHeaders,
+} from "./tenants";
+
+/**
+ * HTTP methods used by the DMS API
+ */
+export type HttpMethod = "GET" | "POST" | "PATCH" | "DELETE";
+
+/**
+ * Optional DmsApiClient configuration
+ */
+export interface DmsApiClientOptions {
+  // API base URL (defaults to API_BASE_URL)
+  baseURL?: string;
+
+  // How tokens are obtained and renewed
+  // Defaults to API_AUTH_STRATEGY (static API_TOKEN unless configured),
+  // or to the tenant's credentials for tenant-scoped clients
+  auth?: AuthStrategy;
+
+  // Dealership to act for, by name in tenantConfig (see utils/tenants.ts)
+  // Unset = unscoped client (single-rooftop behavior)
+  tenant?: string;
+
+  // OpenAPI conformance checker
+  // Defaults to the committed spec (openapi/dms-api.json); null disables it
+  conformance?: OpenApiConformance | null;
+
+  // Retry policy overrides for transient failures (see utils/retry.ts)
+  retry?: Partial<RetryPolicy>;
+
+  // Rate limit overrides (see utils/rateLimit.ts)
+  // null disables pacing and 429 retries, so throttling tests see raw 429s
+  rateLimit?: Partial<RateLimitPolicy> | null;
+
+  // Extra interceptors, run after the built-in ones (see utils/interceptors.ts)
+  interceptors?: ApiInterceptor[];
+
+  // Pagination overrides per listing endpoint (see utils/pagination.ts)
+  pagination?: Partial<Record<PagedEndpoint, Partial<PaginationConfig>>>;
+
+  // Record/replay overrides (see utils/cassette.ts)
+  // Defaults to API_CASSETTE (passthrough unless configured)
+  cassette?: Partial<CassetteOptions>;
+
+  // Send If-Match with the last seen ETag on updates (see utils/concurrency.ts)
+  // Defaults to API_IF_MATCH (off unless configured)
+  ifMatch?: boolean;
+}
+
+/**
+ * Per-request options accepted by create/update methods
+ */
+export interface RequestOptions {
+  // Makes POST/PATCH safe to retry (sent as the Idempotency-Key header)
+  // Example: { idempotencyKey: randomUUID() }
+  idempotencyKey?: string;
+
+  // If-Match of an update: true = the ETag this client last saw for the
+  // record, a string = that ETag, false = none (overrides the client default)
+  ifMatch?: string | boolean;
+
+  // Additional request headers
+  headers?: Record<string, string>;
+}
+
+/**
+ * Per-request options used internally by DmsApiClient
+ */
+interface SendOptions extends RequestOptions {
+  // Send without Authorization header and skip 401 handling (login calls)
+  skipAuth?: boolean;
+
+  // multipart/form-data fields, sent instead of data (file uploads)
+  multipart?: MultipartFields;
+}
 
 // ====================
 // API Client Class
@@ -26,11 +174,49 @@ import { apiTestData } from "./testData";
 export class DmsApiClient {
   private apiContext: APIRequestContext | null = null;
   private baseURL: string;
-  private authToken: string;
+  private auth: AuthStrategy;
+  private authApi: AuthApi;
+  private tenantScope: Tenant | null;
+  private conformance: OpenApiConformance | null;
+  private retryPolicy: RetryPolicy;
+  private rateLimiter: RateLimiter | null;
+  private interceptors: ApiInterceptor[];
+  private pagination: Record<PagedEndpoint, PaginationConfig>;
+  private cassetteOptions: CassetteOptions;
+  private entityTags = new EntityTagStore();
+  private ifMatch: boolean;
+
+  constructor(options: DmsApiClientOptions = {}) {
+    this.baseURL = options.baseURL || apiTestData.auth.baseUrl;
+    this.tenantScope = options.tenant ? getTenant(options.tenant) : null;
+    this.auth =
+      options.auth ||
+      (this.tenantScope ? tenantAuthStrategy(this.tenantScope) : createAuthStrategy());
+    this.retryPolicy = resolveRetryPolicy(options.retry);
+    this.rateLimiter =
+      options.rateLimit === null
+        ? null
+        : new RateLimiter(this.baseURL, resolveRateLimitPolicy(options.rateLimit));
+    this.interceptors = [
+      ...defaultInterceptors(),
+      ...(options.interceptors || []),
+    ];
+    this.pagination = resolvePagination(options.pagination);
+    this.cassetteOptions = resolveCassetteOptions(options.cassette);
+    this.ifMatch = options.ifMatch ?? concurrencyConfig.ifMatch;
+
+    // Strategies log in through the client, but without a bearer token
+    this.authApi = {
+      baseURL: this.baseURL,
+      tenant: this.tenantScope?.name,
+      post: <T>(endpoint: string, data: Record<string, unknown>) =>
+        this.send<T>("POST", endpoint, data, { skipAuth: true }),
+    };
 
-  constructor() {
-    this.baseURL = apiTestData.auth.baseUrl;
-    this.authToken = apiTestData.auth.token;
+    this.conformance =
+      options.conformance === undefined
+        ? getDefaultConformance()
+        : options.conformance;
   }
 
   /**
@@ -41,14 +227,15 @@ export class DmsApiClient {
    * - Allows async setup (Playwright's request.newContext() is async)
    * - Enables reuse across multiple tests
    * - Proper cleanup with dispose()
+   *
+   * The Authorization header is not baked in here: the auth strategy
+   * supplies it per request, so rotated or expired tokens can be renewed.
+   * Neither is Content-Type: Playwright sets it from the body (JSON, or
+   * multipart/form-data with its boundary for uploads).
    */
   async init(): Promise<void> {
     this.apiContext = await request.newContext({
       baseURL: this.baseURL,
-      extraHTTPHeaders: {
-        Authorization: `Bearer ${this.authToken}`,
-        "Content-Type": "application/json",
-      },
       // Ignore HTTPS errors for test environments (never use in production!)
       ignoreHTTPSErrors: true,
     });
@@ -64,6 +251,35 @@ export class DmsApiClient {
     }
   }
 
+  /**
+   * Dealership this client acts for (null for unscoped clients)
+   */
+  get tenant(): Tenant | null {
+    return this.tenantScope;
+  }
+
+  /**
+   * ETag this client last saw for a record (from a GET, POST or PATCH)
+   *
+   * @param endpoint - Record path (e.g., "/repair-orders/RO-2024-001")
+   */
+  entityTag(endpoint: string): string | undefined {
+    return this.entityTags.get(endpoint);
+  }
+
+  /**
+   * Add an interceptor to this client
+   * Runs after the interceptors already registered
+   *
+   * @param interceptor - Interceptor to add
+   *
+   * Usage:
+   * apiClient.use(headerInterceptor({ "X-Test-Run": "nightly" }));
+   */
+  use(interceptor: ApiInterceptor): void {
+    this.interceptors.push(interceptor);
+  }
+
   /**
    * Get the initialized API context
    * Throws error if init() hasn't been called
@@ -77,6 +293,204 @@ export class DmsApiClient {
     return this.apiContext;
   }
 
+  /**
+   * Send a request and parse the response into a typed result
+   * Every public method goes through here, so cross-cutting behavior
+   * (parsing, logging, validation) lives in one place
+   *
+   * A 401 gives the auth strategy one chance to renew the token,
+   * after which the original request is retried once.
+   *
+   * Updates carry If-Match when asked to (see utils/concurrency.ts), and
+   * every response teaches the client the record's current ETag.
+   *
+   * @param method - HTTP method
+   * @param endpoint - API endpoint path (relative to baseURL)
+   * @param data - Optional JSON payload
+   * @param options - Per-request options
+   * @returns Typed result with status, headers, parsed body and raw response
+   */
+  private async send<T>(
+    method: HttpMethod,
+    endpoint: string,
+    data?: unknown,
+    options: SendOptions = {}
+  ): Promise<ApiResult<T>> {
+    if (method === "PATCH") {
+      const ifMatch = this.entityTags.ifMatchFor(endpoint, options.ifMatch, this.ifMatch);
+      if (ifMatch) {
+        options = { ...options, headers: { "If-Match": ifMatch, ...options.headers } };
+      }
+    }
+
+    let token = options.skipAuth
+      ? null
+      : await this.auth.getToken(this.authApi);
+    let result = await this.execute<T>(method, endpoint, data, token, options);
+
+    // Expired or rotated token - renew and retry the original request once
+    if (result.status === 401 && !options.skipAuth) {
+      const freshToken = await this.auth.handleUnauthorized(this.authApi, token);
+      if (freshToken && freshToken !== token) {
+        token = freshToken;
+        result = await this.execute<T>(method, endpoint, data, token, options);
+      }
+    }
+    this.entityTags.observe(method, endpoint, result);
+
+    // Check against the OpenAPI spec (throws or annotates per configuration)
+    if (this.conformance) {
+      reportConformanceIssues(
+        this.conformance.check(method, endpoint, result.status, result.body)
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Perform an HTTP exchange with the given bearer token
+   * Transient failures (502/503/504, connection resets) are retried with
+   * backoff when the retry policy allows it for this request.
+   * Every attempt waits for the rate limiter first; a 429 is retried after
+   * the API's Retry-After delay, whatever the method.
+   * Interceptors run around every attempt, so retries appear in transcripts.
+   */
+  private async execute<T>(
+    method: HttpMethod,
+    endpoint: string,
+    data: unknown,
+    token: string | null,
+    options: SendOptions
+  ): Promise<ApiResult<T>> {
+    const context = this.getContext();
+    const headers: Record<string, string> = {
+      ...(this.tenantScope ? tenantHeaders(this.tenantScope) : {}),
+      ...options.headers,
+    };
+    if (token) {
+      headers.Authorization = `Bearer ${token}`;
+    }
+    if (options.idempotencyKey) {
+      headers[this.retryPolicy.idempotencyHeader] = options.idempotencyKey;
+    }
+
+    const retryable = isRetryableRequest(method, headers, this.retryPolicy);
+    let throttled = 0;
+
+    for (let attempt = 1; ; attempt++) {
+      const canRetry = retryable && attempt < this.retryPolicy.maxAttempts;
+      await this.rateLimiter?.acquire();
+
+      let result: ApiResult<T>;
+      try {
+        result = await this.exchange<T>(context, {
+          method,
+          endpoint,
+          headers: { ...headers },
+          data,
+          multipart: options.multipart,
+          tenant: this.tenantScope?.name,
+        });
+      } catch (error) {
+        if (!canRetry || !isTransientError(error)) {
+          throw error;
+        }
+        await this.backoff(method, endpoint, attempt, (error as Error).message);
+        continue;
+      }
+
+      if (this.rateLimiter) {
+        const retryAfterMs = this.rateLimiter.observe(result.status, result.headers);
+        if (
+          result.status === 429 &&
+          throttled < this.rateLimiter.policy.maxRetries
+        ) {
+          throttled++;
+          await this.backoff(method, endpoint, throttled, "429", retryAfterMs);
+          attempt--; // Throttling doesn't use up transient-failure attempts
+          continue;
+        }
+      }
+
+      const transient = this.retryPolicy.retryableStatuses.includes(
+        result.status
+      );
+      if (!canRetry || !transient) {
+        return result;
+      }
+      await this.backoff(method, endpoint, attempt, String(result.status));
+    }
+  }
+
+  /**
+   * Run one request through the interceptor pipeline
+   * In replay mode the response comes from the test's cassette instead
+   * of the network; in record mode it is added to the cassette.
+   */
+  private async exchange<T>(
+    context: APIRequestContext,
+    request: ApiRequest
+  ): Promise<ApiResult<T>> {
+    for (const interceptor of this.interceptors) {
+      await interceptor.beforeRequest?.(request);
+    }
+
+    // Tenant path prefix is added on the wire only
+    const endpoint = this.tenantScope
+      ? scopeEndpoint(this.tenantScope, request.endpoint)
+      : request.endpoint;
+
+    const cassette = cassetteForCurrentTest(this.cassetteOptions);
+    const startTime = Date.now();
+    const response =
+      cassette?.mode === "replay"
+        ? cassette.replay(request, `${this.baseURL.replace(/\/$/, "")}${endpoint}`)
+        : await context.fetch(endpoint, {
+            method: request.method,
+            headers: request.headers,
+            ...(request.multipart
+              ? { multipart: request.multipart }
+              : { data: request.data }),
+          });
+    const durationMs = Date.now() - startTime;
+    const result = await toApiResult<T>(response, request.method, durationMs);
+    if (cassette?.mode === "record") {
+      await cassette.record(request, result);
+    }
+
+    const exchange = {
+      request,
+      result,
+      durationMs,
+      record: createCallRecord(request, result, durationMs),
+    };
+    for (const interceptor of this.interceptors) {
+      await interceptor.afterResponse?.(exchange);
+    }
+
+    return result;
+  }
+
+  /**
+   * Record a retry and wait before the next attempt
+   * The API's Retry-After delay (429) wins over the computed backoff
+   */
+  private async backoff(
+    method: HttpMethod,
+    endpoint: string,
+    attempt: number,
+    reason: string,
+    retryAfterMs: number | null = null
+  ): Promise<void> {
+    const delayMs =
+      retryAfterMs === null
+        ? computeBackoff(attempt, this.retryPolicy)
+        : Math.min(retryAfterMs, this.rateLimiter?.policy.maxWaitMs ?? retryAfterMs);
+    await recordRetry({ method, endpoint, attempt, reason, delayMs });
+    await sleep(delayMs);
+  }
+
   // ====================
   // Repair Orders API
   // ====================
@@ -84,29 +498,28 @@ export class DmsApiClient {
   /**
    * Get all repair orders
    *
-   * @returns Response with array of repair orders
+   * @returns Typed result with array of repair orders
    */
-  async getRepairOrders() {
-    const context = this.getContext();
-    return await context.get("/repair-orders");
+  async getRepairOrders(): Promise<ApiResult<RepairOrder[]>> {
+    return await this.send<RepairOrder[]>("GET", "/repair-orders");
   }
 
   /**
    * Get a specific repair order by ID
    *
    * @param orderId - Repair order ID (e.g., "RO-2024-001")
-   * @returns Response with repair order details
+   * @returns Typed result with repair order details
    */
-  async getRepairOrderById(orderId: string) {
-    const context = this.getContext();
-    return await context.get(`/repair-orders/${orderId}`);
+  async getRepairOrderById(orderId: string): Promise<ApiResult<RepairOrder>> {
+    return await this.send<RepairOrder>("GET", `/repair-orders/${orderId}`);
   }
 
   /**
    * Create a new repair order
    *
    * @param orderData - Repair order payload
-   * @returns Response with created repair order
+   * @param options - Optional idempotency key / headers (enables retries)
+   * @returns Typed result with created repair order
    *
    * Example payload:
    * {
@@ -115,11 +528,16 @@ export class DmsApiClient {
    *   serviceType: "Oil Change"
    * }
    */
-  async createRepairOrder(orderData: Record<string, unknown>) {
-    const context = this.getContext();
-    return await context.post("/repair-orders", {
-      data: orderData,
-    });
+  async createRepairOrder(
+    orderData: CreateRepairOrderPayload,
+    options: RequestOptions = {}
+  ): Promise<ApiResult<RepairOrder>> {
+    return await this.send<RepairOrder>(
+      "POST",
+      "/repair-orders",
+      orderData,
+      options
+    );
   }
 
   /**
@@ -127,40 +545,180 @@ export class DmsApiClient {
    *
    * @param orderId - Repair order ID to update
    * @param updateData - Fields to update
-   * @returns Response with updated repair order
+   * @param options - Optional idempotency key / headers (enables retries), or
+   *                  ifMatch to refuse the update if the record changed
+   * @returns Typed result with updated repair order
    */
-  async updateRepairOrder(orderId: string, updateData: Record<string, unknown>) {
-    const context = this.getContext();
-    return await context.patch(`/repair-orders/${orderId}`, {
-      data: updateData,
-    });
+  async updateRepairOrder(
+    orderId: string,
+    updateData: UpdateRepairOrderPayload,
+    options: RequestOptions = {}
+  ): Promise<ApiResult<RepairOrder>> {
+    return await this.send<RepairOrder>(
+      "PATCH",
+      `/repair-orders/${orderId}`,
+      updateData,
+      options
+    );
   }
 
   /**
    * Delete a repair order
    *
    * @param orderId - Repair order ID to delete
-   * @returns Response confirming deletion
+   * @returns Result confirming deletion
    */
-  async deleteRepairOrder(orderId: string) {
-    const context = this.getContext();
-    return await context.delete(`/repair-orders/${orderId}`);
+  async deleteRepairOrder(orderId: string): Promise<ApiResult<void>> {
+    return await this.send<void>("DELETE", `/repair-orders/${orderId}`);
   }
 
   /**
    * Search repair orders with filters
    *
-   * @param filters - Query parameters (status, customerName, dateRange, etc.)
-   * @returns Response with filtered repair orders
+   * @param query - Query builder or typed filters (see utils/searchQuery.ts)
+   * @returns Typed result with filtered repair orders
+   * @throws Error for unknown filters or invalid values (before sending)
    *
    * Example:
    * searchRepairOrders({ status: "Completed", customerName: "Smith" })
+   * searchRepairOrders(repairOrderQuery().status("Pending", "In Progress"))
    */
-  async searchRepairOrders(filters: Record<string, string>) {
-    const context = this.getContext();
-    // Convert filters object to URL query parameters
-    const queryParams = new URLSearchParams(filters).toString();
-    return await context.get(`/repair-orders?${queryParams}`);
+  async searchRepairOrders(
+    query: RepairOrderQuery | RepairOrderFilters
+  ): Promise<ApiResult<RepairOrder[]>> {
+    return await this.send<RepairOrder[]>(
+      "GET",
+      RepairOrderQuery.from(query).toEndpoint("/repair-orders")
+    );
+  }
+
+  /**
+   * Iterate over every page of repair orders (follows pagination)
+   * Useful for pagination invariants: page sizes, totals, ordering
+   *
+   * @param filters - Query parameters applied to every page (a query's
+   *                  limit() sets the page size, page() the first page)
+   * @returns Async iterator of pages
+   *
+   * Example:
+   * for await (const page of apiClient.iterateRepairOrderPages()) { ... }
+   */
+  iterateRepairOrderPages(
+    filters: RepairOrderQuery | QueryParams = {}
+  ): AsyncGenerator<Page<RepairOrder>> {
+    const paged =
+      filters instanceof RepairOrderQuery
+        ? filters.toPagination(this.pagination.repairOrders)
+        : { filters, config: this.pagination.repairOrders };
+    return paginate<RepairOrder>(
+      (endpoint) => this.get(endpoint),
+      "/repair-orders",
+      paged.config,
+      paged.filters,
+      this.baseURL
+    );
+  }
+
+  /**
+   * Iterate over every repair order across all pages
+   *
+   * @param filters - Query parameters (status, customerName, etc.)
+   * @returns Async iterator of repair orders
+   */
+  iterateRepairOrders(
+    filters: RepairOrderQuery | QueryParams = {}
+  ): AsyncGenerator<RepairOrder> {
+    return paginateItems(this.iterateRepairOrderPages(filters));
+  }
+
+  /**
+   * Collect every repair order across all pages
+   *
+   * @param filters - Query parameters (status, customerName, etc.)
+   * @returns All matching repair orders
+   */
+  async collectAllRepairOrders(
+    filters: RepairOrderQuery | QueryParams = {}
+  ): Promise<RepairOrder[]> {
+    return await collectAll(this.iterateRepairOrders(filters));
+  }
+
+  // ====================
+  // Attachments API
+  // ====================
+
+  /**
+   * List the documents attached to a repair order
+   *
+   * @param orderId - Repair order ID
+   * @returns Typed result with attachment metadata (no content)
+   */
+  async listAttachments(orderId: string): Promise<ApiResult<Attachment[]>> {
+    return await this.send<Attachment[]>(
+      "GET",
+      `/repair-orders/${orderId}/attachments`
+    );
+  }
+
+  /**
+   * Upload a document to a repair order (multipart/form-data, field "file")
+   *
+   * @param orderId - Repair order ID
+   * @param file - File to upload (see attachmentFile() in utils/attachments.ts)
+   * @param options - Optional idempotency key / headers (enables retries)
+   * @returns Typed result with the stored attachment's metadata and checksum
+   *
+   * Example:
+   * uploadAttachment(order.id, attachmentTestData.signedAuthorization)
+   */
+  async uploadAttachment(
+    orderId: string,
+    file: AttachmentFile,
+    options: RequestOptions = {}
+  ): Promise<ApiResult<Attachment>> {
+    return await this.send<Attachment>(
+      "POST",
+      `/repair-orders/${orderId}/attachments`,
+      undefined,
+      { ...options, multipart: { file } }
+    );
+  }
+
+  /**
+   * Download an attachment's content
+   *
+   * @param orderId - Repair order ID
+   * @param attachmentId - Attachment ID
+   * @returns Result whose body is the raw content on 2xx (the parsed error
+   *          envelope otherwise, as for every other method)
+   */
+  async downloadAttachment(
+    orderId: string,
+    attachmentId: string
+  ): Promise<ApiResult<Buffer>> {
+    const result = await this.send<unknown>(
+      "GET",
+      `/repair-orders/${orderId}/attachments/${attachmentId}`
+    );
+    if (!result.ok) return result as ApiResult<Buffer>;
+    return { ...result, body: await result.response.body() };
+  }
+
+  /**
+   * Delete an attachment
+   *
+   * @param orderId - Repair order ID
+   * @param attachmentId - Attachment ID to delete
+   * @returns Result confirming deletion
+   */
+  async deleteAttachment(
+    orderId: string,
+    attachmentId: string
+  ): Promise<ApiResult<void>> {
+    return await this.send<void>(
+      "DELETE",
+      `/repair-orders/${orderId}/attachments/${attachmentId}`
+    );
   }
 
   // ====================
@@ -170,35 +728,44 @@ export class DmsApiClient {
   /**
    * Get all appointments
    *
-   * @returns Response with array of appointments
+   * @returns Typed result with array of appointments
    */
-  async getAppointments() {
-    const context = this.getContext();
-    return await context.get("/appointments");
+  async getAppointments(): Promise<ApiResult<Appointment[]>> {
+    return await this.send<Appointment[]>("GET", "/appointments");
   }
 
   /**
    * Get a specific appointment by ID
    *
    * @param appointmentId - Appointment ID
-   * @returns Response with appointment details
+   * @returns Typed result with appointment details
    */
-  async getAppointmentById(appointmentId: string) {
-    const context = this.getContext();
-    return await context.get(`/appointments/${appointmentId}`);
+  async getAppointmentById(
+    appointmentId: string
+  ): Promise<ApiResult<Appointment>> {
+    return await this.send<Appointment>(
+      "GET",
+      `/appointments/${appointmentId}`
+    );
   }
 
   /**
    * Create a new appointment
    *
    * @param appointmentData - Appointment payload
-   * @returns Response with created appointment
+   * @param options - Optional idempotency key / headers (enables retries)
+   * @returns Typed result with created appointment
    */
-  async createAppointment(appointmentData: Record<string, unknown>) {
-    const context = this.getContext();
-    return await context.post("/appointments", {
-      data: appointmentData,
-    });
+  async createAppointment(
+    appointmentData: CreateAppointmentPayload,
+    options: RequestOptions = {}
+  ): Promise<ApiResult<Appointment>> {
+    return await this.send<Appointment>(
+      "POST",
+      "/appointments",
+      appointmentData,
+      options
+    );
   }
 
   /**
@@ -206,27 +773,145 @@ export class DmsApiClient {
    *
    * @param appointmentId - Appointment ID to update
    * @param updateData - Fields to update
-   * @returns Response with updated appointment
+   * @param options - Optional idempotency key / headers (enables retries), or
+   *                  ifMatch to refuse the update if the record changed
+   * @returns Typed result with updated appointment
    */
   async updateAppointment(
     appointmentId: string,
-    updateData: Record<string, unknown>
-  ) {
-    const context = this.getContext();
-    return await context.patch(`/appointments/${appointmentId}`, {
-      data: updateData,
-    });
+    updateData: UpdateAppointmentPayload,
+    options: RequestOptions = {}
+  ): Promise<ApiResult<Appointment>> {
+    return await this.send<Appointment>(
+      "PATCH",
+      `/appointments/${appointmentId}`,
+      updateData,
+      options
+    );
   }
 
   /**
    * Cancel an appointment
    *
    * @param appointmentId - Appointment ID to cancel
-   * @returns Response confirming cancellation
+   * @returns Result confirming cancellation
    */
-  async cancelAppointment(appointmentId: string) {
-    const context = this.getContext();
-    return await context.delete(`/appointments/${appointmentId}`);
+  async cancelAppointment(appointmentId: string): Promise<ApiResult<void>> {
+    return await this.send<void>("DELETE", `/appointments/${appointmentId}`);
+  }
+
+  /**
+   * Search appointments with filters
+   *
+   * @param query - Query builder or typed filters (see utils/searchQuery.ts)
+   * @returns Typed result with filtered appointments
+   * @throws Error for unknown filters or invalid values (before sending)
+   *
+   * Example:
+   * searchAppointments(appointmentQuery().serviceType("Oil Change").scheduledOn("2024-06-15"))
+   */
+  async searchAppointments(
+    query: AppointmentQuery | AppointmentFilters
+  ): Promise<ApiResult<Appointment[]>> {
+    return await this.send<Appointment[]>(
+      "GET",
+      AppointmentQuery.from(query).toEndpoint("/appointments")
+    );
+  }
+
+  /**
+   * Iterate over every page of appointments (follows pagination)
+   *
+   * @param filters - Query parameters applied to every page (a query's
+   *                  limit() sets the page size, page() the first page)
+   * @returns Async iterator of pages
+   */
+  iterateAppointmentPages(
+    filters: AppointmentQuery | QueryParams = {}
+  ): AsyncGenerator<Page<Appointment>> {
+    const paged =
+      filters instanceof AppointmentQuery
+        ? filters.toPagination(this.pagination.appointments)
+        : { filters, config: this.pagination.appointments };
+    return paginate<Appointment>(
+      (endpoint) => this.get(endpoint),
+      "/appointments",
+      paged.config,
+      paged.filters,
+      this.baseURL
+    );
+  }
+
+  /**
+   * Iterate over every appointment across all pages
+   *
+   * @param filters - Query parameters applied to every page
+   * @returns Async iterator of appointments
+   */
+  iterateAppointments(
+    filters: AppointmentQuery | QueryParams = {}
+  ): AsyncGenerator<Appointment> {
+    return paginateItems(this.iterateAppointmentPages(filters));
+  }
+
+  /**
+   * Collect every appointment across all pages
+   *
+   * @param filters - Query parameters applied to every page
+   * @returns All matching appointments
+   */
+  async collectAllAppointments(
+    filters: AppointmentQuery | QueryParams = {}
+  ): Promise<Appointment[]> {
+    return await collectAll(this.iterateAppointments(filters));
+  }
+
+  // ====================
+  // Webhooks API
+  // ====================
+
+  /**
+   * List webhook subscriptions
+   *
+   * @returns Typed result with subscriptions (secrets are never returned)
+   */
+  async listWebhooks(): Promise<ApiResult<WebhookSubscription[]>> {
+    return await this.send<WebhookSubscription[]>("GET", "/webhooks");
+  }
+
+  /**
+   * Subscribe a URL to webhook events
+   *
+   * @param payload - URL, event types and the secret deliveries are signed with
+   * @returns Typed result with the created subscription
+   *
+   * Example:
+   * registerWebhook({ url: receiver.url, events: ["repair_order.status_changed"], secret })
+   */
+  async registerWebhook(
+    payload: RegisterWebhookPayload
+  ): Promise<ApiResult<WebhookSubscription>> {
+    return await this.send<WebhookSubscription>("POST", "/webhooks", payload);
+  }
+
+  /**
+   * Get a webhook subscription by ID
+   *
+   * @param webhookId - Subscription ID
+   * @returns Typed result with the subscription
+   */
+  async getWebhookById(webhookId: string): Promise<ApiResult<WebhookSubscription>> {
+    return await this.send<WebhookSubscription>("GET", `/webhooks/${webhookId}`);
+  }
+
+  /**
+   * Remove a webhook subscription
+   *
+   * @param webhookId - Subscription ID to remove
+   * @returns Result confirming removal
+   */
+  async deleteWebhook(webhookId: string): Promise<ApiResult<void>> {
+    return await this.send<void>("DELETE", `/webhooks/${webhookId}`);
   }
 
   // ====================
@@ -239,23 +924,27 @@ export class DmsApiClient {
    *
    * @param username - User email
    * @param password - User password
-   * @returns Response with authentication token
+   * @returns Typed result with authentication token
    */
-  async authenticate(username: string, password: string) {
-    const context = this.getContext();
-    return await context.post("/auth/login", {
-      data: { username, password },
-    });
+  async authenticate(
+    username: string,
+    password: string
+  ): Promise<ApiResult<AuthToken>> {
+    return await this.send<AuthToken>(
+      "POST",
+      "/auth/login",
+      { username, password },
+      { skipAuth: true }
+    );
   }
 
   /**
    * Validate current authentication token
    *
-   * @returns Response indicating token validity
+   * @returns Result indicating token validity
    */
-  async validateToken() {
-    const context = this.getContext();
-    return await context.get("/auth/validate");
+  async validateToken(): Promise<ApiResult<TokenValidation>> {
+    return await this.send<TokenValidation>("GET", "/auth/validate");
   }
 
   // ====================
@@ -267,11 +956,14 @@ export class DmsApiClient {
    * Use for custom endpoints not covered by specific methods
    *
    * @param endpoint - API endpoint path
-   * @returns API response
+   * @param options - Optional headers
+   * @returns Typed result
    */
-  async get(endpoint: string) {
-    const context = this.getContext();
-    return await context.get(endpoint);
+  async get<T = unknown>(
+    endpoint: string,
+    options: RequestOptions = {}
+  ): Promise<ApiResult<T>> {
+    return await this.send<T>("GET", endpoint, undefined, options);
   }
 
   /**
@@ -279,11 +971,15 @@ export class DmsApiClient {
    *
    * @param endpoint - API endpoint path
    * @param data - Request payload
-   * @returns API response
+   * @param options - Optional idempotency key / headers (enables retries)
+   * @returns Typed result
    */
-  async post(endpoint: string, data: Record<string, unknown>) {
-    const context = this.getContext();
-    return await context.post(endpoint, { data });
+  async post<T = unknown>(
+    endpoint: string,
+    data: Record<string, unknown>,
+    options: RequestOptions = {}
+  ): Promise<ApiResult<T>> {
+    return await this.send<T>("POST", endpoint, data, options);
   }
 
   /**
@@ -291,23 +987,100 @@ export class DmsApiClient {
    *
    * @param endpoint - API endpoint path
    * @param data - Request payload
-   * @returns API response
+   * @param options - Optional idempotency key / headers (enables retries)
+   * @returns Typed result
    */
-  async patch(endpoint: string, data: Record<string, unknown>) {
-    const context = this.getContext();
-    return await context.patch(endpoint, { data });
+  async patch<T = unknown>(
+    endpoint: string,
+    data: Record<string, unknown>,
+    options: RequestOptions = {}
+  ): Promise<ApiResult<T>> {
+    return await this.send<T>("PATCH", endpoint, data, options);
   }
 
   /**
    * Generic DELETE request
    *
    * @param endpoint - API endpoint path
-   * @returns API response
+   * @param options - Optional headers
+   * @returns Typed result
    */
-  async delete(endpoint: string) {
-    const context = this.getContext();
-    return await context.delete(endpoint);
+  async delete<T = unknown>(
+    endpoint: string,
+    options: RequestOptions = {}
+  ): Promise<ApiResult<T>> {
+    return await this.send<T>("DELETE", endpoint, undefined, options);
+  }
+}
+
+// ====================
+// Response Parsing
+// ====================
+
+/**
+ * Convert a raw Playwright response into a typed ApiResult
+ *
+ * The body is read once and parsed as JSON when possible, so callers never
+ * need to call response.json() themselves.
+ *
+ * @param response - Playwright API response
+ * @param method - HTTP method of the request
+ * @param durationMs - Measured round-trip time
+ * @returns Typed result with status, headers, parsed body and raw response
+ */
+export async function toApiResult<T>(
+  response: APIResponse,
+  method = "GET",
+  durationMs = 0
+): Promise<ApiResult<T>> {
+  const text = await response.text();
+
+  let body: unknown = undefined;
+  if (text) {
+    try {
+      body = JSON.parse(text);
+    } catch {
+      // Not JSON - leave body undefined and expose the raw text only
+    }
   }
+
+  const ok = response.ok();
+  return {
+    status: response.status(),
+    ok,
+    headers: response.headers(),
+    body: body as T,
+    error: ok ? null : toApiError(body, text),
+    text,
+    request: { method, url: response.url() },
+    durationMs,
+    response,
+  };
+}
+
+/**
+ * Normalize an error response body into the standard ApiError envelope
+ * Falls back to the raw text when the server didn't send the envelope
+ */
+function toApiError(body: unknown, text: string): ApiError {
+  if (body && typeof body === "object" && "error" in body) {
+    return body as ApiError;
+  }
+  return { error: text };
+}
+
+/**
+ * Tell a typed ApiResult from a plain body or a raw APIResponse
+ */
+export function isApiResult(value: unknown): value is ApiResult<unknown> {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    "request" in value &&
+    "text" in value &&
+    "response" in value &&
+    typeof (value as ApiResult<unknown>).status === "number"
+  );
 }
 
 // ====================
@@ -317,50 +1090,140 @@ export class DmsApiClient {
 /**
  * Validate API response status code
  *
- * @param response - Playwright API response
+ * @param response - Typed API result or raw Playwright API response
  * @param expectedStatus - Expected HTTP status code
- * @throws Error if status doesn't match
+ * @throws DmsApiError with the request, request ID and body if it doesn't match
  *
  * Usage:
- * const response = await apiClient.getRepairOrders();
- * assertStatus(response, 200);
+ * const result = await apiClient.getRepairOrders();
+ * assertStatus(result, 200);
  */
 export function assertStatus(
-  response: { status: () => number },
+  response: { status: number } | { status: () => number },
   expectedStatus: number
 ): void {
-  const actualStatus = response.status();
-  if (actualStatus !== expectedStatus) {
-    throw new Error(
-      `Expected status ${expectedStatus}, but got ${actualStatus}`
-    );
+  const actualStatus =
+    typeof response.status === "function"
+      ? response.status()
+      : response.status;
+  if (actualStatus === expectedStatus) return;
+
+  const summary = `Expected status ${expectedStatus}, but got ${actualStatus}`;
+  const diff = [{ path: "status", expected: expectedStatus, actual: actualStatus }];
+
+  // Typed results carry the request and body - include them for debugging
+  if (isApiResult(response)) {
+    throw DmsApiError.fromResult(summary, response, diff);
   }
+  if (typeof response.status === "function") {
+    const raw = response as APIResponse;
+    throw new DmsApiError(summary, {
+      url: raw.url(),
+      status: actualStatus,
+      headers: raw.headers(),
+      diff,
+    });
+  }
+  throw new DmsApiError(summary, { status: actualStatus, diff });
 }
 
 /**
  * Validate response body contains expected data
+ * Nested objects, paths, arrays (any order), patterns and matchers are
+ * supported - see utils/matchers.ts. Every mismatch is reported with its path.
  *
- * @param response - Playwright API response
- * @param expectedData - Object with expected key-value pairs
- * @throws Error if data doesn't match
+ * @param response - Parsed response body, or the typed result (adds the
+ *                   request and request ID to failures)
+ * @param expectedData - Expected values, partial and nested
+ * @param options - strict (no extra keys) and ignored paths
+ * @throws DmsApiError with a path-annotated diff if data doesn't match
  *
  * Usage:
- * const response = await apiClient.getRepairOrderById("RO-001");
- * const body = await response.json();
- * assertResponseContains(body, { status: "Completed" });
+ * const { body } = await apiClient.getRepairOrderById("RO-001");
+ * assertResponseContains(body, { status: "Completed", actualCost: closeTo(125, 0.01) });
  */
-export function assertResponseContains(
-  responseBody: Record<string, unknown>,
-  expectedData: Record<string, unknown>
+export function assertResponseContains<T extends object>(
+  response: T | ApiResult<T>,
+  expectedData: ExpectedShape<T>,
+  options: MatchOptions = {}
 ): void {
-  for (const [key, expectedValue] of Object.entries(expectedData)) {
-    const actualValue = responseBody[key];
-    if (actualValue !== expectedValue) {
-      throw new Error(
-        `Expected ${key} to be "${expectedValue}", but got "${actualValue}"`
-      );
+  const body = isApiResult(response) ? response.body : response;
+
+  const diff = matchDeep(body, expectedData, options);
+  if (diff.length === 0) return;
+
+  const summary =
+    `Response body does not contain the expected values ` +
+    `(${diff.length} mismatch${diff.length === 1 ? "" : "es"})`;
+  throw isApiResult(response)
+    ? DmsApiError.fromResult(summary, response, diff)
+    : new DmsApiError(summary, { diff });
+}
+
+/**
+ * Expected shape of an error response (all optional)
+ */
+export interface ExpectedApiError {
+  status?: number;
+
+  // Machine-readable error code of the envelope (e.g., "NOT_FOUND")
+  code?: string;
+
+  // Substring or pattern of the envelope's error message
+  messageMatches?: string | RegExp;
+}
+
+/**
+ * Validate a negative-path response: non-2xx, with the error envelope
+ *
+ * @param response - Typed API result
+ * @param expected - Status, code and message to check
+ * @returns The error envelope, for further assertions
+ * @throws DmsApiError listing every mismatch
+ *
+ * Usage:
+ * const result = await apiClient.getRepairOrderById("RO-9999-999");
+ * expectError(result, { status: 404, code: "NOT_FOUND", messageMatches: /not found/i });
+ */
+export function expectError(
+  response: ApiResult<unknown>,
+  expected: ExpectedApiError = {}
+): ApiError {
+  const diff: DiffEntry[] = [];
+  const envelope = response.error;
+
+  if (expected.status !== undefined && response.status !== expected.status) {
+    diff.push({ path: "status", expected: expected.status, actual: response.status });
+  } else if (response.ok) {
+    diff.push({ path: "status", expected: "4xx/5xx", actual: response.status });
+  }
+
+  if (expected.code !== undefined && envelope?.code !== expected.code) {
+    diff.push({ path: "code", expected: expected.code, actual: envelope?.code });
+  }
+
+  if (expected.messageMatches !== undefined) {
+    const message = envelope?.error;
+    const matches =
+      typeof message === "string" &&
+      (typeof expected.messageMatches === "string"
+        ? message.includes(expected.messageMatches)
+        : expected.messageMatches.test(message));
+    if (!matches) {
+      diff.push({ path: "error", expected: expected.messageMatches, actual: message });
     }
   }
+
+  if (diff.length > 0 || !envelope) {
+    throw DmsApiError.fromResult(
+      `Expected an error response${
+        expected.status !== undefined ? ` with status ${expected.status}` : ""
+      }, but ${diff.map((entry) => entry.path).join(", ") || "body"} did not match`,
+      response,
+      diff
+    );
+  }
+  return envelope;
 }
 
 /**
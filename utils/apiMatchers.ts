@@ -0,0 +1,266 @@
+/**
+ * API Matchers Module
+ *
+ * Custom expect matchers for DmsApiClient results, registered on the
+ * expect exported by utils/fixtures.ts.
+ *
+ * Why matchers next to assertStatus() and friends?
+ * 1. They work with expect.soft - one test can report every broken field
+ *    instead of stopping at the first one
+ * 2. They work with expect.poll - wait until an endpoint answers 200
+ * 3. Failures look like every other expect failure in the report, with
+ *    the request, request ID and body underneath
+ *
+ * Matchers:
+ * 1. toHaveStatus(status)            - HTTP status code
+ * 2. toMatchApiSchema(name)          - registered schema (utils/schemas.ts)
+ * 3. toRespondWithin(ms)             - round-trip time of the call
+ * 4. toHaveErrorEnvelope(code?)      - non-2xx with the standard error body
+ * 5. toContainRepairOrder(expected)  - a repair order in a list (or the
+ *                                      single order) matches expected data
+ *
+ * Usage:
+ * import { test, expect } from "../utils/fixtures";
+ * const result = await apiClient.getRepairOrderById("RO-001");
+ * expect(result).toHaveStatus(200);
+ * expect.soft(result).toMatchApiSchema("getRepairOrderById");
+ * await expect.poll(() => apiClient.getRepairOrders()).toHaveStatus(200);
+ */
+
+import type { ExpectMatcherState, MatcherReturnType } from "@playwright/test";
+import { isApiResult } from "./apiClient";
+import { formatDiff, formatValue, findRequestId } from "./errors";
+import { truncate } from "./interceptors";
+import { ExpectedShape, MatchOptions, matchDeep } from "./matchers";
+import { ApiResult, RepairOrder } from "./models";
+import { ApiSchemaName, apiSchemas } from "./schemas";
+import { formatViolations, validateSchema } from "./schemaValidator";
+
+// ====================
+// Matchers
+// ====================
+
+export const apiMatchers = {
+  /**
+   * Check the HTTP status code
+   *
+   * Usage:
+   * expect(result).toHaveStatus(201);
+   */
+  toHaveStatus(
+    this: ExpectMatcherState,
+    received: ApiResult<unknown>,
+    expected: number
+  ): MatcherReturnType {
+    const name = "toHaveStatus";
+    const result = requireApiResult(name, received);
+    const pass = result.status === expected;
+
+    return {
+      name,
+      pass,
+      expected,
+      actual: result.status,
+      message: () =>
+        report(this, name, result, [
+          `Expected: ${this.isNot ? "not " : ""}${this.utils.printExpected(expected)}`,
+          `Received: ${this.utils.printReceived(result.status)}`,
+        ]),
+    };
+  },
+
+  /**
+   * Validate the body against a registered schema
+   * Accepts the typed result or a plain body (e.g., collectAllRepairOrders())
+   *
+   * Usage:
+   * expect(result).toMatchApiSchema("getRepairOrders");
+   */
+  toMatchApiSchema(
+    this: ExpectMatcherState,
+    received: unknown,
+    schemaName: ApiSchemaName
+  ): MatcherReturnType {
+    const name = "toMatchApiSchema";
+    const body = isApiResult(received) ? received.body : received;
+    const violations = validateSchema(body, apiSchemas[schemaName]);
+    const pass = violations.length === 0;
+
+    return {
+      name,
+      pass,
+      expected: schemaName,
+      message: () =>
+        report(
+          this,
+          name,
+          isApiResult(received) ? received : null,
+          pass
+            ? [`Expected: body not matching schema "${schemaName}"`]
+            : [
+                `Expected: body matching schema "${schemaName}"`,
+                `Received: ${violations.length} violation(s)`,
+                formatViolations(violations),
+              ]
+        ),
+    };
+  },
+
+  /**
+   * Check the round-trip time of the call (final attempt, retries excluded)
+   *
+   * Usage:
+   * expect(result).toRespondWithin(2000);
+   */
+  toRespondWithin(
+    this: ExpectMatcherState,
+    received: ApiResult<unknown>,
+    maxMs: number
+  ): MatcherReturnType {
+    const name = "toRespondWithin";
+    const result = requireApiResult(name, received);
+    const pass = result.durationMs <= maxMs;
+
+    return {
+      name,
+      pass,
+      expected: maxMs,
+      actual: result.durationMs,
+      message: () =>
+        report(this, name, result, [
+          `Expected: ${this.isNot ? "more than" : "at most"} ${this.utils.printExpected(maxMs)}ms`,
+          `Received: ${this.utils.printReceived(result.durationMs)}ms`,
+        ]),
+    };
+  },
+
+  /**
+   * Check for a 4xx/5xx response with the standard error envelope
+   *
+   * @param code - Expected machine-readable code (e.g., "NOT_FOUND")
+   *
+   * Usage:
+   * expect(result).toHaveErrorEnvelope("VALIDATION_ERROR");
+   */
+  toHaveErrorEnvelope(
+    this: ExpectMatcherState,
+    received: ApiResult<unknown>,
+    code?: string
+  ): MatcherReturnType {
+    const name = "toHaveErrorEnvelope";
+    const result = requireApiResult(name, received);
+
+    const problems: string[] = [];
+    if (result.ok) {
+      problems.push(`status ${result.status} is not an error status`);
+    }
+    const violations = validateSchema(result.body, apiSchemas.error);
+    if (violations.length > 0) {
+      problems.push(`body is not an error envelope:\n${formatViolations(violations)}`);
+    }
+    if (code !== undefined && result.error?.code !== code) {
+      problems.push(`code is ${formatValue(result.error?.code)}`);
+    }
+    const pass = problems.length === 0;
+    const expected = `error envelope${code !== undefined ? ` with code "${code}"` : ""}`;
+
+    return {
+      name,
+      pass,
+      expected: code,
+      actual: result.error?.code,
+      message: () =>
+        report(
+          this,
+          name,
+          result,
+          pass
+            ? [`Expected: no ${expected}`, `Received: ${formatValue(result.error)}`]
+            : [`Expected: ${expected}`, `Received: ${problems.join("; ")}`]
+        ),
+    };
+  },
+
+  /**
+   * Check that a repair order matches expected data - any order of a list,
+   * or the single order of a getRepairOrderById() result
+   * Expected data follows the assertResponseContains rules (utils/matchers.ts)
+   *
+   * Usage:
+   * expect(list).toContainRepairOrder({ orderNumber: "RO-2024-001", vehicleVin: anyVin() });
+   */
+  toContainRepairOrder(
+    this: ExpectMatcherState,
+    received: unknown,
+    expected: ExpectedShape<RepairOrder>,
+    options: MatchOptions = {}
+  ): MatcherReturnType {
+    const name = "toContainRepairOrder";
+    const body = isApiResult(received) ? received.body : received;
+    const orders: unknown[] = Array.isArray(body) ? body : [body];
+
+    // Closest order first - its diff explains the failure best
+    const candidates = orders
+      .map((order, index) => ({ index, diff: matchDeep(order, expected, options) }))
+      .sort((left, right) => left.diff.length - right.diff.length);
+    const best = candidates[0];
+    const pass = best !== undefined && best.diff.length === 0;
+
+    const lines = [
+      `Expected: ${this.isNot ? "no " : ""}repair order matching ${formatValue(expected)}`,
+      `Received: ${orders.length} repair order(s)`,
+    ];
+    if (pass) {
+      lines.push(`Matching order at index ${best.index}: ${formatValue(orders[best.index])}`);
+    } else if (best) {
+      lines.push(`Closest order at index ${best.index}:`, formatDiff(best.diff));
+    }
+
+    return {
+      name,
+      pass,
+      expected,
+      message: () => report(this, name, isApiResult(received) ? received : null, lines),
+    };
+  },
+};
+
+// ====================
+// Internal Helpers
+// ====================
+
+function requireApiResult(matcher: string, received: unknown): ApiResult<unknown> {
+  if (!isApiResult(received)) {
+    throw new Error(
+      `${matcher}() expects a DmsApiClient result, received ${formatValue(received)}`
+    );
+  }
+  return received;
+}
+
+/**
+ * Playwright-style failure message, followed by the request context
+ */
+function report(
+  state: ExpectMatcherState,
+  matcher: string,
+  result: ApiResult<unknown> | null,
+  lines: string[]
+): string {
+  const hint = state.utils.matcherHint(matcher, undefined, undefined, {
+    isNot: state.isNot,
+    promise: state.promise,
+  });
+  const sections = [hint, lines.join("\n")];
+
+  if (result) {
+    const context = [`Request: ${result.request.method} ${result.request.url}`];
+    const requestId = findRequestId(result.headers);
+    if (requestId) {
+      context.push(`Request ID: ${requestId}`);
+    }
+    context.push(`Response body: ${truncate(result.text) || "(empty)"}`);
+    sections.push(context.join("\n"));
+  }
+  return sections.join("\n\n");
+}
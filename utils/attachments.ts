@@ -0,0 +1,174 @@
+/**
+ * Attachments Module
+ *
+ * Helpers for documents attached to repair orders (inspection photos,
+ * signed authorizations, PDF estimates): building upload files, checksums
+ * and round-trip verification.
+ *
+ * Why verify round trips?
+ * 1. A 201 on upload says nothing about what was stored - files get
+ *    truncated, re-encoded (line endings, charsets) or recompressed
+ * 2. Size and content type miss a single flipped byte; SHA-256 doesn't
+ * 3. Comparing the local, reported and downloaded checksums shows which
+ *    leg (upload or download) broke the file
+ *
+ * Usage:
+ * const file = attachmentFile("fixtures/inspection.jpg");
+ * const { body: attachment } = await apiClient.uploadAttachment(order.id, file);
+ * const download = await apiClient.downloadAttachment(order.id, attachment.id);
+ * expect(verifyRoundTrip(file, attachment, download.body)).toEqual([]);
+ */
+
+import { createHash } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { Attachment, AttachmentFile } from "./models";
+
+// ====================
+// Types
+// ====================
+
+/**
+ * multipart/form-data fields of a request (text fields and files)
+ */
+export type MultipartFields = Record<string, string | AttachmentFile>;
+
+/**
+ * Loggable stand-in for a file part (transcripts, cassettes)
+ */
+export interface FileSummary {
+  name: string;
+  mimeType: string;
+  size: number;
+  sha256: string;
+}
+
+// ====================
+// Configuration
+// ====================
+
+/**
+ * Content types by file extension, for files loaded from disk
+ */
+export const CONTENT_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".pdf": "application/pdf",
+  ".txt": "text/plain",
+};
+
+// ====================
+// Files
+// ====================
+
+/**
+ * Hex SHA-256 of file content (the format Attachment.checksum uses)
+ */
+export function checksum(content: Buffer): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Load a file from disk for upload
+ *
+ * @param filePath - Path to the file
+ * @param mimeType - Content type (defaults to one guessed from the extension)
+ * @returns File ready for uploadAttachment() or RepairOrdersPage.attachFile()
+ * @throws Error if the file can't be read
+ */
+export function attachmentFile(filePath: string, mimeType?: string): AttachmentFile {
+  const extension = path.extname(filePath).toLowerCase();
+  return {
+    name: path.basename(filePath),
+    mimeType: mimeType || CONTENT_TYPES[extension] || "application/octet-stream",
+    buffer: fs.readFileSync(filePath),
+  };
+}
+
+/**
+ * Tell binary response content (images, PDFs) from text and JSON
+ * Binary bodies are kept out of transcripts and stored as base64 in cassettes
+ *
+ * @param contentType - Content-Type header value (missing = text)
+ */
+export function isBinaryContent(contentType: string | undefined): boolean {
+  if (!contentType) return false;
+  const type = contentType.split(";")[0].trim().toLowerCase();
+  return !(
+    type.startsWith("text/") ||
+    type.endsWith("json") ||
+    type.endsWith("xml") ||
+    type === "application/x-www-form-urlencoded"
+  );
+}
+
+/**
+ * Replace the file parts of multipart fields with their summaries
+ * Keeps transcripts readable and lets cassettes match uploads by content
+ *
+ * Example:
+ * { file: { name: "ro.pdf", mimeType: "application/pdf", size: 5120, sha256: "9f86..." } }
+ */
+export function summarizeMultipart(fields: MultipartFields): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(fields).map(([name, value]) => [
+      name,
+      typeof value === "string" ? value : summarizeFile(value),
+    ])
+  );
+}
+
+/**
+ * Summary of one file part
+ */
+export function summarizeFile(file: AttachmentFile): FileSummary {
+  return {
+    name: file.name,
+    mimeType: file.mimeType,
+    size: file.buffer.length,
+    sha256: checksum(file.buffer),
+  };
+}
+
+// ====================
+// Verification
+// ====================
+
+/**
+ * Compare an uploaded file with what the API reported and served back
+ *
+ * @param file - File that was uploaded
+ * @param attachment - Metadata returned by the upload (or the listing)
+ * @param downloaded - Content returned by downloadAttachment()
+ * @returns Problems found (empty when the file survived the round trip)
+ */
+export function verifyRoundTrip(
+  file: AttachmentFile,
+  attachment: Attachment,
+  downloaded: Buffer
+): string[] {
+  const problems: string[] = [];
+  const expected = checksum(file.buffer);
+
+  if (attachment.fileName !== file.name) {
+    problems.push(`fileName is ${attachment.fileName}, uploaded ${file.name}`);
+  }
+  if (attachment.contentType !== file.mimeType) {
+    problems.push(`contentType is ${attachment.contentType}, uploaded ${file.mimeType}`);
+  }
+  if (attachment.size !== file.buffer.length) {
+    problems.push(`size is ${attachment.size}, uploaded ${file.buffer.length} bytes`);
+  }
+  if (attachment.checksum !== expected) {
+    problems.push(`reported checksum ${attachment.checksum} != uploaded ${expected} (upload corrupted)`);
+  }
+  const actual = checksum(downloaded);
+  if (actual !== expected) {
+    problems.push(
+      `downloaded ${downloaded.length} bytes with checksum ${actual} != uploaded ${expected}` +
+        (attachment.checksum === expected ? " (download corrupted)" : "")
+    );
+  }
+  return problems;
+}
@@ -0,0 +1,341 @@
+/**
+ * Auth Strategy Module
+ *
+ * Decides which bearer token DmsApiClient sends, and what to do when the
+ * token expires or the API answers 401.
+ *
+ * Strategies:
+ * 1. StaticTokenStrategy  - fixed token from API_TOKEN (previous behavior)
+ * 2. LoginStrategy        - logs in with users.validUser via POST /auth/login
+ * 3. RefreshTokenStrategy - like LoginStrategy, but renews via POST /auth/refresh
+ *
+ * Tokens obtained by logging in are cached per worker process, so a suite
+ * logs in once per worker instead of once per test.
+ */
+
+import { ApiResult, AuthToken } from "./models";
+import { apiTestData, users } from "./testData";
+
+// ====================
+// Types
+// ====================
+
+/**
+ * Unauthenticated API access handed to strategies by DmsApiClient
+ */
+export interface AuthApi {
+  // API base URL (part of the token cache key)
+  baseURL: string;
+
+  // Tenant name of a tenant-scoped client (part of the token cache key)
+  tenant?: string;
+
+  // POST without an Authorization header
+  post<T>(endpoint: string, data: Record<string, unknown>): Promise<ApiResult<T>>;
+}
+
+/**
+ * Strategy contract used by DmsApiClient
+ */
+export interface AuthStrategy {
+  /**
+   * Return the token to send, obtaining or renewing it if needed
+   * @returns Bearer token, or null to send no Authorization header
+   */
+  getToken(api: AuthApi): Promise<string | null>;
+
+  /**
+   * Called once when a request is rejected with 401
+   * @param rejectedToken - Token that was rejected
+   * @returns Fresh token to retry with, or null to give up (no retry)
+   */
+  handleUnauthorized(
+    api: AuthApi,
+    rejectedToken: string | null
+  ): Promise<string | null>;
+}
+
+/**
+ * Login credentials
+ */
+export interface Credentials {
+  username: string;
+  password: string;
+}
+
+/**
+ * Supported strategy names (API_AUTH_STRATEGY)
+ */
+export type AuthStrategyName = typeof apiTestData.auth.strategy;
+
+/**
+ * Token cached for a worker
+ */
+interface CachedToken {
+  token: string;
+  refreshToken?: string;
+  expiresAt?: number; // epoch ms
+}
+
+// ====================
+// Token Cache (per worker)
+// ====================
+
+// Renew tokens this long before they actually expire
+const EXPIRY_SKEW_MS = 30_000;
+
+// Module state lives in the worker process, so each worker has its own cache
+const tokenCache = new Map<string, CachedToken>();
+const pendingLogins = new Map<string, Promise<CachedToken>>();
+
+/**
+ * Clear all cached tokens in this worker
+ * Useful for tests that exercise the login flow itself
+ */
+export function clearTokenCache(): void {
+  tokenCache.clear();
+  pendingLogins.clear();
+}
+
+// ====================
+// Strategies
+// ====================
+
+/**
+ * Always sends the same token
+ * Cannot recover from a 401 - the token has to be rotated in .env
+ */
+export class StaticTokenStrategy implements AuthStrategy {
+  private readonly token: string | null;
+
+  constructor(token: string | null) {
+    this.token = token;
+  }
+
+  async getToken(): Promise<string | null> {
+    return this.token;
+  }
+
+  async handleUnauthorized(): Promise<string | null> {
+    return null;
+  }
+}
+
+/**
+ * Obtains a token by logging in, re-logs in on expiry or 401
+ */
+export class LoginStrategy implements AuthStrategy {
+  protected readonly credentials: Credentials;
+  protected readonly loginEndpoint: string;
+
+  constructor(
+    credentials: Credentials = users.validUser,
+    loginEndpoint = "/auth/login"
+  ) {
+    this.credentials = credentials;
+    this.loginEndpoint = loginEndpoint;
+  }
+
+  async getToken(api: AuthApi): Promise<string | null> {
+    const key = this.cacheKey(api);
+    const cached = tokenCache.get(key);
+
+    if (cached && !isExpired(cached)) {
+      return cached.token;
+    }
+
+    return (await this.obtain(api, cached)).token;
+  }
+
+  async handleUnauthorized(
+    api: AuthApi,
+    rejectedToken: string | null
+  ): Promise<string | null> {
+    const key = this.cacheKey(api);
+    const cached = tokenCache.get(key);
+
+    // Another request already replaced the rejected token - just use it
+    if (cached && cached.token !== rejectedToken) {
+      return cached.token;
+    }
+
+    tokenCache.delete(key);
+    return (await this.obtain(api, cached)).token;
+  }
+
+  /**
+   * Get a new token (deduplicated across concurrent requests)
+   */
+  private async obtain(
+    api: AuthApi,
+    previous: CachedToken | undefined
+  ): Promise<CachedToken> {
+    const key = this.cacheKey(api);
+
+    let pending = pendingLogins.get(key);
+    if (!pending) {
+      pending = this.renew(api, previous).finally(() =>
+        pendingLogins.delete(key)
+      );
+      pendingLogins.set(key, pending);
+    }
+
+    const token = await pending;
+    tokenCache.set(key, token);
+    return token;
+  }
+
+  /**
+   * Produce a new token - LoginStrategy always logs in again
+   */
+  protected async renew(
+    api: AuthApi,
+    _previous: CachedToken | undefined
+  ): Promise<CachedToken> {
+    return await this.login(api);
+  }
+
+  protected async login(api: AuthApi): Promise<CachedToken> {
+    const result = await api.post<AuthToken>(this.loginEndpoint, {
+      username: this.credentials.username,
+      password: this.credentials.password,
+    });
+
+    if (!result.ok || !result.body?.token) {
+      throw new Error(
+        `Login as ${this.credentials.username} failed: ` +
+          `${result.status} ${result.error?.error || result.text}`
+      );
+    }
+
+    return toCachedToken(result.body);
+  }
+
+  protected cacheKey(api: AuthApi): string {
+    return `${api.baseURL}|${api.tenant || ""}|${this.credentials.username}`;
+  }
+}
+
+/**
+ * Like LoginStrategy, but renews with the refresh token when it has one
+ * Falls back to a full login if the refresh is rejected
+ */
+export class RefreshTokenStrategy extends LoginStrategy {
+  private readonly refreshEndpoint: string;
+
+  constructor(
+    credentials: Credentials = users.validUser,
+    loginEndpoint = "/auth/login",
+    refreshEndpoint = "/auth/refresh"
+  ) {
+    super(credentials, loginEndpoint);
+    this.refreshEndpoint = refreshEndpoint;
+  }
+
+  protected async renew(
+    api: AuthApi,
+    previous: CachedToken | undefined
+  ): Promise<CachedToken> {
+    if (previous?.refreshToken) {
+      const result = await api.post<AuthToken>(this.refreshEndpoint, {
+        refreshToken: previous.refreshToken,
+      });
+
+      if (result.ok && result.body?.token) {
+        return toCachedToken(result.body, previous.refreshToken);
+      }
+    }
+
+    return await this.login(api);
+  }
+}
+
+// ====================
+// Factory
+// ====================
+
+/**
+ * Create the strategy configured by API_AUTH_STRATEGY
+ *
+ * @param name - Strategy name (defaults to apiTestData.auth.strategy)
+ * @returns Auth strategy instance
+ *
+ * Usage:
+ * new DmsApiClient({ auth: createAuthStrategy("login") })
+ */
+export function createAuthStrategy(
+  name: AuthStrategyName = apiTestData.auth.strategy
+): AuthStrategy {
+  switch (name) {
+    case "static":
+      return new StaticTokenStrategy(apiTestData.auth.token);
+    case "login":
+      return new LoginStrategy();
+    case "refresh":
+      return new RefreshTokenStrategy();
+    default:
+      throw new Error(
+        `Unknown auth strategy "${name}" (expected static, login or refresh)`
+      );
+  }
+}
+
+/**
+ * Strategy acting as a specific user (tenant or role accounts)
+ * A static token wins when given; otherwise the client logs in with the
+ * credentials, renewing via refresh token when API_AUTH_STRATEGY=refresh
+ *
+ * @param user - Credentials, plus an optional static token
+ * @returns Auth strategy instance
+ */
+export function createUserAuthStrategy(
+  user: Credentials & { token?: string }
+): AuthStrategy {
+  if (user.token) {
+    return new StaticTokenStrategy(user.token);
+  }
+  const credentials = { username: user.username, password: user.password };
+  return apiTestData.auth.strategy === "refresh"
+    ? new RefreshTokenStrategy(credentials)
+    : new LoginStrategy(credentials);
+}
+
+// ====================
+// Internal Helpers
+// ====================
+
+function toCachedToken(body: AuthToken, previousRefreshToken?: string): CachedToken {
+  const expiresAt =
+    body.expiresIn !== undefined
+      ? Date.now() + body.expiresIn * 1000
+      : decodeJwtExpiry(body.token);
+
+  return {
+    token: body.token,
+    refreshToken: body.refreshToken || previousRefreshToken,
+    expiresAt,
+  };
+}
+
+function isExpired(cached: CachedToken): boolean {
+  return (
+    cached.expiresAt !== undefined &&
+    Date.now() >= cached.expiresAt - EXPIRY_SKEW_MS
+  );
+}
+
+/**
+ * Read the "exp" claim of a JWT (no signature check - we only need timing)
+ * @returns Expiry in epoch ms, or undefined for opaque tokens
+ */
+function decodeJwtExpiry(token: string): number | undefined {
+  const parts = token.split(".");
+  if (parts.length !== 3) return undefined;
+
+  try {
+    const payload = JSON.parse(Buffer.from(parts[1], "base64url").toString());
+    return typeof payload.exp === "number" ? payload.exp * 1000 : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,515 @@
+/**
+ * Bulk Operations Module
+ *
+ * Creates, updates or deletes many repair orders or appointments at once -
+ * for seeding the hundreds of records pagination, search relevance and
+ * performance tests need.
+ *
+ * Why bulk helpers instead of a loop over createRepairOrder()?
+ * 1. One request per record is slow; the /batch endpoints take up to 100
+ *    items per request, and single calls run with bounded concurrency
+ *    when the API has no batch endpoint
+ * 2. One bad item doesn't abort the rest - every failure is reported with
+ *    its index, status and error
+ * 3. Created records are still deleted after the test: the tracking
+ *    interceptor (utils/cleanup.ts) reads single and batch responses alike
+ *
+ * Batch endpoint contract (POST /repair-orders/batch, /appointments/batch):
+ * { operation: "create" | "update" | "delete", items: [...] }
+ *   create items = payloads, update items = { id, changes }, delete items = { id }
+ * → 200 { results: [{ status, body? | error? }] } in item order
+ *
+ * With batch "auto" (bulkConfig.batch), the first request finds out whether
+ * the API has the endpoint (404/405/501 = no) and the answer is remembered
+ * per client.
+ *
+ * Usage:
+ * const report = await bulkCreate(apiClient, "repairOrder", payloads);
+ * assertBulkSucceeded(report);
+ * const ids = report.succeeded.map((item) => item.id);
+ */
+
+import { test } from "@playwright/test";
+import { DmsApiClient } from "./apiClient";
+import { RecordKind } from "./cleanup";
+import {
+  ApiResult,
+  Appointment,
+  CreateAppointmentPayload,
+  CreateRepairOrderPayload,
+  RepairOrder,
+  UpdateAppointmentPayload,
+  UpdateRepairOrderPayload,
+} from "./models";
+import { bulkConfig } from "./testData";
+
+// ====================
+// Types
+// ====================
+
+/**
+ * What a bulk call does to each item
+ */
+export type BulkOperation = "create" | "update" | "delete";
+
+/**
+ * Record, create payload and update payload types per resource kind
+ */
+export interface BulkTypes {
+  repairOrder: {
+    record: RepairOrder;
+    create: CreateRepairOrderPayload;
+    update: UpdateRepairOrderPayload;
+  };
+  appointment: {
+    record: Appointment;
+    create: CreateAppointmentPayload;
+    update: UpdateAppointmentPayload;
+  };
+}
+
+/**
+ * One item of bulkUpdate()
+ */
+export interface BulkUpdate<K extends RecordKind> {
+  id: string;
+  changes: BulkTypes[K]["update"];
+}
+
+/**
+ * Bulk call settings (defaults from bulkConfig in utils/testData.ts)
+ */
+export interface BulkOptions {
+  // Single calls in flight at once (fallback without a batch endpoint)
+  concurrency: number;
+
+  // Items per batch request
+  batchSize: number;
+
+  // auto = use the /batch endpoint when the API has one
+  batch: "auto" | "always" | "never";
+
+  // Called after every batch request or single call
+  onProgress?: (progress: BulkProgress) => void;
+}
+
+/**
+ * Progress of a running bulk call
+ */
+export interface BulkProgress {
+  operation: BulkOperation;
+  kind: RecordKind;
+  done: number;
+  failed: number;
+  total: number;
+}
+
+/**
+ * An item that succeeded
+ */
+export interface BulkSuccess<T> {
+  // Position in the input list
+  index: number;
+  id: string;
+
+  // Returned record (create and update)
+  record?: T;
+}
+
+/**
+ * An item that failed
+ */
+export interface BulkFailure {
+  index: number;
+
+  // Record ID (update and delete)
+  id?: string;
+
+  // HTTP status, null when the request itself failed
+  status: number | null;
+  error: string;
+}
+
+/**
+ * Outcome of a bulk call
+ */
+export interface BulkReport<T> {
+  operation: BulkOperation;
+  kind: RecordKind;
+
+  // How the items were sent
+  mode: "batch" | "single";
+  total: number;
+  succeeded: BulkSuccess<T>[];
+  failed: BulkFailure[];
+
+  // HTTP requests made (batch requests, or one per item)
+  requests: number;
+  durationMs: number;
+}
+
+// ====================
+// Configuration
+// ====================
+
+// Collection path per resource kind
+const COLLECTION_PATHS: Record<RecordKind, string> = {
+  repairOrder: "/repair-orders",
+  appointment: "/appointments",
+};
+
+// Statuses meaning "this API has no batch endpoint"
+const BATCH_UNSUPPORTED = [404, 405, 501];
+
+// Whether each client's API has the batch endpoints (learned in auto mode)
+const batchSupport = new WeakMap<DmsApiClient, Map<RecordKind, boolean>>();
+
+// ====================
+// Bulk Calls
+// ====================
+
+/**
+ * Create many records
+ *
+ * @param api - Client to create them with (its tenant, role and cleanup apply)
+ * @param kind - "repairOrder" or "appointment"
+ * @param payloads - One create payload per record
+ * @param options - Overrides of bulkConfig
+ * @returns Report with the created records by input index and the failures
+ *
+ * Example:
+ * const payloads = Array.from({ length: 250 }, (_, i) => ({
+ *   ...apiTestData.createRepairOrderPayload,
+ *   customerName: `Pagination Customer ${i}`,
+ * }));
+ * const report = await bulkCreate(apiClient, "repairOrder", payloads);
+ */
+export async function bulkCreate<K extends RecordKind>(
+  api: DmsApiClient,
+  kind: K,
+  payloads: BulkTypes[K]["create"][],
+  options: Partial<BulkOptions> = {}
+): Promise<BulkReport<BulkTypes[K]["record"]>> {
+  return await runBulk(api, "create", kind, payloads, options);
+}
+
+/**
+ * Update many records
+ *
+ * @param api - Client to update them with
+ * @param kind - "repairOrder" or "appointment"
+ * @param updates - Record ID and changes per record
+ * @param options - Overrides of bulkConfig
+ * @returns Report with the updated records by input index and the failures
+ */
+export async function bulkUpdate<K extends RecordKind>(
+  api: DmsApiClient,
+  kind: K,
+  updates: BulkUpdate<K>[],
+  options: Partial<BulkOptions> = {}
+): Promise<BulkReport<BulkTypes[K]["record"]>> {
+  return await runBulk(api, "update", kind, updates, options);
+}
+
+/**
+ * Delete (or cancel, for appointments) many records
+ *
+ * @param api - Client to delete them with
+ * @param kind - "repairOrder" or "appointment"
+ * @param ids - Record IDs
+ * @param options - Overrides of bulkConfig
+ * @returns Report with the deleted IDs and the failures
+ */
+export async function bulkDelete(
+  api: DmsApiClient,
+  kind: RecordKind,
+  ids: string[],
+  options: Partial<BulkOptions> = {}
+): Promise<BulkReport<never>> {
+  return await runBulk(
+    api,
+    "delete",
+    kind,
+    ids.map((id) => ({ id })),
+    options
+  );
+}
+
+// ====================
+// Reporting
+// ====================
+
+/**
+ * Format a bulk report for failure messages and the HTML report
+ *
+ * Example:
+ * Bulk create repairOrder: 118/120 succeeded, 2 failed (batch, 2 requests, 1.4s)
+ *   FAILED #7: 400 customerName is required
+ *   FAILED #19 (RO-2024-019): 404 Repair order not found
+ */
+export function formatBulkReport(report: BulkReport<unknown>): string {
+  const lines = [
+    `Bulk ${report.operation} ${report.kind}: ` +
+      `${report.succeeded.length}/${report.total} succeeded, ` +
+      `${report.failed.length} failed ` +
+      `(${report.mode}, ${report.requests} request(s), ` +
+      `${(report.durationMs / 1000).toFixed(1)}s)`,
+  ];
+  for (const failure of report.failed.slice(0, MAX_LISTED_FAILURES)) {
+    const id = failure.id ? ` (${failure.id})` : "";
+    lines.push(`  FAILED #${failure.index}${id}: ${failure.status ?? "error"} ${failure.error}`);
+  }
+  if (report.failed.length > MAX_LISTED_FAILURES) {
+    lines.push(`  ... and ${report.failed.length - MAX_LISTED_FAILURES} more`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Fail unless every item succeeded (seeding steps that need all records)
+ *
+ * @param report - Report of a bulk call
+ * @throws Error with the formatted report if any item failed
+ */
+export function assertBulkSucceeded(report: BulkReport<unknown>): void {
+  if (report.failed.length > 0) {
+    throw new Error(formatBulkReport(report));
+  }
+}
+
+// ====================
+// Concurrency
+// ====================
+
+/**
+ * Run an async function over items with at most `limit` calls in flight
+ *
+ * @param items - Inputs
+ * @param limit - Maximum concurrent calls (at least 1)
+ * @param worker - Called once per item
+ * @returns Results in input order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const lane = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, lane)
+  );
+  return results;
+}
+
+// ====================
+// Internal Helpers
+// ====================
+
+// Failure lines shown by formatBulkReport
+const MAX_LISTED_FAILURES = 20;
+
+type BulkItem = Record<string, unknown>;
+
+async function runBulk<T>(
+  api: DmsApiClient,
+  operation: BulkOperation,
+  kind: RecordKind,
+  items: object[],
+  options: Partial<BulkOptions>
+): Promise<BulkReport<T>> {
+  const resolved: BulkOptions = { ...bulkConfig, ...options };
+  const start = Date.now();
+  const report: BulkReport<T> = {
+    operation,
+    kind,
+    mode: "single",
+    total: items.length,
+    succeeded: [],
+    failed: [],
+    requests: 0,
+    durationMs: 0,
+  };
+  const progress = () =>
+    resolved.onProgress?.({
+      operation,
+      kind,
+      done: report.succeeded.length + report.failed.length,
+      failed: report.failed.length,
+      total: items.length,
+    });
+
+  const known = batchSupport.get(api)?.get(kind);
+  const tryBatch =
+    items.length > 0 &&
+    (resolved.batch === "always" || (resolved.batch === "auto" && known !== false));
+
+  if (tryBatch && (await sendBatches(api, report, items as BulkItem[], resolved, progress))) {
+    report.mode = "batch";
+  } else {
+    await mapWithConcurrency(items as BulkItem[], resolved.concurrency, async (item, index) => {
+      let result: ApiResult<unknown> | Error;
+      try {
+        result = await sendSingle(api, operation, kind, item);
+      } catch (error) {
+        result = error as Error;
+      }
+      report.requests++;
+      addOutcome(report, item, index, result);
+      progress();
+    });
+  }
+
+  report.succeeded.sort((a, b) => a.index - b.index);
+  report.failed.sort((a, b) => a.index - b.index);
+  report.durationMs = Date.now() - start;
+  annotate(formatBulkReport(report).split("\n")[0]);
+  return report;
+}
+
+/**
+ * Send the items in batches
+ * Returns false (nothing sent) when auto mode finds no batch endpoint
+ */
+async function sendBatches<T>(
+  api: DmsApiClient,
+  report: BulkReport<T>,
+  items: BulkItem[],
+  options: BulkOptions,
+  progress: () => void
+): Promise<boolean> {
+  const endpoint = `${COLLECTION_PATHS[report.kind]}/batch`;
+  const size = Math.max(1, options.batchSize);
+
+  for (let offset = 0; offset < items.length; offset += size) {
+    const chunk = items.slice(offset, offset + size);
+    let result: ApiResult<{ results?: BatchResult[] }> | Error;
+    try {
+      result = await api.post<{ results?: BatchResult[] }>(endpoint, {
+        operation: report.operation,
+        items: chunk,
+      });
+    } catch (error) {
+      result = error as Error;
+    }
+    report.requests++;
+
+    if (offset === 0 && options.batch === "auto" && !(result instanceof Error)) {
+      const supported = !BATCH_UNSUPPORTED.includes(result.status);
+      const known = batchSupport.get(api) || new Map<RecordKind, boolean>();
+      batchSupport.set(api, known.set(report.kind, supported));
+      if (!supported) {
+        report.requests = 0;
+        return false;
+      }
+    }
+
+    const results = result instanceof Error || !result.ok ? [] : result.body.results || [];
+    chunk.forEach((item, position) => {
+      const outcome = results[position];
+      addOutcome(
+        report,
+        item,
+        offset + position,
+        outcome
+          ? { status: outcome.status, body: outcome.body, error: outcome.error?.error }
+          : result
+      );
+    });
+    progress();
+  }
+  return true;
+}
+
+/**
+ * One item's result in a batch response
+ */
+interface BatchResult {
+  status: number;
+  body?: unknown;
+  error?: { error?: string };
+}
+
+async function sendSingle(
+  api: DmsApiClient,
+  operation: BulkOperation,
+  kind: RecordKind,
+  item: BulkItem
+): Promise<ApiResult<unknown>> {
+  const orders = kind === "repairOrder";
+  const id = item.id as string;
+  switch (operation) {
+    case "create":
+      return orders
+        ? await api.createRepairOrder(item as unknown as CreateRepairOrderPayload)
+        : await api.createAppointment(item as unknown as CreateAppointmentPayload);
+    case "update":
+      return orders
+        ? await api.updateRepairOrder(id, item.changes as UpdateRepairOrderPayload)
+        : await api.updateAppointment(id, item.changes as UpdateAppointmentPayload);
+    case "delete":
+      return orders
+        ? await api.deleteRepairOrder(id)
+        : await api.cancelAppointment(id);
+  }
+}
+
+/**
+ * Record one item's outcome from a single call, a batch result, or a
+ * failed batch request (every item of the batch fails with it)
+ */
+function addOutcome<T>(
+  report: BulkReport<T>,
+  item: BulkItem,
+  index: number,
+  outcome: ApiResult<unknown> | { status: number; body?: unknown; error?: string } | Error
+): void {
+  const itemId = typeof item.id === "string" ? item.id : undefined;
+
+  if (outcome instanceof Error) {
+    report.failed.push({
+      index,
+      id: itemId,
+      status: null,
+      // Whole message on one line (conformance errors list issues below a heading)
+      error: outcome.message.replace(/\s*\n\s*/g, " "),
+    });
+    return;
+  }
+
+  if (outcome.status >= 300) {
+    const error =
+      typeof outcome.error === "string" ? outcome.error : outcome.error?.error;
+    report.failed.push({
+      index,
+      id: itemId,
+      status: outcome.status,
+      error: error || `HTTP ${outcome.status}`,
+    });
+    return;
+  }
+
+  const record = outcome.body as (T & { id?: unknown }) | undefined;
+  const id = itemId ?? (typeof record?.id === "string" ? record.id : "");
+  report.succeeded.push({
+    index,
+    id,
+    ...(report.operation !== "delete" && record !== undefined ? { record } : {}),
+  });
+}
+
+function annotate(description: string): void {
+  try {
+    test.info().annotations.push({ type: "bulk", description });
+  } catch {
+    // Not inside a running test
+  }
+}
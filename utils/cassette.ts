@@ -0,0 +1,452 @@
+/**
+ * API Cassette Module
+ *
+ * Record-and-replay for DmsApiClient. In record mode every request/response
+ * pair of a test is written to a cassette file; in replay mode the pairs are
+ * served back from that file without touching the network.
+ *
+ * Why cassettes?
+ * 1. The API suite runs in CI without a (flaky) staging backend
+ * 2. Replays are deterministic - same responses, same order, every run
+ * 3. Cassettes are reviewable JSON, so contract drift shows up in diffs
+ *
+ * Modes (API_CASSETTE):
+ * 1. passthrough - plain network calls (default)
+ * 2. record      - network calls, saved to cassettes/<spec>/<test>.json
+ * 3. replay      - served from the cassette; an unmatched request fails
+ *
+ * Dynamic values (timestamps, generated order numbers, UUIDs) are masked
+ * before matching and saving, and secrets are redacted, so cassettes can
+ * be committed and replayed on any day.
+ */
+
+import { APIResponse, TestInfo, test } from "@playwright/test";
+import { createHash } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { HttpMethod } from "./apiClient";
+import { isBinaryContent, summarizeMultipart } from "./attachments";
+import { ApiRequest, redactSecrets } from "./interceptors";
+import { ApiResult } from "./models";
+
+// ====================
+// Types
+// ====================
+
+/**
+ * Cassette mode
+ */
+export type CassetteMode = "passthrough" | "record" | "replay";
+
+/**
+ * Request parts compared when looking for a recorded response
+ */
+export type CassetteMatchField = "method" | "path" | "query" | "body";
+
+/**
+ * Replaces a dynamic value with a stable placeholder
+ */
+export interface CassetteMask {
+  name: string;
+  pattern: RegExp; // must be global (/g)
+  replacement: string;
+}
+
+/**
+ * Cassette configuration
+ */
+export interface CassetteOptions {
+  mode: CassetteMode;
+
+  // Root directory for cassette files
+  dir: string;
+
+  // Request parts that must match on replay
+  matchOn: CassetteMatchField[];
+
+  // Masks applied to paths, queries and bodies before matching and saving
+  masks: CassetteMask[];
+}
+
+/**
+ * One recorded request/response pair
+ */
+export interface CassetteInteraction {
+  request: {
+    method: HttpMethod;
+    path: string;
+    query: string;
+    body?: unknown;
+    bodyHash: string;
+  };
+  response: {
+    status: number;
+    headers: Record<string, string>;
+
+    // Parsed JSON body, raw text for other text responses, or base64 for
+    // binary ones (downloads)
+    body?: unknown;
+    text?: string;
+    base64?: string;
+  };
+}
+
+/**
+ * Cassette file contents
+ */
+export interface CassetteFile {
+  test: string;
+  interactions: CassetteInteraction[];
+}
+
+// ====================
+// Configuration
+// ====================
+
+/**
+ * Masks applied by default
+ */
+export const defaultMasks: CassetteMask[] = [
+  {
+    name: "timestamp",
+    pattern: /\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:?\d{2})?/g,
+    replacement: "2000-01-01T00:00:00.000Z",
+  },
+  {
+    // generateOrderNumber() - RO-YYYY-NNNNN (seeded RO-2024-001 stays as is)
+    name: "orderNumber",
+    pattern: /RO-\d{4}-\d{5}\b/g,
+    replacement: "RO-0000-00000",
+  },
+  {
+    name: "uuid",
+    pattern: /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi,
+    replacement: "00000000-0000-0000-0000-000000000000",
+  },
+];
+
+/**
+ * Default options
+ *
+ * API_CASSETTE=passthrough|record|replay selects the mode,
+ * API_CASSETTE_DIR the directory (default "cassettes"),
+ * API_CASSETTE_MATCH the matched parts (default "method,path,query,body").
+ */
+export function defaultCassetteOptions(): CassetteOptions {
+  return {
+    mode: (process.env.API_CASSETTE as CassetteMode) || "passthrough",
+    dir: process.env.API_CASSETTE_DIR || "cassettes",
+    matchOn: (
+      process.env.API_CASSETTE_MATCH || "method,path,query,body"
+    ).split(",") as CassetteMatchField[],
+    masks: defaultMasks,
+  };
+}
+
+/**
+ * Merge overrides into the defaults
+ */
+export function resolveCassetteOptions(
+  overrides: Partial<CassetteOptions> = {}
+): CassetteOptions {
+  return { ...defaultCassetteOptions(), ...overrides };
+}
+
+// ====================
+// Cassette Class
+// ====================
+
+/**
+ * Interactions of one test
+ *
+ * Replay serves matching interactions in recorded order; each one is used
+ * once, so repeated identical requests get their own recorded responses.
+ */
+export class ApiCassette {
+  readonly file: string;
+  private title: string;
+  private options: CassetteOptions;
+  private interactions: CassetteInteraction[];
+  private used = new Set<number>();
+
+  constructor(file: string, title: string, options: CassetteOptions) {
+    this.file = file;
+    this.title = title;
+    this.options = options;
+
+    if (options.mode === "replay") {
+      if (!fs.existsSync(file)) {
+        throw new Error(
+          `Cassette not found: ${file}\n` +
+            `  Record it first with API_CASSETTE=record`
+        );
+      }
+      const saved = JSON.parse(fs.readFileSync(file, "utf-8")) as CassetteFile;
+      this.interactions = saved.interactions;
+    } else {
+      this.interactions = [];
+    }
+  }
+
+  /**
+   * Mode this cassette was opened in
+   */
+  get mode(): CassetteMode {
+    return this.options.mode;
+  }
+
+  /**
+   * Add a completed exchange (record mode)
+   */
+  async record(request: ApiRequest, result: ApiResult<unknown>): Promise<void> {
+    const response = {
+      status: result.status,
+      headers: keepHeaders(result.headers),
+    };
+
+    // Binary content is saved byte for byte (masks don't apply)
+    if (isBinaryContent(result.headers["content-type"])) {
+      const content = await result.response.body();
+      this.interactions.push({
+        request: this.normalize(request),
+        response: { ...response, base64: content.toString("base64") },
+      });
+      return;
+    }
+
+    const masked = this.mask(result.text);
+    let body: unknown = undefined;
+    try {
+      body = masked ? redactSecrets(JSON.parse(masked)) : undefined;
+    } catch {
+      // Not JSON - saved as text below
+    }
+
+    this.interactions.push({
+      request: this.normalize(request),
+      response: {
+        ...response,
+        ...(body !== undefined ? { body } : masked ? { text: masked } : {}),
+      },
+    });
+  }
+
+  /**
+   * Serve the recorded response for a request (replay mode)
+   *
+   * @throws Error listing the recorded requests when nothing matches
+   */
+  replay(request: ApiRequest, url: string): APIResponse {
+    const wanted = this.normalize(request);
+    const index = this.interactions.findIndex(
+      (interaction, position) =>
+        !this.used.has(position) &&
+        this.options.matchOn.every((field) =>
+          field === "body"
+            ? interaction.request.bodyHash === wanted.bodyHash
+            : interaction.request[field] === wanted[field]
+        )
+    );
+
+    if (index === -1) {
+      const recorded = this.interactions
+        .map(
+          (interaction, position) =>
+            `    ${this.used.has(position) ? "(used) " : ""}` +
+            describeRequest(interaction.request)
+        )
+        .join("\n");
+      throw new Error(
+        `Cassette miss: no unused recording for ${describeRequest(wanted)}\n` +
+          `  Cassette: ${this.file}\n` +
+          `  Matching on: ${this.options.matchOn.join(", ")}\n` +
+          `  Recorded requests:\n${recorded || "    (none)"}\n` +
+          `  Re-record with API_CASSETTE=record if the test changed`
+      );
+    }
+
+    this.used.add(index);
+    return replayedResponse(this.interactions[index], url);
+  }
+
+  /**
+   * Write the cassette file (record mode, only if anything was recorded)
+   */
+  save(): void {
+    if (this.options.mode !== "record" || this.interactions.length === 0) {
+      return;
+    }
+    const contents: CassetteFile = {
+      test: this.title,
+      interactions: this.interactions,
+    };
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    fs.writeFileSync(this.file, `${JSON.stringify(contents, null, 2)}\n`);
+  }
+
+  /**
+   * Masked, matchable form of a request
+   */
+  private normalize(request: ApiRequest): CassetteInteraction["request"] {
+    const [rawPath, rawQuery = ""] = request.endpoint.split("?");
+    const query = new URLSearchParams(this.mask(rawQuery));
+    query.sort();
+
+    // Uploads match by file name, type, size and checksum
+    const data = request.multipart ? summarizeMultipart(request.multipart) : request.data;
+    const body =
+      data === undefined
+        ? undefined
+        : redactSecrets(JSON.parse(this.mask(JSON.stringify(data))));
+
+    return {
+      method: request.method,
+      path: this.mask(rawPath),
+      query: query.toString(),
+      ...(body !== undefined ? { body } : {}),
+      bodyHash: hash(body),
+    };
+  }
+
+  private mask(text: string): string {
+    return this.options.masks.reduce(
+      (masked, { pattern, replacement }) => masked.replace(pattern, replacement),
+      text
+    );
+  }
+}
+
+// ====================
+// Per-Test Registry
+// ====================
+
+// Cassettes per running test, keyed by testId (module state = per worker)
+const cassettes = new Map<string, ApiCassette>();
+
+/**
+ * Cassette of the running test (created on first use)
+ * Returns null outside a test or in passthrough mode - calls made from
+ * beforeAll/afterAll hooks always go to the network
+ */
+export function cassetteForCurrentTest(
+  options: CassetteOptions
+): ApiCassette | null {
+  if (options.mode === "passthrough") return null;
+
+  let testInfo: TestInfo;
+  try {
+    testInfo = test.info();
+  } catch {
+    return null;
+  }
+
+  let cassette = cassettes.get(testInfo.testId);
+  if (!cassette) {
+    cassette = new ApiCassette(
+      cassettePath(testInfo, options.dir),
+      testInfo.titlePath.slice(1).join(" > "),
+      options
+    );
+    cassettes.set(testInfo.testId, cassette);
+  }
+  return cassette;
+}
+
+/**
+ * Remove and return the cassette of a finished test
+ */
+export function takeCassette(testId: string): ApiCassette | undefined {
+  const cassette = cassettes.get(testId);
+  cassettes.delete(testId);
+  return cassette;
+}
+
+/**
+ * Cassette file of a test: <dir>/<spec file>/<describe> - <title>.json
+ */
+export function cassettePath(testInfo: TestInfo, dir: string): string {
+  const specFile = path
+    .relative(testInfo.project.testDir, testInfo.file)
+    .replace(/\.spec\.ts$/, "");
+  const name = testInfo.titlePath
+    .slice(1)
+    .join(" - ")
+    .replace(/[^\w\- ]+/g, "")
+    .replace(/\s+/g, "-")
+    .toLowerCase();
+  return path.join(dir, specFile, `${name}.json`);
+}
+
+// ====================
+// Internal Helpers
+// ====================
+
+// Response headers worth replaying (others are transport details)
+const REPLAYED_HEADERS = ["content-type", "x-total-count", "link", "etag", "location"];
+
+function keepHeaders(headers: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers).filter(([name]) =>
+      REPLAYED_HEADERS.includes(name.toLowerCase())
+    )
+  );
+}
+
+/**
+ * Stable hash of a JSON value (object keys sorted)
+ */
+function hash(value: unknown): string {
+  if (value === undefined) return "";
+  return createHash("sha256")
+    .update(JSON.stringify(sortKeys(value)))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, sortKeys((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+function describeRequest(request: CassetteInteraction["request"]): string {
+  const query = request.query ? `?${request.query}` : "";
+  const body = request.bodyHash ? ` (body ${request.bodyHash})` : "";
+  return `${request.method} ${request.path}${query}${body}`;
+}
+
+/**
+ * Minimal APIResponse backed by a recorded interaction
+ * Implements what toApiResult and the interceptors read
+ */
+function replayedResponse(
+  interaction: CassetteInteraction,
+  url: string
+): APIResponse {
+  const { status, headers, body, text, base64 } = interaction.response;
+  const bytes =
+    base64 !== undefined
+      ? Buffer.from(base64, "base64")
+      : Buffer.from(body !== undefined ? JSON.stringify(body) : text || "");
+  const content = bytes.toString();
+
+  return {
+    url: () => url,
+    status: () => status,
+    statusText: () => "",
+    ok: () => status >= 200 && status <= 299,
+    headers: () => ({ ...headers }),
+    headersArray: () =>
+      Object.entries(headers).map(([name, value]) => ({ name, value })),
+    text: async () => content,
+    json: async () => JSON.parse(content),
+    body: async () => bytes,
+    dispose: async () => {},
+  } as unknown as APIResponse;
+}
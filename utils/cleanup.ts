@@ -0,0 +1,501 @@
+/**
+ * Resource Cleanup Module
+ *
+ * Tracks records created during tests and deletes them afterwards, so the
+ * shared environment does not fill up with test data.
+ *
+ * Why track instead of deleting inline?
+ * 1. Cleanup still runs when a test fails halfway through
+ * 2. Tests stay focused on behavior, not on teardown bookkeeping
+ * 3. Anything that could not be deleted ends up in one report
+ *
+ * How records get tracked:
+ * 1. API creations - the tracking interceptor records the ID of every
+ *    successful POST /repair-orders, POST /appointments and POST /webhooks,
+ *    and of every item created through the /batch endpoints (see
+ *    utils/bulk.ts)
+ * 2. UI creations - tests register an API lookup (e.g., by customer name)
+ *    that is resolved to IDs at teardown
+ *
+ * Trackers are per test; the resources fixture in utils/fixtures.ts deletes
+ * what they hold in reverse creation order. Records created outside a test
+ * (beforeAll) or handed over with defer() are deleted when the worker ends.
+ */
+
+import { test } from "@playwright/test";
+import { Appointment, ApiResult, RepairOrder } from "./models";
+import { ApiInterceptor } from "./interceptors";
+import { apiTestData } from "./testData";
+import { getTenant, scopeEndpoint } from "./tenants";
+
+// ====================
+// Types
+// ====================
+
+/**
+ * Kinds of business records (searchable, with /batch endpoints)
+ */
+export type RecordKind = "repairOrder" | "appointment";
+
+/**
+ * Kinds of records the tracker knows how to delete
+ */
+export type ResourceKind = RecordKind | "webhook";
+
+/**
+ * A record to delete at teardown
+ */
+export interface TrackedResource {
+  kind: ResourceKind;
+  id: string;
+
+  // API base URL the record was created against
+  baseURL: string;
+
+  // Tenant the record belongs to (see utils/tenants.ts), if any
+  tenant?: string;
+
+  // Human-readable hint for the report (order number, customer name)
+  label?: string;
+}
+
+/**
+ * API used to find and delete tracked records (DmsApiClient satisfies it)
+ */
+export interface CleanupApi {
+  deleteRepairOrder(orderId: string): Promise<ApiResult<void>>;
+  cancelAppointment(appointmentId: string): Promise<ApiResult<void>>;
+  deleteWebhook(webhookId: string): Promise<ApiResult<void>>;
+  collectAllRepairOrders(filters: Record<string, string>): Promise<RepairOrder[]>;
+  collectAllAppointments(filters: Record<string, string>): Promise<Appointment[]>;
+}
+
+/**
+ * Opens a CleanupApi for a base URL and tenant (and closes it when cleanup
+ * is done)
+ */
+export type CleanupConnector = (
+  baseURL: string,
+  tenant?: string
+) => Promise<{
+  api: CleanupApi;
+  close: () => Promise<void>;
+}>;
+
+/**
+ * Outcome of a cleanup run
+ */
+export interface CleanupReport {
+  // Deleted successfully
+  deleted: TrackedResource[];
+
+  // Already gone (404) - deleted by the test itself or by someone else
+  alreadyGone: TrackedResource[];
+
+  // Could not be deleted - left behind in the environment
+  failed: { resource: TrackedResource; reason: string }[];
+}
+
+/**
+ * UI-created records, found through the API at teardown
+ */
+interface ResourceLookup {
+  kind: RecordKind;
+  filters: Record<string, string>;
+  baseURL: string;
+  tenant?: string;
+}
+
+type Entry =
+  | { type: "resource"; resource: TrackedResource }
+  | { type: "lookup"; lookup: ResourceLookup };
+
+// ====================
+// Resource Tracker
+// ====================
+
+/**
+ * Records created resources and deletes them in reverse order
+ *
+ * Usage:
+ * test("creates an order in the UI", async ({ page, resources }) => {
+ *   await repairOrdersPage.createRepairOrder(orderData);
+ *   resources.trackByLookup("repairOrder", { orderNumber: orderData.orderNumber });
+ * });
+ */
+export class ResourceTracker {
+  private entries: Entry[] = [];
+  private parent: ResourceTracker | null;
+
+  /**
+   * @param parent - Tracker that outlives this one (receives defer() calls)
+   */
+  constructor(parent: ResourceTracker | null = null) {
+    this.parent = parent;
+  }
+
+  /**
+   * Number of tracked records and pending lookups
+   */
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Track a record for deletion
+   * Tracking the same record twice has no effect
+   */
+  track(
+    kind: ResourceKind,
+    id: string,
+    label?: string,
+    baseURL = apiTestData.auth.baseUrl,
+    tenant?: string
+  ): void {
+    if (this.find(kind, id, tenant) === -1) {
+      this.entries.push({
+        type: "resource",
+        resource: { kind, id, baseURL, tenant, label },
+      });
+    }
+  }
+
+  /**
+   * Stop tracking a record (e.g., the test deleted it itself)
+   * Records are per tenant - another tenant's DELETE leaves them tracked
+   */
+  untrack(kind: ResourceKind, id: string, tenant?: string): void {
+    const index = this.find(kind, id, tenant);
+    if (index !== -1) {
+      this.entries.splice(index, 1);
+    }
+  }
+
+  /**
+   * Track records created through the UI
+   * At teardown every record matching all filters is deleted. Filters are
+   * also applied locally, so an API that ignores them never widens the match.
+   *
+   * @param kind - Kind of record
+   * @param filters - Field values identifying the record (keep them unique)
+   * @param baseURL - API base URL to look up against
+   * @param tenant - Tenant the record was created for, if any
+   */
+  trackByLookup(
+    kind: RecordKind,
+    filters: Record<string, string>,
+    baseURL = apiTestData.auth.baseUrl,
+    tenant?: string
+  ): void {
+    if (Object.keys(filters).length === 0) {
+      throw new Error("trackByLookup needs at least one filter");
+    }
+    this.entries.push({
+      type: "lookup",
+      lookup: { kind, filters, baseURL, tenant },
+    });
+  }
+
+  /**
+   * Keep a record alive until the parent tracker is cleaned up
+   * Use when later tests in the same worker depend on the record
+   */
+  defer(kind: ResourceKind, id: string, tenant?: string): void {
+    const index = this.find(kind, id, tenant);
+    if (!this.parent || index === -1) return;
+
+    const [entry] = this.entries.splice(index, 1);
+    if (entry.type === "resource") {
+      const { resource } = entry;
+      this.parent.track(kind, id, resource.label, resource.baseURL, resource.tenant);
+    }
+  }
+
+  /**
+   * Delete every tracked record, newest first
+   * Never throws - failures are collected in the report
+   *
+   * @param connect - Opens an API client for a base URL and tenant
+   * @returns What was deleted, already gone, or left behind
+   */
+  async cleanup(connect: CleanupConnector): Promise<CleanupReport> {
+    const report: CleanupReport = { deleted: [], alreadyGone: [], failed: [] };
+    const entries = this.entries.reverse();
+    this.entries = [];
+
+    const connections = new Map<string, Awaited<ReturnType<CleanupConnector>>>();
+    const apiFor = async (baseURL: string, tenant?: string): Promise<CleanupApi> => {
+      const key = `${baseURL}|${tenant || ""}`;
+      if (!connections.has(key)) {
+        connections.set(key, await connect(baseURL, tenant));
+      }
+      return connections.get(key)!.api;
+    };
+
+    try {
+      for (const entry of entries) {
+        const resources: TrackedResource[] = [];
+        try {
+          if (entry.type === "resource") {
+            resources.push(entry.resource);
+          } else {
+            const api = await apiFor(entry.lookup.baseURL, entry.lookup.tenant);
+            resources.push(...(await lookup(api, entry.lookup)));
+          }
+        } catch (error) {
+          report.failed.push({
+            resource: lookupPlaceholder(entry),
+            reason: `lookup failed: ${(error as Error).message}`,
+          });
+          continue;
+        }
+
+        for (const resource of resources) {
+          await deleteResource(
+            () => apiFor(resource.baseURL, resource.tenant),
+            resource,
+            report
+          );
+        }
+      }
+    } finally {
+      for (const connection of connections.values()) {
+        await connection.close();
+      }
+    }
+
+    return report;
+  }
+
+  private find(kind: ResourceKind, id: string, tenant?: string): number {
+    return this.entries.findIndex(
+      (entry) =>
+        entry.type === "resource" &&
+        entry.resource.kind === kind &&
+        entry.resource.id === id &&
+        entry.resource.tenant === tenant
+    );
+  }
+}
+
+// ====================
+// Per-Test Registry
+// ====================
+
+// Module state = per worker
+const workerTracker = new ResourceTracker();
+const testTrackers = new Map<string, ResourceTracker>();
+
+/**
+ * Tracker for a test (created on first use)
+ *
+ * @param testId - Playwright testInfo.testId
+ */
+export function resourceTrackerFor(testId: string): ResourceTracker {
+  let tracker = testTrackers.get(testId);
+  if (!tracker) {
+    tracker = new ResourceTracker(workerTracker);
+    testTrackers.set(testId, tracker);
+  }
+  return tracker;
+}
+
+/**
+ * Remove and return the tracker of a finished test
+ */
+export function takeResourceTracker(testId: string): ResourceTracker {
+  const tracker = resourceTrackerFor(testId);
+  testTrackers.delete(testId);
+  return tracker;
+}
+
+/**
+ * Tracker for records created outside tests (cleaned up per worker)
+ */
+export function getWorkerResourceTracker(): ResourceTracker {
+  return workerTracker;
+}
+
+/**
+ * Record created IDs into the running test's tracker (worker tracker
+ * outside tests), and forget records the test deletes itself
+ */
+export function trackingInterceptor(): ApiInterceptor {
+  return {
+    name: "tracking",
+    afterResponse({ request, result, record }) {
+      const path = request.endpoint.split("?")[0];
+      const tracker = currentTracker();
+
+      // The URL carries the tenant's path prefix, if any
+      const sentPath = request.tenant
+        ? scopeEndpoint(getTenant(request.tenant), path)
+        : path;
+      const baseURL = record.url.endsWith(sentPath)
+        ? record.url.slice(0, -sentPath.length)
+        : apiTestData.auth.baseUrl;
+
+      if (request.method === "POST" && result.ok) {
+        const kind = COLLECTIONS[path];
+        const body = (result.body || {}) as Record<string, unknown>;
+        if (kind && typeof body.id === "string") {
+          tracker.track(kind, body.id, labelOf(body), baseURL, request.tenant);
+        }
+      }
+
+      // POST /{collection}/batch - one result per item, in item order
+      const batchKind = path.endsWith("/batch")
+        ? COLLECTIONS[path.slice(0, -"/batch".length)]
+        : undefined;
+      if (request.method === "POST" && result.ok && batchKind) {
+        const { operation, items = [] } = (request.data || {}) as BatchRequestBody;
+        const { results = [] } = (result.body || {}) as BatchResponseBody;
+        results.forEach(({ status, body }, index) => {
+          const created = (body || {}) as Record<string, unknown>;
+          const id = items[index]?.id;
+          if (operation === "create" && status === 201 && typeof created.id === "string") {
+            tracker.track(batchKind, created.id, labelOf(created), baseURL, request.tenant);
+          }
+          if (operation === "delete" && typeof id === "string" && (status < 300 || status === 404)) {
+            tracker.untrack(batchKind, id, request.tenant);
+          }
+        });
+      }
+
+      if (request.method === "DELETE" && (result.ok || result.status === 404)) {
+        // Nested records (attachments) go with their parent - not untracked
+        const [, collection, id, ...nested] = path.split("/");
+        const kind = COLLECTIONS[`/${collection}`];
+        if (kind && id && nested.length === 0) {
+          tracker.untrack(kind, decodeURIComponent(id), request.tenant);
+        }
+      }
+    },
+  };
+}
+
+// ====================
+// Reporting
+// ====================
+
+/**
+ * Format a cleanup report for the HTML report / console
+ *
+ * Example:
+ * Cleanup: 2 deleted, 0 already gone, 1 failed
+ *   FAILED repairOrder RO-123 (RO-2024-0042): 500 Internal Server Error
+ */
+export function formatCleanupReport(report: CleanupReport): string {
+  const lines = [
+    `Cleanup: ${report.deleted.length} deleted, ` +
+      `${report.alreadyGone.length} already gone, ` +
+      `${report.failed.length} failed`,
+  ];
+  for (const { resource, reason } of report.failed) {
+    const label = resource.label ? ` (${resource.label})` : "";
+    const tenant = resource.tenant ? ` [${resource.tenant}]` : "";
+    lines.push(`  FAILED ${resource.kind} ${resource.id}${label}${tenant}: ${reason}`);
+  }
+  return lines.join("\n");
+}
+
+// ====================
+// Internal Helpers
+// ====================
+
+// Collection path -> kind
+const COLLECTIONS: Record<string, ResourceKind> = {
+  "/repair-orders": "repairOrder",
+  "/appointments": "appointment",
+  "/webhooks": "webhook",
+};
+
+// Kind -> how to delete one record of it
+const DELETERS: Record<
+  ResourceKind,
+  (api: CleanupApi, id: string) => Promise<ApiResult<void>>
+> = {
+  repairOrder: (api, id) => api.deleteRepairOrder(id),
+  appointment: (api, id) => api.cancelAppointment(id),
+  webhook: (api, id) => api.deleteWebhook(id),
+};
+
+// Parts of a /batch exchange the tracker reads
+interface BatchRequestBody {
+  operation?: string;
+  items?: { id?: unknown }[];
+}
+interface BatchResponseBody {
+  results?: { status: number; body?: unknown }[];
+}
+
+async function deleteResource(
+  getApi: () => Promise<CleanupApi>,
+  resource: TrackedResource,
+  report: CleanupReport
+): Promise<void> {
+  try {
+    const api = await getApi();
+    const result = await DELETERS[resource.kind](api, resource.id);
+
+    if (result.ok) {
+      report.deleted.push(resource);
+    } else if (result.status === 404) {
+      report.alreadyGone.push(resource);
+    } else {
+      report.failed.push({
+        resource,
+        reason: `${result.status} ${result.error?.error || result.text}`,
+      });
+    }
+  } catch (error) {
+    report.failed.push({ resource, reason: (error as Error).message });
+  }
+}
+
+async function lookup(
+  api: CleanupApi,
+  { kind, filters, baseURL, tenant }: ResourceLookup
+): Promise<TrackedResource[]> {
+  const records: (RepairOrder | Appointment)[] =
+    kind === "repairOrder"
+      ? await api.collectAllRepairOrders(filters)
+      : await api.collectAllAppointments(filters);
+
+  return records
+    .map((record) => record as unknown as Record<string, unknown>)
+    .filter((fields) =>
+      Object.entries(filters).every(([key, value]) => String(fields[key]) === value)
+    )
+    .map((fields) => ({
+      kind,
+      id: String(fields.id),
+      baseURL,
+      tenant,
+      label: labelOf(fields),
+    }));
+}
+
+function lookupPlaceholder(entry: Entry): TrackedResource {
+  if (entry.type === "resource") return entry.resource;
+  return {
+    kind: entry.lookup.kind,
+    id: "(lookup)",
+    baseURL: entry.lookup.baseURL,
+    tenant: entry.lookup.tenant,
+    label: new URLSearchParams(entry.lookup.filters).toString(),
+  };
+}
+
+function labelOf(body: Record<string, unknown>): string | undefined {
+  const label = body.orderNumber ?? body.customerName ?? body.url;
+  return typeof label === "string" ? label : undefined;
+}
+
+function currentTracker(): ResourceTracker {
+  try {
+    return resourceTrackerFor(test.info().testId);
+  } catch {
+    return workerTracker;
+  }
+}
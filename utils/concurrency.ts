@@ -0,0 +1,172 @@
+/**
+ * Concurrency Module
+ *
+ * Optimistic concurrency for DmsApiClient: remembers the entity tag of
+ * every record a client reads and sends it back as If-Match, so an update
+ * based on a stale read is refused instead of overwriting someone else's
+ * change.
+ *
+ * Why optimistic concurrency?
+ * 1. Two service advisors editing the same repair order is a real
+ *    lost-update bug - the second PATCH silently undoes the first
+ * 2. With If-Match the API answers the stale update with 409/412, and the
+ *    advisor reloads instead of losing work
+ * 3. Each client keeps its own tags, like each advisor's screen holds its
+ *    own copy of the order
+ *
+ * How it works:
+ * 1. Every 2xx GET, POST or PATCH of a single record stores its entity tag
+ *    (ETag header, or the version field of the body) under the record's path
+ * 2. PATCH sends If-Match with the stored tag when the client has ifMatch on
+ *    (API_IF_MATCH) or the request asks for it ({ ifMatch: true })
+ * 3. A DELETE forgets the tag; a conflict keeps it, so retrying without
+ *    reading again fails again
+ *
+ * Usage:
+ * const advisor = new DmsApiClient({ ifMatch: true });
+ * await advisor.getRepairOrderById(order.id);                   // remembers the ETag
+ * const result = await advisor.updateRepairOrder(order.id, { notes }); // If-Match: <ETag>
+ * if (isConflict(result)) { ...read again and reapply the change }
+ */
+
+import { ApiResult } from "./models";
+import { concurrencyConfig } from "./testData";
+
+// ====================
+// Entity Tags
+// ====================
+
+/**
+ * Entity tag of a response
+ * The ETag header wins; otherwise the body's version field is used as a
+ * strong tag ("3" for { version: 3 })
+ *
+ * @param result - Response of a single record
+ * @param versionField - Body field holding the version
+ * @returns The tag, or null when the response carries none
+ */
+export function entityTagOf(
+  result: Pick<ApiResult<unknown>, "headers" | "body">,
+  versionField: string = concurrencyConfig.versionField
+): string | null {
+  const header = result.headers.etag;
+  if (header) return header;
+
+  const body = result.body as Record<string, unknown> | undefined;
+  const version = body && typeof body === "object" ? body[versionField] : undefined;
+  return typeof version === "string" || typeof version === "number"
+    ? `"${version}"`
+    : null;
+}
+
+/**
+ * Whether a response refused an update because the record changed
+ * (409 Conflict or 412 Precondition Failed, see concurrencyConfig)
+ */
+export function isConflict(result: Pick<ApiResult<unknown>, "status">): boolean {
+  return concurrencyConfig.conflictStatuses.includes(result.status);
+}
+
+// ====================
+// Entity Tag Store
+// ====================
+
+/**
+ * Last entity tag seen per record, for one client
+ */
+export class EntityTagStore {
+  private tags = new Map<string, string>();
+
+  /**
+   * @param versionField - Body field used when a response has no ETag
+   */
+  constructor(
+    private readonly versionField: string = concurrencyConfig.versionField
+  ) {}
+
+  /**
+   * Learn from a response
+   *
+   * @param method - Request method
+   * @param endpoint - Request endpoint (a POST is stored under endpoint/{id})
+   * @param result - Response
+   */
+  observe(
+    method: string,
+    endpoint: string,
+    result: Pick<ApiResult<unknown>, "ok" | "headers" | "body">
+  ): void {
+    if (!result.ok) return;
+    const path = recordPath(endpoint);
+
+    if (method === "DELETE") {
+      this.tags.delete(path);
+      return;
+    }
+    if (method !== "GET" && method !== "POST" && method !== "PATCH") return;
+
+    const body = result.body as Record<string, unknown> | undefined;
+    if (!body || typeof body !== "object" || Array.isArray(body)) return;
+    const tag = entityTagOf(result, this.versionField);
+    if (!tag) return;
+
+    if (method === "POST") {
+      if (typeof body.id === "string") this.tags.set(`${path}/${body.id}`, tag);
+    } else {
+      this.tags.set(path, tag);
+    }
+  }
+
+  /**
+   * Last tag seen for a record
+   *
+   * @param endpoint - Record path (e.g., "/repair-orders/RO-2024-001")
+   */
+  get(endpoint: string): string | undefined {
+    return this.tags.get(recordPath(endpoint));
+  }
+
+  /**
+   * If-Match value for an update
+   *
+   * @param endpoint - Record path
+   * @param option - Request option: true = last seen tag, a string = that
+   *                 tag, false = no If-Match, undefined = client default
+   * @param enabled - Client default (DmsApiClientOptions.ifMatch)
+   * @returns Header value, or null to send the update without one
+   * @throws Error when the request asks for the last seen tag and there is none
+   */
+  ifMatchFor(
+    endpoint: string,
+    option: string | boolean | undefined,
+    enabled: boolean
+  ): string | null {
+    if (typeof option === "string") return option;
+    if (option === false || (option === undefined && !enabled)) return null;
+
+    const tag = this.get(endpoint);
+    if (!tag && option === true) {
+      throw new Error(
+        `No ETag seen for ${recordPath(endpoint)} - read the record before ` +
+          `updating it with { ifMatch: true }`
+      );
+    }
+    return tag || null;
+  }
+
+  /**
+   * Forget every tag
+   */
+  clear(): void {
+    this.tags.clear();
+  }
+}
+
+// ====================
+// Internal Helpers
+// ====================
+
+// Endpoint without query string or trailing slash
+function recordPath(endpoint: string): string {
+  return endpoint.split("?")[0].replace(/\/+$/, "");
+}
@@ -0,0 +1,313 @@
+/**
+ * Contract Verifier Module
+ *
+ * Replays consumer contracts (utils/contracts.ts) against a provider - the
+ * real API or the local stub - and reports every interaction whose response
+ * no longer matches what the consumer expects.
+ *
+ * For each interaction the verifier:
+ * 1. Sets up the provider state - creates, updates (and deletes) the record
+ *    the request works on and puts its ID into the path
+ * 2. Fills in placeholders (test user credentials, a fresh order number)
+ * 3. Sends the request and compares the status and the body shape
+ *
+ * Records created during verification are tracked like any other test data
+ * and deleted by the resources fixture.
+ *
+ * Usage:
+ * const verifier = new ContractVerifier(stub.url);
+ * await verifier.init();
+ * const problems = await verifier.verify(interaction);
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { DmsApiClient } from "./apiClient";
+import { AuthStrategy, StaticTokenStrategy } from "./auth";
+import {
+  CONTRACT_PLACEHOLDERS,
+  ConsumerContract,
+  ContractInteraction,
+  ContractRequest,
+} from "./contracts";
+import { ApiResult } from "./models";
+import { validateSchema } from "./schemaValidator";
+import { apiTestData, generateOrderNumber, users } from "./testData";
+
+// ====================
+// Types
+// ====================
+
+/**
+ * Outcome of verifying one interaction
+ */
+export interface InteractionResult {
+  description: string;
+
+  // Empty when the provider honors the interaction
+  problems: string[];
+}
+
+/**
+ * Outcome of verifying a whole contract
+ */
+export interface ContractVerificationReport {
+  consumer: string;
+  provider: string;
+  results: InteractionResult[];
+}
+
+// ====================
+// Contract Files
+// ====================
+
+/**
+ * Load every contract file in a directory
+ *
+ * @param dir - Contract directory (default API_CONTRACTS_DIR or "contracts")
+ * @returns Contracts sorted by file name (empty if the directory is missing)
+ */
+export function loadContracts(
+  dir = process.env.API_CONTRACTS_DIR || "contracts"
+): ConsumerContract[] {
+  if (!fs.existsSync(dir)) return [];
+
+  return fs
+    .readdirSync(dir)
+    .filter((name) => name.endsWith(".json"))
+    .sort()
+    .map(
+      (name) =>
+        JSON.parse(
+          fs.readFileSync(path.join(dir, name), "utf-8")
+        ) as ConsumerContract
+    );
+}
+
+// ====================
+// Verifier Class
+// ====================
+
+/**
+ * Replays contract interactions against one provider
+ */
+export class ContractVerifier {
+  private baseURL: string;
+  private auth: AuthStrategy | undefined;
+  private client: DmsApiClient | null = null;
+  private anonymous: DmsApiClient | null = null;
+
+  /**
+   * @param baseURL - Provider base URL (defaults to API_BASE_URL)
+   * @param auth - Token source for authenticated requests
+   *               (defaults to the client's API_AUTH strategy)
+   */
+  constructor(baseURL: string = apiTestData.auth.baseUrl, auth?: AuthStrategy) {
+    this.baseURL = baseURL;
+    this.auth = auth;
+  }
+
+  /**
+   * Open the provider clients
+   * Conformance is off - the contract, not the OpenAPI spec, is the judge
+   */
+  async init(): Promise<void> {
+    this.client = new DmsApiClient({
+      baseURL: this.baseURL,
+      auth: this.auth,
+      conformance: null,
+    });
+    this.anonymous = new DmsApiClient({
+      baseURL: this.baseURL,
+      auth: new StaticTokenStrategy(null),
+      conformance: null,
+    });
+    await this.client.init();
+    await this.anonymous.init();
+  }
+
+  /**
+   * Close the provider clients
+   */
+  async dispose(): Promise<void> {
+    await this.client?.dispose();
+    await this.anonymous?.dispose();
+    this.client = null;
+    this.anonymous = null;
+  }
+
+  /**
+   * Verify one interaction
+   *
+   * @param interaction - Interaction from a contract file
+   * @returns Problems found (empty when the provider honors it)
+   */
+  async verify(interaction: ContractInteraction): Promise<string[]> {
+    const values: Record<string, string> = {
+      [CONTRACT_PLACEHOLDERS.username]: users.validUser.username,
+      [CONTRACT_PLACEHOLDERS.password]: users.validUser.password,
+      [CONTRACT_PLACEHOLDERS.orderNumber]: generateOrderNumber(),
+    };
+
+    let requestPath = interaction.request.path;
+    if (interaction.given) {
+      const { create, updates, deleted } = interaction.given;
+      const created = await this.send(create, values);
+      const id = (created.body as Record<string, unknown> | undefined)?.id;
+      if (!created.ok || typeof id !== "string") {
+        return [
+          `provider state: ${describeRequest(create)} returned ` +
+            `${created.status}, expected a created record with an id`,
+        ];
+      }
+
+      const withId = (request: ContractRequest): ContractRequest => ({
+        ...request,
+        path: request.path.replace("{id}", encodeURIComponent(id)),
+      });
+      for (const update of updates) {
+        await this.send(withId(update), values);
+      }
+      if (deleted) {
+        await this.send(
+          withId({ method: "DELETE", path: `${create.path}/{id}`, auth: true }),
+          values
+        );
+      }
+      requestPath = withId(interaction.request).path;
+    }
+
+    const result = await this.send(
+      { ...interaction.request, path: requestPath },
+      values
+    );
+    return compareResponse(interaction, result);
+  }
+
+  /**
+   * Verify every interaction of a contract
+   */
+  async verifyContract(
+    contract: ConsumerContract
+  ): Promise<ContractVerificationReport> {
+    const results: InteractionResult[] = [];
+    for (const interaction of contract.interactions) {
+      results.push({
+        description: interaction.description,
+        problems: await this.verify(interaction),
+      });
+    }
+    return {
+      consumer: contract.consumer,
+      provider: contract.provider,
+      results,
+    };
+  }
+
+  /**
+   * Send a contract request with placeholders filled in
+   */
+  private async send(
+    request: ContractRequest,
+    values: Record<string, string>
+  ): Promise<ApiResult<unknown>> {
+    const client = request.auth ? this.client : this.anonymous;
+    if (!client) {
+      throw new Error("ContractVerifier not initialized. Call init() first.");
+    }
+
+    const endpoint = `${request.path}${request.query ? `?${request.query}` : ""}`;
+    const body = fillPlaceholders(request.body ?? {}, values) as Record<
+      string,
+      unknown
+    >;
+
+    switch (request.method) {
+      case "GET":
+        return await client.get(endpoint);
+      case "POST":
+        return await client.post(endpoint, body);
+      case "PATCH":
+        return await client.patch(endpoint, body);
+      case "DELETE":
+        return await client.delete(endpoint);
+    }
+  }
+}
+
+// ====================
+// Reporting
+// ====================
+
+/**
+ * Format a verification report for the console / HTML report
+ *
+ * Example:
+ * Contract dms-qa-automation -> dms-api: 11 passed, 1 broken
+ *   BROKEN API - Repair Orders > should get repair order by ID: GET ...
+ *     status: expected 200, got 404
+ */
+export function formatVerificationReport(
+  report: ContractVerificationReport
+): string {
+  const broken = report.results.filter((result) => result.problems.length > 0);
+  const lines = [
+    `Contract ${report.consumer} -> ${report.provider}: ` +
+      `${report.results.length - broken.length} passed, ${broken.length} broken`,
+  ];
+  for (const { description, problems } of broken) {
+    lines.push(`  BROKEN ${description}`);
+    problems.forEach((problem) => lines.push(`    ${problem}`));
+  }
+  return lines.join("\n");
+}
+
+// ====================
+// Internal Helpers
+// ====================
+
+/**
+ * Compare a provider response with the expected one
+ */
+function compareResponse(
+  interaction: ContractInteraction,
+  result: ApiResult<unknown>
+): string[] {
+  const expected = interaction.response;
+  if (result.status !== expected.status) {
+    return [`status: expected ${expected.status}, got ${result.status}`];
+  }
+  if (!expected.body) return [];
+
+  if (result.body === undefined) {
+    return ["body: expected a JSON body, got none"];
+  }
+  return validateSchema(result.body, expected.body).map(
+    (violation) => `body ${violation.path}: ${violation.message}`
+  );
+}
+
+function fillPlaceholders(
+  value: unknown,
+  values: Record<string, string>
+): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => fillPlaceholders(item, values));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        fillPlaceholders(item, values),
+      ])
+    );
+  }
+  if (typeof value === "string" && value in values) {
+    return values[value];
+  }
+  return value;
+}
+
+function describeRequest(request: ContractRequest): string {
+  return `${request.method} ${request.path}${request.query ? `?${request.query}` : ""}`;
+}
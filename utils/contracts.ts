@@ -0,0 +1,487 @@
+/**
+ * Consumer Contracts Module
+ *
+ * Turns the API calls our tests make through DmsApiClient into consumer
+ * contract files - one per consumer/provider pair - that describe each
+ * request and the minimal response the tests rely on. The verifier in
+ * utils/contractVerifier.ts replays them against a provider.
+ *
+ * Why contracts?
+ * 1. The backend team gets an early signal when a change breaks something
+ *    our tests depend on - before the nightly run goes red
+ * 2. Contracts only pin down what we use (status + response shape), not
+ *    exact values, so data changes do not break them
+ * 3. The files are reviewable JSON, committed next to the tests
+ *
+ * How interactions are recorded (API_CONTRACTS=write):
+ * 1. Every call to the provider made inside a test becomes an interaction,
+ *    described by the test title and the request line
+ * 2. The expected response is the status plus a JSON schema inferred from
+ *    the body - types and present fields, extra fields always allowed
+ * 3. Requests on records created earlier in the run (PATCH /repair-orders/
+ *    {id}) keep the record's history (create, updates, delete) as provider
+ *    state, replayed first
+ * 4. The test user's credentials and generated order numbers are stored as
+ *    {{placeholders}} and filled in at verification time
+ *
+ * Each worker merges its interactions into contracts/<consumer>-<provider>
+ * .json when it ends (apiContracts fixture in utils/fixtures.ts).
+ */
+
+import { test } from "@playwright/test";
+import * as fs from "fs";
+import * as path from "path";
+import { HttpMethod } from "./apiClient";
+import { withFileLock } from "./fileLock";
+import { ApiExchange, ApiInterceptor } from "./interceptors";
+import { JsonSchema, SchemaType } from "./schemaValidator";
+import { apiTestData, users } from "./testData";
+
+// ====================
+// Types
+// ====================
+
+/**
+ * Contract mode - off (default) or write
+ */
+export type ContractMode = "off" | "write";
+
+/**
+ * Contract configuration
+ */
+export interface ContractOptions {
+  mode: ContractMode;
+
+  // Directory for contract files
+  dir: string;
+
+  // Names of the pair - used in the file name
+  consumer: string;
+  provider: string;
+
+  // Only calls to this base URL are recorded
+  providerURL: string;
+}
+
+/**
+ * Request part of an interaction (path and body may hold placeholders)
+ */
+export interface ContractRequest {
+  method: HttpMethod;
+  path: string;
+  query?: string;
+  body?: unknown;
+
+  // Sent with the test user's bearer token
+  auth: boolean;
+}
+
+/**
+ * Record an interaction depends on - created, updated and possibly deleted
+ * before the request is replayed; "{id}" in the request paths is its ID
+ */
+export interface ProviderState {
+  create: ContractRequest;
+
+  // Successful PATCHes made on the record before the request
+  updates: ContractRequest[];
+  deleted: boolean;
+}
+
+/**
+ * One request and the minimal response the consumer expects
+ */
+export interface ContractInteraction {
+  description: string;
+  given?: ProviderState;
+  request: ContractRequest;
+  response: {
+    status: number;
+
+    // Inferred shape of the body - absent when the body was empty
+    body?: JsonSchema;
+  };
+}
+
+/**
+ * Contract file contents
+ */
+export interface ConsumerContract {
+  consumer: string;
+  provider: string;
+  interactions: ContractInteraction[];
+}
+
+// ====================
+// Configuration
+// ====================
+
+/**
+ * Placeholders in recorded requests, filled in by the verifier
+ */
+export const CONTRACT_PLACEHOLDERS = {
+  username: "{{username}}",
+  password: "{{password}}",
+  orderNumber: "{{orderNumber}}",
+} as const;
+
+// generateOrderNumber() - RO-YYYY-NNNNN (seeded RO-2024-001 stays as is)
+const GENERATED_ORDER_NUMBER = /^RO-\d{4}-\d{5}$/;
+
+/**
+ * Default options
+ *
+ * API_CONTRACTS=write turns recording on, API_CONTRACTS_DIR sets the
+ * directory (default "contracts"), API_CONTRACT_CONSUMER and
+ * API_CONTRACT_PROVIDER name the pair.
+ */
+export function defaultContractOptions(): ContractOptions {
+  return {
+    mode: (process.env.API_CONTRACTS as ContractMode) || "off",
+    dir: process.env.API_CONTRACTS_DIR || "contracts",
+    consumer: process.env.API_CONTRACT_CONSUMER || "dms-qa-automation",
+    provider: process.env.API_CONTRACT_PROVIDER || "dms-api",
+    providerURL: apiTestData.auth.baseUrl,
+  };
+}
+
+/**
+ * Contract file of a consumer/provider pair
+ */
+export function contractPath(
+  options: Pick<ContractOptions, "dir" | "consumer" | "provider">
+): string {
+  return path.join(options.dir, `${options.consumer}-${options.provider}.json`);
+}
+
+// ====================
+// Recorder Class
+// ====================
+
+/**
+ * Collects interactions for one consumer/provider pair
+ *
+ * Usage:
+ * const recorder = new ContractRecorder({ providerURL: stub.url });
+ * const client = new DmsApiClient({
+ *   baseURL: stub.url,
+ *   interceptors: [contractInterceptor(recorder)],
+ * });
+ */
+export class ContractRecorder {
+  private options: ContractOptions;
+  private interactions = new Map<string, ContractInteraction>();
+
+  // Records created through the provider in this run, by ID
+  private created = new Map<string, ProviderState>();
+
+  constructor(options: Partial<ContractOptions> = {}) {
+    this.options = { ...defaultContractOptions(), ...options };
+  }
+
+  /**
+   * Number of distinct interactions recorded
+   */
+  get size(): number {
+    return this.interactions.size;
+  }
+
+  /**
+   * Contract file this recorder writes to
+   */
+  get file(): string {
+    return contractPath(this.options);
+  }
+
+  /**
+   * Add a completed exchange
+   * The first exchange wins when a test repeats the same request
+   *
+   * @param exchange - Exchange as passed to afterResponse hooks
+   * @param testTitle - Title of the test that made the call
+   */
+  record({ request, result, record }: ApiExchange, testTitle: string): void {
+    const providerURL = this.options.providerURL.replace(/\/$/, "");
+    if (!record.url.startsWith(providerURL)) return;
+
+    // Rejected tokens depend on the token, not on the request - the verifier
+    // always sends a valid one
+    const auth = Object.keys(request.headers).some(
+      (name) => name.toLowerCase() === "authorization"
+    );
+    if (auth && result.status === 401) return;
+
+    const [rawPath, query = ""] = request.endpoint.split("?");
+    const { path: templatedPath, given } = this.templatePath(rawPath);
+    const contractRequest: ContractRequest = {
+      method: request.method,
+      path: templatedPath,
+      ...(query ? { query } : {}),
+      ...(request.data !== undefined
+        ? { body: templateValues(request.data) }
+        : {}),
+      auth,
+    };
+
+    const description =
+      `${testTitle}: ${request.method} ${templatedPath}` +
+      `${query ? `?${query}` : ""} returns ${result.status}`;
+    if (!this.interactions.has(description)) {
+      this.interactions.set(description, {
+        description,
+        ...(given
+          ? { given: { ...given, updates: [...given.updates] } }
+          : {}),
+        request: contractRequest,
+        response: {
+          status: result.status,
+          ...(result.body !== undefined
+            ? { body: inferSchema(result.body) }
+            : {}),
+        },
+      });
+    }
+
+    // Remember created records - later requests on them need provider state
+    const body = (result.body || {}) as Record<string, unknown>;
+    if (request.method === "POST" && result.ok && typeof body.id === "string") {
+      this.created.set(body.id, {
+        create: contractRequest,
+        updates: [],
+        deleted: false,
+      });
+    }
+    if (request.method === "PATCH" && result.ok && given) {
+      given.updates.push(contractRequest);
+    }
+    if (request.method === "DELETE" && result.ok && given) {
+      given.deleted = true;
+    }
+  }
+
+  /**
+   * Recorded interactions as a contract (sorted by description)
+   */
+  toContract(): ConsumerContract {
+    return {
+      consumer: this.options.consumer,
+      provider: this.options.provider,
+      interactions: sortInteractions([...this.interactions.values()]),
+    };
+  }
+
+  /**
+   * Merge the recorded interactions into the contract file
+   * Interactions with the same description are replaced, others are kept -
+   * delete the file to drop interactions of removed tests.
+   *
+   * @returns Path of the written file, or null if nothing was recorded
+   */
+  write(): string | null {
+    if (this.interactions.size === 0) return null;
+
+    const file = this.file;
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+
+    // Workers finish at the same time - merge one at a time
+    withFileLock(`${file}.lock`, () => {
+      const merged = new Map<string, ContractInteraction>();
+      if (fs.existsSync(file)) {
+        const existing = JSON.parse(
+          fs.readFileSync(file, "utf-8")
+        ) as ConsumerContract;
+        for (const interaction of existing.interactions) {
+          merged.set(interaction.description, interaction);
+        }
+      }
+      for (const interaction of this.interactions.values()) {
+        merged.set(interaction.description, interaction);
+      }
+
+      const contract: ConsumerContract = {
+        ...this.toContract(),
+        interactions: sortInteractions([...merged.values()]),
+      };
+      fs.writeFileSync(file, `${JSON.stringify(contract, null, 2)}\n`);
+    });
+
+    return file;
+  }
+
+  /**
+   * Replace the ID of a record created in this run with "{id}"
+   * Returns the record's provider state (shared, so later PATCHes and
+   * DELETEs are added to it)
+   */
+  private templatePath(rawPath: string): {
+    path: string;
+    given?: ProviderState;
+  } {
+    const segments = rawPath.split("/");
+    const index = segments.findIndex((segment) =>
+      this.created.has(decodeURIComponent(segment))
+    );
+    if (index === -1) return { path: rawPath };
+
+    const given = this.created.get(decodeURIComponent(segments[index]))!;
+    segments[index] = "{id}";
+    return { path: segments.join("/"), given };
+  }
+}
+
+// ====================
+// Interceptor
+// ====================
+
+// Recorder shared by every client of this worker (created on first use)
+let workerRecorder: ContractRecorder | null = null;
+
+/**
+ * Recorder behind the default contract interceptor
+ */
+export function getWorkerContractRecorder(): ContractRecorder {
+  if (!workerRecorder) {
+    workerRecorder = new ContractRecorder();
+  }
+  return workerRecorder;
+}
+
+/**
+ * Record each call made inside a test into a contract
+ * Calls made outside a test (beforeAll/afterAll) are not recorded
+ *
+ * @param recorder - Target recorder (defaults to the worker's recorder)
+ */
+export function contractInterceptor(
+  recorder: ContractRecorder = getWorkerContractRecorder()
+): ApiInterceptor {
+  return {
+    name: "contract",
+    afterResponse(exchange) {
+      let testTitle: string;
+      try {
+        testTitle = test.info().titlePath.slice(1).join(" > ");
+      } catch {
+        return;
+      }
+      recorder.record(exchange, testTitle);
+    },
+  };
+}
+
+// ====================
+// Schema Inference
+// ====================
+
+/**
+ * Infer the minimal schema a value satisfies
+ * Objects require the fields that were present and non-null; arrays of
+ * objects only require the fields every item had.
+ *
+ * @param value - Parsed JSON value
+ * @returns Schema without formats, patterns or limits
+ */
+export function inferSchema(value: unknown): JsonSchema {
+  if (value === null) {
+    return { nullable: true };
+  }
+
+  if (Array.isArray(value)) {
+    const schema: JsonSchema = { type: "array" };
+    if (value.length > 0) {
+      schema.items = value.map(inferSchema).reduce(mergeSchemas);
+    }
+    return schema;
+  }
+
+  if (typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>);
+    return {
+      type: "object",
+      required: entries
+        .filter(([, item]) => item !== null)
+        .map(([key]) => key),
+      properties: Object.fromEntries(
+        entries.map(([key, item]) => [key, inferSchema(item)])
+      ),
+    };
+  }
+
+  return { type: typeof value as SchemaType };
+}
+
+/**
+ * Schema satisfied by values of either schema
+ */
+function mergeSchemas(a: JsonSchema, b: JsonSchema): JsonSchema {
+  const types = [...new Set([...typesOf(a), ...typesOf(b)])];
+  const merged: JsonSchema = {};
+  if (types.length > 0) {
+    merged.type = types.length === 1 ? types[0] : types;
+  }
+  if (a.nullable || b.nullable) {
+    merged.nullable = true;
+  }
+
+  if (a.properties || b.properties) {
+    const keys = new Set([
+      ...Object.keys(a.properties || {}),
+      ...Object.keys(b.properties || {}),
+    ]);
+    merged.properties = {};
+    for (const key of keys) {
+      const left = a.properties?.[key];
+      const right = b.properties?.[key];
+      merged.properties[key] =
+        left && right ? mergeSchemas(left, right) : (left || right)!;
+    }
+    merged.required = (a.required || []).filter((key) =>
+      (b.required || []).includes(key)
+    );
+  }
+
+  if (a.items || b.items) {
+    merged.items =
+      a.items && b.items ? mergeSchemas(a.items, b.items) : a.items || b.items;
+  }
+
+  return merged;
+}
+
+function typesOf(schema: JsonSchema): SchemaType[] {
+  if (!schema.type) return [];
+  return Array.isArray(schema.type) ? schema.type : [schema.type];
+}
+
+// ====================
+// Internal Helpers
+// ====================
+
+/**
+ * Replace the test user's credentials and generated order numbers
+ * with placeholders
+ */
+function templateValues(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(templateValues);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, templateValues(item)])
+    );
+  }
+  if (typeof value === "string") {
+    if (value === users.validUser.username) return CONTRACT_PLACEHOLDERS.username;
+    if (value === users.validUser.password) return CONTRACT_PLACEHOLDERS.password;
+    if (GENERATED_ORDER_NUMBER.test(value)) {
+      return CONTRACT_PLACEHOLDERS.orderNumber;
+    }
+  }
+  return value;
+}
+
+function sortInteractions(
+  interactions: ContractInteraction[]
+): ContractInteraction[] {
+  return interactions.sort((a, b) => a.description.localeCompare(b.description));
+}
@@ -0,0 +1,209 @@
+/**
+ * API Errors Module
+ *
+ * DmsApiError - the error thrown by the API assertion helpers in
+ * utils/apiClient.ts (assertStatus, assertResponseContains, expectError).
+ *
+ * Why a dedicated error class?
+ * 1. A failed assertion keeps the request, the status and the server's
+ *    error envelope instead of a one-line "expected 200, got 500"
+ * 2. The request ID is in the message, so a failure can be looked up in
+ *    the backend logs straight from the HTML report
+ * 3. Code can inspect fields (status, code, requestId) instead of parsing
+ *    message strings
+ *
+ * Message layout:
+ * Expected status 200, but got 404
+ *   Request: GET https://api.example-dms.com/v1/repair-orders/RO-1
+ *   Request ID: 7f3c9a
+ *   Response body: {"error":"Repair order not found","code":"NOT_FOUND"}
+ *   Diff (- expected, + actual):
+ *     - status: 200
+ *     + status: 404
+ */
+
+import { ApiError, ApiResult } from "./models";
+import { truncate } from "./interceptors";
+import { ValueMatcher } from "./matchers";
+
+// ====================
+// Types
+// ====================
+
+/**
+ * One expected/actual pair of a failed comparison
+ */
+export interface DiffEntry {
+  // Where the values differ (e.g., "status", "body.customerName")
+  path: string;
+  expected: unknown;
+  actual: unknown;
+}
+
+/**
+ * Request/response context of a DmsApiError (all optional - helpers that
+ * only see a body have no request to report)
+ */
+export interface DmsApiErrorContext {
+  method?: string;
+  url?: string;
+  status?: number;
+  headers?: Record<string, string>;
+  error?: ApiError | null;
+  responseText?: string;
+  diff?: DiffEntry[];
+}
+
+// ====================
+// Configuration
+// ====================
+
+// Response headers carrying a server-side request/correlation ID, by priority
+const REQUEST_ID_HEADERS = [
+  "x-request-id",
+  "x-correlation-id",
+  "request-id",
+  "x-trace-id",
+];
+
+// ====================
+// Error Class
+// ====================
+
+/**
+ * Failed API expectation with the full request/response context
+ *
+ * Usage:
+ * try { assertStatus(result, 200); }
+ * catch (error) { if (error instanceof DmsApiError) console.log(error.requestId); }
+ */
+export class DmsApiError extends Error {
+  readonly method?: string;
+  readonly url?: string;
+  readonly status?: number;
+  readonly headers: Record<string, string>;
+
+  // Parsed error envelope (null for 2xx responses or unknown context)
+  readonly error: ApiError | null;
+  readonly code?: string;
+  readonly details?: unknown;
+
+  // Server request/correlation ID from the response headers
+  readonly requestId?: string;
+
+  readonly responseText?: string;
+  readonly diff: DiffEntry[];
+
+  /**
+   * @param summary - First line of the message
+   * @param context - Request/response details appended to the message
+   */
+  constructor(summary: string, context: DmsApiErrorContext = {}) {
+    const headers = context.headers || {};
+    const requestId = findRequestId(headers);
+    super(formatMessage(summary, context, requestId));
+
+    this.name = "DmsApiError";
+    this.method = context.method;
+    this.url = context.url;
+    this.status = context.status;
+    this.headers = headers;
+    this.error = context.error ?? null;
+    this.code = this.error?.code;
+    this.details = this.error?.details;
+    this.requestId = requestId;
+    this.responseText = context.responseText;
+    this.diff = context.diff || [];
+  }
+
+  /**
+   * Error for a typed client result
+   *
+   * @param summary - First line of the message
+   * @param result - Result the expectation failed on
+   * @param diff - Expected/actual pairs to show
+   */
+  static fromResult(
+    summary: string,
+    result: ApiResult<unknown>,
+    diff: DiffEntry[] = []
+  ): DmsApiError {
+    return new DmsApiError(summary, {
+      method: result.request.method,
+      url: result.request.url,
+      status: result.status,
+      headers: result.headers,
+      error: result.error,
+      responseText: result.text,
+      diff,
+    });
+  }
+}
+
+// ====================
+// Formatting
+// ====================
+
+/**
+ * Format expected/actual pairs as a diff block
+ *
+ * Example:
+ * Diff (- expected, + actual):
+ *   - status: "Completed"
+ *   + status: "Pending"
+ */
+export function formatDiff(diff: DiffEntry[]): string {
+  const lines = ["Diff (- expected, + actual):"];
+  for (const { path, expected, actual } of diff) {
+    lines.push(`  - ${path}: ${formatValue(expected)}`);
+    lines.push(`  + ${path}: ${formatValue(actual)}`);
+  }
+  return lines.join("\n");
+}
+
+function formatMessage(
+  summary: string,
+  context: DmsApiErrorContext,
+  requestId: string | undefined
+): string {
+  const lines = [summary];
+  if (context.method && context.url) {
+    lines.push(`Request: ${context.method} ${context.url}`);
+  }
+  if (requestId) {
+    lines.push(`Request ID: ${requestId}`);
+  }
+  if (context.responseText !== undefined) {
+    lines.push(`Response body: ${truncate(context.responseText) || "(empty)"}`);
+  }
+  if (context.diff && context.diff.length > 0) {
+    lines.push(...formatDiff(context.diff).split("\n"));
+  }
+  return lines.join("\n  ");
+}
+
+/**
+ * Print an expected or actual value on one line
+ * (JSON, with matchers and patterns as <any VIN> and /not found/i)
+ */
+export function formatValue(value: unknown): string {
+  if (value === undefined) return "(missing)";
+
+  const printable = (item: unknown) =>
+    item instanceof ValueMatcher || item instanceof RegExp ? item.toString() : item;
+  if (value instanceof ValueMatcher || value instanceof RegExp) {
+    return value.toString();
+  }
+  return JSON.stringify(value, (_key, item) => printable(item)) ?? String(value);
+}
+
+/**
+ * Server request/correlation ID from response headers, if any
+ */
+export function findRequestId(headers: Record<string, string>): string | undefined {
+  const lowerCased = Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value])
+  );
+  const header = REQUEST_ID_HEADERS.find((name) => lowerCased[name]);
+  return header ? lowerCased[header] : undefined;
+}
@@ -0,0 +1,76 @@
+/**
+ * File Lock Module
+ *
+ * Cross-process lock around read-modify-write of files shared by the
+ * Playwright workers.
+ *
+ * Why a lock file?
+ * 1. Workers are separate processes - an in-memory mutex doesn't reach them
+ * 2. Without it, two workers merging into the same file lose each other's
+ *    changes
+ * 3. open(..., "wx") is atomic on every platform Playwright runs on
+ *
+ * Used by:
+ * - utils/contracts.ts (merging recorded interactions into the contract file)
+ * - utils/rateLimit.ts (request budget shared by the workers)
+ *
+ * Usage:
+ * withFileLock(`${file}.lock`, () => {
+ *   const current = JSON.parse(fs.readFileSync(file, "utf-8"));
+ *   fs.writeFileSync(file, JSON.stringify(merge(current)));
+ * });
+ */
+
+import * as fs from "fs";
+
+// ====================
+// Lock
+// ====================
+
+/**
+ * Run a synchronous function while holding a lock file
+ * A lock file older than the timeout is treated as left over (its holder
+ * crashed) and taken over; a younger one is waited for.
+ * Waiting blocks the calling thread, so keep fn short.
+ *
+ * @param lockFile - Path of the lock file (created and removed here)
+ * @param fn - Work done while holding the lock
+ * @param timeoutMs - Age after which a lock is considered left over
+ */
+export function withFileLock(lockFile: string, fn: () => void, timeoutMs = 10_000): void {
+  let fd: number;
+  for (;;) {
+    try {
+      fd = fs.openSync(lockFile, "wx");
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+      if (lockAgeMs(lockFile) > timeoutMs) {
+        fs.rmSync(lockFile, { force: true });
+        continue;
+      }
+      Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, 50);
+    }
+  }
+
+  try {
+    fn();
+  } finally {
+    fs.closeSync(fd);
+    fs.rmSync(lockFile, { force: true });
+  }
+}
+
+// ====================
+// Internal Helpers
+// ====================
+
+// Milliseconds since the lock file was taken (0 if it was just released)
+function lockAgeMs(lockFile: string): number {
+  try {
+    return Date.now() - fs.statSync(lockFile).mtimeMs;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return 0;
+    throw error;
+  }
+}
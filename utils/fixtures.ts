@@ -0,0 +1,247 @@
+/**
+ * Test Fixtures Module
+ *
+ * Extends Playwright's test with fixtures shared by the API suites.
+ *
+ * The exported expect carries the DMS API matchers (utils/apiMatchers.ts).
+ *
+ * Why fixtures?
+ * 1. Setup/teardown runs around every test without copy-pasted hooks
+ * 2. Teardown still runs when a test fails (perfect for report attachments)
+ * 3. Tests opt in simply by importing { test, expect } from here
+ *
+ * Usage:
+ * import { test, expect } from "../utils/fixtures";
+ */
+
+import { test as base, expect as baseExpect } from "@playwright/test";
+import * as fs from "fs";
+import * as path from "path";
+import { DmsApiClient } from "./apiClient";
+import { apiMatchers } from "./apiMatchers";
+import { defaultCassetteOptions, takeCassette } from "./cassette";
+import {
+  CleanupConnector,
+  ResourceTracker,
+  formatCleanupReport,
+  getWorkerResourceTracker,
+  resourceTrackerFor,
+  takeResourceTracker,
+} from "./cleanup";
+import { defaultContractOptions, getWorkerContractRecorder } from "./contracts";
+import { formatTranscript, takeTranscript } from "./interceptors";
+import { Role, createRoleClient } from "./roles";
+import { tenantConfig } from "./testData";
+import { WEBHOOK_EVENT_TYPES, WebhookReceiver } from "./webhooks";
+
+/**
+ * Fixture types
+ */
+type ApiFixtures = {
+  // Attaches the redacted transcript of this test's API calls to the report
+  apiTranscript: void;
+
+  // Saves this test's cassette in record mode (see utils/cassette.ts)
+  apiCassette: void;
+
+  // Records created by this test, deleted at teardown (see utils/cleanup.ts)
+  resources: ResourceTracker;
+
+  // Dealership this test acts for - override with test.use({ tenantName })
+  tenantName: string;
+
+  // Client scoped to tenantName (see utils/tenants.ts)
+  tenantApi: DmsApiClient;
+
+  // Opens more tenant-scoped clients, disposed at teardown
+  // Example: const dealerB = await tenantClient("dealerB");
+  tenantClient: (name: string) => Promise<DmsApiClient>;
+
+  // Opens clients acting as a role (see utils/roles.ts), one per role,
+  // disposed at teardown
+  // Example: const readOnly = await roleClient("readOnly");
+  roleClient: (role: Role) => Promise<DmsApiClient>;
+
+  // Local receiver registered for every webhook event (see utils/webhooks.ts)
+  // The subscription is removed at teardown by the resources fixture
+  webhooks: WebhookReceiver;
+};
+
+type ApiWorkerFixtures = {
+  // Deletes records created outside tests (beforeAll) or deferred to the worker
+  workerResources: ResourceTracker;
+
+  // Merges this worker's interactions into the contract file when
+  // API_CONTRACTS=write (see utils/contracts.ts)
+  apiContracts: void;
+};
+
+export const test = base.extend<ApiFixtures, ApiWorkerFixtures>({
+  apiTranscript: [
+    async ({}, use, testInfo) => {
+      await use();
+
+      const records = takeTranscript(testInfo.testId);
+      if (records.length > 0) {
+        await testInfo.attach("api-transcript", {
+          body: formatTranscript(records),
+          contentType: "text/plain",
+        });
+      }
+    },
+    { auto: true },
+  ],
+
+  apiCassette: [
+    async ({}, use, testInfo) => {
+      await use();
+
+      takeCassette(testInfo.testId)?.save();
+    },
+    { auto: true },
+  ],
+
+  // Depends on apiTranscript and apiCassette so the cleanup calls still
+  // land in the transcript and the cassette
+  resources: [
+    async ({ apiTranscript, apiCassette }, use, testInfo) => {
+      const tracker = resourceTrackerFor(testInfo.testId);
+      await use(tracker);
+
+      // Untracking of the cleanup DELETEs still goes to this tracker
+      const report = await tracker.cleanup(connectCleanupClient);
+      takeResourceTracker(testInfo.testId);
+
+      if (report.failed.length > 0) {
+        const summary = formatCleanupReport(report);
+        testInfo.annotations.push({
+          type: "cleanup-failed",
+          description: `${report.failed.length} record(s) left behind`,
+        });
+        await testInfo.attach("cleanup-report", {
+          body: summary,
+          contentType: "text/plain",
+        });
+      }
+    },
+    { auto: true },
+  ],
+
+  tenantName: [tenantConfig.defaultTenant, { option: true }],
+
+  tenantClient: async ({}, use) => {
+    const clients: DmsApiClient[] = [];
+    await use(async (name) => {
+      const client = new DmsApiClient({ tenant: name });
+      await client.init();
+      clients.push(client);
+      return client;
+    });
+
+    for (const client of clients) {
+      await client.dispose();
+    }
+  },
+
+  tenantApi: async ({ tenantName, tenantClient }, use) => {
+    await use(await tenantClient(tenantName));
+  },
+
+  roleClient: async ({}, use) => {
+    const clients = new Map<Role, DmsApiClient>();
+    await use(async (role) => {
+      if (!clients.has(role)) {
+        clients.set(role, await createRoleClient(role));
+      }
+      return clients.get(role)!;
+    });
+
+    for (const client of clients.values()) {
+      await client.dispose();
+    }
+  },
+
+  // Depends on resources so the registration is tracked by this test
+  webhooks: async ({ resources: _resources }, use, testInfo) => {
+    const receiver = new WebhookReceiver();
+    const client = new DmsApiClient();
+    try {
+      await client.init();
+      const url = await receiver.start();
+      const registration = await client.registerWebhook({
+        url,
+        events: WEBHOOK_EVENT_TYPES,
+        secret: receiver.options.secret,
+      });
+      if (registration.status !== 201) {
+        throw new Error(
+          `Could not register the webhook receiver at ${url}: ` +
+            `${registration.status} ${registration.error?.error || registration.text}`
+        );
+      }
+
+      await use(receiver);
+    } finally {
+      await client.dispose();
+      await receiver.stop();
+    }
+
+    if (receiver.received.length > 0) {
+      await testInfo.attach("webhook-deliveries", {
+        body: JSON.stringify(receiver.received, null, 2),
+        contentType: "application/json",
+      });
+    }
+  },
+
+  // No test to attach to - a failed cleanup is written to
+  // cleanup-report-worker-<n>.txt in the output directory instead
+  workerResources: [
+    async ({}, use, workerInfo) => {
+      const tracker = getWorkerResourceTracker();
+      await use(tracker);
+
+      // Replayed records never existed - and there is no cassette to
+      // serve calls made outside a test
+      if (defaultCassetteOptions().mode === "replay") return;
+
+      const report = await tracker.cleanup(connectCleanupClient);
+      if (report.failed.length > 0) {
+        const { outputDir } = workerInfo.project;
+        fs.mkdirSync(outputDir, { recursive: true });
+        fs.writeFileSync(
+          path.join(outputDir, `cleanup-report-worker-${workerInfo.workerIndex}.txt`),
+          formatCleanupReport(report)
+        );
+      }
+    },
+    { auto: true, scope: "worker" },
+  ],
+
+  apiContracts: [
+    async ({}, use) => {
+      await use();
+
+      if (defaultContractOptions().mode === "write") {
+        getWorkerContractRecorder().write();
+      }
+    },
+    { auto: true, scope: "worker" },
+  ],
+});
+
+/**
+ * Open a dedicated client for cleanup (scoped to the record's tenant)
+ * Conformance is off - teardown must not fail on spec drift
+ */
+const connectCleanupClient: CleanupConnector = async (baseURL, tenant) => {
+  const client = new DmsApiClient({ baseURL, conformance: null, tenant });
+  await client.init();
+  return { api: client, close: () => client.dispose() };
+};
+
+/**
+ * Playwright's expect with toHaveStatus, toMatchApiSchema, toRespondWithin,
+ * toHaveErrorEnvelope and toContainRepairOrder
+ */
+export const expect = baseExpect.extend(apiMatchers);
@@ -0,0 +1,639 @@
+/**
+ * API Fuzzing Module
+ *
+ * Generates malformed variants of the create/update payloads and checks
+ * that the API rejects every one of them cleanly.
+ *
+ * Why fuzz?
+ * 1. Hand-written negative tests cover the inputs someone thought of -
+ *    the fuzzer covers every field with every kind of bad value
+ * 2. A 500 on bad input is a bug (and often a security one): validation
+ *    was skipped and the value reached the database or a template
+ * 3. Variants come from payloadSchemas (utils/schemas.ts), so a new field
+ *    is fuzzed as soon as its schema exists
+ *
+ * How variants are built:
+ * 1. Start from the valid payload in apiTestData
+ * 2. Replace one field with a bad value (or drop it, if required) -
+ *    one variant per field and value
+ * 3. Keep only values the field's schema rejects; "<script>" is valid
+ *    notes text, so it is only sent to fields with a format or an enum
+ *
+ * Every variant must get a 4xx in the standard error envelope.
+ * A failing variant is minimized (other fields dropped, the bad string
+ * shortened while the failure reproduces). With FUZZ_SAVE_REGRESSIONS=true
+ * it is saved to fuzzConfig.regressionsDir, so it is replayed on every later
+ * run.
+ *
+ * Usage (tests/apiFuzz.spec.ts):
+ * const variants = generateVariants(target);
+ * const findings = await fuzzTarget(api, target, variants);
+ */
+
+import { createHash } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { DmsApiClient } from "./apiClient";
+import { ApiResult } from "./models";
+import { JsonSchema, validateSchema } from "./schemaValidator";
+import { PayloadSchemaName, errorSchema, payloadSchemas } from "./schemas";
+import { apiTestData, fuzzConfig } from "./testData";
+
+// ====================
+// Types
+// ====================
+
+/**
+ * Kinds of malformed input
+ */
+export type FuzzCategory =
+  | "wrongType"
+  | "missingRequired"
+  | "null"
+  | "oversized"
+  | "unicode"
+  | "negativeCost"
+  | "invalidVin"
+  | "injection";
+
+/**
+ * An endpoint taking a JSON payload
+ */
+export interface FuzzTarget {
+  // DmsApiClient method (and payloadSchemas key)
+  name: PayloadSchemaName;
+  method: "POST" | "PATCH";
+
+  // Valid payload the variants are derived from
+  payload: () => Record<string, unknown>;
+
+  // Endpoint to send to - update targets create their record first
+  endpoint: (api: DmsApiClient) => Promise<string>;
+}
+
+/**
+ * One malformed payload
+ */
+export interface FuzzVariant {
+  target: PayloadSchemaName;
+  category: FuzzCategory;
+
+  // Field that was changed or dropped
+  field: string;
+
+  // Readable summary (e.g., 'vehicleVin = "1HGCM82633A12345"')
+  description: string;
+
+  body: Record<string, unknown>;
+}
+
+/**
+ * Why a response is not a clean rejection
+ */
+export interface FuzzProblem {
+  kind: "server-error" | "accepted" | "no-envelope";
+  message: string;
+
+  // Response status (null when the request failed outright)
+  status: number | null;
+}
+
+/**
+ * A saved, minimized failing input (one entry of a regressions file)
+ */
+export interface FuzzRegression {
+  // Hash of target and body - stable across runs
+  id: string;
+  target: PayloadSchemaName;
+  category: FuzzCategory;
+  field: string;
+  description: string;
+  body: Record<string, unknown>;
+
+  // What went wrong when it was found
+  problem: FuzzProblem["kind"];
+  status: number | null;
+  foundAt: string;
+}
+
+/**
+ * A variant the API did not reject cleanly
+ */
+export interface FuzzFinding {
+  variant: FuzzVariant;
+  problem: FuzzProblem;
+  regression: FuzzRegression;
+
+  // Regressions file it was saved to (absent if saving is off or it was known)
+  savedTo?: string;
+}
+
+/**
+ * Options for fuzzTarget
+ */
+export interface FuzzOptions {
+  // Shrink failing inputs before reporting them (default: true)
+  minimize?: boolean;
+
+  // Directory to save regressions to, false to only report
+  // (defaults to fuzzConfig)
+  saveTo?: string | false;
+}
+
+// ====================
+// Targets
+// ====================
+
+/**
+ * Record an update target changes (deleted by the resources fixture)
+ */
+async function createdRecord(
+  create: () => Promise<ApiResult<{ id: string }>>,
+  collection: string
+): Promise<string> {
+  const result = await create();
+  if (result.status !== 201) {
+    throw new Error(
+      `Could not create the record to fuzz: ${result.status} ` +
+        `${result.error?.error || result.text}`
+    );
+  }
+  return `/${collection}/${encodeURIComponent(result.body.id)}`;
+}
+
+/**
+ * The create/update endpoints of the DMS API
+ * Create payloads leave out orderNumber, so resent variants never collide
+ */
+export const fuzzTargets: FuzzTarget[] = [
+  {
+    name: "createRepairOrder",
+    method: "POST",
+    payload: () => ({ ...apiTestData.createRepairOrderPayload }),
+    endpoint: async () => "/repair-orders",
+  },
+  {
+    name: "updateRepairOrder",
+    method: "PATCH",
+    payload: () => ({ ...apiTestData.updateRepairOrderPayload }),
+    endpoint: (api) =>
+      createdRecord(
+        () => api.createRepairOrder(apiTestData.createRepairOrderPayload),
+        "repair-orders"
+      ),
+  },
+  {
+    name: "createAppointment",
+    method: "POST",
+    payload: () => ({ ...apiTestData.createAppointmentPayload }),
+    endpoint: async () => "/appointments",
+  },
+  {
+    name: "updateAppointment",
+    method: "PATCH",
+    payload: () => ({ ...apiTestData.updateAppointmentPayload }),
+    endpoint: (api) =>
+      createdRecord(
+        () => api.createAppointment(apiTestData.createAppointmentPayload),
+        "appointments"
+      ),
+  },
+];
+
+/**
+ * Target by name
+ *
+ * @throws Error if no target has that name (e.g., a stale regressions file)
+ */
+export function getFuzzTarget(name: string): FuzzTarget {
+  const target = fuzzTargets.find((entry) => entry.name === name);
+  if (!target) {
+    throw new Error(
+      `Unknown fuzz target "${name}" (expected ${fuzzTargets
+        .map((entry) => entry.name)
+        .join(", ")})`
+    );
+  }
+  return target;
+}
+
+// ====================
+// Variant Generation
+// ====================
+
+/**
+ * Test titles per category
+ */
+export const FUZZ_CATEGORY_LABELS: Record<FuzzCategory, string> = {
+  wrongType: "wrong types",
+  missingRequired: "missing required fields",
+  null: "nulls",
+  oversized: "oversized strings",
+  unicode: "malformed unicode",
+  negativeCost: "negative costs",
+  invalidVin: "invalid VINs",
+  injection: "injection strings",
+};
+
+const INJECTION_STRINGS = [
+  "' OR '1'='1",
+  "1; DROP TABLE repair_orders; --",
+  "<script>alert(1)</script>",
+  "{{7*7}}",
+  "${7*7}",
+  "../../../../etc/passwd",
+  "$(cat /etc/passwd)",
+];
+
+// NoSQL operators in place of a value
+const OPERATOR_OBJECTS = [{ $ne: null }, { $gt: "" }];
+
+/**
+ * Every malformed variant of a target's payload
+ * Deterministic - the same schema and payload give the same variants
+ *
+ * @param target - Endpoint to fuzz
+ * @returns Variants, grouped by field and category
+ */
+export function generateVariants(target: FuzzTarget): FuzzVariant[] {
+  const schema: JsonSchema = payloadSchemas[target.name];
+  const required = new Set(schema.required || []);
+  const variants: FuzzVariant[] = [];
+
+  for (const [field, fieldSchema] of Object.entries(schema.properties || {})) {
+    const payload = target.payload();
+
+    if (required.has(field)) {
+      const { [field]: _dropped, ...body } = payload;
+      variants.push({
+        target: target.name,
+        category: "missingRequired",
+        field,
+        description: `${field} missing`,
+        body,
+      });
+    }
+
+    for (const [category, values] of badValues(fieldSchema, payload[field])) {
+      for (const value of values) {
+        // Only values the field's own schema rejects
+        if (validateSchema(value, fieldSchema).length === 0) continue;
+        variants.push({
+          target: target.name,
+          category,
+          field,
+          description: `${field} = ${preview(value)}`,
+          body: { ...payload, [field]: value },
+        });
+      }
+    }
+  }
+
+  return variants;
+}
+
+/**
+ * Candidate bad values for a field, per category
+ */
+function badValues(
+  schema: JsonSchema,
+  seed: unknown
+): [FuzzCategory, unknown[]][] {
+  const types = [schema.type || []].flat();
+  const text = typeof seed === "string" && seed ? seed : "Fuzz Test 2024";
+  const candidates: [FuzzCategory, unknown[]][] = [
+    ["wrongType", [12345, 12.5, true, ["fuzz"], { value: "fuzz" }, "fuzz"]],
+    ["null", [null]],
+  ];
+
+  if (types.includes("string")) {
+    const maxLength = fuzzConfig.maxStringLength;
+    candidates.push(
+      [
+        "oversized",
+        [
+          ...(schema.maxLength !== undefined
+            ? ["A".repeat(schema.maxLength + 1)]
+            : []),
+          "A".repeat(maxLength),
+        ],
+      ],
+      [
+        "unicode",
+        [
+          homoglyphs(text),
+          fullWidth(text),
+          `${text}\u0000`,
+          `\u0007${text}`,
+          "\uD83D", // lone surrogate
+          "\u200B\u200B", // zero-width spaces only
+          `\u202E${text}`, // right-to-left override
+        ],
+      ],
+      ["injection", [...INJECTION_STRINGS, ...OPERATOR_OBJECTS]]
+    );
+  }
+
+  if (schema.format === "amount") {
+    candidates.push(["negativeCost", ["-125.00", -125, "-0.01", -0.01]]);
+  }
+
+  if (schema.format === "vin") {
+    candidates.push([
+      "invalidVin",
+      [
+        text.slice(0, 16),
+        `${text}9`,
+        `${text.slice(0, 16)}I`,
+        `${text.slice(0, 16)}O`,
+        `${text.slice(0, 16)}Q`,
+        text.toLowerCase(),
+        `${text.slice(0, 8)} ${text.slice(9)}`,
+        "",
+      ],
+    ]);
+  }
+
+  return candidates;
+}
+
+// Latin letters swapped for look-alike Cyrillic ones
+function homoglyphs(value: string): string {
+  const cyrillic: Record<string, string> = {
+    A: "\u0410",
+    C: "\u0421",
+    E: "\u0415",
+    H: "\u041D",
+    O: "\u041E",
+    P: "\u0420",
+    a: "\u0430",
+    e: "\u0435",
+    o: "\u043E",
+  };
+  return value.replace(/[ACEHOPaeo]/g, (letter) => cyrillic[letter]);
+}
+
+// ASCII digits swapped for full-width ones
+function fullWidth(value: string): string {
+  return value.replace(/\d/g, (digit) =>
+    String.fromCharCode(0xff10 + Number(digit))
+  );
+}
+
+/**
+ * Short, ASCII-only rendering of a value for titles and reports
+ */
+function preview(value: unknown): string {
+  const json = JSON.stringify(value).replace(
+    /[^\x20-\x7e]/g,
+    (char) => `\\u${char.charCodeAt(0).toString(16).padStart(4, "0")}`
+  );
+  if (json.length <= 60) return json;
+  const length = typeof value === "string" ? ` (${value.length} characters)` : "";
+  return `${json.slice(0, 40)}…${length}`;
+}
+
+// ====================
+// Running
+// ====================
+
+/**
+ * Send one payload and judge the response
+ * A request that fails outright (connection reset) counts as a server error
+ *
+ * @returns The problem, or undefined for a clean 4xx rejection
+ */
+export async function probe(
+  api: DmsApiClient,
+  target: FuzzTarget,
+  endpoint: string,
+  body: Record<string, unknown>
+): Promise<FuzzProblem | undefined> {
+  let result: ApiResult<unknown>;
+  try {
+    result =
+      target.method === "POST"
+        ? await api.post(endpoint, body)
+        : await api.patch(endpoint, body);
+  } catch (error) {
+    return {
+      kind: "server-error",
+      message: `request failed: ${(error as Error).message}`,
+      status: null,
+    };
+  }
+  return judgeResponse(result.status, result.body);
+}
+
+/**
+ * Problem with a response to malformed input, if any
+ *
+ * @param status - HTTP status
+ * @param body - Parsed response body
+ */
+export function judgeResponse(
+  status: number,
+  body: unknown
+): FuzzProblem | undefined {
+  if (status >= 500) {
+    return { kind: "server-error", message: `server error ${status}`, status };
+  }
+  if (status < 400) {
+    return { kind: "accepted", message: `accepted with ${status}`, status };
+  }
+  const violations = validateSchema(body, errorSchema);
+  if (violations.length > 0) {
+    return {
+      kind: "no-envelope",
+      message: `${status} without the error envelope (${violations[0].path}: ${violations[0].message})`,
+      status,
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Send variants of one target, minimizing and saving the failing ones
+ *
+ * @param api - Client to send with
+ * @param target - Endpoint to fuzz
+ * @param variants - Variants of that target (see generateVariants)
+ * @param options - Minimization and saving
+ * @returns One finding per variant that was not rejected cleanly
+ */
+export async function fuzzTarget(
+  api: DmsApiClient,
+  target: FuzzTarget,
+  variants: FuzzVariant[],
+  options: FuzzOptions = {}
+): Promise<FuzzFinding[]> {
+  const { minimize = true, saveTo = defaultRegressionsDir() } = options;
+  const endpoint = await target.endpoint(api);
+  const findings: FuzzFinding[] = [];
+
+  for (const variant of variants) {
+    const problem = await probe(api, target, endpoint, variant.body);
+    if (!problem) continue;
+
+    const body = minimize
+      ? await minimizeBody(variant.body, variant.field, async (candidate) => {
+          const again = await probe(api, target, endpoint, candidate);
+          return again?.kind === problem.kind;
+        })
+      : variant.body;
+    const regression = toRegression(variant, body, problem);
+    const savedTo =
+      saveTo && saveRegression(saveTo, regression)
+        ? regressionsFile(saveTo, target.name)
+        : undefined;
+
+    findings.push({ variant, problem, regression, savedTo });
+  }
+
+  return findings;
+}
+
+/**
+ * Send a saved regression again
+ *
+ * @returns The problem, or undefined now that it is rejected cleanly
+ */
+export async function replayRegression(
+  api: DmsApiClient,
+  regression: FuzzRegression
+): Promise<FuzzProblem | undefined> {
+  const target = getFuzzTarget(regression.target);
+  return await probe(api, target, await target.endpoint(api), regression.body);
+}
+
+/**
+ * Report of findings for an assertion message
+ */
+export function formatFindings(findings: FuzzFinding[]): string {
+  const lines = [`${findings.length} malformed input(s) not rejected with a 4xx:`];
+  for (const { variant, problem, regression, savedTo } of findings) {
+    lines.push(
+      `  ${variant.target} › ${variant.description}: ${problem.message}`,
+      `    minimized: ${preview(regression.body)}`
+    );
+    if (savedTo) {
+      lines.push(`    saved: ${savedTo} (${regression.id})`);
+    }
+  }
+  return lines.join("\n");
+}
+
+// ====================
+// Minimization
+// ====================
+
+/**
+ * Smallest body that still fails the same way
+ * 1. Drops every other field that is not needed for the failure
+ * 2. Halves the bad string while the failure reproduces
+ *
+ * @param body - Failing payload
+ * @param field - Field the variant changed (kept)
+ * @param reproduces - Whether a candidate body still fails
+ */
+export async function minimizeBody(
+  body: Record<string, unknown>,
+  field: string,
+  reproduces: (candidate: Record<string, unknown>) => Promise<boolean>
+): Promise<Record<string, unknown>> {
+  let current = { ...body };
+
+  for (const key of Object.keys(body)) {
+    if (key === field) continue;
+    const { [key]: _dropped, ...without } = current;
+    if (await reproduces(without)) {
+      current = without;
+    }
+  }
+
+  let value = current[field];
+  while (typeof value === "string" && value.length > 1) {
+    const shorter = value.slice(0, Math.ceil(value.length / 2));
+    if (!(await reproduces({ ...current, [field]: shorter }))) break;
+    value = shorter;
+    current = { ...current, [field]: shorter };
+  }
+
+  return current;
+}
+
+// ====================
+// Regressions
+// ====================
+
+/**
+ * Regressions directory from fuzzConfig (false when saving is off)
+ */
+export function defaultRegressionsDir(): string | false {
+  return fuzzConfig.saveRegressions ? fuzzConfig.regressionsDir : false;
+}
+
+/**
+ * Regressions file of a target: <dir>/<target>.json
+ */
+export function regressionsFile(dir: string, target: string): string {
+  return path.join(dir, `${target}.json`);
+}
+
+/**
+ * All saved regressions (none if the directory does not exist)
+ *
+ * @param dir - Regressions directory
+ */
+export function loadRegressions(dir: string): FuzzRegression[] {
+  if (!fs.existsSync(dir)) return [];
+  return fs
+    .readdirSync(dir)
+    .filter((file) => file.endsWith(".json"))
+    .sort()
+    .flatMap(
+      (file) =>
+        JSON.parse(fs.readFileSync(path.join(dir, file), "utf-8")) as FuzzRegression[]
+    );
+}
+
+/**
+ * Add a regression to its target's file
+ *
+ * @param dir - Regressions directory
+ * @param regression - Minimized failing input
+ * @returns false if the same input was saved before
+ */
+export function saveRegression(dir: string, regression: FuzzRegression): boolean {
+  const file = regressionsFile(dir, regression.target);
+  const saved: FuzzRegression[] = fs.existsSync(file)
+    ? JSON.parse(fs.readFileSync(file, "utf-8"))
+    : [];
+  if (saved.some((entry) => entry.id === regression.id)) return false;
+
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(file, `${JSON.stringify([...saved, regression], null, 2)}\n`);
+  return true;
+}
+
+function toRegression(
+  variant: FuzzVariant,
+  body: Record<string, unknown>,
+  problem: FuzzProblem
+): FuzzRegression {
+  const id = createHash("sha1")
+    .update(`${variant.target} ${JSON.stringify(body)}`)
+    .digest("hex")
+    .slice(0, 10);
+  return {
+    id,
+    target: variant.target,
+    category: variant.category,
+    field: variant.field,
+    description: variant.description,
+    body,
+    problem: problem.kind,
+    status: problem.status,
+    foundAt: new Date().toISOString(),
+  };
+}
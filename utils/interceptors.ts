@@ -0,0 +1,344 @@
+/**
+ * Interceptors Module
+ *
+ * Before-request / after-response hooks for DmsApiClient, plus the built-in
+ * interceptors every client gets.
+ *
+ * Built-in interceptors:
+ * 1. headerInterceptor     - inject headers into every request
+ * 2. redactionInterceptor  - scrub tokens/passwords from recorded calls
+ * 3. timingInterceptor     - flag slow calls in the HTML report
+ * 4. loggingInterceptor    - print one line per call (DEBUG=true)
+ * 5. transcriptInterceptor - collect a per-test transcript of API calls
+ * 6. trackingInterceptor   - record created IDs for cleanup (utils/cleanup.ts)
+ * 7. contractInterceptor   - record consumer contracts (utils/contracts.ts)
+ *
+ * The transcript is attached to the HTML report by the apiTranscript
+ * fixture in utils/fixtures.ts.
+ */
+
+import { test } from "@playwright/test";
+import { HttpMethod } from "./apiClient";
+import { ApiResult } from "./models";
+import {
+  MultipartFields,
+  isBinaryContent,
+  summarizeMultipart,
+} from "./attachments";
+import { trackingInterceptor } from "./cleanup";
+import { contractInterceptor, defaultContractOptions } from "./contracts";
+
+// ====================
+// Types
+// ====================
+
+/**
+ * Outgoing request as seen by interceptors
+ * beforeRequest hooks may change headers and data in place
+ */
+export interface ApiRequest {
+  method: HttpMethod;
+  endpoint: string;
+  headers: Record<string, string>;
+  data?: unknown;
+
+  // multipart/form-data fields, sent instead of data (file uploads)
+  multipart?: MultipartFields;
+
+  // Tenant name of a tenant-scoped client (endpoint is still unscoped)
+  tenant?: string;
+}
+
+/**
+ * Loggable copy of a call
+ * Holds full bodies; truncation happens when the record is formatted
+ */
+export interface ApiCallRecord {
+  method: HttpMethod;
+  url: string;
+  status: number;
+  durationMs: number;
+  requestHeaders: Record<string, string>;
+  requestBody?: string;
+  responseBody?: string;
+}
+
+/**
+ * Completed exchange passed to afterResponse hooks
+ */
+export interface ApiExchange {
+  request: ApiRequest;
+  result: ApiResult<unknown>;
+  durationMs: number;
+
+  // Recorded copy - redact here, never in request/result
+  record: ApiCallRecord;
+}
+
+/**
+ * Interceptor contract
+ */
+export interface ApiInterceptor {
+  name: string;
+  beforeRequest?(request: ApiRequest): void | Promise<void>;
+  afterResponse?(exchange: ApiExchange): void | Promise<void>;
+}
+
+// ====================
+// Configuration
+// ====================
+
+// Characters of each body kept in transcripts and logs
+const BODY_LIMIT = 500;
+
+// Header names and body keys whose values are never recorded
+const SECRET_HEADERS = ["authorization", "cookie", "set-cookie", "x-api-key"];
+const SECRET_KEY_PATTERN = /pass(word)?|token|secret|api[-_]?key|authorization/i;
+
+const REDACTED = "[REDACTED]";
+
+// ====================
+// Built-in Interceptors
+// ====================
+
+/**
+ * Add headers to every request (existing headers win)
+ *
+ * Usage:
+ * apiClient.use(headerInterceptor({ "X-Test-Run": runId }));
+ */
+export function headerInterceptor(headers: Record<string, string>): ApiInterceptor {
+  return {
+    name: "headers",
+    beforeRequest(request) {
+      request.headers = { ...headers, ...request.headers };
+    },
+  };
+}
+
+/**
+ * Scrub secrets from the recorded copy of each call
+ * Must run before any interceptor that prints or stores records
+ */
+export function redactionInterceptor(): ApiInterceptor {
+  return {
+    name: "redaction",
+    afterResponse({ record }) {
+      for (const name of Object.keys(record.requestHeaders)) {
+        if (SECRET_HEADERS.includes(name.toLowerCase())) {
+          record.requestHeaders[name] = REDACTED;
+        }
+      }
+      record.requestBody = redactText(record.requestBody);
+      record.responseBody = redactText(record.responseBody);
+    },
+  };
+}
+
+/**
+ * Flag calls slower than the threshold as "slow-api-call" annotations
+ *
+ * @param slowThresholdMs - Duration above which a call is flagged
+ */
+export function timingInterceptor(slowThresholdMs = 2000): ApiInterceptor {
+  return {
+    name: "timing",
+    afterResponse({ record }) {
+      if (record.durationMs > slowThresholdMs) {
+        annotate(
+          "slow-api-call",
+          `${record.method} ${record.url} took ${record.durationMs}ms`
+        );
+      }
+    },
+  };
+}
+
+/**
+ * Print one line per call
+ *
+ * @param log - Output function (defaults to console.log)
+ */
+export function loggingInterceptor(
+  log: (line: string) => void = console.log
+): ApiInterceptor {
+  return {
+    name: "logging",
+    afterResponse({ record }) {
+      log(`[api] ${formatRecordLine(record)}`);
+    },
+  };
+}
+
+// Records per running test, keyed by testId (module state = per worker)
+const transcripts = new Map<string, ApiCallRecord[]>();
+
+/**
+ * Collect each call into the transcript of the currently running test
+ * Calls made outside a test (beforeAll/afterAll) are not collected
+ */
+export function transcriptInterceptor(): ApiInterceptor {
+  return {
+    name: "transcript",
+    afterResponse({ record }) {
+      const testId = currentTestId();
+      if (!testId) return;
+
+      const records = transcripts.get(testId) || [];
+      records.push(record);
+      transcripts.set(testId, records);
+    },
+  };
+}
+
+/**
+ * Interceptors every DmsApiClient starts with
+ * Logging is enabled with DEBUG=true, contract recording with
+ * API_CONTRACTS=write
+ */
+export function defaultInterceptors(): ApiInterceptor[] {
+  const interceptors = [
+    redactionInterceptor(),
+    timingInterceptor(),
+    transcriptInterceptor(),
+    trackingInterceptor(),
+  ];
+  if (process.env.DEBUG === "true") {
+    interceptors.push(loggingInterceptor());
+  }
+  if (defaultContractOptions().mode === "write") {
+    interceptors.push(contractInterceptor());
+  }
+  return interceptors;
+}
+
+// ====================
+// Transcript Helpers
+// ====================
+
+/**
+ * Remove and return the transcript collected for a test
+ *
+ * @param testId - Playwright testInfo.testId
+ * @returns Records in call order (empty if no API calls were made)
+ */
+export function takeTranscript(testId: string): ApiCallRecord[] {
+  const records = transcripts.get(testId) || [];
+  transcripts.delete(testId);
+  return records;
+}
+
+/**
+ * Format records as a compact, human-readable transcript
+ *
+ * Example:
+ * #1 POST https://api.example-dms.com/v1/repair-orders → 400 (85ms)
+ *    > {"customerName":"Incomplete Test"}
+ *    < {"error":"vehicleVin is required"}
+ */
+export function formatTranscript(records: ApiCallRecord[]): string {
+  return records
+    .map((record, index) => {
+      const lines = [`#${index + 1} ${formatRecordLine(record)}`];
+      if (record.requestBody) {
+        lines.push(`   > ${truncate(record.requestBody)}`);
+      }
+      if (record.responseBody) {
+        lines.push(`   < ${truncate(record.responseBody)}`);
+      }
+      return lines.join("\n");
+    })
+    .join("\n");
+}
+
+/**
+ * Build the recorded copy of a call (used by DmsApiClient)
+ */
+export function createCallRecord(
+  request: ApiRequest,
+  result: ApiResult<unknown>,
+  durationMs: number
+): ApiCallRecord {
+  return {
+    method: request.method,
+    url: result.response.url(),
+    status: result.status,
+    durationMs,
+    requestHeaders: { ...request.headers },
+    requestBody: request.multipart
+      ? JSON.stringify(summarizeMultipart(request.multipart))
+      : request.data === undefined
+        ? undefined
+        : JSON.stringify(request.data),
+    responseBody: isBinaryContent(result.headers["content-type"])
+      ? `(binary ${result.headers["content-type"]} body)`
+      : result.text || undefined,
+  };
+}
+
+// ====================
+// Redaction & Formatting
+// ====================
+
+/**
+ * Replace values of secret-looking keys in a JSON value
+ */
+export function redactSecrets(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redactSecrets);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        SECRET_KEY_PATTERN.test(key) ? REDACTED : redactSecrets(item),
+      ])
+    );
+  }
+  return value;
+}
+
+/**
+ * Redact a body string (JSON-aware, regex fallback for other text)
+ */
+export function redactText(text: string | undefined): string | undefined {
+  if (!text) return text;
+
+  try {
+    return JSON.stringify(redactSecrets(JSON.parse(text)));
+  } catch {
+    return text.replace(
+      /("[^"]*(?:pass(?:word)?|token|secret|api[-_]?key)[^"]*"\s*:\s*)"[^"]*"/gi,
+      `$1"${REDACTED}"`
+    );
+  }
+}
+
+/**
+ * Shorten a body for display
+ */
+export function truncate(text: string, limit = BODY_LIMIT): string {
+  return text.length > limit
+    ? `${text.slice(0, limit)}… (${text.length - limit} more chars)`
+    : text;
+}
+
+function formatRecordLine(record: ApiCallRecord): string {
+  return `${record.method} ${record.url} → ${record.status} (${record.durationMs}ms)`;
+}
+
+function currentTestId(): string | null {
+  try {
+    return test.info().testId;
+  } catch {
+    return null;
+  }
+}
+
+function annotate(type: string, description: string): void {
+  try {
+    test.info().annotations.push({ type, description });
+  } catch {
+    // Not inside a running test
+  }
+}
@@ -0,0 +1,651 @@
+/**
+ * Load Testing Module
+ *
+ * Runs a scenario - a weighted mix of API steps such as list, search and
+ * create - with concurrent virtual users through DmsApiClient, and reports
+ * latency percentiles, throughput and error rate per endpoint.
+ *
+ * Why a load runner next to assertResponseTime()?
+ * 1. One timed call says little - percentiles over many calls show the tail
+ * 2. Concurrent users expose locking, pooling and rate-limit problems
+ * 3. Thresholds are declared in config (loadTestConfig in utils/testData.ts),
+ *    so the pass/fail bar is reviewed like any other change
+ *
+ * Latency is measured per HTTP exchange with performance.now() by an
+ * interceptor, so logins, pages and retries each count as a request of
+ * their own endpoint ("GET /repair-orders/{id}").
+ *
+ * Usage:
+ * const report = await runLoad(repairOrderMix(), {
+ *   virtualUsers: 10,
+ *   durationMs: 60_000,
+ *   thresholds: loadTestConfig.thresholds,
+ * });
+ * writeLoadReport(report, testInfo.outputPath("load"));
+ * assertLoadThresholds(report);
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { performance } from "perf_hooks";
+import { DmsApiClient, DmsApiClientOptions } from "./apiClient";
+import { ApiInterceptor, ApiRequest } from "./interceptors";
+import { sleep } from "./retry";
+import {
+  apiTestData,
+  generateOrderNumber,
+  repairOrders,
+} from "./testData";
+
+// ====================
+// Types
+// ====================
+
+/**
+ * Where a step runs
+ */
+export interface LoadStepContext {
+  virtualUser: number; // 0-based
+  iteration: number; // 0-based, per virtual user
+}
+
+/**
+ * One action of a scenario (may make several requests)
+ */
+export interface LoadStep {
+  name: string;
+
+  // Relative share of iterations (default 1)
+  weight?: number;
+
+  run(api: DmsApiClient, context: LoadStepContext): Promise<unknown>;
+}
+
+/**
+ * Named mix of steps
+ */
+export interface LoadScenario {
+  name: string;
+  steps: LoadStep[];
+}
+
+/**
+ * Limits a run is checked against (all optional)
+ */
+export interface LoadLimits {
+  p50Ms?: number;
+  p90Ms?: number;
+  p95Ms?: number;
+  p99Ms?: number;
+  maxMs?: number;
+
+  // Failed share of requests (0.01 = 1%)
+  errorRate?: number;
+
+  minThroughputPerSec?: number;
+}
+
+/**
+ * Limits for all requests, plus per endpoint ("POST /repair-orders")
+ */
+export interface LoadThresholds extends LoadLimits {
+  perEndpoint?: Record<string, LoadLimits>;
+}
+
+/**
+ * Load profile
+ * The run ends when every virtual user has done its iterations or when
+ * the duration is over, whichever comes first
+ */
+export interface LoadOptions {
+  virtualUsers: number;
+  durationMs?: number;
+  iterations?: number; // per virtual user
+
+  // Virtual users start spread over this window
+  rampUpMs: number;
+
+  // Pause between two iterations of one virtual user
+  thinkTimeMs: number;
+
+  thresholds: LoadThresholds;
+
+  // Options for each virtual user's client (interceptors are added to)
+  // Defaults: no retries, no conformance checks - both distort the numbers
+  client: DmsApiClientOptions;
+}
+
+/**
+ * Latency and error statistics of a set of requests
+ */
+export interface LatencyStats {
+  count: number;
+  errors: number;
+  errorRate: number;
+  throughputPerSec: number;
+  minMs: number;
+  meanMs: number;
+  p50Ms: number;
+  p90Ms: number;
+  p95Ms: number;
+  p99Ms: number;
+  maxMs: number;
+}
+
+/**
+ * One measured request
+ */
+export interface LoadSample {
+  endpoint: string;
+  durationMs: number;
+  ok: boolean;
+}
+
+/**
+ * Outcome of a load run
+ */
+export interface LoadReport {
+  scenario: string;
+  startedAt: string;
+  elapsedMs: number;
+  virtualUsers: number;
+  iterations: number;
+
+  overall: LatencyStats;
+  endpoints: Record<string, LatencyStats>;
+
+  // Steps that threw (network errors, failed assertions), by message
+  stepErrors: { step: string; message: string; count: number }[];
+
+  thresholds: LoadThresholds;
+  thresholdFailures: string[];
+  passed: boolean;
+}
+
+// ====================
+// Configuration
+// ====================
+
+const defaultLoadOptions: LoadOptions = {
+  virtualUsers: 1,
+  rampUpMs: 0,
+  thinkTimeMs: 0,
+  thresholds: {},
+  client: {},
+};
+
+// Latency fields checked against LoadLimits of the same name
+const LATENCY_LIMITS = ["p50Ms", "p90Ms", "p95Ms", "p99Ms", "maxMs"] as const;
+
+// ====================
+// Runner
+// ====================
+
+/**
+ * Run a scenario with concurrent virtual users
+ *
+ * Each virtual user has its own client and walks through the weighted step
+ * sequence, starting at a different offset. A step that throws counts as
+ * one failed request of the pseudo-endpoint "step <name>".
+ *
+ * @param scenario - Steps to run
+ * @param options - Load profile (durationMs or iterations is required)
+ * @returns Report with statistics and threshold failures
+ */
+export async function runLoad(
+  scenario: LoadScenario,
+  options: Partial<LoadOptions>
+): Promise<LoadReport> {
+  const resolved: LoadOptions = { ...defaultLoadOptions, ...options };
+  if (resolved.durationMs === undefined && resolved.iterations === undefined) {
+    throw new Error("runLoad needs durationMs or iterations to know when to stop");
+  }
+  if (scenario.steps.length === 0) {
+    throw new Error(`Load scenario "${scenario.name}" has no steps`);
+  }
+
+  const sequence = weightedSequence(scenario.steps);
+  const samples: LoadSample[] = [];
+  const stepErrors = new Map<string, LoadReport["stepErrors"][number]>();
+  let iterations = 0;
+
+  const startedAt = new Date().toISOString();
+  const start = performance.now();
+  const deadline = start + (resolved.durationMs ?? Infinity);
+  const maxIterations = resolved.iterations ?? Infinity;
+
+  const runVirtualUser = async (virtualUser: number): Promise<void> => {
+    await sleep((resolved.rampUpMs * virtualUser) / resolved.virtualUsers);
+
+    const client = new DmsApiClient({
+      conformance: null,
+      retry: { maxAttempts: 1 },
+      ...resolved.client,
+      interceptors: [
+        ...(resolved.client.interceptors || []),
+        latencyInterceptor(samples),
+      ],
+    });
+    await client.init();
+
+    try {
+      for (
+        let iteration = 0;
+        iteration < maxIterations && performance.now() < deadline;
+        iteration++
+      ) {
+        const step = sequence[(virtualUser + iteration) % sequence.length];
+        const stepStart = performance.now();
+        try {
+          await step.run(client, { virtualUser, iteration });
+        } catch (error) {
+          const message = (error as Error).message.split("\n")[0];
+          samples.push({
+            endpoint: `step ${step.name}`,
+            durationMs: performance.now() - stepStart,
+            ok: false,
+          });
+          const key = `${step.name}\n${message}`;
+          const entry = stepErrors.get(key) || { step: step.name, message, count: 0 };
+          entry.count++;
+          stepErrors.set(key, entry);
+        }
+        iterations++;
+
+        if (resolved.thinkTimeMs > 0) {
+          await sleep(resolved.thinkTimeMs);
+        }
+      }
+    } finally {
+      await client.dispose();
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: resolved.virtualUsers }, (_, index) =>
+      runVirtualUser(index)
+    )
+  );
+  const elapsedMs = performance.now() - start;
+
+  const byEndpoint = new Map<string, LoadSample[]>();
+  for (const sample of samples) {
+    const group = byEndpoint.get(sample.endpoint) || [];
+    group.push(sample);
+    byEndpoint.set(sample.endpoint, group);
+  }
+
+  const report: LoadReport = {
+    scenario: scenario.name,
+    startedAt,
+    elapsedMs: round(elapsedMs),
+    virtualUsers: resolved.virtualUsers,
+    iterations,
+    overall: summarize(samples, elapsedMs),
+    endpoints: Object.fromEntries(
+      [...byEndpoint.keys()]
+        .sort()
+        .map((endpoint) => [
+          endpoint,
+          summarize(byEndpoint.get(endpoint)!, elapsedMs),
+        ])
+    ),
+    stepErrors: [...stepErrors.values()],
+    thresholds: resolved.thresholds,
+    thresholdFailures: [],
+    passed: true,
+  };
+  report.thresholdFailures = evaluateThresholds(report, resolved.thresholds);
+  report.passed = report.thresholdFailures.length === 0;
+  return report;
+}
+
+/**
+ * Measure every exchange of a client into a sample list
+ *
+ * @param samples - Shared list the samples are appended to
+ */
+export function latencyInterceptor(samples: LoadSample[]): ApiInterceptor {
+  // The same request object reaches afterResponse
+  const startTimes = new WeakMap<ApiRequest, number>();
+
+  return {
+    name: "latency",
+    beforeRequest(request) {
+      startTimes.set(request, performance.now());
+    },
+    afterResponse({ request, result, durationMs }) {
+      const startTime = startTimes.get(request);
+      samples.push({
+        endpoint: endpointName(request),
+        durationMs:
+          startTime === undefined ? durationMs : performance.now() - startTime,
+        ok: result.ok,
+      });
+    },
+  };
+}
+
+// ====================
+// Statistics
+// ====================
+
+/**
+ * Statistics of a set of samples
+ *
+ * @param samples - Measured requests
+ * @param elapsedMs - Wall time of the run (for throughput)
+ */
+export function summarize(samples: LoadSample[], elapsedMs: number): LatencyStats {
+  const durations = samples
+    .map((sample) => sample.durationMs)
+    .sort((a, b) => a - b);
+  const errors = samples.filter((sample) => !sample.ok).length;
+  const count = samples.length;
+
+  return {
+    count,
+    errors,
+    errorRate: count === 0 ? 0 : errors / count,
+    throughputPerSec: elapsedMs > 0 ? round((count * 1000) / elapsedMs) : 0,
+    minMs: round(durations[0] ?? 0),
+    meanMs: round(
+      count === 0 ? 0 : durations.reduce((sum, value) => sum + value, 0) / count
+    ),
+    p50Ms: percentile(durations, 50),
+    p90Ms: percentile(durations, 90),
+    p95Ms: percentile(durations, 95),
+    p99Ms: percentile(durations, 99),
+    maxMs: round(durations[count - 1] ?? 0),
+  };
+}
+
+/**
+ * Nearest-rank percentile of sorted values
+ *
+ * @param sorted - Values in ascending order
+ * @param p - Percentile (0-100)
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = Math.max(1, Math.ceil((p / 100) * sorted.length));
+  return round(sorted[Math.min(rank, sorted.length) - 1]);
+}
+
+// ====================
+// Thresholds
+// ====================
+
+/**
+ * Compare a report with thresholds
+ *
+ * @returns One message per exceeded limit (empty when all hold)
+ */
+export function evaluateThresholds(
+  report: Pick<LoadReport, "overall" | "endpoints">,
+  thresholds: LoadThresholds
+): string[] {
+  const { perEndpoint = {}, ...overallLimits } = thresholds;
+  const failures = checkLimits("all requests", report.overall, overallLimits);
+
+  for (const [endpoint, limits] of Object.entries(perEndpoint)) {
+    const stats = report.endpoints[endpoint];
+    if (!stats) {
+      failures.push(`${endpoint}: no requests recorded`);
+      continue;
+    }
+    failures.push(...checkLimits(endpoint, stats, limits));
+  }
+  return failures;
+}
+
+/**
+ * Fail the test when a run exceeded its thresholds
+ *
+ * @throws Error listing every exceeded limit
+ */
+export function assertLoadThresholds(report: LoadReport): void {
+  if (report.passed) return;
+  throw new Error(
+    `Load thresholds failed for scenario "${report.scenario}":\n` +
+      report.thresholdFailures.map((failure) => `  ${failure}`).join("\n")
+  );
+}
+
+function checkLimits(
+  label: string,
+  stats: LatencyStats,
+  limits: LoadLimits
+): string[] {
+  const failures: string[] = [];
+  for (const field of LATENCY_LIMITS) {
+    const limit = limits[field];
+    if (limit !== undefined && stats[field] > limit) {
+      failures.push(
+        `${label}: ${field.replace("Ms", "")} ${stats[field]}ms exceeds ${limit}ms`
+      );
+    }
+  }
+  if (limits.errorRate !== undefined && stats.errorRate > limits.errorRate) {
+    failures.push(
+      `${label}: error rate ${formatRate(stats.errorRate)} exceeds ` +
+        `${formatRate(limits.errorRate)}`
+    );
+  }
+  if (
+    limits.minThroughputPerSec !== undefined &&
+    stats.throughputPerSec < limits.minThroughputPerSec
+  ) {
+    failures.push(
+      `${label}: throughput ${stats.throughputPerSec}/s below ` +
+        `${limits.minThroughputPerSec}/s`
+    );
+  }
+  return failures;
+}
+
+// ====================
+// Reporting
+// ====================
+
+/**
+ * Write the JSON and HTML summary of a run
+ *
+ * @param report - Run to write
+ * @param dir - Output directory (e.g., testInfo.outputPath("load"))
+ * @returns Paths of both files
+ */
+export function writeLoadReport(
+  report: LoadReport,
+  dir: string
+): { json: string; html: string } {
+  fs.mkdirSync(dir, { recursive: true });
+  const json = path.join(dir, "load-report.json");
+  const html = path.join(dir, "load-report.html");
+  fs.writeFileSync(json, `${JSON.stringify(report, null, 2)}\n`);
+  fs.writeFileSync(html, formatLoadReportHtml(report));
+  return { json, html };
+}
+
+/**
+ * One-line-per-endpoint text summary (console / report attachment)
+ *
+ * Example:
+ * Load "repair-order-mix": 5 VUs, 412 requests in 30.0s, 13.7/s, 0.00% errors - PASSED
+ *   GET /repair-orders   n=180 p50=41ms p90=88ms p95=102ms p99=160ms errors=0.00%
+ */
+export function formatLoadReport(report: LoadReport): string {
+  const { overall } = report;
+  const lines = [
+    `Load "${report.scenario}": ${report.virtualUsers} VUs, ` +
+      `${overall.count} requests in ${(report.elapsedMs / 1000).toFixed(1)}s, ` +
+      `${overall.throughputPerSec}/s, ${formatRate(overall.errorRate)} errors - ` +
+      `${report.passed ? "PASSED" : "FAILED"}`,
+  ];
+  const width = Math.max(0, ...Object.keys(report.endpoints).map((name) => name.length));
+  for (const [endpoint, stats] of Object.entries(report.endpoints)) {
+    lines.push(
+      `  ${endpoint.padEnd(width)}  n=${stats.count} p50=${stats.p50Ms}ms ` +
+        `p90=${stats.p90Ms}ms p95=${stats.p95Ms}ms p99=${stats.p99Ms}ms ` +
+        `errors=${formatRate(stats.errorRate)}`
+    );
+  }
+  report.thresholdFailures.forEach((failure) => lines.push(`  FAILED ${failure}`));
+  return lines.join("\n");
+}
+
+function formatLoadReportHtml(report: LoadReport): string {
+  const row = (name: string, stats: LatencyStats) => `
+      <tr>
+        <td>${escapeHtml(name)}</td>
+        <td>${stats.count}</td>
+        <td>${stats.throughputPerSec}</td>
+        <td>${formatRate(stats.errorRate)}</td>
+        <td>${stats.p50Ms}</td>
+        <td>${stats.p90Ms}</td>
+        <td>${stats.p95Ms}</td>
+        <td>${stats.p99Ms}</td>
+        <td>${stats.maxMs}</td>
+      </tr>`;
+  const list = (items: string[]) =>
+    items.length === 0
+      ? "<p>None</p>"
+      : `<ul>${items.map((item) => `<li>${escapeHtml(item)}</li>`).join("")}</ul>`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Load report - ${escapeHtml(report.scenario)}</title>
+  <style>
+    body { font-family: sans-serif; margin: 2rem; }
+    table { border-collapse: collapse; }
+    th, td { border: 1px solid #ccc; padding: 0.3rem 0.6rem; text-align: right; }
+    th:first-child, td:first-child { text-align: left; }
+    .passed { color: #1a7f37; }
+    .failed { color: #cf222e; }
+  </style>
+</head>
+<body>
+  <h1>Load report - ${escapeHtml(report.scenario)}</h1>
+  <p class="${report.passed ? "passed" : "failed"}">
+    ${report.passed ? "PASSED" : "FAILED"} - ${report.virtualUsers} virtual users,
+    ${report.iterations} iterations, ${(report.elapsedMs / 1000).toFixed(1)}s,
+    started ${escapeHtml(report.startedAt)}
+  </p>
+  <table>
+    <thead>
+      <tr>
+        <th>Endpoint</th><th>Requests</th><th>Req/s</th><th>Errors</th>
+        <th>p50 ms</th><th>p90 ms</th><th>p95 ms</th><th>p99 ms</th><th>Max ms</th>
+      </tr>
+    </thead>
+    <tbody>${Object.entries(report.endpoints)
+      .map(([endpoint, stats]) => row(endpoint, stats))
+      .join("")}
+    </tbody>
+    <tfoot>${row("All requests", report.overall)}
+    </tfoot>
+  </table>
+  <h2>Threshold failures</h2>
+  ${list(report.thresholdFailures)}
+  <h2>Step errors</h2>
+  ${list(report.stepErrors.map(({ step, message, count }) => `${step} (${count}x): ${message}`))}
+</body>
+</html>
+`;
+}
+
+// ====================
+// Scenarios
+// ====================
+
+/**
+ * Typical service-desk traffic: mostly listing and searching repair
+ * orders, some lookups and an occasional new order
+ */
+export function repairOrderMix(): LoadScenario {
+  return {
+    name: "repair-order-mix",
+    steps: [
+      {
+        name: "list",
+        weight: 3,
+        run: (api) => api.getRepairOrders(),
+      },
+      {
+        name: "search",
+        weight: 2,
+        run: (api) =>
+          api.searchRepairOrders({
+            customerName: repairOrders.searchFilters.customerName,
+          }),
+      },
+      {
+        name: "get",
+        weight: 2,
+        run: (api) =>
+          api.getRepairOrderById(repairOrders.existingOrder.orderNumber),
+      },
+      {
+        name: "create",
+        weight: 1,
+        run: (api) =>
+          api.createRepairOrder({
+            ...apiTestData.createRepairOrderPayload,
+            orderNumber: generateOrderNumber(),
+          }),
+      },
+    ],
+  };
+}
+
+// ====================
+// Internal Helpers
+// ====================
+
+/**
+ * Steps repeated by weight, interleaved: [a, b, c, a, b, a] rather than
+ * [a, a, a, b, b, c], so short runs still see the whole mix
+ */
+function weightedSequence(steps: LoadStep[]): LoadStep[] {
+  const remaining = steps.map((step) => Math.max(1, Math.round(step.weight ?? 1)));
+  const sequence: LoadStep[] = [];
+  while (remaining.some((count) => count > 0)) {
+    steps.forEach((step, index) => {
+      if (remaining[index] > 0) {
+        sequence.push(step);
+        remaining[index]--;
+      }
+    });
+  }
+  return sequence;
+}
+
+/**
+ * "GET /repair-orders/{id}" - IDs (segments with digits) and queries dropped
+ */
+function endpointName(request: ApiRequest): string {
+  const templated = request.endpoint
+    .split("?")[0]
+    .split("/")
+    .map((segment) => (/\d/.test(segment) ? "{id}" : segment))
+    .join("/");
+  return `${request.method} ${templated}`;
+}
+
+function formatRate(rate: number): string {
+  return `${(rate * 100).toFixed(2)}%`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
@@ -0,0 +1,360 @@
+/**
+ * Matchers Module
+ *
+ * Deep, pattern-based comparison of response bodies against expected data,
+ * used by assertResponseContains in utils/apiClient.ts.
+ *
+ * Why not compare with !==?
+ * 1. Bodies are nested - customer.address, lineItems[2].price
+ * 2. Servers disagree on details that don't matter to a test: array order,
+ *    money as "125.00" vs 125, generated IDs and timestamps
+ * 3. Every mismatch is reported with its path, not just the first one
+ *
+ * Expected data rules:
+ * 1. Objects match partially - keys not in the expected data are ignored
+ *    (strict: true also rejects extra keys)
+ * 2. Keys with dots or brackets are paths: { "vehicle.vin": anyVin() }
+ * 3. Arrays match by containment in any order - every expected element
+ *    needs its own matching actual element (strict: same length and order)
+ * 4. RegExp values match strings, matchers (anyString(), closeTo(), ...)
+ *    match by their own rule
+ * 5. Numbers and numeric strings compare by value ("125.00" equals 125)
+ *
+ * Usage:
+ * assertResponseContains(order, {
+ *   "vehicle.vin": anyVin(),
+ *   status: /^(Pending|In Progress)$/,
+ *   actualCost: closeTo(125, 0.01),
+ *   lineItems: [{ description: "Oil filter" }],
+ *   createdAt: anyIsoDate(),
+ * });
+ */
+
+import { DiffEntry } from "./errors";
+import { formats } from "./schemaValidator";
+
+// ====================
+// Types
+// ====================
+
+/**
+ * Comparison options
+ */
+export interface MatchOptions {
+  // Reject extra object keys and compare arrays by length and order
+  strict?: boolean;
+
+  // Paths never compared, with [*] for any index
+  // A plain key ("updatedAt") is ignored at any depth
+  ignore?: string[];
+}
+
+/**
+ * Expected value for an actual value of type V
+ */
+export type ExpectedValue<V> =
+  | ValueMatcher
+  | (V extends readonly (infer E)[]
+      ? ExpectedValue<E>[]
+      : V extends object
+        ? ExpectedShape<V>
+        : V | RegExp | string | number);
+
+/**
+ * Expected data for a body of type T (partial, nested, with matchers)
+ */
+export type ExpectedShape<T> = {
+  [K in keyof T]?: ExpectedValue<T[K]>;
+} & Record<string, unknown>;
+
+// ====================
+// Matchers
+// ====================
+
+/**
+ * A named rule an actual value must satisfy
+ */
+export class ValueMatcher {
+  readonly description: string;
+  private readonly test: (actual: unknown) => boolean;
+
+  constructor(description: string, test: (actual: unknown) => boolean) {
+    this.description = description;
+    this.test = test;
+  }
+
+  matches(actual: unknown): boolean {
+    return this.test(actual);
+  }
+
+  toString(): string {
+    return `<${this.description}>`;
+  }
+}
+
+/**
+ * Any value except undefined (the key must be present)
+ */
+export function anyValue(): ValueMatcher {
+  return new ValueMatcher("any value", (actual) => actual !== undefined);
+}
+
+/**
+ * Any string (optionally non-empty only)
+ */
+export function anyString({ nonEmpty = false } = {}): ValueMatcher {
+  return new ValueMatcher(
+    nonEmpty ? "any non-empty string" : "any string",
+    (actual) => typeof actual === "string" && (!nonEmpty || actual.length > 0)
+  );
+}
+
+/**
+ * Any finite number
+ */
+export function anyNumber(): ValueMatcher {
+  return new ValueMatcher(
+    "any number",
+    (actual) => typeof actual === "number" && Number.isFinite(actual)
+  );
+}
+
+/**
+ * Any ISO 8601 date (2024-06-15) or timestamp (2024-06-15T14:00:00Z)
+ */
+export function anyIsoDate(): ValueMatcher {
+  return new ValueMatcher(
+    "any ISO date",
+    (actual) => formats.date(actual) || formats["date-time"](actual)
+  );
+}
+
+/**
+ * Any well-formed VIN (17 characters, no I, O or Q)
+ */
+export function anyVin(): ValueMatcher {
+  return new ValueMatcher("any VIN", (actual) => formats.vin(actual));
+}
+
+/**
+ * A string matching a pattern (same as passing the RegExp directly)
+ */
+export function matching(pattern: RegExp): ValueMatcher {
+  return new ValueMatcher(
+    `string matching ${pattern}`,
+    (actual) => typeof actual === "string" && pattern.test(actual)
+  );
+}
+
+/**
+ * A number (or numeric string) within a tolerance - for money and rates
+ *
+ * @param expected - Expected amount
+ * @param tolerance - Largest accepted difference (default: half a cent)
+ */
+export function closeTo(expected: number, tolerance = 0.005): ValueMatcher {
+  return new ValueMatcher(`${expected} ± ${tolerance}`, (actual) => {
+    const value = toNumber(actual);
+    return value !== null && Math.abs(value - expected) <= tolerance + 1e-9;
+  });
+}
+
+// ====================
+// Matching Engine
+// ====================
+
+/**
+ * Compare an actual value with expected data
+ *
+ * @param actual - Parsed response body (or any value)
+ * @param expected - Expected data (see module rules)
+ * @param options - Strictness and ignored paths
+ * @returns One entry per mismatch (empty when everything matches)
+ */
+export function matchDeep(
+  actual: unknown,
+  expected: unknown,
+  options: MatchOptions = {}
+): DiffEntry[] {
+  return compare(actual, expected, "", options);
+}
+
+function compare(
+  actual: unknown,
+  expected: unknown,
+  path: string,
+  options: MatchOptions
+): DiffEntry[] {
+  if (isIgnored(path, options)) return [];
+
+  const mismatch = [{ path: path || "(root)", expected, actual }];
+
+  if (expected instanceof ValueMatcher) {
+    return expected.matches(actual) ? [] : mismatch;
+  }
+  if (expected instanceof RegExp) {
+    return typeof actual === "string" && expected.test(actual) ? [] : mismatch;
+  }
+  if (Array.isArray(expected)) {
+    if (!Array.isArray(actual)) return mismatch;
+    return options.strict
+      ? compareArraysInOrder(actual, expected, path, options)
+      : compareArrayContainment(actual, expected, path, options);
+  }
+  if (isPlainObject(expected)) {
+    if (!isPlainObject(actual)) return mismatch;
+    return compareObjects(actual, expected, path, options);
+  }
+
+  return valuesEqual(actual, expected) ? [] : mismatch;
+}
+
+function compareObjects(
+  actual: Record<string, unknown>,
+  expected: Record<string, unknown>,
+  path: string,
+  options: MatchOptions
+): DiffEntry[] {
+  const diff: DiffEntry[] = [];
+
+  for (const [key, expectedValue] of Object.entries(expected)) {
+    // "vehicle.vin" / "lineItems[0].price" - resolved from here, unless the
+    // body really has a key with that name
+    if (!(key in actual) && /[.[]/.test(key)) {
+      diff.push(
+        ...compare(resolvePath(actual, key), expectedValue, joinPath(path, key), options)
+      );
+      continue;
+    }
+    diff.push(...compare(actual[key], expectedValue, joinPath(path, key), options));
+  }
+
+  if (options.strict) {
+    const expectedKeys = Object.keys(expected);
+    for (const key of Object.keys(actual)) {
+      const keyPath = joinPath(path, key);
+      const coveredByPath = expectedKeys.some(
+        (expectedKey) =>
+          expectedKey.startsWith(`${key}.`) || expectedKey.startsWith(`${key}[`)
+      );
+      if (!(key in expected) && !coveredByPath && !isIgnored(keyPath, options)) {
+        diff.push({ path: keyPath, expected: undefined, actual: actual[key] });
+      }
+    }
+  }
+  return diff;
+}
+
+function compareArraysInOrder(
+  actual: unknown[],
+  expected: unknown[],
+  path: string,
+  options: MatchOptions
+): DiffEntry[] {
+  const diff: DiffEntry[] = [];
+  if (actual.length !== expected.length) {
+    diff.push({
+      path: `${path || "(root)"}.length`,
+      expected: expected.length,
+      actual: actual.length,
+    });
+  }
+  expected.forEach((item, index) => {
+    if (index < actual.length) {
+      diff.push(...compare(actual[index], item, `${path}[${index}]`, options));
+    }
+  });
+  return diff;
+}
+
+/**
+ * Every expected element needs its own matching actual element
+ * (first fit - fine for the small arrays found in API bodies)
+ */
+function compareArrayContainment(
+  actual: unknown[],
+  expected: unknown[],
+  path: string,
+  options: MatchOptions
+): DiffEntry[] {
+  const used = new Set<number>();
+  const diff: DiffEntry[] = [];
+
+  expected.forEach((item, expectedIndex) => {
+    const match = actual.findIndex(
+      (candidate, index) =>
+        !used.has(index) &&
+        compare(candidate, item, `${path}[${index}]`, options).length === 0
+    );
+    if (match !== -1) {
+      used.add(match);
+      return;
+    }
+
+    diff.push({
+      path: `${path}[${expectedIndex}] (any order)`,
+      expected: item,
+      actual: `no matching element among ${actual.length}`,
+    });
+  });
+  return diff;
+}
+
+// ====================
+// Internal Helpers
+// ====================
+
+function valuesEqual(actual: unknown, expected: unknown): boolean {
+  if (Object.is(actual, expected)) return true;
+
+  // "125.00" vs 125 - compare by value
+  if (typeof actual === "number" || typeof expected === "number") {
+    const left = toNumber(actual);
+    const right = toNumber(expected);
+    return left !== null && right !== null && left === right;
+  }
+  return false;
+}
+
+/**
+ * Number from a number or numeric string, null otherwise
+ */
+function toNumber(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value === "string" && /^\s*-?\d+(\.\d+)?\s*$/.test(value)) {
+    return Number(value);
+  }
+  return null;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Read "a.b[2].c" from an object (undefined when any step is missing)
+ */
+function resolvePath(value: unknown, path: string): unknown {
+  const steps = path.match(/[^.[\]]+/g) || [];
+  return steps.reduce<unknown>(
+    (current, step) =>
+      current !== null && typeof current === "object"
+        ? (current as Record<string, unknown>)[step]
+        : undefined,
+    value
+  );
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function isIgnored(path: string, options: MatchOptions): boolean {
+  if (!path || !options.ignore) return false;
+
+  const generic = path.replace(/\[\d+\]/g, "[*]");
+  const lastKey = path.split(/[.[]/).pop();
+  return options.ignore.some((pattern) =>
+    /[.[]/.test(pattern) ? pattern === generic : pattern === lastKey
+  );
+}
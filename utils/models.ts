@@ -0,0 +1,280 @@
+/**
+ * Domain Models Module
+ *
+ * TypeScript interfaces for the resources exchanged with the DMS API.
+ *
+ * Why type the API?
+ * 1. A renamed or removed field breaks the build instead of a test at runtime
+ * 2. Editors autocomplete response bodies (body.orderNumber vs body["orderNumber"])
+ * 3. Payload typos are caught before a request is ever sent
+ */
+
+import { APIResponse } from "@playwright/test";
+import { appointments, repairOrders } from "./testData";
+
+// ====================
+// Repair Orders
+// ====================
+
+/**
+ * Repair order status values (derived from testData.repairOrders.statuses)
+ */
+export type RepairOrderStatus = (typeof repairOrders.statuses)[number];
+
+/**
+ * Repair order as returned by the API
+ */
+export interface RepairOrder {
+  id: string;
+  orderNumber: string;
+  customerName: string;
+  vehicleVin: string;
+  status: RepairOrderStatus;
+  serviceType?: string;
+  priority?: string;
+  vehicleMake?: string;
+  vehicleModel?: string;
+  vehicleYear?: string;
+  description?: string;
+  notes?: string;
+  completionNotes?: string;
+  estimatedCost?: string;
+  actualCost?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+/**
+ * Payload for POST /repair-orders
+ */
+export interface CreateRepairOrderPayload {
+  customerName: string;
+  vehicleVin: string;
+  serviceType?: string;
+  orderNumber?: string;
+  priority?: string;
+  vehicleMake?: string;
+  vehicleModel?: string;
+  vehicleYear?: string;
+  description?: string;
+  notes?: string;
+  estimatedCost?: string;
+}
+
+/**
+ * Payload for PATCH /repair-orders/{id} (all fields optional)
+ */
+export interface UpdateRepairOrderPayload {
+  status?: RepairOrderStatus;
+  customerName?: string;
+  vehicleVin?: string;
+  serviceType?: string;
+  priority?: string;
+  description?: string;
+  notes?: string;
+  completionNotes?: string;
+  estimatedCost?: string;
+  actualCost?: string;
+}
+
+// ====================
+// Attachments
+// ====================
+
+/**
+ * Document attached to a repair order (inspection photo, signed
+ * authorization, PDF estimate), as returned by the API
+ */
+export interface Attachment {
+  id: string;
+  fileName: string;
+  contentType: string;
+
+  // Size in bytes
+  size: number;
+
+  // Hex SHA-256 of the stored content
+  checksum: string;
+  uploadedAt: string;
+}
+
+/**
+ * File sent to POST /repair-orders/{id}/attachments
+ * Same shape Playwright accepts for multipart and file inputs
+ */
+export interface AttachmentFile {
+  name: string;
+  mimeType: string;
+  buffer: Buffer;
+}
+
+// ====================
+// Appointments
+// ====================
+
+/**
+ * Service types (derived from testData.appointments.serviceTypes)
+ */
+export type ServiceType = (typeof appointments.serviceTypes)[number];
+
+/**
+ * Appointment as returned by the API
+ */
+export interface Appointment {
+  id: string;
+  appointmentId?: string;
+  customerName: string;
+  phoneNumber?: string;
+  email?: string;
+  serviceType: string;
+  vehicleVin?: string;
+  scheduledDate: string;
+  scheduledTime: string;
+  status?: string;
+  notes?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+/**
+ * Payload for POST /appointments
+ */
+export interface CreateAppointmentPayload {
+  customerName: string;
+  phoneNumber: string;
+  email: string;
+  serviceType: string;
+  vehicleVin: string;
+  scheduledDate: string;
+  scheduledTime: string;
+  notes?: string;
+}
+
+/**
+ * Payload for PATCH /appointments/{id} (all fields optional)
+ */
+export type UpdateAppointmentPayload = Partial<CreateAppointmentPayload>;
+
+// ====================
+// Webhooks
+// ====================
+
+/**
+ * Events the DMS sends to registered webhooks
+ */
+export type WebhookEventType =
+  | "repair_order.created"
+  | "repair_order.status_changed"
+  | "repair_order.deleted"
+  | "appointment.booked"
+  | "appointment.cancelled";
+
+/**
+ * Webhook registration as returned by the API (the secret is never returned)
+ */
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  events: WebhookEventType[];
+  createdAt: string;
+}
+
+/**
+ * Payload for POST /webhooks
+ */
+export interface RegisterWebhookPayload {
+  url: string;
+  events: WebhookEventType[];
+
+  // Shared secret the DMS signs deliveries with
+  secret: string;
+}
+
+/**
+ * Body of a webhook delivery
+ *
+ * data per type:
+ * - repair_order.created / deleted: { order }
+ * - repair_order.status_changed: { orderId, previousStatus, status, order }
+ * - appointment.booked / cancelled: { appointment }
+ */
+export interface WebhookEvent<T = Record<string, unknown>> {
+  id: string;
+  type: WebhookEventType;
+  createdAt: string;
+  data: T;
+}
+
+// ====================
+// Authentication
+// ====================
+
+/**
+ * Response body of POST /auth/login
+ */
+export interface AuthToken {
+  token: string;
+  tokenType?: string;
+  expiresIn?: number;
+  refreshToken?: string;
+}
+
+/**
+ * Response body of GET /auth/validate
+ */
+export interface TokenValidation {
+  valid: boolean;
+  username?: string;
+  expiresAt?: string;
+}
+
+// ====================
+// Errors & Responses
+// ====================
+
+/**
+ * Standard error envelope returned for 4xx/5xx responses
+ *
+ * Example:
+ * { "error": "Repair order not found", "code": "NOT_FOUND" }
+ */
+export interface ApiError {
+  error: string;
+  code?: string;
+  details?: unknown;
+}
+
+/**
+ * Typed result of a DmsApiClient call
+ *
+ * Carries the parsed body alongside the raw Playwright response, so tests
+ * can use typed fields and still reach the original APIResponse if needed.
+ */
+export interface ApiResult<T> {
+  // HTTP status code (e.g., 200, 404)
+  status: number;
+
+  // true for 2xx status codes
+  ok: boolean;
+
+  // Response headers (lower-cased names)
+  headers: Record<string, string>;
+
+  // Parsed JSON body (undefined for empty bodies such as 204)
+  body: T;
+
+  // Error envelope, populated only when the response is not 2xx
+  error: ApiError | null;
+
+  // Raw response text (useful for non-JSON payloads and debugging)
+  text: string;
+
+  // Request that produced this response (for failure messages)
+  request: { method: string; url: string };
+
+  // Round-trip time of the final attempt in milliseconds
+  durationMs: number;
+
+  // Raw Playwright response
+  response: APIResponse;
+}
@@ -0,0 +1,446 @@
+/**
+ * OpenAPI Conformance Module
+ *
+ * Loads the committed OpenAPI 3 document (openapi/dms-api.json) and checks
+ * every response that passes through DmsApiClient against it.
+ *
+ * What gets checked:
+ * 1. The path and method are documented
+ * 2. The status code is declared for that operation
+ * 3. The JSON body matches the declared response schema
+ *    (missing required properties, wrong types, undeclared properties)
+ *
+ * Each issue category can be configured as "error" (fails the test),
+ * "warn" (annotation in the HTML report) or "off".
+ */
+
+import { test } from "@playwright/test";
+import * as fs from "fs";
+import { JsonSchema, SchemaType, validateSchema } from "./schemaValidator";
+
+// ====================
+// Types
+// ====================
+
+/**
+ * How an issue category is surfaced
+ */
+export type ConformanceSeverity = "error" | "warn" | "off";
+
+/**
+ * Issue categories reported by the conformance checker
+ */
+export type ConformanceIssueKind =
+  | "undocumentedPath"
+  | "undeclaredStatus"
+  | "schemaMismatch";
+
+/**
+ * Conformance checker configuration
+ */
+export interface ConformanceOptions {
+  // Severity per issue category
+  severity: Record<ConformanceIssueKind, ConformanceSeverity>;
+
+  // Treat properties not declared in the schema as violations
+  rejectAdditionalProperties: boolean;
+}
+
+/**
+ * A single conformance problem found in a response
+ */
+export interface ConformanceIssue {
+  kind: ConformanceIssueKind;
+  severity: ConformanceSeverity;
+  message: string;
+}
+
+/**
+ * Minimal OpenAPI 3 document shape used by the checker
+ */
+interface OpenApiSchema extends Omit<JsonSchema, "properties" | "items" | "additionalProperties"> {
+  $ref?: string;
+  properties?: Record<string, OpenApiSchema>;
+  items?: OpenApiSchema;
+  additionalProperties?: boolean | OpenApiSchema;
+  allOf?: OpenApiSchema[];
+}
+
+interface OpenApiResponse {
+  description?: string;
+  content?: Record<string, { schema?: OpenApiSchema }>;
+}
+
+type SecurityRequirement = Record<string, string[]>;
+
+interface OpenApiOperation {
+  operationId?: string;
+  responses: Record<string, OpenApiResponse>;
+
+  // Overrides the document's security ([] = public)
+  security?: SecurityRequirement[];
+}
+
+export interface OpenApiDocument {
+  openapi: string;
+  paths: Record<string, Record<string, OpenApiOperation | unknown>>;
+  components?: { schemas?: Record<string, OpenApiSchema> };
+  security?: SecurityRequirement[];
+}
+
+/**
+ * A documented operation
+ */
+export interface OperationSummary {
+  method: string;
+
+  // Path template (e.g., "/repair-orders/{orderId}")
+  path: string;
+  operationId?: string;
+
+  // Whether the operation requires credentials
+  secured: boolean;
+}
+
+// ====================
+// Configuration
+// ====================
+
+/**
+ * Default spec location (relative to the project root)
+ * Override with OPENAPI_SPEC, disable entirely with OPENAPI_SPEC=none
+ */
+export const DEFAULT_OPENAPI_SPEC = "openapi/dms-api.json";
+
+/**
+ * Default options
+ *
+ * OPENAPI_CONFORMANCE=error|warn|off overrides every category at once.
+ * Undocumented paths only warn by default: tests legitimately probe
+ * endpoints the backend team hasn't documented yet via the generic helpers.
+ */
+export function defaultConformanceOptions(): ConformanceOptions {
+  const override = parseSeverity(process.env.OPENAPI_CONFORMANCE);
+
+  return {
+    severity: {
+      undocumentedPath: override || "warn",
+      undeclaredStatus: override || "error",
+      schemaMismatch: override || "error",
+    },
+    rejectAdditionalProperties: true,
+  };
+}
+
+// ====================
+// Conformance Checker
+// ====================
+
+/**
+ * Checks responses against an OpenAPI document
+ *
+ * Usage:
+ * const checker = OpenApiConformance.fromFile("openapi/dms-api.json");
+ * const issues = checker.check("GET", "/repair-orders", 200, body);
+ */
+export class OpenApiConformance {
+  private readonly document: OpenApiDocument;
+  private readonly options: ConformanceOptions;
+
+  // Path templates compiled once (e.g., /repair-orders/{orderId} → regex)
+  private readonly routes: { template: string; pattern: RegExp }[];
+
+  constructor(document: OpenApiDocument, options = defaultConformanceOptions()) {
+    this.document = document;
+    this.options = options;
+    this.routes = Object.keys(document.paths)
+      .map((template) => ({ template, pattern: compilePathTemplate(template) }))
+      // Literal segments win over parameters (/repair-orders/search vs /{id})
+      .sort((a, b) => countParams(a.template) - countParams(b.template));
+  }
+
+  /**
+   * Load a checker from a JSON OpenAPI document on disk
+   *
+   * @param specPath - Path to the OpenAPI JSON file
+   * @param options - Optional conformance options
+   */
+  static fromFile(
+    specPath: string,
+    options?: ConformanceOptions
+  ): OpenApiConformance {
+    const document = JSON.parse(fs.readFileSync(specPath, "utf-8"));
+    return new OpenApiConformance(document, options);
+  }
+
+  /**
+   * Every operation in the document, in document order
+   */
+  operations(): OperationSummary[] {
+    const methods = ["get", "post", "put", "patch", "delete"];
+    return Object.entries(this.document.paths).flatMap(([path, item]) =>
+      Object.entries(item)
+        .filter(([method]) => methods.includes(method))
+        .map(([method, entry]) => {
+          const operation = entry as OpenApiOperation;
+          const security = operation.security ?? this.document.security ?? [];
+          return {
+            method: method.toUpperCase(),
+            path,
+            operationId: operation.operationId,
+            secured: security.length > 0,
+          };
+        })
+    );
+  }
+
+  /**
+   * Check a single response
+   *
+   * @param method - HTTP method (GET, POST, ...)
+   * @param endpoint - Request path relative to baseURL (query string allowed)
+   * @param status - Response status code
+   * @param body - Parsed JSON body (undefined when empty)
+   * @returns Issues found (severity "off" issues are omitted)
+   */
+  check(
+    method: string,
+    endpoint: string,
+    status: number,
+    body: unknown
+  ): ConformanceIssue[] {
+    const issues: ConformanceIssue[] = [];
+    const path = endpoint.split("?")[0];
+    const label = `${method.toUpperCase()} ${path}`;
+
+    const route = this.routes.find((candidate) => candidate.pattern.test(path));
+    const operation = route
+      ? (this.document.paths[route.template][method.toLowerCase()] as
+          | OpenApiOperation
+          | undefined)
+      : undefined;
+
+    if (!route || !operation) {
+      this.addIssue(
+        issues,
+        "undocumentedPath",
+        `${label} is not documented in the OpenAPI spec`
+      );
+      return issues;
+    }
+
+    const declared = findResponse(operation.responses, status);
+    if (!declared) {
+      this.addIssue(
+        issues,
+        "undeclaredStatus",
+        `${label} returned ${status}, declared: ${Object.keys(
+          operation.responses
+        ).join(", ")}`
+      );
+      return issues;
+    }
+
+    const schema = declared.content?.["application/json"]?.schema;
+    if (schema && body !== undefined) {
+      const violations = validateSchema(body, this.resolve(schema));
+      for (const violation of violations) {
+        this.addIssue(
+          issues,
+          "schemaMismatch",
+          `${label} (${status}) ${violation.path}: ${violation.message}`
+        );
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Resolve $ref/allOf into a plain JsonSchema the validator understands
+   * In strict mode, object schemas without additionalProperties reject extras
+   */
+  private resolve(schema: OpenApiSchema, depth = 0): JsonSchema {
+    if (depth > 32) {
+      throw new Error("OpenAPI schema nesting too deep (circular $ref?)");
+    }
+
+    if (schema.$ref) {
+      return this.resolve(this.lookupRef(schema.$ref), depth + 1);
+    }
+
+    const { $ref, allOf, properties, items, additionalProperties, ...rest } =
+      schema;
+    const resolved: JsonSchema = { ...rest };
+
+    if (allOf) {
+      // Merge object members - enough for the "extends" pattern
+      const parts = allOf.map((part) => this.resolve(part, depth + 1));
+      resolved.type = resolved.type || parts.find((part) => part.type)?.type;
+      resolved.required = parts.flatMap((part) => part.required || []);
+      resolved.properties = Object.assign(
+        {},
+        ...parts.map((part) => part.properties || {})
+      );
+    }
+
+    if (properties) {
+      resolved.properties = {
+        ...resolved.properties,
+        ...Object.fromEntries(
+          Object.entries(properties).map(([key, value]) => [
+            key,
+            this.resolve(value, depth + 1),
+          ])
+        ),
+      };
+    }
+
+    if (items) {
+      resolved.items = this.resolve(items, depth + 1);
+    }
+
+    if (typeof additionalProperties === "object") {
+      resolved.additionalProperties = this.resolve(additionalProperties, depth + 1);
+    } else if (additionalProperties !== undefined) {
+      resolved.additionalProperties = additionalProperties;
+    } else if (
+      this.options.rejectAdditionalProperties &&
+      includesType(resolved.type, "object") &&
+      resolved.properties
+    ) {
+      resolved.additionalProperties = false;
+    }
+
+    return resolved;
+  }
+
+  private lookupRef(ref: string): OpenApiSchema {
+    const name = ref.replace("#/components/schemas/", "");
+    const schema = this.document.components?.schemas?.[name];
+    if (!schema) {
+      throw new Error(`Unresolvable $ref in OpenAPI spec: ${ref}`);
+    }
+    return schema;
+  }
+
+  private addIssue(
+    issues: ConformanceIssue[],
+    kind: ConformanceIssueKind,
+    message: string
+  ): void {
+    const severity = this.options.severity[kind];
+    if (severity !== "off") {
+      issues.push({ kind, severity, message });
+    }
+  }
+}
+
+// ====================
+// Shared Checker & Reporting
+// ====================
+
+// One checker per worker process (the spec is parsed once)
+let sharedChecker: OpenApiConformance | null | undefined;
+
+/**
+ * Get the checker for the configured spec
+ * Returns null when the spec is disabled (OPENAPI_SPEC=none) or missing
+ */
+export function getDefaultConformance(): OpenApiConformance | null {
+  if (sharedChecker === undefined) {
+    const specPath = process.env.OPENAPI_SPEC || DEFAULT_OPENAPI_SPEC;
+    sharedChecker =
+      specPath !== "none" && fs.existsSync(specPath)
+        ? OpenApiConformance.fromFile(specPath)
+        : null;
+  }
+  return sharedChecker;
+}
+
+/**
+ * Surface conformance issues
+ * - "warn" issues become annotations on the running test (HTML report)
+ * - "error" issues throw, failing the test
+ *
+ * @param issues - Issues returned by OpenApiConformance.check()
+ * @throws Error listing every "error" issue
+ */
+export function reportConformanceIssues(issues: ConformanceIssue[]): void {
+  const errors = issues.filter((issue) => issue.severity === "error");
+  const warnings = issues.filter((issue) => issue.severity === "warn");
+
+  for (const warning of warnings) {
+    try {
+      test.info().annotations.push({
+        type: "openapi-warning",
+        description: warning.message,
+      });
+    } catch {
+      // Not inside a running test (e.g., beforeAll) - console only
+      console.warn(`[openapi] ${warning.message}`);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(
+      `Response does not conform to the OpenAPI spec:\n` +
+        errors.map((issue) => `  [${issue.kind}] ${issue.message}`).join("\n")
+    );
+  }
+}
+
+// ====================
+// Internal Helpers
+// ====================
+
+/**
+ * OPENAPI_CONFORMANCE value (unset = per-category defaults)
+ * A typo must not silently turn every check off
+ */
+function parseSeverity(value: string | undefined): ConformanceSeverity | undefined {
+  if (!value) return undefined;
+  if (value !== "error" && value !== "warn" && value !== "off") {
+    throw new Error(
+      `Unknown OPENAPI_CONFORMANCE "${value}" (expected error, warn or off)`
+    );
+  }
+  return value;
+}
+
+function compilePathTemplate(template: string): RegExp {
+  const escaped = template
+    .split(/(\{[^}]+\})/)
+    .map((segment) =>
+      segment.startsWith("{")
+        ? "[^/]+"
+        : segment.replace(/[.*+?^$()|[\]\\]/g, "\\$&")
+    )
+    .join("");
+  return new RegExp(`^${escaped}/?$`);
+}
+
+function countParams(template: string): number {
+  return (template.match(/\{/g) || []).length;
+}
+
+/**
+ * Find the declared response for a status (exact, then 2XX-style, then default)
+ */
+function findResponse(
+  responses: Record<string, OpenApiResponse>,
+  status: number
+): OpenApiResponse | undefined {
+  return (
+    responses[String(status)] ||
+    responses[`${String(status)[0]}XX`] ||
+    responses.default
+  );
+}
+
+function includesType(
+  type: SchemaType | SchemaType[] | undefined,
+  expected: SchemaType
+): boolean {
+  return Array.isArray(type) ? type.includes(expected) : type === expected;
+}
@@ -0,0 +1,300 @@
+/**
+ * Pagination Module
+ *
+ * Follows paginated listings page by page, so tests can check every record
+ * instead of assuming the whole dataset arrives in one response.
+ *
+ * Supported styles (configurable per endpoint):
+ * 1. page   - ?page=1&limit=50, ?page=2&limit=50, ...
+ * 2. offset - ?offset=0&limit=50, ?offset=50&limit=50, ...
+ * 3. cursor - ?cursor=<token>&limit=50, next cursor / next link from the response
+ *
+ * Pages may be plain arrays or envelopes ({ data, total, nextCursor, next }).
+ * Totals are read from the envelope or the X-Total-Count header, next links
+ * from the envelope or the Link header (rel="next").
+ */
+
+import { ApiResult } from "./models";
+
+// ====================
+// Types
+// ====================
+
+/**
+ * Pagination style and parameter names for one endpoint
+ */
+export interface PaginationConfig {
+  style: "page" | "offset" | "cursor";
+
+  // Items requested per page
+  pageSize: number;
+
+  // Safety cap - iteration fails instead of looping forever
+  maxPages: number;
+
+  // Query parameter names
+  pageParam: string; // page style
+  offsetParam: string; // offset style
+  cursorParam: string; // cursor style
+  limitParam: string;
+
+  // Number of the first page (page style)
+  firstPage: number;
+}
+
+/**
+ * Endpoints with paginated listings
+ */
+export type PagedEndpoint = "repairOrders" | "appointments";
+
+/**
+ * A single fetched page
+ */
+export interface Page<T> {
+  // 0-based position of this page in the iteration
+  index: number;
+
+  items: T[];
+
+  // Total item count reported by the API (if any)
+  total?: number;
+
+  // Raw result for status/header assertions
+  result: ApiResult<unknown>;
+}
+
+/**
+ * Fetches one page (DmsApiClient.get bound to the client)
+ */
+export type PageFetcher = (endpoint: string) => Promise<ApiResult<unknown>>;
+
+/**
+ * Filters sent with every page (an array repeats the key: status=A&status=B)
+ */
+export type QueryParams = Record<string, string | string[]>;
+
+// ====================
+// Configuration
+// ====================
+
+const basePagination: PaginationConfig = {
+  style: (process.env.API_PAGINATION as PaginationConfig["style"]) || "page",
+  pageSize: 50,
+  maxPages: 100,
+  pageParam: "page",
+  offsetParam: "offset",
+  cursorParam: "cursor",
+  limitParam: "limit",
+  firstPage: 1,
+};
+
+/**
+ * Default pagination per endpoint (API_PAGINATION sets the style for all)
+ */
+export const defaultPagination: Record<PagedEndpoint, PaginationConfig> = {
+  repairOrders: { ...basePagination },
+  appointments: { ...basePagination },
+};
+
+/**
+ * Merge per-endpoint overrides into the defaults
+ */
+export function resolvePagination(
+  overrides: Partial<Record<PagedEndpoint, Partial<PaginationConfig>>> = {}
+): Record<PagedEndpoint, PaginationConfig> {
+  return {
+    repairOrders: { ...defaultPagination.repairOrders, ...overrides.repairOrders },
+    appointments: { ...defaultPagination.appointments, ...overrides.appointments },
+  };
+}
+
+// ====================
+// Iteration
+// ====================
+
+/**
+ * Iterate over every page of a listing
+ *
+ * @param fetchPage - Function performing the GET
+ * @param endpoint - Listing path (e.g., "/repair-orders")
+ * @param config - Pagination config for this endpoint
+ * @param query - Extra query parameters (filters, see utils/searchQuery.ts)
+ * @param baseURL - API base URL, used to turn absolute next links into paths
+ * @throws Error if a page fails or the maxPages cap is exceeded
+ */
+export async function* paginate<T>(
+  fetchPage: PageFetcher,
+  endpoint: string,
+  config: PaginationConfig,
+  query: QueryParams = {},
+  baseURL = ""
+): AsyncGenerator<Page<T>> {
+  let nextUrl: string | null = buildUrl(endpoint, {
+    ...query,
+    ...firstPageParams(config),
+  });
+  let index = 0;
+  let position = 0; // items seen so far (offset style)
+
+  while (nextUrl) {
+    if (index >= config.maxPages) {
+      throw new Error(
+        `Pagination of ${endpoint} exceeded ${config.maxPages} pages ` +
+          `(raise maxPages if the dataset is really this large)`
+      );
+    }
+
+    const result = await fetchPage(nextUrl);
+    if (!result.ok) {
+      throw new Error(
+        `Fetching page ${index + 1} of ${endpoint} failed: ` +
+          `${result.status} ${result.error?.error || result.text}`
+      );
+    }
+
+    const items = extractItems<T>(result.body);
+    yield { index, items, total: extractTotal(result), result };
+
+    index++;
+    position += items.length;
+
+    if (config.style === "cursor") {
+      nextUrl = nextCursorUrl(result, endpoint, query, config, baseURL);
+    } else if (items.length < config.pageSize) {
+      // A short (or empty) page is the last one
+      nextUrl = null;
+    } else {
+      nextUrl = buildUrl(endpoint, {
+        ...query,
+        [config.limitParam]: String(config.pageSize),
+        ...(config.style === "page"
+          ? { [config.pageParam]: String(config.firstPage + index) }
+          : { [config.offsetParam]: String(position) }),
+      });
+    }
+  }
+}
+
+/**
+ * Iterate over every item of a listing (flattens pages)
+ */
+export async function* paginateItems<T>(
+  pages: AsyncGenerator<Page<T>>
+): AsyncGenerator<T> {
+  for await (const page of pages) {
+    yield* page.items;
+  }
+}
+
+/**
+ * Collect every item of an async iterator into an array
+ */
+export async function collectAll<T>(items: AsyncIterable<T>): Promise<T[]> {
+  const collected: T[] = [];
+  for await (const item of items) {
+    collected.push(item);
+  }
+  return collected;
+}
+
+// ====================
+// Internal Helpers
+// ====================
+
+function firstPageParams(config: PaginationConfig): Record<string, string> {
+  const params = { [config.limitParam]: String(config.pageSize) };
+  if (config.style === "page") {
+    params[config.pageParam] = String(config.firstPage);
+  } else if (config.style === "offset") {
+    params[config.offsetParam] = "0";
+  }
+  return params;
+}
+
+function buildUrl(endpoint: string, params: QueryParams): string {
+  const search = new URLSearchParams();
+  for (const [param, value] of Object.entries(params)) {
+    for (const entry of Array.isArray(value) ? value : [value]) {
+      search.append(param, entry);
+    }
+  }
+  const query = search.toString();
+  return query ? `${endpoint}?${query}` : endpoint;
+}
+
+/**
+ * Items of a page: the body itself, or data/items/results of an envelope
+ */
+function extractItems<T>(body: unknown): T[] {
+  if (Array.isArray(body)) return body;
+
+  const envelope = (body || {}) as Record<string, unknown>;
+  const items = envelope.data ?? envelope.items ?? envelope.results;
+  if (!Array.isArray(items)) {
+    throw new Error(
+      "Paginated response is neither an array nor an envelope with data/items/results"
+    );
+  }
+  return items;
+}
+
+function extractTotal(result: ApiResult<unknown>): number | undefined {
+  const envelope = (result.body || {}) as Record<string, unknown>;
+  const total = envelope.total ?? envelope.totalCount ?? result.headers["x-total-count"];
+  return total === undefined ? undefined : Number(total);
+}
+
+/**
+ * Next page URL for cursor style: envelope next link, Link header, or cursor
+ */
+function nextCursorUrl(
+  result: ApiResult<unknown>,
+  endpoint: string,
+  query: QueryParams,
+  config: PaginationConfig,
+  baseURL: string
+): string | null {
+  const envelope = (
+    Array.isArray(result.body) ? {} : result.body || {}
+  ) as Record<string, unknown>;
+
+  const nextLink =
+    (typeof envelope.next === "string" && envelope.next) ||
+    parseNextLink(result.headers["link"]);
+  if (nextLink) {
+    return toRelative(nextLink, baseURL);
+  }
+
+  const cursor = envelope.nextCursor ?? envelope.cursor;
+  if (typeof cursor === "string" && cursor) {
+    return buildUrl(endpoint, {
+      ...query,
+      [config.limitParam]: String(config.pageSize),
+      [config.cursorParam]: cursor,
+    });
+  }
+
+  return null;
+}
+
+/**
+ * Extract the rel="next" URL from an RFC 8288 Link header
+ */
+function parseNextLink(header: string | undefined): string | null {
+  if (!header) return null;
+  const match = header
+    .split(",")
+    .map((part) => part.match(/<([^>]+)>\s*;\s*rel="?next"?/))
+    .find(Boolean);
+  return match ? match[1] : null;
+}
+
+/**
+ * Turn an absolute link under baseURL into a path relative to it
+ */
+function toRelative(link: string, baseURL: string): string {
+  if (baseURL && link.startsWith(baseURL)) {
+    return link.slice(baseURL.replace(/\/$/, "").length) || "/";
+  }
+  return link;
+}
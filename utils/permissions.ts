@@ -0,0 +1,297 @@
+/**
+ * Permissions Module
+ *
+ * Declarative authorization matrix for the repair order, appointment and
+ * webhook APIs, and the generator that turns it into Playwright tests.
+ *
+ * Why a matrix?
+ * 1. RBAC rules live in one readable table instead of scattered tests
+ * 2. Every role x operation cell becomes its own test - a regression
+ *    names the exact role and endpoint that broke
+ * 3. Adding an endpoint or a role extends the whole matrix automatically
+ *
+ * Rules:
+ * 1. Roles listed in allow get the operation's success status
+ *    (GET/PATCH 200, POST 201, DELETE 204)
+ * 2. Every other authenticated role gets 403
+ * 3. anonymous gets 401 (unless explicitly allowed)
+ *
+ * Path parameters ({orderId}, {appointmentId}, {webhookId}) are filled with
+ * a record created as admin for each test; the resources fixture deletes it.
+ *
+ * Usage (tests/authorization.spec.ts):
+ * generatePermissionTests(permissionMatrix);
+ */
+
+import { test, expect } from "./fixtures";
+import { DmsApiClient, HttpMethod } from "./apiClient";
+import { ApiResult } from "./models";
+import { ROLES, Role } from "./roles";
+import {
+  apiTestData,
+  attachmentTestData,
+  generateOrderNumber,
+  sampleWebhookRegistration,
+} from "./testData";
+
+// ====================
+// Types
+// ====================
+
+/**
+ * One operation and the roles allowed to call it
+ */
+export interface PermissionRule {
+  method: HttpMethod;
+
+  // Path template (e.g., "/repair-orders/{orderId}")
+  path: string;
+
+  // Roles that may call it - every other role is denied
+  allow: Role[];
+
+  // Request body for POST/PATCH (built per test, so values stay unique)
+  body?: () => Record<string, unknown>;
+}
+
+/**
+ * One role x operation cell of the matrix
+ */
+export interface PermissionCell {
+  role: Role;
+  rule: PermissionRule;
+  allowed: boolean;
+
+  // Status the API must answer with
+  expectedStatus: number;
+}
+
+// ====================
+// Permission Matrix
+// ====================
+
+const READERS: Role[] = ["admin", "serviceAdvisor", "technician", "readOnly"];
+
+/**
+ * Expected permissions of the DMS API
+ * Keep in sync with the backend's role model
+ */
+export const permissionMatrix: PermissionRule[] = [
+  // Repair Orders - technicians work orders but don't open or delete them
+  { method: "GET", path: "/repair-orders", allow: READERS },
+  { method: "GET", path: "/repair-orders/{orderId}", allow: READERS },
+  {
+    method: "POST",
+    path: "/repair-orders",
+    allow: ["admin", "serviceAdvisor"],
+    body: () => ({
+      ...apiTestData.createRepairOrderPayload,
+      orderNumber: generateOrderNumber(),
+    }),
+  },
+  {
+    method: "PATCH",
+    path: "/repair-orders/{orderId}",
+    allow: ["admin", "serviceAdvisor", "technician"],
+    body: () => ({ notes: "Updated by the permission matrix" }),
+  },
+  { method: "DELETE", path: "/repair-orders/{orderId}", allow: ["admin"] },
+
+  // Appointments - scheduling is the service advisors' job
+  { method: "GET", path: "/appointments", allow: READERS },
+  { method: "GET", path: "/appointments/{appointmentId}", allow: READERS },
+  {
+    method: "POST",
+    path: "/appointments",
+    allow: ["admin", "serviceAdvisor"],
+    body: () => ({ ...apiTestData.createAppointmentPayload }),
+  },
+  {
+    method: "PATCH",
+    path: "/appointments/{appointmentId}",
+    allow: ["admin", "serviceAdvisor"],
+    body: () => ({ notes: "Updated by the permission matrix" }),
+  },
+  {
+    method: "DELETE",
+    path: "/appointments/{appointmentId}",
+    allow: ["admin", "serviceAdvisor"],
+  },
+
+  // Webhooks - integration settings, admins only
+  { method: "GET", path: "/webhooks", allow: ["admin"] },
+  { method: "GET", path: "/webhooks/{webhookId}", allow: ["admin"] },
+  {
+    method: "POST",
+    path: "/webhooks",
+    allow: ["admin"],
+    body: sampleWebhookRegistration,
+  },
+  { method: "DELETE", path: "/webhooks/{webhookId}", allow: ["admin"] },
+];
+
+// ====================
+// Generator
+// ====================
+
+/**
+ * Expand a matrix into one cell per role and operation
+ *
+ * @param matrix - Permission rules
+ * @param roles - Roles to check (defaults to every role)
+ */
+export function permissionCells(
+  matrix: PermissionRule[],
+  roles: readonly Role[] = ROLES
+): PermissionCell[] {
+  return matrix.flatMap((rule) =>
+    roles.map((role) => {
+      const allowed = rule.allow.includes(role);
+      return {
+        role,
+        rule,
+        allowed,
+        expectedStatus: allowed
+          ? SUCCESS_STATUS[rule.method]
+          : role === "anonymous"
+            ? 401
+            : 403,
+      };
+    })
+  );
+}
+
+/**
+ * Declare one Playwright test per matrix cell
+ * Call at the top level of a spec file (or inside a describe block)
+ *
+ * @param matrix - Permission rules
+ * @param roles - Roles to check (defaults to every role)
+ *
+ * Test titles read "PATCH /repair-orders/{orderId} › technician is allowed (200)"
+ */
+export function generatePermissionTests(
+  matrix: PermissionRule[],
+  roles: readonly Role[] = ROLES
+): void {
+  const cells = permissionCells(matrix, roles);
+
+  for (const rule of matrix) {
+    test.describe(`${rule.method} ${rule.path}`, () => {
+      for (const cell of cells.filter((entry) => entry.rule === rule)) {
+        const verdict = cell.allowed ? "is allowed" : "is denied";
+        test(`${cell.role} ${verdict} (${cell.expectedStatus})`, async ({ roleClient }) => {
+          // Arrange - Records for the path parameters, created as admin
+          const admin = await roleClient("admin");
+          const endpoint = await fillPathParameters(rule.path, admin);
+          const api = await roleClient(cell.role);
+
+          // Act
+          const result = await send(api, rule.method, endpoint, rule.body?.());
+
+          // Assert
+          expect(
+            result,
+            `${cell.role} ${rule.method} ${rule.path} should be ${
+              cell.allowed ? "allowed" : "denied"
+            }`
+          ).toHaveStatus(cell.expectedStatus);
+        });
+      }
+    });
+  }
+}
+
+// ====================
+// Path Parameters
+// ====================
+
+/**
+ * Fill a path template with records created for the purpose
+ * (deleted by the resources fixture)
+ *
+ * @param template - Path template (e.g., "/repair-orders/{orderId}")
+ * @param api - Client that creates the records (their owner)
+ * @returns Concrete path (e.g., "/repair-orders/RO-2026-01234")
+ * @throws Error if a parameter has no record factory or a create fails
+ */
+export async function fillPathParameters(
+  template: string,
+  api: DmsApiClient
+): Promise<string> {
+  let path = template;
+  const filled: Record<string, string> = {};
+  for (const [, name] of template.matchAll(/\{(\w+)\}/g)) {
+    const create = PATH_PARAMETERS[name];
+    if (!create) {
+      throw new Error(`No record factory for path parameter {${name}} in ${template}`);
+    }
+    filled[name] = await create(api, filled);
+    path = path.replace(`{${name}}`, encodeURIComponent(filled[name]));
+  }
+  return path;
+}
+
+// ====================
+// Internal Helpers
+// ====================
+
+const SUCCESS_STATUS: Record<HttpMethod, number> = {
+  GET: 200,
+  POST: 201,
+  PATCH: 200,
+  DELETE: 204,
+};
+
+// Creates the record a path parameter refers to and returns its ID
+// Nested records get the parameters filled before them (e.g., orderId)
+const PATH_PARAMETERS: Record<
+  string,
+  (api: DmsApiClient, filled: Record<string, string>) => Promise<string>
+> = {
+  orderId: async (api) =>
+    createdId(
+      await api.createRepairOrder({
+        ...apiTestData.createRepairOrderPayload,
+        orderNumber: generateOrderNumber(),
+      })
+    ),
+  appointmentId: async (api) =>
+    createdId(await api.createAppointment(apiTestData.createAppointmentPayload)),
+  webhookId: async (api) =>
+    createdId(await api.registerWebhook(sampleWebhookRegistration())),
+  attachmentId: async (api, { orderId }) => {
+    if (!orderId) throw new Error("{attachmentId} needs an {orderId} before it");
+    return createdId(
+      await api.uploadAttachment(orderId, attachmentTestData.inspectionPhoto)
+    );
+  },
+};
+
+function createdId(result: ApiResult<{ id: string }>): string {
+  if (result.status !== 201) {
+    throw new Error(
+      `Could not create the record under test: ` +
+        `${result.status} ${result.error?.error || result.text}`
+    );
+  }
+  return result.body.id;
+}
+
+async function send(
+  api: DmsApiClient,
+  method: HttpMethod,
+  endpoint: string,
+  body: Record<string, unknown> = {}
+): Promise<ApiResult<unknown>> {
+  switch (method) {
+    case "GET":
+      return await api.get(endpoint);
+    case "POST":
+      return await api.post(endpoint, body);
+    case "PATCH":
+      return await api.patch(endpoint, body);
+    case "DELETE":
+      return await api.delete(endpoint);
+  }
+}
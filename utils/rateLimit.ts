@@ -0,0 +1,305 @@
+/**
+ * Rate Limit Module
+ *
+ * Keeps DmsApiClient under the DMS API's rate limit when suites run in
+ * parallel, and rides out the 429s that still happen.
+ *
+ * Why client-side rate limiting?
+ * 1. Parallel workers share one API quota - without pacing they burst
+ *    through it and random tests fail with 429
+ * 2. The API says when it will accept requests again (Retry-After,
+ *    X-RateLimit-Remaining/Reset); waiting for that beats blind backoff
+ * 3. Workers are separate processes, so the token bucket lives in a file
+ *    (one per API base URL) guarded by a lock file
+ *
+ * How a request goes through:
+ * 1. acquire() waits while the API has said it is exhausted, then takes a
+ *    token from the bucket (requestsPerSecond, bursts of `burst`)
+ * 2. observe() reads the response headers: Remaining 0 or a 429 blocks
+ *    every worker until the reset / Retry-After time
+ * 3. DmsApiClient retries a 429 up to maxRetries times (any method - a
+ *    throttled request was never processed)
+ *
+ * Usage:
+ * API_RATE_LIMIT_RPS=20 npx playwright test --workers=4
+ * new DmsApiClient({ rateLimit: { requestsPerSecond: 5 } });
+ * new DmsApiClient({ rateLimit: null }); // see the raw 429s
+ */
+
+import { createHash } from "crypto";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { withFileLock } from "./fileLock";
+import { sleep } from "./retry";
+import { rateLimitConfig } from "./testData";
+
+// ====================
+// Types
+// ====================
+
+/**
+ * Rate limit configuration of a client
+ */
+export interface RateLimitPolicy {
+  // Requests per second across all workers (0 = no pacing)
+  requestsPerSecond: number;
+
+  // Requests sent back to back before pacing starts
+  burst: number;
+
+  // Retries of a 429 response
+  maxRetries: number;
+
+  // Longest single wait before sending anyway
+  maxWaitMs: number;
+}
+
+/**
+ * Rate limit headers of a response
+ */
+export interface RateLimitInfo {
+  limit?: number;
+  remaining?: number;
+
+  // Milliseconds until the window resets (X-RateLimit-Reset)
+  resetMs?: number;
+
+  // Milliseconds the API asks to wait (Retry-After)
+  retryAfterMs?: number;
+}
+
+/**
+ * Bucket state shared by the workers (one JSON file per API)
+ */
+interface BucketState {
+  tokens: number;
+  updatedAt: number;
+
+  // No request goes out before this time (epoch ms)
+  blockedUntil: number;
+}
+
+// ====================
+// Defaults
+// ====================
+
+/**
+ * Default policy - API_RATE_LIMIT_* variables override it (see rateLimitConfig)
+ */
+export const defaultRateLimitPolicy: RateLimitPolicy = {
+  requestsPerSecond: rateLimitConfig.requestsPerSecond,
+  burst: rateLimitConfig.burst,
+  maxRetries: rateLimitConfig.maxRetries,
+  maxWaitMs: rateLimitConfig.maxWaitMs,
+};
+
+// X-RateLimit-Reset values above this are epoch seconds, not a delay
+const EPOCH_SECONDS_THRESHOLD = 1_000_000_000;
+
+/**
+ * Merge overrides into the default policy
+ */
+export function resolveRateLimitPolicy(
+  overrides: Partial<RateLimitPolicy> = {}
+): RateLimitPolicy {
+  return { ...defaultRateLimitPolicy, ...overrides };
+}
+
+// ====================
+// Header Parsing
+// ====================
+
+/**
+ * Delay requested by a Retry-After header
+ *
+ * @param value - Seconds ("2") or an HTTP date ("Wed, 21 Oct 2026 07:28:00 GMT")
+ * @param now - Current time (injectable for tests)
+ * @returns Delay in milliseconds, or null when missing or unparseable
+ */
+export function parseRetryAfter(
+  value: string | undefined,
+  now: number = Date.now()
+): number | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.round(Number(trimmed) * 1000);
+  }
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Read the rate limit headers of a response
+ * Accepts X-RateLimit-* and the unprefixed RateLimit-* names; Reset may be
+ * seconds until the reset or an epoch timestamp in seconds
+ *
+ * @param headers - Response headers (any case)
+ * @param now - Current time (injectable for tests)
+ */
+export function parseRateLimitHeaders(
+  headers: Record<string, string>,
+  now: number = Date.now()
+): RateLimitInfo {
+  const lower: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    lower[name.toLowerCase()] = value;
+  }
+  const numberOf = (name: string): number | undefined => {
+    const value = Number(lower[`x-ratelimit-${name}`] ?? lower[`ratelimit-${name}`]);
+    return Number.isFinite(value) ? value : undefined;
+  };
+
+  const info: RateLimitInfo = {};
+  const limit = numberOf("limit");
+  const remaining = numberOf("remaining");
+  const reset = numberOf("reset");
+  const retryAfter = parseRetryAfter(lower["retry-after"], now);
+  if (limit !== undefined) info.limit = limit;
+  if (remaining !== undefined) info.remaining = remaining;
+  if (reset !== undefined) {
+    info.resetMs =
+      reset > EPOCH_SECONDS_THRESHOLD
+        ? Math.max(0, reset * 1000 - now)
+        : Math.round(reset * 1000);
+  }
+  if (retryAfter !== null) info.retryAfterMs = retryAfter;
+  return info;
+}
+
+// ====================
+// Rate Limiter Class
+// ====================
+
+/**
+ * Token bucket shared by every worker that talks to the same API
+ */
+export class RateLimiter {
+  private readonly stateFile: string;
+
+  /**
+   * @param key - What the limit applies to (DmsApiClient uses its base URL)
+   * @param policy - Pacing and retry settings
+   * @param stateDir - Directory of the shared state files
+   */
+  constructor(
+    key: string,
+    readonly policy: RateLimitPolicy = defaultRateLimitPolicy,
+    stateDir: string = os.tmpdir()
+  ) {
+    const hash = createHash("sha1").update(key).digest("hex").slice(0, 12);
+    this.stateFile = path.join(stateDir, `dms-rate-limit-${hash}.json`);
+  }
+
+  /**
+   * Wait until a request may be sent
+   *
+   * @returns Milliseconds waited
+   */
+  async acquire(): Promise<number> {
+    const startedAt = Date.now();
+    for (;;) {
+      // Without pacing there is no bucket to update - only a 429 holds
+      // requests back, so skip the lock and the write
+      const waitMs =
+        this.policy.requestsPerSecond > 0 ? this.takeToken() : this.blockedFor();
+
+      const waited = Date.now() - startedAt;
+      if (waitMs <= 0 || waited >= this.policy.maxWaitMs) {
+        return waited;
+      }
+      await sleep(Math.min(waitMs, this.policy.maxWaitMs - waited));
+    }
+  }
+
+  /**
+   * Learn from a response's rate limit headers
+   * A 429, or a response with no requests remaining, holds back every
+   * worker until the API's Retry-After / reset time
+   *
+   * @param status - Response status
+   * @param headers - Response headers
+   * @returns Delay the API asked for on a 429 (null when not given)
+   */
+  observe(status: number, headers: Record<string, string>): number | null {
+    const now = Date.now();
+    const info = parseRateLimitHeaders(headers, now);
+    const delayMs =
+      status === 429
+        ? info.retryAfterMs ?? info.resetMs ?? null
+        : info.remaining === 0
+          ? info.resetMs ?? null
+          : null;
+
+    if (delayMs !== null && delayMs > 0) {
+      this.update((state) => {
+        state.blockedUntil = Math.max(state.blockedUntil, now + delayMs);
+      });
+    }
+    return status === 429 ? delayMs : null;
+  }
+
+  /**
+   * Forget the shared state (full bucket, nothing blocked)
+   */
+  reset(): void {
+    fs.rmSync(this.stateFile, { force: true });
+  }
+
+  /**
+   * Take a token from the shared bucket
+   *
+   * @returns Milliseconds to wait before trying again (0 = token taken)
+   */
+  private takeToken(): number {
+    let waitMs = 0;
+    this.update((state, now) => {
+      if (state.blockedUntil > now) {
+        waitMs = state.blockedUntil - now;
+        return;
+      }
+      const { requestsPerSecond, burst } = this.policy;
+      state.tokens = Math.min(
+        burst,
+        state.tokens + ((now - state.updatedAt) / 1000) * requestsPerSecond
+      );
+      state.updatedAt = now;
+      if (state.tokens >= 1) {
+        state.tokens -= 1;
+      } else {
+        waitMs = Math.ceil(((1 - state.tokens) * 1000) / requestsPerSecond);
+      }
+    });
+    return waitMs;
+  }
+
+  /**
+   * Milliseconds until a 429 block ends (read without the lock)
+   */
+  private blockedFor(): number {
+    const now = Date.now();
+    return Math.max(0, this.read(now).blockedUntil - now);
+  }
+
+  /**
+   * Read, change and write the shared state under the lock
+   */
+  private update(change: (state: BucketState, now: number) => void): void {
+    withFileLock(`${this.stateFile}.lock`, () => {
+      const now = Date.now();
+      const state = this.read(now);
+      change(state, now);
+      fs.writeFileSync(this.stateFile, JSON.stringify(state));
+    });
+  }
+
+  private read(now: number): BucketState {
+    try {
+      return JSON.parse(fs.readFileSync(this.stateFile, "utf-8")) as BucketState;
+    } catch {
+      // No state yet (or a torn write) - start with a full bucket
+      return { tokens: this.policy.burst, updatedAt: now, blockedUntil: 0 };
+    }
+  }
+}
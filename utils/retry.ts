@@ -0,0 +1,173 @@
+/**
+ * Retry Policy Module
+ *
+ * Retries transient failures (502/503/504, connection resets) in
+ * DmsApiClient with exponential backoff and jitter.
+ *
+ * Safety rules:
+ * 1. GET and DELETE are retried by default (idempotent)
+ * 2. POST and PATCH are only retried when an Idempotency-Key header is sent,
+ *    so a retried create can never produce a duplicate record
+ *
+ * Every retry is attached to the running test, so flaky backends show up
+ * in the HTML report instead of being silently hidden.
+ */
+
+import { test } from "@playwright/test";
+import { HttpMethod } from "./apiClient";
+
+// ====================
+// Types
+// ====================
+
+/**
+ * Retry policy configuration
+ */
+export interface RetryPolicy {
+  // Total attempts including the first one (1 = no retries)
+  maxAttempts: number;
+
+  // Delay before the first retry; doubles on every further retry
+  baseDelayMs: number;
+
+  // Upper bound for a single delay
+  maxDelayMs: number;
+
+  // Random share of each delay (0 = none, 1 = full jitter)
+  jitter: number;
+
+  // Status codes considered transient
+  retryableStatuses: number[];
+
+  // Methods retried without an idempotency key
+  retryableMethods: HttpMethod[];
+
+  // Header that makes POST/PATCH safe to retry
+  idempotencyHeader: string;
+}
+
+/**
+ * Details of a single retry (recorded as a test attachment)
+ */
+export interface RetryRecord {
+  method: HttpMethod;
+  endpoint: string;
+  attempt: number; // attempt that failed (1-based)
+  reason: string; // "503" or the connection error message
+  delayMs: number;
+}
+
+// ====================
+// Defaults
+// ====================
+
+/**
+ * Default policy - API_RETRY_ATTEMPTS overrides maxAttempts
+ */
+export const defaultRetryPolicy: RetryPolicy = {
+  maxAttempts: Number(process.env.API_RETRY_ATTEMPTS) || 3,
+  baseDelayMs: 250,
+  maxDelayMs: 4000,
+  jitter: 0.5,
+  retryableStatuses: [502, 503, 504],
+  retryableMethods: ["GET", "DELETE"],
+  idempotencyHeader: "Idempotency-Key",
+};
+
+// Network errors worth retrying (connection dropped or never answered)
+const TRANSIENT_ERROR_PATTERN =
+  /ECONNRESET|ECONNREFUSED|ETIMEDOUT|EPIPE|EAI_AGAIN|socket hang up/i;
+
+// ====================
+// Policy Helpers
+// ====================
+
+/**
+ * Merge overrides into the default policy
+ */
+export function resolveRetryPolicy(
+  overrides: Partial<RetryPolicy> = {}
+): RetryPolicy {
+  return { ...defaultRetryPolicy, ...overrides };
+}
+
+/**
+ * Whether a request may be retried at all
+ *
+ * @param method - HTTP method
+ * @param headers - Request headers (checked for the idempotency key)
+ * @param policy - Retry policy
+ */
+export function isRetryableRequest(
+  method: HttpMethod,
+  headers: Record<string, string>,
+  policy: RetryPolicy
+): boolean {
+  if (policy.retryableMethods.includes(method)) {
+    return true;
+  }
+
+  const idempotencyHeader = policy.idempotencyHeader.toLowerCase();
+  return Object.keys(headers).some(
+    (name) => name.toLowerCase() === idempotencyHeader && headers[name]
+  );
+}
+
+/**
+ * Whether a thrown request error is a transient network failure
+ */
+export function isTransientError(error: unknown): boolean {
+  return error instanceof Error && TRANSIENT_ERROR_PATTERN.test(error.message);
+}
+
+/**
+ * Delay before the next attempt
+ *
+ * @param attempt - Attempt that just failed (1-based)
+ * @param policy - Retry policy
+ * @param random - Random source (injectable for tests)
+ * @returns Delay in milliseconds
+ *
+ * Example (base 250ms, jitter 0.5): ~188-250ms, ~375-500ms, ~750-1000ms
+ */
+export function computeBackoff(
+  attempt: number,
+  policy: RetryPolicy,
+  random: () => number = Math.random
+): number {
+  const exponential = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** (attempt - 1)
+  );
+  const jitter = exponential * policy.jitter * random();
+  return Math.round(exponential - jitter);
+}
+
+/**
+ * Record a retry on the running test
+ * Outside a test (e.g., beforeAll) the retry is only logged to the console
+ */
+export async function recordRetry(record: RetryRecord): Promise<void> {
+  let testInfo;
+  try {
+    testInfo = test.info();
+  } catch {
+    console.warn(
+      `[retry] ${record.method} ${record.endpoint} attempt ${record.attempt} ` +
+        `failed (${record.reason}), retrying in ${record.delayMs}ms`
+    );
+    return;
+  }
+
+  await testInfo.attach(`api-retry: ${record.method} ${record.endpoint}`, {
+    body: JSON.stringify(record, null, 2),
+    contentType: "application/json",
+  });
+}
+
+/**
+ * Wait for the given number of milliseconds
+ */
+export function sleep(milliseconds: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, milliseconds));
+}
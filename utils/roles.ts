@@ -0,0 +1,102 @@
+/**
+ * Roles Module
+ *
+ * Creates DmsApiClient instances that act as a given role.
+ *
+ * Why role-based clients?
+ * 1. Authorization bugs only show up when the caller is NOT an admin -
+ *    one all-powerful token hides them
+ * 2. Credentials per role live in .env (roleUsers in utils/testData.ts),
+ *    not in tests
+ * 3. The permission matrix (utils/permissions.ts) needs a client per role
+ *
+ * Roles:
+ * 1. admin          - everything
+ * 2. serviceAdvisor - front desk: repair orders and appointments
+ * 3. technician     - works repair orders, reads appointments
+ * 4. readOnly       - reporting / auditing access
+ * 5. anonymous      - no token at all
+ *
+ * Usage:
+ * const technician = await createRoleClient("technician");
+ * // or, in tests: async ({ roleClient }) => { await roleClient("readOnly") }
+ */
+
+import { DmsApiClient, DmsApiClientOptions } from "./apiClient";
+import {
+  AuthStrategy,
+  StaticTokenStrategy,
+  createUserAuthStrategy,
+} from "./auth";
+import { roleUsers } from "./testData";
+
+// ====================
+// Types
+// ====================
+
+/**
+ * Roles with credentials in roleUsers
+ */
+export type AuthenticatedRole = keyof typeof roleUsers;
+
+/**
+ * Every role the suites can act as
+ */
+export type Role = AuthenticatedRole | "anonymous";
+
+/**
+ * All roles, in the order reports list them
+ */
+export const ROLES: readonly Role[] = [
+  "admin",
+  "serviceAdvisor",
+  "technician",
+  "readOnly",
+  "anonymous",
+];
+
+// ====================
+// Factory
+// ====================
+
+/**
+ * Auth strategy acting as a role
+ * A configured token wins; otherwise the client logs in with the role's
+ * credentials (renewing via refresh token when API_AUTH_STRATEGY=refresh).
+ * Anonymous clients send no Authorization header.
+ *
+ * @throws Error naming the known roles if the role is unknown
+ */
+export function roleAuthStrategy(role: Role): AuthStrategy {
+  if (role === "anonymous") {
+    return new StaticTokenStrategy(null);
+  }
+
+  const user = roleUsers[role];
+  if (!user) {
+    throw new Error(`Unknown role "${role}" (expected ${ROLES.join(", ")})`);
+  }
+  return createUserAuthStrategy(user);
+}
+
+/**
+ * Create and initialize a client acting as a role
+ * The caller disposes it (the roleClient fixture does this at teardown)
+ *
+ * @param role - Role to act as
+ * @param options - Other client options (auth is set from the role)
+ * @returns Initialized client
+ *
+ * Usage:
+ * const readOnly = await createRoleClient("readOnly");
+ * const result = await readOnly.deleteRepairOrder("RO-2024-001"); // 403
+ * await readOnly.dispose();
+ */
+export async function createRoleClient(
+  role: Role,
+  options: Omit<DmsApiClientOptions, "auth"> = {}
+): Promise<DmsApiClient> {
+  const client = new DmsApiClient({ ...options, auth: roleAuthStrategy(role) });
+  await client.init();
+  return client;
+}
@@ -0,0 +1,381 @@
+/**
+ * Schema Validator Module
+ *
+ * Validates parsed API response bodies against declarative schemas.
+ *
+ * Why not toHaveProperty() checks?
+ * 1. Hand-written checks usually only look at body[0] - this checks every element
+ * 2. All violations are reported at once, each with a JSON path ($[3].status)
+ * 3. Schemas live in one registry (utils/schemas.ts) instead of inside tests
+ *
+ * Schemas use a subset of JSON Schema, so the same validator also works
+ * for schemas coming from an OpenAPI document.
+ */
+
+// ====================
+// Schema Types
+// ====================
+
+/**
+ * JSON value types a schema can require
+ */
+export type SchemaType =
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "object"
+  | "array"
+  | "null";
+
+/**
+ * Supported JSON Schema subset
+ */
+export interface JsonSchema {
+  type?: SchemaType | SchemaType[];
+  description?: string;
+
+  // Objects
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+
+  // Arrays
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+
+  // Strings
+  format?: string;
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+
+  // Numbers
+  minimum?: number;
+  maximum?: number;
+
+  // Any type
+  enum?: readonly unknown[];
+  nullable?: boolean; // OpenAPI 3.0 style "type or null"
+}
+
+/**
+ * A single schema violation
+ */
+export interface SchemaViolation {
+  // JSON path of the offending value (e.g., "$[2].vehicleVin")
+  path: string;
+
+  // Human-readable description of the problem
+  message: string;
+}
+
+// ====================
+// Formats
+// ====================
+
+/**
+ * Format checkers keyed by the schema "format" keyword
+ * Unknown formats are ignored (as JSON Schema specifies)
+ */
+export const formats: Record<string, (value: unknown) => boolean> = {
+  // 17 characters, excluding I, O and Q
+  vin: (value) =>
+    typeof value === "string" && /^[A-HJ-NPR-Z0-9]{17}$/.test(value),
+
+  // YYYY-MM-DD
+  date: (value) =>
+    typeof value === "string" &&
+    /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+    !Number.isNaN(Date.parse(value)),
+
+  // ISO 8601 timestamp (e.g., 2024-06-15T14:00:00Z)
+  "date-time": (value) =>
+    typeof value === "string" &&
+    /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(value) &&
+    !Number.isNaN(Date.parse(value)),
+
+  // 12-hour time as used by the scheduling UI (e.g., "2:00 PM")
+  time: (value) =>
+    typeof value === "string" &&
+    /^(1[0-2]|0?[1-9]):[0-5]\d\s?(AM|PM)$/i.test(value),
+
+  // Amount with at most two decimals, as string ("125.00") or number (125)
+  money: (value) =>
+    (typeof value === "string" && /^-?\d+(\.\d{1,2})?$/.test(value)) ||
+    (typeof value === "number" &&
+      Number.isFinite(value) &&
+      Math.abs(Math.round(value * 100) - value * 100) < 1e-6),
+
+  // Non-negative amount (costs in request payloads)
+  amount: (value) => formats.money(value) && Number(value) >= 0,
+
+  // Printable text: at least one visible character, no control characters
+  // (tabs and line breaks allowed) and no unpaired UTF-16 surrogates
+  text: (value) =>
+    typeof value === "string" &&
+    /[^\s\u200B-\u200D\uFEFF]/.test(value) &&
+    !/[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F]/.test(value) &&
+    !/[\uD800-\uDBFF](?![\uDC00-\uDFFF])|(?<![\uD800-\uDBFF])[\uDC00-\uDFFF]/.test(value),
+
+  email: (value) =>
+    typeof value === "string" && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value),
+
+  phone: (value) =>
+    typeof value === "string" && /^\+?[\d\s().-]{7,20}$/.test(value),
+};
+
+// ====================
+// Validation
+// ====================
+
+/**
+ * Validate a value against a schema
+ *
+ * @param value - Parsed JSON value (e.g., result.body)
+ * @param schema - Schema to validate against
+ * @param path - JSON path of the value (used for nested reporting)
+ * @returns Every violation found (empty array = valid)
+ *
+ * Usage:
+ * const violations = validateSchema(result.body, apiSchemas.getRepairOrders);
+ */
+export function validateSchema(
+  value: unknown,
+  schema: JsonSchema,
+  path = "$"
+): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+
+  if (value === null && schema.nullable) {
+    return violations;
+  }
+
+  // Type check - stop here on mismatch, nested checks would only add noise
+  if (schema.type) {
+    const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!allowed.some((type) => matchesType(value, type))) {
+      violations.push({
+        path,
+        message: `expected ${allowed.join(" | ")}, got ${describeType(value)}`,
+      });
+      return violations;
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    violations.push({
+      path,
+      message: `expected one of ${schema.enum
+        .map((option) => JSON.stringify(option))
+        .join(", ")}, got ${JSON.stringify(value)}`,
+    });
+  }
+
+  if (schema.format && formats[schema.format] && !formats[schema.format](value)) {
+    violations.push({
+      path,
+      message: `expected ${schema.format} format, got ${JSON.stringify(value)}`,
+    });
+  }
+
+  if (typeof value === "string") {
+    violations.push(...validateString(value, schema, path));
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      violations.push({ path, message: `expected >= ${schema.minimum}, got ${value}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      violations.push({ path, message: `expected <= ${schema.maximum}, got ${value}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    violations.push(...validateArray(value, schema, path));
+  } else if (isPlainObject(value)) {
+    violations.push(...validateObject(value, schema, path));
+  }
+
+  return violations;
+}
+
+/**
+ * Validate a value and throw if any violation is found
+ *
+ * @param value - Parsed JSON value
+ * @param schema - Schema to validate against
+ * @param label - Name used in the error message (e.g., "getRepairOrders")
+ * @throws Error listing every violation with its JSON path
+ *
+ * Usage:
+ * const result = await apiClient.getRepairOrders();
+ * assertMatchesSchema(result.body, apiSchemas.getRepairOrders, "getRepairOrders");
+ */
+export function assertMatchesSchema(
+  value: unknown,
+  schema: JsonSchema,
+  label = "response"
+): void {
+  const violations = validateSchema(value, schema);
+  if (violations.length > 0) {
+    throw new Error(
+      `${label} does not match schema (${violations.length} violation(s)):\n` +
+        formatViolations(violations)
+    );
+  }
+}
+
+/**
+ * Format violations as one "path: message" line each
+ */
+export function formatViolations(violations: SchemaViolation[]): string {
+  return violations
+    .map((violation) => `  ${violation.path}: ${violation.message}`)
+    .join("\n");
+}
+
+// ====================
+// Internal Helpers
+// ====================
+
+function validateString(
+  value: string,
+  schema: JsonSchema,
+  path: string
+): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+
+  if (schema.minLength !== undefined && value.length < schema.minLength) {
+    violations.push({
+      path,
+      message: `expected at least ${schema.minLength} characters, got ${value.length}`,
+    });
+  }
+  if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+    violations.push({
+      path,
+      message: `expected at most ${schema.maxLength} characters, got ${value.length}`,
+    });
+  }
+  if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+    violations.push({
+      path,
+      message: `expected to match /${schema.pattern}/, got ${JSON.stringify(value)}`,
+    });
+  }
+
+  return violations;
+}
+
+function validateArray(
+  value: unknown[],
+  schema: JsonSchema,
+  path: string
+): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+
+  if (schema.minItems !== undefined && value.length < schema.minItems) {
+    violations.push({
+      path,
+      message: `expected at least ${schema.minItems} item(s), got ${value.length}`,
+    });
+  }
+  if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+    violations.push({
+      path,
+      message: `expected at most ${schema.maxItems} item(s), got ${value.length}`,
+    });
+  }
+
+  // Every element is checked, not just the first one
+  if (schema.items) {
+    value.forEach((item, index) => {
+      violations.push(...validateSchema(item, schema.items!, `${path}[${index}]`));
+    });
+  }
+
+  return violations;
+}
+
+function validateObject(
+  value: Record<string, unknown>,
+  schema: JsonSchema,
+  path: string
+): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+  const properties = schema.properties || {};
+
+  for (const key of schema.required || []) {
+    if (!(key in value) || value[key] === undefined) {
+      violations.push({
+        path: childPath(path, key),
+        message: "required property is missing",
+      });
+    }
+  }
+
+  for (const [key, propertyValue] of Object.entries(value)) {
+    // Already reported as missing above (JSON itself has no undefined)
+    if (propertyValue === undefined) continue;
+
+    const propertySchema = properties[key];
+
+    if (propertySchema) {
+      violations.push(
+        ...validateSchema(propertyValue, propertySchema, childPath(path, key))
+      );
+    } else if (schema.additionalProperties === false) {
+      violations.push({
+        path: childPath(path, key),
+        message: "property is not declared in the schema",
+      });
+    } else if (typeof schema.additionalProperties === "object") {
+      violations.push(
+        ...validateSchema(
+          propertyValue,
+          schema.additionalProperties,
+          childPath(path, key)
+        )
+      );
+    }
+  }
+
+  return violations;
+}
+
+function matchesType(value: unknown, type: SchemaType): boolean {
+  switch (type) {
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return isPlainObject(value);
+    case "null":
+      return value === null;
+    case "integer":
+      return Number.isInteger(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Build a JSON path segment, quoting keys that aren't identifiers
+ */
+function childPath(path: string, key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key)
+    ? `${path}.${key}`
+    : `${path}[${JSON.stringify(key)}]`;
+}
@@ -0,0 +1,298 @@
+/**
+ * API Schema Registry
+ *
+ * Declarative response schemas for every DmsApiClient endpoint.
+ *
+ * Why a registry?
+ * 1. One place to update when the API contract changes
+ * 2. Tests validate every record, not a handful of fields on body[0]
+ * 3. Enums come from testData.ts, so UI and API tests share the same values
+ *
+ * Usage:
+ * const result = await apiClient.getRepairOrders();
+ * assertApiSchema(result.body, "getRepairOrders");
+ */
+
+import { appointments, repairOrders } from "./testData";
+import { JsonSchema, assertMatchesSchema } from "./schemaValidator";
+import { WEBHOOK_EVENT_TYPES } from "./webhooks";
+
+// ====================
+// Resource Schemas
+// ====================
+
+/**
+ * Repair order resource
+ */
+export const repairOrderSchema: JsonSchema = {
+  type: "object",
+  required: ["id", "orderNumber", "customerName", "vehicleVin", "status"],
+  properties: {
+    id: { type: "string", minLength: 1 },
+    orderNumber: { type: "string", pattern: "^RO-\\d{4}-\\d{3,5}$" },
+    customerName: { type: "string", minLength: 1 },
+    vehicleVin: { type: "string", format: "vin" },
+    status: { type: "string", enum: repairOrders.statuses },
+    serviceType: { type: "string" },
+    priority: { type: "string" },
+    vehicleMake: { type: "string" },
+    vehicleModel: { type: "string" },
+    vehicleYear: { type: ["string", "integer"] },
+    description: { type: "string" },
+    notes: { type: "string" },
+    completionNotes: { type: "string" },
+    estimatedCost: { type: ["string", "number"], format: "money" },
+    actualCost: { type: ["string", "number"], format: "money" },
+    createdAt: { type: "string", format: "date-time" },
+    updatedAt: { type: "string", format: "date-time" },
+  },
+};
+
+/**
+ * Appointment resource
+ */
+export const appointmentSchema: JsonSchema = {
+  type: "object",
+  required: ["id", "customerName", "serviceType", "scheduledDate", "scheduledTime"],
+  properties: {
+    id: { type: "string", minLength: 1 },
+    appointmentId: { type: "string" },
+    customerName: { type: "string", minLength: 1 },
+    phoneNumber: { type: "string", format: "phone" },
+    email: { type: "string", format: "email" },
+    serviceType: { type: "string", enum: appointments.serviceTypes },
+    vehicleVin: { type: "string", format: "vin" },
+    scheduledDate: { type: "string", format: "date" },
+    scheduledTime: { type: "string", format: "time" },
+    status: { type: "string" },
+    notes: { type: "string" },
+    createdAt: { type: "string", format: "date-time" },
+    updatedAt: { type: "string", format: "date-time" },
+  },
+};
+
+/**
+ * Repair order attachment metadata
+ */
+export const attachmentSchema: JsonSchema = {
+  type: "object",
+  required: ["id", "fileName", "contentType", "size", "checksum", "uploadedAt"],
+  properties: {
+    id: { type: "string", minLength: 1 },
+    fileName: { type: "string", minLength: 1 },
+    contentType: { type: "string", minLength: 1 },
+    size: { type: "integer", minimum: 0 },
+    checksum: { type: "string", pattern: "^[0-9a-f]{64}$" },
+    uploadedAt: { type: "string", format: "date-time" },
+  },
+};
+
+/**
+ * Webhook registration (the secret is never returned)
+ */
+export const webhookSchema: JsonSchema = {
+  type: "object",
+  required: ["id", "url", "events", "createdAt"],
+  properties: {
+    id: { type: "string", minLength: 1 },
+    url: { type: "string", pattern: "^https?://" },
+    events: {
+      type: "array",
+      minItems: 1,
+      items: { type: "string", enum: WEBHOOK_EVENT_TYPES },
+    },
+    createdAt: { type: "string", format: "date-time" },
+  },
+};
+
+/**
+ * Standard error envelope ({ error, code?, details? })
+ * details is either a free-form object or a list of field-level errors
+ */
+export const errorSchema: JsonSchema = {
+  type: "object",
+  required: ["error"],
+  properties: {
+    error: { type: "string", minLength: 1 },
+    code: { type: "string" },
+    details: {
+      type: ["object", "array"],
+      items: {
+        type: "object",
+        required: ["field", "message"],
+        properties: {
+          field: { type: "string" },
+          message: { type: "string" },
+        },
+      },
+    },
+  },
+};
+
+// ====================
+// Request Payload Schemas
+// ====================
+
+// Free text of a given length
+const text = (maxLength: number): JsonSchema => ({
+  type: "string",
+  format: "text",
+  minLength: 1,
+  maxLength,
+});
+
+const repairOrderFields: Record<string, JsonSchema> = {
+  customerName: text(100),
+  vehicleVin: { type: "string", format: "vin" },
+  serviceType: text(50),
+  priority: text(20),
+  description: text(2000),
+  notes: text(2000),
+  estimatedCost: { type: ["string", "number"], format: "amount" },
+};
+
+const appointmentFields: Record<string, JsonSchema> = {
+  customerName: text(100),
+  phoneNumber: { type: "string", format: "phone" },
+  email: { type: "string", format: "email", maxLength: 254 },
+  serviceType: { type: "string", enum: appointments.serviceTypes },
+  vehicleVin: { type: "string", format: "vin" },
+  scheduledDate: { type: "string", format: "date" },
+  scheduledTime: { type: "string", format: "time" },
+  notes: text(2000),
+};
+
+/**
+ * What the API accepts on create/update, per DmsApiClient method
+ * Stricter than the OpenAPI document: lengths, formats and enums are the
+ * backend's validation rules. The fuzzer (utils/fuzz.ts) derives its
+ * malformed variants from these; the stub enforces them.
+ */
+export const payloadSchemas = {
+  createRepairOrder: {
+    type: "object",
+    required: ["customerName", "vehicleVin", "serviceType"],
+    properties: {
+      ...repairOrderFields,
+      orderNumber: { type: "string", pattern: "^RO-\\d{4}-\\d{3,5}$" },
+      vehicleMake: text(50),
+      vehicleModel: text(50),
+      vehicleYear: {
+        type: ["string", "integer"],
+        pattern: "^\\d{4}$",
+        minimum: 1900,
+        maximum: 2100,
+      },
+    },
+  },
+  updateRepairOrder: {
+    type: "object",
+    properties: {
+      ...repairOrderFields,
+      status: { type: "string", enum: repairOrders.statuses },
+      completionNotes: text(2000),
+      actualCost: { type: ["string", "number"], format: "amount" },
+    },
+  },
+  createAppointment: {
+    type: "object",
+    required: Object.keys(appointmentFields).filter((field) => field !== "notes"),
+    properties: appointmentFields,
+  },
+  updateAppointment: {
+    type: "object",
+    properties: appointmentFields,
+  },
+  registerWebhook: {
+    type: "object",
+    required: ["url", "events", "secret"],
+    properties: {
+      url: { type: "string", pattern: "^https?://[^\\s]+$", maxLength: 2048 },
+      events: {
+        type: "array",
+        minItems: 1,
+        items: { type: "string", enum: WEBHOOK_EVENT_TYPES },
+      },
+      secret: { type: "string", minLength: 16, maxLength: 256 },
+    },
+  },
+} satisfies Record<string, JsonSchema>;
+
+/**
+ * Name of a request payload schema
+ */
+export type PayloadSchemaName = keyof typeof payloadSchemas;
+
+// ====================
+// Endpoint Schemas
+// ====================
+
+/**
+ * Success response schema for each DmsApiClient method
+ *
+ * deleteRepairOrder, deleteAttachment and cancelAppointment are not listed:
+ * they answer 204 No Content (or an empty 200). Neither is
+ * downloadAttachment, which answers raw file content.
+ */
+export const apiSchemas = {
+  // Repair Orders
+  getRepairOrders: { type: "array", items: repairOrderSchema },
+  getRepairOrderById: repairOrderSchema,
+  createRepairOrder: repairOrderSchema,
+  updateRepairOrder: repairOrderSchema,
+  searchRepairOrders: { type: "array", items: repairOrderSchema },
+
+  // Attachments
+  listAttachments: { type: "array", items: attachmentSchema },
+  uploadAttachment: attachmentSchema,
+
+  // Webhooks
+  listWebhooks: { type: "array", items: webhookSchema },
+  registerWebhook: webhookSchema,
+
+  // Appointments
+  getAppointments: { type: "array", items: appointmentSchema },
+  getAppointmentById: appointmentSchema,
+  createAppointment: appointmentSchema,
+  updateAppointment: appointmentSchema,
+
+  // Authentication
+  authenticate: {
+    type: "object",
+    required: ["token"],
+    properties: {
+      token: { type: "string", minLength: 1 },
+      tokenType: { type: "string" },
+      expiresIn: { type: "integer", minimum: 0 },
+      refreshToken: { type: "string" },
+    },
+  },
+  validateToken: {
+    type: "object",
+    required: ["valid"],
+    properties: {
+      valid: { type: "boolean" },
+      username: { type: "string" },
+      expiresAt: { type: "string", format: "date-time" },
+    },
+  },
+
+  // Any 4xx/5xx response
+  error: errorSchema,
+} satisfies Record<string, JsonSchema>;
+
+/**
+ * Name of a registered schema
+ */
+export type ApiSchemaName = keyof typeof apiSchemas;
+
+/**
+ * Validate a response body against a registered schema
+ *
+ * @param body - Parsed response body
+ * @param name - Registry key (usually the DmsApiClient method name)
+ * @throws Error listing every violation with its JSON path
+ */
+export function assertApiSchema(body: unknown, name: ApiSchemaName): void {
+  assertMatchesSchema(body, apiSchemas[name], name);
+}
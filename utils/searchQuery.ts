@@ -0,0 +1,534 @@
+/**
+ * Search Query Module
+ *
+ * Typed, fluent filters for the repair order and appointment searches,
+ * serialized into the API's query conventions.
+ *
+ * Why a builder?
+ * 1. Record<string, string> filters accept typos - ?stauts=Completed is
+ *    ignored by the API and the "filtered" search returns everything
+ * 2. Statuses, service types and sort fields come from unions, so a wrong
+ *    value fails to compile; dates and ranges are checked when set
+ * 3. One place knows the query conventions (parameter names, repeated keys)
+ *
+ * Query conventions:
+ * - Several values of a filter repeat the key: ?status=Pending&status=Completed
+ * - Date ranges are startDate/endDate (YYYY-MM-DD, inclusive) - the created
+ *   date of a repair order, the scheduled date of an appointment
+ * - Sorting is sort=<field>&order=asc|desc; paging is page (from 1) and limit
+ * - The pagination helpers (collectAllRepairOrders etc.) use limit as the
+ *   page size and page as the first page fetched
+ *
+ * Usage:
+ * const query = repairOrderQuery()
+ *   .status("Pending", "In Progress")
+ *   .customer("Smith")
+ *   .createdBetween("2024-01-01", "2024-03-31")
+ *   .sortBy("createdAt", "desc")
+ *   .limit(25);
+ * await apiClient.searchRepairOrders(query);
+ * await apiClient.searchRepairOrders({ status: "Completed" }); // typed object
+ */
+
+import { RepairOrderStatus, ServiceType } from "./models";
+import { PaginationConfig, QueryParams } from "./pagination";
+import { formats } from "./schemaValidator";
+import { appointments, repairOrders } from "./testData";
+
+// ====================
+// Types
+// ====================
+
+/**
+ * Sort direction
+ */
+export type SortDirection = "asc" | "desc";
+
+/**
+ * Fields repair orders can be sorted by
+ */
+export const REPAIR_ORDER_SORT_FIELDS = [
+  "orderNumber",
+  "customerName",
+  "status",
+  "priority",
+  "createdAt",
+  "updatedAt",
+] as const;
+export type RepairOrderSortField = (typeof REPAIR_ORDER_SORT_FIELDS)[number];
+
+/**
+ * Fields appointments can be sorted by
+ */
+export const APPOINTMENT_SORT_FIELDS = [
+  "customerName",
+  "serviceType",
+  "status",
+  "scheduledDate",
+  "createdAt",
+] as const;
+export type AppointmentSortField = (typeof APPOINTMENT_SORT_FIELDS)[number];
+
+/**
+ * Repair order filters as a plain object (see RepairOrderQuery.from)
+ */
+export interface RepairOrderFilters {
+  status?: RepairOrderStatus | RepairOrderStatus[];
+  customerName?: string;
+  vehicleVin?: string;
+  orderNumber?: string;
+
+  // Created date range (YYYY-MM-DD, inclusive)
+  startDate?: string;
+  endDate?: string;
+
+  sort?: RepairOrderSortField;
+  order?: SortDirection;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Appointment filters as a plain object (see AppointmentQuery.from)
+ */
+export interface AppointmentFilters {
+  status?: string | string[];
+  customerName?: string;
+  serviceType?: ServiceType | ServiceType[];
+  scheduledDate?: string;
+
+  // Scheduled date range (YYYY-MM-DD, inclusive)
+  startDate?: string;
+  endDate?: string;
+
+  sort?: AppointmentSortField;
+  order?: SortDirection;
+  page?: number;
+  limit?: number;
+}
+
+// ====================
+// Base Builder
+// ====================
+
+/**
+ * Filters, sorting and paging shared by every search
+ * Setters replace earlier values of the same filter and return the query
+ */
+export abstract class SearchQuery<SortField extends string> {
+  private params = new Map<string, string[]>();
+
+  /**
+   * @param resource - Name used in error messages
+   * @param sortFields - Fields sortBy() accepts
+   */
+  protected constructor(
+    private readonly resource: string,
+    private readonly sortFields: readonly SortField[]
+  ) {}
+
+  /**
+   * Sort the results
+   *
+   * @param field - Field to sort by
+   * @param direction - asc (default) or desc
+   * @throws Error for a field or direction the API doesn't know
+   */
+  sortBy(field: SortField, direction: SortDirection = "asc"): this {
+    if (!this.sortFields.includes(field)) {
+      throw new Error(
+        `Cannot sort ${this.resource} by "${field}" ` +
+          `(sortable: ${this.sortFields.join(", ")})`
+      );
+    }
+    if (direction !== "asc" && direction !== "desc") {
+      throw new Error(`Sort direction must be asc or desc, got "${direction}"`);
+    }
+    return this.set("sort", [field]).set("order", [direction]);
+  }
+
+  /**
+   * Page to return (starts at 1)
+   */
+  page(page: number): this {
+    return this.set("page", [String(positiveInteger("page", page))]);
+  }
+
+  /**
+   * Results per page
+   */
+  limit(limit: number): this {
+    return this.set("limit", [String(positiveInteger("limit", limit))]);
+  }
+
+  /**
+   * Query string without the leading "?"
+   * Example: "status=Pending&status=Completed&sort=createdAt&order=desc"
+   */
+  toString(): string {
+    return this.toSearchParams().toString();
+  }
+
+  /**
+   * Query as URLSearchParams (repeated keys for several values)
+   */
+  toSearchParams(): URLSearchParams {
+    const search = new URLSearchParams();
+    for (const [param, values] of this.params) {
+      for (const value of values) {
+        search.append(param, value);
+      }
+    }
+    return search;
+  }
+
+  /**
+   * Query as a filter object (arrays for several values)
+   */
+  toFilters(): Record<string, string | string[]> {
+    const filters: Record<string, string | string[]> = {};
+    for (const [param, values] of this.params) {
+      filters[param] = values.length === 1 ? values[0] : [...values];
+    }
+    return filters;
+  }
+
+  /**
+   * Filters and pagination config for the pagination helpers
+   * limit() becomes the page size and page() the first page fetched - the
+   * helpers set page and limit on every request themselves
+   *
+   * @param config - Pagination config of the endpoint
+   * @throws Error for page() when the endpoint isn't paginated by page number
+   */
+  toPagination(config: PaginationConfig): {
+    filters: QueryParams;
+    config: PaginationConfig;
+  } {
+    const { page, limit, ...filters } = this.toFilters();
+    const paged = { ...config };
+    if (limit !== undefined) {
+      paged.pageSize = Number(limit);
+    }
+    if (page !== undefined) {
+      if (config.style !== "page") {
+        throw new Error(
+          `Cannot start ${this.resource} pagination at page ${page} with ` +
+            `${config.style} pagination (drop page() or use page pagination)`
+        );
+      }
+      paged.firstPage = config.firstPage + Number(page) - 1;
+    }
+    return { filters, config: paged };
+  }
+
+  /**
+   * Endpoint with the query appended
+   *
+   * @param path - Listing path (e.g., "/repair-orders")
+   */
+  toEndpoint(path: string): string {
+    const query = this.toString();
+    return query ? `${path}?${query}` : path;
+  }
+
+  /**
+   * Replace a parameter's values (no values removes it)
+   */
+  protected set(param: string, values: string[]): this {
+    if (values.length === 0) {
+      this.params.delete(param);
+    } else {
+      this.params.set(param, values);
+    }
+    return this;
+  }
+
+  /**
+   * Set a text filter
+   * @throws Error for an empty value (it would match everything)
+   */
+  protected text(param: string, value: string): this {
+    if (value.trim() === "") {
+      throw new Error(`${this.resource} filter ${param} must not be empty`);
+    }
+    return this.set(param, [value]);
+  }
+
+  /**
+   * Set values from a known list
+   * @throws Error for no values or a value outside the list
+   */
+  protected oneOf(param: string, values: string[], allowed?: readonly string[]): this {
+    if (values.length === 0) {
+      throw new Error(`${this.resource} filter ${param} needs at least one value`);
+    }
+    const unknown = allowed ? values.filter((value) => !allowed.includes(value)) : [];
+    if (unknown.length > 0) {
+      throw new Error(
+        `Unknown ${param} ${unknown.map((value) => `"${value}"`).join(", ")} ` +
+          `for ${this.resource} (known: ${allowed!.join(", ")})`
+      );
+    }
+    return this.set(param, [...new Set(values)]);
+  }
+
+  /**
+   * Set one end of the startDate/endDate range
+   * @throws Error for an invalid date or a range that ends before it starts
+   */
+  protected date(param: "startDate" | "endDate", value: string | Date): this {
+    const day = toDay(param, value);
+
+    // Checked before setting, so a refused date leaves the query unchanged
+    const start = param === "startDate" ? day : this.params.get("startDate")?.[0];
+    const end = param === "endDate" ? day : this.params.get("endDate")?.[0];
+    this.checkRange(start, end);
+    return this.set(param, [day]);
+  }
+
+  /**
+   * Set both ends of the startDate/endDate range
+   * @throws Error for an invalid date or a range that ends before it starts
+   */
+  protected range(from: string | Date, to: string | Date): this {
+    const start = toDay("startDate", from);
+    const end = toDay("endDate", to);
+    this.checkRange(start, end);
+    return this.set("startDate", [start]).set("endDate", [end]);
+  }
+
+  /**
+   * Apply plain-object filters through the typed setters
+   * @throws Error for a filter name the builder doesn't know (e.g., a typo)
+   */
+  protected apply<F extends object>(
+    filters: F,
+    setters: { [K in keyof F]-?: (value: NonNullable<F[K]>) => void }
+  ): this {
+    for (const [name, value] of Object.entries(filters)) {
+      if (value === undefined) continue;
+      const setter = setters[name as keyof F];
+      if (!setter) {
+        throw new Error(
+          `Unknown ${this.resource} filter "${name}" ` +
+            `(known: ${Object.keys(setters).join(", ")})`
+        );
+      }
+      setter(value);
+    }
+    return this;
+  }
+
+  private checkRange(start: string | undefined, end: string | undefined): void {
+    if (start && end && start > end) {
+      throw new Error(
+        `Invalid ${this.resource} date range: startDate ${start} is after endDate ${end}`
+      );
+    }
+  }
+}
+
+// ====================
+// Repair Orders
+// ====================
+
+/**
+ * Filters for GET /repair-orders
+ */
+export class RepairOrderQuery extends SearchQuery<RepairOrderSortField> {
+  constructor() {
+    super("repair order", REPAIR_ORDER_SORT_FIELDS);
+  }
+
+  /**
+   * Build a query from plain-object filters (a query is returned as is)
+   *
+   * @throws Error for unknown filters or invalid values
+   */
+  static from(filters: RepairOrderQuery | RepairOrderFilters): RepairOrderQuery {
+    if (filters instanceof RepairOrderQuery) return filters;
+    const query = new RepairOrderQuery();
+    return query.apply(filters, {
+      status: (value) => query.status(...toArray(value)),
+      customerName: (value) => query.customer(value),
+      vehicleVin: (value) => query.vin(value),
+      orderNumber: (value) => query.orderNumber(value),
+      startDate: (value) => query.createdFrom(value),
+      endDate: (value) => query.createdTo(value),
+      sort: (value) => query.sortBy(value, filters.order),
+      order: (value) => query.sortBy(filters.sort || "createdAt", value),
+      page: (value) => query.page(value),
+      limit: (value) => query.limit(value),
+    });
+  }
+
+  /**
+   * Orders in any of these statuses
+   */
+  status(...statuses: RepairOrderStatus[]): this {
+    return this.oneOf("status", statuses, repairOrders.statuses);
+  }
+
+  /**
+   * Customer name contains the text (case-insensitive)
+   */
+  customer(name: string): this {
+    return this.text("customerName", name);
+  }
+
+  vin(vin: string): this {
+    return this.text("vehicleVin", vin);
+  }
+
+  orderNumber(orderNumber: string): this {
+    return this.text("orderNumber", orderNumber);
+  }
+
+  /**
+   * Created on or after the date
+   */
+  createdFrom(date: string | Date): this {
+    return this.date("startDate", date);
+  }
+
+  /**
+   * Created on or before the date
+   */
+  createdTo(date: string | Date): this {
+    return this.date("endDate", date);
+  }
+
+  /**
+   * Created within the range (both ends inclusive)
+   */
+  createdBetween(from: string | Date, to: string | Date): this {
+    return this.range(from, to);
+  }
+}
+
+// ====================
+// Appointments
+// ====================
+
+/**
+ * Filters for GET /appointments
+ */
+export class AppointmentQuery extends SearchQuery<AppointmentSortField> {
+  constructor() {
+    super("appointment", APPOINTMENT_SORT_FIELDS);
+  }
+
+  /**
+   * Build a query from plain-object filters (a query is returned as is)
+   *
+   * @throws Error for unknown filters or invalid values
+   */
+  static from(filters: AppointmentQuery | AppointmentFilters): AppointmentQuery {
+    if (filters instanceof AppointmentQuery) return filters;
+    const query = new AppointmentQuery();
+    return query.apply(filters, {
+      status: (value) => query.status(...toArray(value)),
+      customerName: (value) => query.customer(value),
+      serviceType: (value) => query.serviceType(...toArray(value)),
+      scheduledDate: (value) => query.scheduledOn(value),
+      startDate: (value) => query.scheduledFrom(value),
+      endDate: (value) => query.scheduledTo(value),
+      sort: (value) => query.sortBy(value, filters.order),
+      order: (value) => query.sortBy(filters.sort || "scheduledDate", value),
+      page: (value) => query.page(value),
+      limit: (value) => query.limit(value),
+    });
+  }
+
+  /**
+   * Appointments in any of these statuses
+   */
+  status(...statuses: string[]): this {
+    return this.oneOf("status", statuses);
+  }
+
+  /**
+   * Customer name contains the text (case-insensitive)
+   */
+  customer(name: string): this {
+    return this.text("customerName", name);
+  }
+
+  /**
+   * Appointments for any of these services
+   */
+  serviceType(...serviceTypes: ServiceType[]): this {
+    return this.oneOf("serviceType", serviceTypes, appointments.serviceTypes);
+  }
+
+  /**
+   * Scheduled on exactly this date
+   */
+  scheduledOn(date: string | Date): this {
+    return this.set("scheduledDate", [toDay("scheduledDate", date)]);
+  }
+
+  /**
+   * Scheduled on or after the date
+   */
+  scheduledFrom(date: string | Date): this {
+    return this.date("startDate", date);
+  }
+
+  /**
+   * Scheduled on or before the date
+   */
+  scheduledTo(date: string | Date): this {
+    return this.date("endDate", date);
+  }
+
+  /**
+   * Scheduled within the range (both ends inclusive)
+   */
+  scheduledBetween(from: string | Date, to: string | Date): this {
+    return this.range(from, to);
+  }
+}
+
+// ====================
+// Factories
+// ====================
+
+/**
+ * New repair order search
+ */
+export function repairOrderQuery(): RepairOrderQuery {
+  return new RepairOrderQuery();
+}
+
+/**
+ * New appointment search
+ */
+export function appointmentQuery(): AppointmentQuery {
+  return new AppointmentQuery();
+}
+
+// ====================
+// Internal Helpers
+// ====================
+
+function toArray<T>(value: T | T[]): T[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+// YYYY-MM-DD of a date string or Date (UTC)
+function toDay(param: string, value: string | Date): string {
+  const day = value instanceof Date ? value.toISOString().slice(0, 10) : value;
+  if (!formats.date(day)) {
+    throw new Error(`${param} must be a date (YYYY-MM-DD), got "${day}"`);
+  }
+  return day;
+}
+
+function positiveInteger(param: string, value: number): number {
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error(`${param} must be a positive integer, got ${value}`);
+  }
+  return value;
+}
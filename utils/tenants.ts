@@ -0,0 +1,116 @@
+/**
+ * Tenants Module
+ *
+ * Scopes DmsApiClient to one dealership (tenant) of a multi-rooftop DMS.
+ *
+ * Why tenant-scoped clients?
+ * 1. Every dealership sees only its own repair orders and appointments -
+ *    tests have to say which rooftop they act for
+ * 2. Each dealership has its own users, so tokens are per tenant
+ * 3. Isolation between dealerships is a requirement worth testing
+ *    (tests/tenantIsolation.spec.ts)
+ *
+ * Scoping (tenantConfig.scoping in utils/testData.ts):
+ * 1. header - X-Dealer-Id: DLR-1001 on every request
+ * 2. path   - /dealers/DLR-1001/repair-orders instead of /repair-orders
+ *
+ * Interceptors, conformance checks and cassettes see the unscoped endpoint
+ * (/repair-orders), so they work the same for every tenant.
+ *
+ * Usage:
+ * const api = new DmsApiClient({ tenant: "dealerB" });
+ * // or, in tests: async ({ tenantApi }) => { ... } (see utils/fixtures.ts)
+ */
+
+import { AuthStrategy, createUserAuthStrategy } from "./auth";
+import { tenantConfig } from "./testData";
+
+// ====================
+// Types
+// ====================
+
+/**
+ * A dealership the suites can act for
+ */
+export interface Tenant {
+  // Config key (e.g., "dealerA")
+  name: string;
+
+  // Dealer ID sent to the API (e.g., "DLR-1001")
+  dealerId: string;
+
+  username: string;
+  password: string;
+
+  // Static token (used instead of logging in when set)
+  token?: string;
+}
+
+// ====================
+// Lookup
+// ====================
+
+/**
+ * Names of the configured dealerships
+ */
+export function tenantNames(): string[] {
+  return Object.keys(tenantConfig.dealerships);
+}
+
+/**
+ * Configured dealership by name
+ *
+ * @param name - Config key (defaults to tenantConfig.defaultTenant)
+ * @throws Error naming the configured tenants if the name is unknown
+ */
+export function getTenant(name: string = tenantConfig.defaultTenant): Tenant {
+  const dealership = tenantConfig.dealerships[name];
+  if (!dealership) {
+    throw new Error(
+      `Unknown tenant "${name}" (configured: ${tenantNames().join(", ")})`
+    );
+  }
+  return { name, ...dealership };
+}
+
+// ====================
+// Scoping
+// ====================
+
+/**
+ * Endpoint as sent over the wire for a tenant
+ * Auth endpoints are never prefixed - users log in before picking a rooftop.
+ * Already scoped endpoints (e.g., from a Link header) are left alone.
+ *
+ * @param tenant - Tenant the request is made for
+ * @param endpoint - Unscoped endpoint (e.g., "/repair-orders?page=2")
+ * @returns "/dealers/DLR-1001/repair-orders?page=2" with path scoping,
+ *          the endpoint unchanged otherwise
+ */
+export function scopeEndpoint(tenant: Tenant, endpoint: string): string {
+  if (
+    tenantConfig.scoping !== "path" ||
+    endpoint.startsWith("/auth/") ||
+    endpoint.startsWith(`${tenantConfig.pathPrefix}/`)
+  ) {
+    return endpoint;
+  }
+  return `${tenantConfig.pathPrefix}/${encodeURIComponent(tenant.dealerId)}${endpoint}`;
+}
+
+/**
+ * Headers a tenant adds to every request (empty with path scoping)
+ */
+export function tenantHeaders(tenant: Tenant): Record<string, string> {
+  return tenantConfig.scoping === "header"
+    ? { [tenantConfig.header]: tenant.dealerId }
+    : {};
+}
+
+/**
+ * Auth strategy acting as the tenant's user
+ * (the configured static token, or a login with the tenant's credentials)
+ */
+export function tenantAuthStrategy(tenant: Tenant): AuthStrategy {
+  return createUserAuthStrategy(tenant);
+}
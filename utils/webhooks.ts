@@ -0,0 +1,363 @@
+/**
+ * Webhooks Module
+ *
+ * Local HTTP receiver for the webhooks the DMS sends (repair order status
+ * changes, booked appointments), so tests can assert outbound events.
+ *
+ * Why a local receiver?
+ * 1. Webhooks are part of the API contract, but nothing else sees them
+ * 2. Capturing deliveries in the test process lets a test wait for the
+ *    exact event its own action caused (waitForEvent with a predicate)
+ * 3. Every delivery's signature is checked against the shared secret,
+ *    so unsigned or wrongly signed deliveries fail the test too
+ *
+ * Delivery contract:
+ * POST <registered url> with a WebhookEvent JSON body and the headers
+ * X-DMS-Event (type), X-DMS-Delivery (event ID) and
+ * X-DMS-Signature: sha256=<hex HMAC-SHA256 of the raw body with the secret>
+ * The receiver answers 204, or 401 when the signature doesn't match.
+ *
+ * Usage (the webhooks fixture starts, registers and removes it):
+ * test("...", async ({ webhooks }) => {
+ *   await apiClient.updateRepairOrder(order.id, { status: "Completed" });
+ *   const event = await webhooks.waitForEvent(
+ *     "repair_order.status_changed",
+ *     (event) => event.data.orderId === order.id
+ *   );
+ * });
+ */
+
+import * as http from "http";
+import { createHmac, timingSafeEqual } from "crypto";
+import { AddressInfo } from "net";
+import { WebhookEvent, WebhookEventType } from "./models";
+import { webhookConfig } from "./testData";
+
+// ====================
+// Types
+// ====================
+
+/**
+ * Receiver configuration (defaults from webhookConfig in utils/testData.ts)
+ */
+export interface WebhookReceiverOptions {
+  secret: string;
+  host: string;
+
+  // 0 = pick a free port
+  port: number;
+
+  // URL registered with the DMS (defaults to http://host:port/webhooks)
+  // Must forward to the /webhooks path - other paths are answered with 404
+  publicUrl: string;
+
+  // Default timeout of waitForEvent()
+  timeoutMs: number;
+}
+
+/**
+ * One delivery as received
+ */
+export interface ReceivedWebhook {
+  event: WebhookEvent;
+
+  // Request headers (lower-cased names)
+  headers: Record<string, string>;
+  rawBody: string;
+
+  // Whether X-DMS-Signature matched the shared secret
+  signatureValid: boolean;
+  receivedAt: string;
+}
+
+/**
+ * A pending waitForEvent() call
+ */
+interface Waiter {
+  matches: (event: WebhookEvent) => boolean;
+  resolve: (event: WebhookEvent) => void;
+
+  // Fails the wait (e.g., the predicate threw)
+  reject: (error: unknown) => void;
+}
+
+// ====================
+// Configuration
+// ====================
+
+/**
+ * Every event type, for registrations that want them all
+ */
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = [
+  "repair_order.created",
+  "repair_order.status_changed",
+  "repair_order.deleted",
+  "appointment.booked",
+  "appointment.cancelled",
+];
+
+// Path the local receiver is registered under
+const RECEIVER_PATH = "/webhooks";
+
+// ====================
+// Signatures
+// ====================
+
+/**
+ * Signature header value of a delivery body
+ *
+ * @param body - Raw request body
+ * @param secret - Shared secret
+ * @returns "sha256=<hex HMAC>"
+ */
+export function signPayload(body: string | Buffer, secret: string): string {
+  return `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`;
+}
+
+/**
+ * Check a delivery's signature in constant time
+ *
+ * @param body - Raw request body
+ * @param signature - X-DMS-Signature header value (missing = invalid)
+ * @param secret - Shared secret
+ */
+export function verifySignature(
+  body: string | Buffer,
+  signature: string | undefined,
+  secret: string
+): boolean {
+  if (!signature) return false;
+  const expected = Buffer.from(signPayload(body, secret));
+  const actual = Buffer.from(signature);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// ====================
+// Receiver Class
+// ====================
+
+/**
+ * Captures webhook deliveries on a local port
+ */
+export class WebhookReceiver {
+  readonly options: WebhookReceiverOptions;
+  private server: http.Server | null = null;
+  private deliveries: ReceivedWebhook[] = [];
+  private waiters: Waiter[] = [];
+
+  constructor(options: Partial<WebhookReceiverOptions> = {}) {
+    this.options = {
+      secret: webhookConfig.secret,
+      host: webhookConfig.host,
+      port: webhookConfig.port,
+      publicUrl: webhookConfig.publicUrl,
+      timeoutMs: webhookConfig.timeoutMs,
+      ...options,
+    };
+  }
+
+  /**
+   * Start listening
+   *
+   * @returns URL to register with the DMS
+   */
+  async start(): Promise<string> {
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch(() => {
+        if (!res.headersSent) res.writeHead(500);
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once("error", reject);
+      this.server!.listen(this.options.port, this.options.host, resolve);
+    });
+    return this.url;
+  }
+
+  /**
+   * Stop listening (pending waitForEvent() calls still time out)
+   */
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    const server = this.server;
+    this.server = null;
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  /**
+   * URL to register with the DMS
+   */
+  get url(): string {
+    if (this.options.publicUrl) return this.options.publicUrl;
+    if (!this.server) {
+      throw new Error("Webhook receiver not started. Call start() first.");
+    }
+    const { port } = this.server.address() as AddressInfo;
+    return `http://${this.options.host}:${port}${RECEIVER_PATH}`;
+  }
+
+  /**
+   * Every delivery so far, including ones with a bad signature
+   */
+  get received(): ReceivedWebhook[] {
+    return [...this.deliveries];
+  }
+
+  /**
+   * Correctly signed events so far
+   *
+   * @param type - Only events of this type
+   */
+  events(type?: WebhookEventType): WebhookEvent[] {
+    return this.deliveries
+      .filter((delivery) => delivery.signatureValid)
+      .map((delivery) => delivery.event)
+      .filter((event) => !type || event.type === type);
+  }
+
+  /**
+   * Wait for a correctly signed event
+   * Events received before the call count too - the DMS may deliver before
+   * the request that caused the event has returned
+   *
+   * @param type - Event type
+   * @param predicate - Picks the event (e.g., by order ID)
+   * @param timeoutMs - How long to wait (defaults to WEBHOOK_TIMEOUT_MS)
+   * @returns The first matching event
+   * @throws Error listing what was received if no event matched in time
+   *
+   * Example:
+   * const event = await webhooks.waitForEvent<{ orderId: string; status: string }>(
+   *   "repair_order.status_changed",
+   *   (event) => event.data.orderId === order.id
+   * );
+   */
+  waitForEvent<T = Record<string, unknown>>(
+    type: WebhookEventType,
+    predicate: (event: WebhookEvent<T>) => boolean = () => true,
+    timeoutMs: number = this.options.timeoutMs
+  ): Promise<WebhookEvent<T>> {
+    const matches = (event: WebhookEvent) =>
+      event.type === type && predicate(event as WebhookEvent<T>);
+    let found: WebhookEvent | undefined;
+    try {
+      found = this.events().find(matches);
+    } catch (error) {
+      return Promise.reject(error);
+    }
+    if (found) return Promise.resolve(found as WebhookEvent<T>);
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        matches,
+        resolve: (event) => {
+          clearTimeout(timer);
+          resolve(event as WebhookEvent<T>);
+        },
+        reject: (error) => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      };
+      const timer = setTimeout(() => {
+        this.waiters = this.waiters.filter((entry) => entry !== waiter);
+        reject(new Error(this.describeTimeout(type, timeoutMs)));
+      }, timeoutMs);
+      this.waiters.push(waiter);
+    });
+  }
+
+  /**
+   * Forget the deliveries received so far
+   */
+  clear(): void {
+    this.deliveries = [];
+  }
+
+  /**
+   * Record a delivery and answer it
+   */
+  private async handle(
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> {
+    const path = new URL(req.url || "/", "http://localhost").pathname;
+    if (req.method !== "POST" || path !== RECEIVER_PATH) {
+      req.resume();
+      res.writeHead(404).end();
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    const rawBody = Buffer.concat(chunks).toString("utf-8");
+
+    let event: WebhookEvent;
+    try {
+      event = JSON.parse(rawBody) as WebhookEvent;
+    } catch {
+      res.writeHead(400).end();
+      return;
+    }
+
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(req.headers)) {
+      if (value !== undefined) headers[name] = String(value);
+    }
+    const signatureValid = verifySignature(
+      rawBody,
+      headers[webhookConfig.headers.signature.toLowerCase()],
+      this.options.secret
+    );
+    this.deliveries.push({
+      event,
+      headers,
+      rawBody,
+      signatureValid,
+      receivedAt: new Date().toISOString(),
+    });
+    res.writeHead(signatureValid ? 204 : 401).end();
+
+    if (signatureValid) {
+      for (const waiter of [...this.waiters]) {
+        this.settle(waiter, event);
+      }
+    }
+  }
+
+  /**
+   * Resolve a waiter the event matches; a predicate that throws fails that
+   * waiter instead of the delivery
+   */
+  private settle(waiter: Waiter, event: WebhookEvent): void {
+    let matched: boolean;
+    try {
+      matched = waiter.matches(event);
+    } catch (error) {
+      this.waiters = this.waiters.filter((entry) => entry !== waiter);
+      waiter.reject(error);
+      return;
+    }
+    if (matched) {
+      this.waiters = this.waiters.filter((entry) => entry !== waiter);
+      waiter.resolve(event);
+    }
+  }
+
+  private describeTimeout(type: WebhookEventType, timeoutMs: number): string {
+    const lines = [
+      `No matching ${type} webhook within ${timeoutMs}ms ` +
+        `(${this.deliveries.length} delivery(ies) received)`,
+    ];
+    for (const { event, signatureValid } of this.deliveries) {
+      lines.push(
+        `  ${event.type} ${event.id}${signatureValid ? "" : " (bad signature, ignored)"}`
+      );
+    }
+    return lines.join("\n");
+  }
+}